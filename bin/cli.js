@@ -7,21 +7,45 @@
  * Usage:
  *   npx paylink --port 3000 --chain 1:https://eth-rpc.example.com
  *   npx paylink --solana https://api.mainnet-beta.solana.com
+ *   npx paylink --bitcoin https://blockstream.info/api
+ *   npx paylink --tron https://api.trongrid.io
  *   npx paylink --webhook https://your-server.com/webhook
+ *   npx paylink export --sqlite paylink.db --out backup.jsonl
+ *   npx paylink import --postgres postgres://localhost/paylink backup.jsonl
  */
 
-const { createServer } = require('../dist/index.js');
+const fs = require('fs');
+const { Readable } = require('stream');
+const { pipeline } = require('stream/promises');
+const {
+  createServer,
+  createSqliteStorage,
+  createPostgresStorage,
+  exportData,
+  importData,
+} = require('../dist/index.js');
+
+const COMMANDS = ['serve', 'export', 'import'];
 
 function parseArgs() {
   const args = process.argv.slice(2);
   const config = {
+    command: 'serve',
     port: 3000,
     baseUrl: '',
     chains: [],
     apiKey: '',
     webhook: null,
+    sqlite: null,
+    postgres: null,
+    out: null,
+    file: null,
   };
 
+  if (COMMANDS.includes(args[0])) {
+    config.command = args.shift();
+  }
+
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     const next = args[i + 1];
@@ -85,6 +109,63 @@ function parseArgs() {
         if (next && !next.startsWith('-')) i++;
         break;
 
+      case '--bitcoin':
+      case '-b': {
+        // Bitcoin mainnet through an Esplora API
+        const apiUrl = next && !next.startsWith('-') ? next : 'https://blockstream.info/api';
+        config.chains.push({
+          chainId: 8332,
+          name: 'Bitcoin',
+          symbol: 'BTC',
+          rpcUrl: apiUrl,
+          type: 'bitcoin',
+        });
+        if (next && !next.startsWith('-')) i++;
+        break;
+      }
+
+      case '--bitcoin-testnet': {
+        const apiUrl = next && !next.startsWith('-') ? next : 'https://blockstream.info/testnet/api';
+        config.chains.push({
+          chainId: 18332,
+          name: 'Bitcoin Testnet',
+          symbol: 'BTC',
+          rpcUrl: apiUrl,
+          type: 'bitcoin',
+        });
+        if (next && !next.startsWith('-')) i++;
+        break;
+      }
+
+      case '--tron':
+      case '-t': {
+        // TRON mainnet with USDT (TRC-20)
+        const apiUrl = next && !next.startsWith('-') ? next : 'https://api.trongrid.io';
+        config.chains.push({
+          chainId: 728126428,
+          name: 'TRON',
+          symbol: 'TRX',
+          rpcUrl: apiUrl,
+          type: 'tron',
+          tokens: { USDT: { address: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', decimals: 6 } },
+        });
+        if (next && !next.startsWith('-')) i++;
+        break;
+      }
+
+      case '--tron-nile': {
+        const apiUrl = next && !next.startsWith('-') ? next : 'https://nile.trongrid.io';
+        config.chains.push({
+          chainId: 3448148188,
+          name: 'TRON Nile',
+          symbol: 'TRX',
+          rpcUrl: apiUrl,
+          type: 'tron',
+        });
+        if (next && !next.startsWith('-')) i++;
+        break;
+      }
+
       case '--api-key':
       case '-k':
         config.apiKey = next;
@@ -124,6 +205,42 @@ function parseArgs() {
         });
         break;
 
+      case '--mock-bitcoin':
+        config.chains.push({
+          chainId: 8332,
+          name: 'Mock Bitcoin',
+          symbol: 'BTC',
+          rpcUrl: 'mock',
+          type: 'bitcoin',
+        });
+        break;
+
+      case '--mock-tron':
+        config.chains.push({
+          chainId: 728126428,
+          name: 'Mock TRON',
+          symbol: 'TRX',
+          rpcUrl: 'mock',
+          type: 'tron',
+        });
+        break;
+
+      case '--sqlite':
+        config.sqlite = next;
+        i++;
+        break;
+
+      case '--postgres':
+        config.postgres = next;
+        i++;
+        break;
+
+      case '--out':
+      case '-o':
+        config.out = next;
+        i++;
+        break;
+
       case '--help':
       case '-h':
         console.log(`
@@ -131,6 +248,13 @@ Paylink Protocol Server v1.1.0
 
 Usage:
   paylink [options]
+  paylink export [--out <file>] [storage options]
+  paylink import [file] [storage options]
+
+Commands:
+  serve                     Start the server (default)
+  export                    Write all data as an NDJSON archive (stdout unless --out)
+  import                    Load an archive from a file or stdin; safe to re-run
 
 Options:
   -p, --port <port>         Server port (default: 3000)
@@ -138,11 +262,20 @@ Options:
   -c, --chain <config>      Add EVM chain (format: chainId:rpcUrl or chainId:name:symbol:rpcUrl)
   -s, --solana [url]        Add Solana mainnet (default: https://api.mainnet-beta.solana.com)
       --solana-devnet [url] Add Solana devnet
+  -b, --bitcoin [url]       Add Bitcoin mainnet via an Esplora API (default: https://blockstream.info/api)
+      --bitcoin-testnet [url] Add Bitcoin testnet via an Esplora API
+  -t, --tron [url]          Add TRON mainnet with USDT (default: https://api.trongrid.io)
+      --tron-nile [url]     Add TRON Nile testnet
   -k, --api-key <key>       API key for admin endpoints
   -w, --webhook <url>       Webhook URL for notifications
       --webhook-secret <s>  Webhook HMAC secret
   -m, --mock                Use mock EVM chain for testing
       --mock-solana         Use mock Solana chain for testing
+      --mock-bitcoin        Use mock Bitcoin chain for testing
+      --mock-tron           Use mock TRON chain for testing
+      --sqlite <file>       Store data in a SQLite database (node:sqlite or better-sqlite3)
+      --postgres <url>      Store data in PostgreSQL (requires pg)
+  -o, --out <file>          Export destination
   -h, --help                Show this help
 
 Examples:
@@ -155,6 +288,9 @@ Examples:
   # Start with Solana mainnet
   paylink --solana https://api.mainnet-beta.solana.com --api-key secret
 
+  # Start with Bitcoin mainnet
+  paylink --bitcoin https://mempool.space/api --api-key secret
+
   # Multiple chains with webhook
   paylink -c 1:https://eth-rpc.com --solana -w https://your-server.com/webhook
 
@@ -165,11 +301,24 @@ Examples:
     -k your-api-key \\
     -w https://your-server.com/webhook \\
     --webhook-secret your-hmac-secret
+
+  # Move data from SQLite to PostgreSQL
+  paylink export --sqlite paylink.db --out backup.jsonl
+  paylink import --postgres postgres://localhost/paylink backup.jsonl
 `);
         process.exit(0);
+
+      default:
+        if (config.command === 'import' && !arg.startsWith('-') && !config.file) {
+          config.file = arg;
+        }
     }
   }
 
+  if (config.command !== 'serve') {
+    return config;
+  }
+
   // Default to mock if no chains
   if (config.chains.length === 0) {
     console.log('No chains configured, using mock chains for testing');
@@ -191,6 +340,71 @@ Examples:
   return config;
 }
 
-const config = parseArgs();
-const server = createServer(config);
-server.start();
+function createStorage(config) {
+  if (config.sqlite) {
+    let database;
+    try {
+      const Database = require('better-sqlite3');
+      database = new Database(config.sqlite);
+    } catch {
+      const { DatabaseSync } = require('node:sqlite');
+      database = new DatabaseSync(config.sqlite);
+    }
+    return createSqliteStorage({ database });
+  }
+
+  if (config.postgres) {
+    const { Pool } = require('pg');
+    return createPostgresStorage({ pool: new Pool({ connectionString: config.postgres }) });
+  }
+
+  return undefined;
+}
+
+async function runExport(storage, config) {
+  const output = config.out ? fs.createWriteStream(config.out) : process.stdout;
+  await pipeline(Readable.from(exportData(storage)), output);
+  if (config.out) {
+    console.error(`Exported to ${config.out}`);
+  }
+}
+
+async function runImport(storage, config) {
+  const input = config.file ? fs.createReadStream(config.file) : process.stdin;
+  const { counts } = await importData(storage, input);
+  const summary = Object.entries(counts)
+    .map(([type, count]) => `${type}: ${count}`)
+    .join(', ');
+  console.error(`Imported ${summary}`);
+}
+
+async function main() {
+  const config = parseArgs();
+  const storage = createStorage(config);
+
+  if (config.command === 'serve') {
+    const server = createServer({ ...config, storage });
+    await server.start();
+    return;
+  }
+
+  if (!storage) {
+    throw new Error(`paylink ${config.command} needs --sqlite <file> or --postgres <url>`);
+  }
+
+  await storage.init?.();
+  try {
+    if (config.command === 'export') {
+      await runExport(storage, config);
+    } else {
+      await runImport(storage, config);
+    }
+  } finally {
+    await storage.close?.();
+  }
+}
+
+main().catch(err => {
+  console.error(err.message);
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+/**
+ * Access tokens
+ * HS256 JSON Web Tokens issued after a payment, so later visits of a link are
+ * granted from the token instead of a payment lookup and a payer address in the URL.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Kind of access a token grants
+ */
+export type AccessScope = 'single-use' | 'multi-use' | 'subscription' | 'installment';
+
+/**
+ * Claims of an access token
+ */
+export interface AccessTokenClaims {
+  /** Token ID */
+  jti: string;
+  /** Payer address */
+  sub: string;
+  /** Pay link ID */
+  link: string;
+  scope: AccessScope;
+  /** Payment, subscription or installment plan the access comes from; revoking it revokes its tokens */
+  grant: string;
+  /** A use of the link was counted when the token was issued; proxied fetches with it count no more */
+  counted?: boolean;
+  /** Issued at, in seconds since the epoch */
+  iat: number;
+  /** Issued at, in milliseconds: revocations are compared against it, as a revocation and a new token can share a second */
+  iatMs?: number;
+  /** Expiry, in seconds since the epoch */
+  exp: number;
+}
+
+const HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+function signature(data: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Sign access token claims as an HS256 JWT
+ */
+export function signAccessToken(claims: AccessTokenClaims, secret: string): string {
+  const data = `${HEADER}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+  return `${data}.${signature(data, secret).toString('base64url')}`;
+}
+
+/**
+ * Claims of a token signed with `secret` that has not expired, else null
+ * Only HS256 is accepted, whatever the token's header says.
+ */
+export function verifyAccessToken(token: string, secret: string, now: Date = new Date()): AccessTokenClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== HEADER) {
+    return null;
+  }
+
+  const expected = signature(`${parts[0]}.${parts[1]}`, secret);
+  const actual = Buffer.from(parts[2], 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')) as AccessTokenClaims;
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now.getTime()) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
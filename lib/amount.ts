@@ -0,0 +1,125 @@
+/**
+ * Exact decimal amounts
+ * Amounts are decimal strings ("0.1", "25.5"); all math runs on bigint
+ * fixed-point values so 18-decimal tokens and large wei values never lose precision.
+ */
+
+/** Precision used when a token's decimals are unknown */
+export const DEFAULT_DECIMALS = 18;
+
+/**
+ * Resolve the decimals of a token on a chain (undefined if unknown)
+ */
+export type DecimalsResolver = (chainId: number, tokenSymbol: string) => number | undefined;
+
+const AMOUNT_PATTERN = /^(-)?(\d*)(?:\.(\d*))?$/;
+
+/**
+ * Check that a string is a non-negative decimal amount
+ */
+export function isValidAmount(amount: string): boolean {
+  const match = typeof amount === 'string' ? AMOUNT_PATTERN.exec(amount.trim()) : null;
+  return !!match && !match[1] && !!(match[2] || match[3]);
+}
+
+/**
+ * Parse a decimal amount into the smallest unit, e.g. parseUnits('1.5', 6) === 1500000n
+ * Digits beyond `decimals` are truncated.
+ */
+export function parseUnits(amount: string, decimals: number = DEFAULT_DECIMALS): bigint {
+  const [sign, whole, fraction] = split(amount);
+  return BigInt(sign + whole + fraction.slice(0, decimals).padEnd(decimals, '0'));
+}
+
+/**
+ * Format a raw integer amount with the given number of decimals
+ * e.g. formatUnits(1500000n, 6) === '1.5'
+ */
+export function formatUnits(value: bigint, decimals: number = DEFAULT_DECIMALS): string {
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Compare amounts exactly (-1, 0 or 1)
+ */
+export function compareAmounts(a: string, b: string): number {
+  const scale = Math.max(scaleOf(a), scaleOf(b));
+  const diff = parseUnits(a, scale) - parseUnits(b, scale);
+  return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+}
+
+/**
+ * Sum amounts exactly
+ */
+export function addAmounts(...amounts: string[]): string {
+  const scale = Math.max(0, ...amounts.map(scaleOf));
+  return formatUnits(amounts.reduce((sum, amount) => sum + parseUnits(amount, scale), 0n), scale);
+}
+
+/**
+ * Subtract amounts exactly; the result may be negative
+ */
+export function subtractAmounts(a: string, b: string): string {
+  const scale = Math.max(scaleOf(a), scaleOf(b));
+  return formatUnits(parseUnits(a, scale) - parseUnits(b, scale), scale);
+}
+
+/**
+ * Take a percentage of an amount, rounded down to `decimals`
+ * e.g. percentOf('10', 12.5, 6) === '1.25'
+ */
+export function percentOf(amount: string, percent: number, decimals: number = DEFAULT_DECIMALS): string {
+  const factor = String(percent);
+  if (!Number.isFinite(percent) || percent < 0 || /e/i.test(factor)) {
+    throw new Error('Invalid percent');
+  }
+  const percentScale = scaleOf(factor);
+  const scaledPercent = parseUnits(factor, percentScale);
+  const value = (parseUnits(amount, decimals) * scaledPercent) / (100n * 10n ** BigInt(percentScale));
+  return formatUnits(value, decimals);
+}
+
+/**
+ * Split an amount into `parts` shares at `decimals` precision that sum exactly to it
+ * The rounding remainder goes to the last share.
+ */
+export function splitAmount(amount: string, parts: number, decimals: number = DEFAULT_DECIMALS): string[] {
+  if (!Number.isInteger(parts) || parts < 1) {
+    throw new Error('Invalid number of parts');
+  }
+  const total = parseUnits(amount, decimals);
+  const share = total / BigInt(parts);
+  const shares = Array.from({ length: parts }, () => share);
+  shares[parts - 1] += total - share * BigInt(parts);
+  return shares.map(value => formatUnits(value, decimals));
+}
+
+/**
+ * Percentage of `part` in `total`, rounded to a whole number (0 when total is zero)
+ */
+export function percentageOf(part: string, total: string): number {
+  const scale = Math.max(scaleOf(part), scaleOf(total));
+  const whole = parseUnits(total, scale);
+  if (whole === 0n) return 0;
+  return Number((parseUnits(part, scale) * 200n + whole) / (2n * whole));
+}
+
+/**
+ * Number of fractional digits in an amount
+ */
+function scaleOf(amount: string): number {
+  return split(amount)[2].length;
+}
+
+/** Split into sign, whole digits and significant fraction digits */
+function split(amount: string): [string, string, string] {
+  const match = typeof amount === 'string' ? AMOUNT_PATTERN.exec(amount.trim()) : null;
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+  return [match[1] ?? '', match[2] || '0', (match[3] ?? '').replace(/0+$/, '')];
+}
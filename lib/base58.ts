@@ -0,0 +1,90 @@
+/**
+ * Base58 (Bitcoin alphabet), used for Solana public keys, extended keys and TRON addresses
+ */
+
+import { createHash } from 'crypto';
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encode bytes as base58
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = value * 256n + BigInt(byte);
+  }
+
+  let encoded = '';
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+
+  // Leading zero bytes are kept as leading '1's
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+
+  return encoded;
+}
+
+/**
+ * Decode a base58 string
+ */
+export function decodeBase58(encoded: string): Uint8Array {
+  let value = 0n;
+  for (const char of encoded) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    value = value * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+
+  for (const char of encoded) {
+    if (char !== '1') break;
+    bytes.unshift(0);
+  }
+
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Encode bytes as base58 with a trailing 4-byte double-SHA256 checksum (Base58Check)
+ */
+export function encodeBase58Check(payload: Uint8Array): string {
+  const bytes = new Uint8Array(payload.length + 4);
+  bytes.set(payload);
+  bytes.set(sha256(sha256(payload)).subarray(0, 4), payload.length);
+  return encodeBase58(bytes);
+}
+
+/**
+ * Decode base58 with a trailing 4-byte double-SHA256 checksum (Base58Check)
+ */
+export function decodeBase58Check(encoded: string): Uint8Array {
+  const bytes = decodeBase58(encoded);
+  if (bytes.length < 4) {
+    throw new Error('Invalid base58check checksum');
+  }
+
+  const payload = bytes.subarray(0, bytes.length - 4);
+  const checksum = sha256(sha256(payload)).subarray(0, 4);
+  if (!checksum.every((byte, i) => byte === bytes[payload.length + i])) {
+    throw new Error('Invalid base58check checksum');
+  }
+
+  return payload;
+}
+
+function sha256(data: Uint8Array): Uint8Array {
+  return createHash('sha256').update(data).digest();
+}
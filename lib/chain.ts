@@ -1,21 +1,201 @@
-import type { ChainConfig, PaymentCheckResult } from './types.js';
-import { compareAmounts } from './utils.js';
+import type { ChainConfig, PaymentCheckResult, TransactionDepth } from './types.js';
+import { compareAmounts, formatUnits } from './amount.js';
+import {
+  TRANSFER_TOPIC,
+  addressToTopic,
+  decodeTransfers,
+  resolveToken,
+  type ReceiptLog,
+  type TransferLog,
+} from './erc20.js';
+import { RpcClient, RpcError, RpcRequestError, isMethodUnsupported, rpcEndpoints, type RpcEndpointHealth } from './rpc.js';
+import { EIP1271_MAGIC_VALUE, encodeIsValidSignatureCall } from './wallet-auth.js';
+import {
+  callFrameTransfers,
+  parityTraceTransfers,
+  type CallFrame,
+  type InternalTransfer,
+  type ParityTrace,
+} from './trace.js';
+
+/**
+ * Transaction of a block fetched with full transaction objects
+ */
+export interface BlockTransaction {
+  hash: string;
+  from: string;
+  /** Null for contract creations */
+  to: string | null;
+  /** Value in wei (hex) */
+  value: string;
+}
 
 /**
  * Blockchain payment verifier
  */
 export class ChainVerifier {
   private config: ChainConfig;
-  private requestId = 0;
+  private client: RpcClient;
+  /** Trace methods the endpoints lack; both missing disables trace lookups */
+  private unsupportedTraces = new Set<string>();
 
   constructor(config: ChainConfig) {
     this.config = config;
+    this.client = new RpcClient({ urls: rpcEndpoints(config), quorum: config.rpcQuorum });
   }
 
   get chainId(): number {
     return this.config.chainId;
   }
 
+  /**
+   * Blocks a transaction must be behind the head before it is confirmed (default: 1)
+   */
+  get confirmations(): number {
+    return this.config.confirmations ?? 1;
+  }
+
+  /**
+   * Health of the chain's RPC endpoints
+   */
+  getRpcHealth(): RpcEndpointHealth[] {
+    return this.client.getHealth();
+  }
+
+  /**
+   * Latest block number; the lowest head among the quorum, so confirmations are never overcounted
+   */
+  async getBlockNumber(): Promise<number> {
+    const heads = await this.client.requestMany<string>('eth_blockNumber', []);
+    return Math.min(...heads.map(head => parseInt(head ?? '0x0', 16)));
+  }
+
+  /**
+   * Transactions of a block
+   */
+  async getBlockTransactions(blockNumber: number): Promise<BlockTransaction[]> {
+    const block = await this.client.request<{ transactions?: BlockTransaction[] }>('eth_getBlockByNumber', [
+      '0x' + blockNumber.toString(16),
+      true,
+    ]);
+    return block?.transactions ?? [];
+  }
+
+  /**
+   * ERC-20 Transfer logs emitted by `tokens` to `recipients` within a block range (inclusive)
+   */
+  async getTransferLogs(params: {
+    fromBlock: number;
+    toBlock: number;
+    tokens: string[];
+    recipients: string[];
+  }): Promise<TransferLog[]> {
+    if (params.tokens.length === 0 || params.recipients.length === 0) {
+      return [];
+    }
+
+    const logs = await this.client.request<TransferLog[]>('eth_getLogs', [{
+      fromBlock: '0x' + params.fromBlock.toString(16),
+      toBlock: '0x' + params.toBlock.toString(16),
+      address: params.tokens,
+      topics: [TRANSFER_TOPIC, null, params.recipients.map(addressToTopic)],
+    }]);
+    return logs ?? [];
+  }
+
+  /**
+   * Native value moved by a transaction's calls, internal ones included
+   * Uses `debug_traceTransaction` (callTracer), else `trace_transaction`. Null when
+   * the endpoints offer neither; other RPC errors are thrown.
+   */
+  async getInternalTransfers(txHash: string): Promise<InternalTransfer[] | null> {
+    // Endpoints of a quorum must agree on the transfers, not on the trace format
+    const key = (transfers: InternalTransfer[]) => transfers.map(t => [t.from, t.to, t.value.toString()]);
+
+    if (!this.unsupportedTraces.has('debug_traceTransaction')) {
+      try {
+        const frame = await this.client.requestAgreed<CallFrame>(
+          'debug_traceTransaction',
+          [txHash, { tracer: 'callTracer' }],
+          frame => frame && key(callFrameTransfers(frame))
+        );
+        return frame ? callFrameTransfers(frame) : [];
+      } catch (error) {
+        if (!isMethodUnsupported(error)) throw error;
+        this.unsupportedTraces.add('debug_traceTransaction');
+      }
+    }
+
+    if (!this.unsupportedTraces.has('trace_transaction')) {
+      try {
+        const traces = await this.client.requestAgreed<ParityTrace[]>(
+          'trace_transaction',
+          [txHash],
+          traces => traces && key(parityTraceTransfers(traces))
+        );
+        return parityTraceTransfers(traces ?? []);
+      } catch (error) {
+        if (!isMethodUnsupported(error)) throw error;
+        this.unsupportedTraces.add('trace_transaction');
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether the contract wallet at `address` accepts a signature of a `personal_sign` message (EIP-1271)
+   * False for addresses without code and for contracts that reject or revert; RPC outages are thrown.
+   */
+  async verifyContractSignature(message: string, signature: string, address: string): Promise<boolean> {
+    let data: string;
+    try {
+      data = encodeIsValidSignatureCall(message, signature);
+    } catch {
+      return false;
+    }
+
+    try {
+      const code = await this.client.requestAgreed<string>('eth_getCode', [address, 'latest']);
+      if (!code || code === '0x') {
+        return false;
+      }
+      const result = await this.client.requestAgreed<string>('eth_call', [{ to: address, data }, 'latest']);
+      return typeof result === 'string' && result.slice(0, 10).toLowerCase() === EIP1271_MAGIC_VALUE;
+    } catch (error) {
+      // A reverted call is the contract's answer
+      if (error instanceof RpcRequestError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a transaction is still in the canonical chain, and its confirmations
+   * RPC errors are thrown rather than reported as a missing transaction.
+   */
+  async getTransactionDepth(txHash: string): Promise<TransactionDepth> {
+    // Nodes only return receipts of transactions in the canonical chain
+    const receipt = await this.getReceipt(txHash);
+    if (!receipt?.blockNumber) {
+      // Gone or back in the mempool; a node still reporting it mined is lagging, not reorganized
+      const tx = await this.client.requestAgreed<any>('eth_getTransactionByHash', [txHash], tx => tx && {
+        blockNumber: tx.blockNumber,
+      });
+      if (tx?.blockNumber) {
+        throw new RpcError(`Transaction ${txHash} is mined but has no receipt`);
+      }
+      return { included: false, confirmations: 0 };
+    }
+    if (receipt.status === '0x0') {
+      return { included: false, confirmations: 0 };
+    }
+
+    const head = await this.getBlockNumber();
+    return { included: true, confirmations: head - parseInt(receipt.blockNumber, 16) };
+  }
+
   /**
    * Verify payment on chain
    */
@@ -23,11 +203,19 @@ export class ChainVerifier {
     txHash: string;
     recipient: string;
     amount: string;
+    /** Expected token; native currency when omitted or equal to the chain symbol */
+    tokenSymbol?: string;
   }): Promise<PaymentCheckResult> {
     try {
-      // Get transaction
-      const tx = await this.rpc('eth_getTransactionByHash', [params.txHash]);
-      
+      // Get transaction; with a quorum, the endpoints must agree on it
+      const tx = await this.client.requestAgreed<any>('eth_getTransactionByHash', [params.txHash], tx => tx && {
+        blockNumber: tx.blockNumber,
+        blockHash: tx.blockHash,
+        from: tx.from?.toLowerCase(),
+        to: tx.to?.toLowerCase(),
+        value: tx.value,
+      });
+
       if (!tx) {
         return { status: 'not_found' };
       }
@@ -38,8 +226,8 @@ export class ChainVerifier {
       }
 
       // Get receipt
-      const receipt = await this.rpc('eth_getTransactionReceipt', [params.txHash]);
-      
+      const receipt = await this.getReceipt(params.txHash);
+
       if (!receipt) {
         return { status: 'pending' };
       }
@@ -50,98 +238,144 @@ export class ChainVerifier {
       }
 
       // Check confirmations
-      const currentBlock = await this.rpc('eth_blockNumber', []);
-      const txBlock = parseInt(tx.blockNumber, 16);
-      const current = parseInt(currentBlock, 16);
-      const confirmations = current - txBlock;
+      const confirmations = (await this.getBlockNumber()) - parseInt(tx.blockNumber, 16);
 
-      if (confirmations < (this.config.confirmations ?? 1)) {
+      if (confirmations < this.confirmations) {
         return { status: 'pending' };
       }
 
-      // Verify recipient
-      const recipientLower = params.recipient.toLowerCase();
-      const toAddress = (tx.to || '').toLowerCase();
-      
-      if (toAddress !== recipientLower) {
-        // Check if it's a token transfer
-        if (!this.isTokenTransfer(receipt, recipientLower)) {
-          return { status: 'not_found' };
-        }
+      // Verify recipient and amount; contract wallets pay with internal calls
+      const transfer = this.findTransfer(tx, receipt, params.recipient, params.tokenSymbol)
+        ?? await this.findInternalTransfer(params.txHash, tx, params.recipient, params.tokenSymbol);
+      if (!transfer) {
+        return { status: 'not_found' };
       }
 
-      // Calculate amount
-      const valueWei = BigInt(tx.value || '0');
-      const actualAmount = this.weiToEther(valueWei);
+      const { actualAmount, fromAddress } = transfer;
 
       // Check amount
       if (compareAmounts(actualAmount, params.amount) < 0) {
         return {
           status: 'underpaid',
           actualAmount,
-          fromAddress: tx.from,
+          fromAddress,
         };
       }
 
       return {
         status: 'confirmed',
         actualAmount,
-        fromAddress: tx.from,
+        fromAddress,
         raw: { tx, receipt },
       };
     } catch (error) {
       console.error(`Chain ${this.config.chainId} verification error:`, error);
-      return { status: 'not_found' };
+      // Only an empty answer means the transaction does not exist; outages and JSON-RPC
+      // errors (rate limits, "header not found" on a lagging node) are retried
+      return { status: 'rpc_error' };
     }
   }
 
-  private async rpc(method: string, params: unknown[]): Promise<any> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 30000);
+  /**
+   * Transaction receipt, agreed by the quorum on outcome, block and logs
+   */
+  private async getReceipt(txHash: string): Promise<any> {
+    return this.client.requestAgreed<any>('eth_getTransactionReceipt', [txHash], receipt => receipt && {
+      status: receipt.status,
+      blockNumber: receipt.blockNumber,
+      blockHash: receipt.blockHash,
+      logs: (receipt.logs ?? []).map((log: ReceiptLog) => [log.address.toLowerCase(), log.topics, log.data]),
+    });
+  }
 
-    try {
-      const response = await fetch(this.config.rpcUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: ++this.requestId,
-          method,
-          params,
-        }),
-        signal: controller.signal,
-      });
+  /**
+   * Locate the payment to the recipient in the expected currency
+   * Native payments use tx.value; token payments sum the token's Transfer logs
+   * to the recipient. Transfers of other tokens are ignored.
+   */
+  private findTransfer(
+    tx: any,
+    receipt: { logs?: ReceiptLog[] },
+    recipient: string,
+    tokenSymbol?: string
+  ): { actualAmount: string; fromAddress: string } | null {
+    const recipientLower = recipient.toLowerCase();
+    const token = tokenSymbol ? resolveToken(this.config.tokens, tokenSymbol) : undefined;
 
-      const data = await response.json() as { error?: { message: string }; result?: unknown };
-      
-      if (data.error) {
-        throw new Error(data.error.message);
+    if (!token) {
+      if (tokenSymbol && tokenSymbol.toUpperCase() !== this.config.symbol.toUpperCase()) {
+        console.warn(`Token ${tokenSymbol} is not configured for chain ${this.config.chainId}`);
+        return null;
       }
-      
-      return data.result;
-    } finally {
-      clearTimeout(timeout);
-    }
-  }
-
-  private isTokenTransfer(receipt: any, recipient: string): boolean {
-    // ERC20 Transfer event signature
-    const transferTopic = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
-    
-    for (const log of receipt.logs || []) {
-      if (log.topics?.[0] === transferTopic && log.topics.length >= 3) {
-        const to = '0x' + log.topics[2].slice(26).toLowerCase();
-        if (to === recipient) {
-          return true;
-        }
+      if ((tx.to || '').toLowerCase() !== recipientLower) {
+        return null;
       }
+      return { actualAmount: formatUnits(BigInt(tx.value || '0'), 18), fromAddress: tx.from };
+    }
+
+    const contract = token.address.toLowerCase();
+    const transfers = decodeTransfers(receipt.logs).filter(
+      t => t.token === contract && t.to === recipientLower
+    );
+    if (transfers.length === 0) {
+      return null;
     }
-    
-    return false;
+
+    const total = transfers.reduce((sum, t) => sum + t.value, 0n);
+    return { actualAmount: formatUnits(total, token.decimals), fromAddress: transfers[0].from };
   }
 
-  private weiToEther(wei: bigint): string {
-    return (Number(wei) / 1e18).toString();
+  /**
+   * Sum the internal native transfers to the recipient
+   * The contract sending them is the payer when it paid from its own balance (a Safe, an
+   * ERC-4337 account). A contract forwarding value it received in the transaction (a router)
+   * is not: the payer is the wallet the transaction targeted when that wallet funded it,
+   * else the transaction's sender. Null for token payments, and when no endpoint can trace
+   * the transaction.
+   */
+  private async findInternalTransfer(
+    txHash: string,
+    tx: { from: string; to?: string; value?: string },
+    recipient: string,
+    tokenSymbol?: string
+  ): Promise<{ actualAmount: string; fromAddress: string } | null> {
+    if (tokenSymbol && tokenSymbol.toUpperCase() !== this.config.symbol.toUpperCase()) {
+      return null;
+    }
+
+    const internal = await this.getInternalTransfers(txHash);
+    if (!internal) {
+      console.warn(`Chain ${this.config.chainId}: no trace API, internal transfers of ${txHash} are not checked`);
+      return null;
+    }
+
+    const recipientLower = recipient.toLowerCase();
+    const transfers = internal.filter(t => t.to === recipientLower);
+    if (transfers.length === 0) {
+      return null;
+    }
+
+    const total = transfers.reduce((sum, t) => sum + t.value, 0n);
+    return { actualAmount: formatUnits(total, 18), fromAddress: this.internalPayer(tx, internal, transfers[0].from) };
+  }
+
+  /**
+   * Account whose funds an internal transfer from `sender` moved
+   */
+  private internalPayer(
+    tx: { from: string; to?: string; value?: string },
+    internal: InternalTransfer[],
+    sender: string
+  ): string {
+    const funders = internal.filter(t => t.to === sender).map(t => t.from);
+    if (funders.length === 0) {
+      return sender;
+    }
+    const wallet = tx.to?.toLowerCase();
+    if (wallet && BigInt(tx.value || '0') === 0n && funders.includes(wallet)) {
+      return wallet;
+    }
+    return tx.from;
   }
 }
 
@@ -152,6 +386,7 @@ export class MockVerifier {
   private confirmed = new Set<string>();
   private pending = new Set<string>();
   private failed = new Set<string>();
+  private reverted = new Set<string>();
 
   chainId = 1;
 
@@ -169,10 +404,16 @@ export class MockVerifier {
     this.failed.add(txHash);
   }
 
+  /** Simulate a confirmed transaction that a reorg removed from the chain */
+  markReverted(txHash: string): void {
+    this.reverted.add(txHash);
+  }
+
   async verifyPayment(params: {
     txHash: string;
     recipient: string;
     amount: string;
+    tokenSymbol?: string;
   }): Promise<PaymentCheckResult> {
     await new Promise(r => setTimeout(r, 100));
 
@@ -180,6 +421,10 @@ export class MockVerifier {
       return { status: 'failed' };
     }
 
+    if (this.reverted.has(params.txHash)) {
+      return { status: 'not_found' };
+    }
+
     if (this.pending.has(params.txHash)) {
       return { status: 'pending' };
     }
@@ -191,4 +436,12 @@ export class MockVerifier {
       fromAddress: '0x' + 'a'.repeat(40),
     };
   }
+
+  async getTransactionDepth(txHash: string): Promise<TransactionDepth> {
+    if (this.reverted.has(txHash) || this.failed.has(txHash)) {
+      return { included: false, confirmations: 0 };
+    }
+    // Mock transactions are final at once
+    return { included: true, confirmations: 0, finalized: true };
+  }
 }
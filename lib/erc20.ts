@@ -0,0 +1,80 @@
+import type { TokenConfig } from './types.js';
+
+/**
+ * ERC-20 Transfer(address,address,uint256) event topic
+ */
+export const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+/**
+ * Receipt log as returned by eth_getTransactionReceipt
+ */
+export interface ReceiptLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+/**
+ * Log as returned by eth_getLogs
+ */
+export interface TransferLog extends ReceiptLog {
+  transactionHash: string;
+  blockNumber: string;
+}
+
+/**
+ * Decoded ERC-20 transfer
+ */
+export interface TokenTransfer {
+  /** Emitting token contract (lowercase) */
+  token: string;
+  from: string;
+  to: string;
+  /** Raw amount in the token's smallest unit */
+  value: bigint;
+}
+
+/**
+ * Decode all ERC-20 Transfer events in a receipt
+ * Logs with a different signature or without indexed from/to (e.g. ERC-721) are skipped
+ */
+export function decodeTransfers(logs: ReceiptLog[] = []): TokenTransfer[] {
+  const transfers: TokenTransfer[] = [];
+
+  for (const log of logs) {
+    if (log.topics?.[0] !== TRANSFER_TOPIC || log.topics.length !== 3) continue;
+
+    transfers.push({
+      token: log.address.toLowerCase(),
+      from: topicToAddress(log.topics[1]),
+      to: topicToAddress(log.topics[2]),
+      value: log.data && log.data !== '0x' ? BigInt(log.data) : 0n,
+    });
+  }
+
+  return transfers;
+}
+
+/**
+ * Look up a token by symbol (case-insensitive)
+ */
+export function resolveToken(
+  tokens: Record<string, TokenConfig> | undefined,
+  symbol: string
+): TokenConfig | undefined {
+  if (!tokens) return undefined;
+  const wanted = symbol.toUpperCase();
+  const key = Object.keys(tokens).find(k => k.toUpperCase() === wanted);
+  return key ? tokens[key] : undefined;
+}
+
+/**
+ * Encode an address as an indexed event topic
+ */
+export function addressToTopic(address: string): string {
+  return '0x' + address.slice(2).toLowerCase().padStart(64, '0');
+}
+
+function topicToAddress(topic: string): string {
+  return '0x' + topic.slice(26).toLowerCase();
+}
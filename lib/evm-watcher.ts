@@ -0,0 +1,238 @@
+/**
+ * EVM payment watcher
+ * Follows new blocks of one chain and matches native transfers and ERC-20
+ * Transfer logs to open payment intents, so EVM payments complete without the
+ * buyer submitting a txHash. Progress is persisted as a chain checkpoint.
+ * Only intents with a derived deposit address are watched: a transfer to a fixed
+ * merchant address may come from anyone (a third party, unrelated income), so it
+ * is left to the buyer's `/confirm`.
+ */
+
+import type { ChainConfig, PaymentIntent, Storage } from './types.js';
+import type { ChainVerifier } from './chain.js';
+import { compareAmounts } from './amount.js';
+import { decodeTransfers, resolveToken } from './erc20.js';
+import { RpcError } from './rpc.js';
+import {
+  DEFAULT_WATCH_INTERVAL,
+  DEFAULT_INTENT_GRACE_PERIOD,
+  isIntentStale,
+  expirePaymentIntent,
+  type PaymentHandler,
+} from './watcher.js';
+
+/** Default maximum number of blocks scanned per poll */
+export const DEFAULT_MAX_BLOCKS_PER_POLL = 100;
+
+/**
+ * EVM payment watcher options
+ */
+export interface EVMPaymentWatcherOptions {
+  storage: Storage;
+  /** Watched chain; `tokens` maps intent symbols to contracts */
+  chain: ChainConfig;
+  verifier: ChainVerifier;
+  /** Called once per confirmed transaction matched to an open intent */
+  onPayment: PaymentHandler;
+  /** Polling interval in ms (default: 5000) */
+  interval?: number;
+  /** Keep watching this long after an intent expires, for late transactions in ms (default: 60000) */
+  gracePeriod?: number;
+  /** Maximum blocks scanned per poll (default: 100) */
+  maxBlocks?: number;
+}
+
+/** Transfer seen on chain that may pay an intent */
+interface Candidate {
+  txHash: string;
+  recipient: string;
+  tokenSymbol: string;
+}
+
+/**
+ * EVM Payment Watcher
+ * Scans confirmed blocks since the stored checkpoint for payments to open intents
+ */
+export class EVMPaymentWatcher {
+  private options: Required<EVMPaymentWatcherOptions>;
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+
+  constructor(options: EVMPaymentWatcherOptions) {
+    this.options = {
+      ...options,
+      interval: options.interval ?? DEFAULT_WATCH_INTERVAL,
+      gracePeriod: options.gracePeriod ?? DEFAULT_INTENT_GRACE_PERIOD,
+      maxBlocks: options.maxBlocks ?? DEFAULT_MAX_BLOCKS_PER_POLL,
+    };
+  }
+
+  get chainId(): number {
+    return this.options.chain.chainId;
+  }
+
+  /**
+   * Start polling
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.poll().catch(err => {
+        console.error(`EVM watcher error on chain ${this.chainId}:`, err);
+      });
+    }, this.options.interval);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Scan the next range of confirmed blocks once; overlapping calls share the running poll
+   */
+  poll(): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.scan().finally(() => {
+        this.polling = undefined;
+      });
+    }
+    return this.polling;
+  }
+
+  private async scan(): Promise<void> {
+    const { storage, verifier, maxBlocks } = this.options;
+
+    // Only blocks with enough confirmations are scanned, so matches verify as confirmed
+    const safeHead = (await verifier.getBlockNumber()) - verifier.confirmations;
+    const checkpoint = await storage.getChainCheckpoint(this.chainId);
+    // A new chain starts at the current head instead of replaying history
+    const lastScanned = checkpoint?.blockNumber ?? safeHead - 1;
+    if (safeHead <= lastScanned) return;
+
+    const intents = (await this.openIntents()).filter(intent => intent.derivationIndex !== undefined);
+    const toBlock = intents.length === 0 ? safeHead : Math.min(safeHead, lastScanned + maxBlocks);
+
+    if (intents.length > 0) {
+      const candidates = await this.findCandidates(intents, lastScanned + 1, toBlock);
+      for (const candidate of candidates) {
+        await this.match(candidate, intents);
+      }
+    }
+
+    await storage.saveChainCheckpoint({ chainId: this.chainId, blockNumber: toBlock, updatedAt: new Date() });
+  }
+
+  /**
+   * Open intents of the chain; stale ones are expired on the way
+   */
+  private async openIntents(): Promise<PaymentIntent[]> {
+    const open: PaymentIntent[] = [];
+    for (const intent of await this.options.storage.getOpenPaymentIntents(this.chainId)) {
+      if (isIntentStale(intent, this.options.gracePeriod)) {
+        await expirePaymentIntent(this.options.storage, intent);
+      } else {
+        open.push(intent);
+      }
+    }
+    return open;
+  }
+
+  /**
+   * Native transfers and token Transfer logs to intent recipients within a block range
+   */
+  private async findCandidates(intents: PaymentIntent[], fromBlock: number, toBlock: number): Promise<Candidate[]> {
+    const { chain, verifier } = this.options;
+    const candidates: Candidate[] = [];
+
+    const nativeRecipients = new Set<string>();
+    const tokenRecipients = new Set<string>();
+    const symbolsByContract = new Map<string, string>();
+
+    for (const intent of intents) {
+      const token = resolveToken(chain.tokens, intent.tokenSymbol);
+      if (token) {
+        tokenRecipients.add(intent.recipient.toLowerCase());
+        symbolsByContract.set(token.address.toLowerCase(), intent.tokenSymbol);
+      } else if (intent.tokenSymbol.toUpperCase() === chain.symbol.toUpperCase()) {
+        nativeRecipients.add(intent.recipient.toLowerCase());
+      }
+    }
+
+    if (nativeRecipients.size > 0) {
+      for (let block = fromBlock; block <= toBlock; block++) {
+        for (const tx of await verifier.getBlockTransactions(block)) {
+          const to = tx.to?.toLowerCase();
+          if (to && nativeRecipients.has(to) && BigInt(tx.value || '0') > 0n) {
+            candidates.push({ txHash: tx.hash, recipient: to, tokenSymbol: chain.symbol });
+          }
+        }
+      }
+    }
+
+    const logs = await verifier.getTransferLogs({
+      fromBlock,
+      toBlock,
+      tokens: [...symbolsByContract.keys()],
+      recipients: [...tokenRecipients],
+    });
+    for (const log of logs) {
+      for (const transfer of decodeTransfers([log])) {
+        const tokenSymbol = symbolsByContract.get(transfer.token);
+        if (tokenSymbol && tokenRecipients.has(transfer.to)) {
+          candidates.push({ txHash: log.transactionHash, recipient: transfer.to, tokenSymbol });
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Match a transfer to the open intent for its deposit address and report it
+   * An address shared by several open intents cannot tell which buyer paid, so those
+   * transfers are left to the buyer's `/confirm`.
+   */
+  private async match(candidate: Candidate, intents: PaymentIntent[]): Promise<void> {
+    // Transactions already recorded (rescans, /confirm) are skipped
+    if (await this.options.storage.getPaymentByTxHash(candidate.txHash)) return;
+
+    const eligible = intents.filter(intent =>
+      intent.recipient.toLowerCase() === candidate.recipient &&
+      intent.tokenSymbol.toUpperCase() === candidate.tokenSymbol.toUpperCase()
+    );
+    if (eligible.length !== 1) return;
+    const [intent] = eligible;
+
+    // Verify against a zero amount to read what was received
+    const result = await this.options.verifier.verifyPayment({
+      txHash: candidate.txHash,
+      recipient: candidate.recipient,
+      amount: '0',
+      tokenSymbol: candidate.tokenSymbol,
+    });
+    // Fail the scan so the checkpoint stays put and the range is scanned again
+    if (result.status === 'rpc_error') {
+      throw new RpcError(`Could not verify ${candidate.txHash}`);
+    }
+    if (result.status !== 'confirmed' || !result.actualAmount) return;
+
+    if (compareAmounts(result.actualAmount, intent.amount) < 0) return;
+
+    // Claimed intents are not matched again within this scan
+    intents.splice(intents.indexOf(intent), 1);
+    await this.options.onPayment(intent, candidate.txHash, result);
+  }
+}
+
+/**
+ * Create an EVM payment watcher
+ */
+export function createEVMPaymentWatcher(options: EVMPaymentWatcherOptions): EVMPaymentWatcher {
+  return new EVMPaymentWatcher(options);
+}
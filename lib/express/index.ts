@@ -2,9 +2,11 @@ export {
   createExpressMiddleware, 
   createUniversalHandler,
 } from './middleware.js';
+export { requirePaylinkRedirect } from './redirect.js';
 
 export type { 
   ExpressMiddlewareOptions,
   UniversalRequest,
   UniversalResponse,
 } from './middleware.js';
+export type { PaylinkRedirectOptions } from './redirect.js';
@@ -0,0 +1,34 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { verifyPaylinkRedirect, type RedirectKey } from '../redirect-signing.js';
+
+/**
+ * Options for guarding target routes
+ */
+export interface PaylinkRedirectOptions {
+  /** Only accept redirects from these pay links */
+  linkIds?: string[];
+  /** Handle visitors without a valid signed redirect (default: 403 JSON) */
+  onRejected?: (req: Request, res: Response, next: NextFunction) => void;
+}
+
+/**
+ * Express middleware for the target site: only let through visitors redirected by a paid link
+ * The verified redirect is available to later handlers as `res.locals.paylinkRedirect`.
+ * A signed URL works until `pl_exp`, so set a session of your own for longer access.
+ */
+export function requirePaylinkRedirect(key: RedirectKey, options: PaylinkRedirectOptions = {}): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const redirect = verifyPaylinkRedirect(req.originalUrl, key);
+    if (!redirect || (options.linkIds && !options.linkIds.includes(redirect.linkId))) {
+      if (options.onRejected) {
+        options.onRejected(req, res, next);
+        return;
+      }
+      res.status(403).json({ error: 'Missing, invalid or expired paid link signature' });
+      return;
+    }
+
+    res.locals.paylinkRedirect = redirect;
+    next();
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Payment finality tracker
+ * Re-checks the confirmed payments of one chain until they are buried under the
+ * chain's finality depth. A payment whose transaction is missing on several
+ * consecutive checks left the chain (reorg, dropped fork) and is reverted:
+ * `confirmed` goes back to false, which revokes the access it granted, and a
+ * RevertHandler undoes everything else it paid for. Reverted payments are
+ * re-checked for a while and restored if their transaction is mined again.
+ */
+
+import type { Payment, Storage, TransactionDepth } from './types.js';
+
+/** Default polling interval in ms */
+export const DEFAULT_FINALITY_INTERVAL = 30000;
+
+/** Default confirmations before an EVM payment is final */
+export const DEFAULT_EVM_FINALITY_DEPTH = 12;
+
+/** Default confirmations (slots) before a Solana payment is final, unless finalized earlier */
+export const DEFAULT_SOLANA_FINALITY_DEPTH = 32;
+
+/** Default confirmations before a Bitcoin payment is final */
+export const DEFAULT_BITCOIN_FINALITY_DEPTH = 6;
+
+/** Default confirmations before a TRON payment is final (TRON solidifies blocks after 19) */
+export const DEFAULT_TRON_FINALITY_DEPTH = 19;
+
+/** Default consecutive checks a transaction must be missing on before its payment is reverted */
+export const DEFAULT_REVERT_AFTER_MISSES = 3;
+
+/** Default time in ms a reverted payment is re-checked in case its transaction is mined again */
+export const DEFAULT_RESTORE_WINDOW = 24 * 60 * 60 * 1000;
+
+/**
+ * Verifier able to tell whether a transaction is still on chain
+ */
+export interface DepthVerifier {
+  getTransactionDepth(txHash: string): Promise<TransactionDepth>;
+}
+
+/**
+ * Called with a reverted payment before it is saved; a failing handler is retried on the next poll
+ */
+export type RevertHandler = (payment: Payment) => Promise<void>;
+
+/**
+ * Called with a restored payment before it is saved; a failing handler is retried on the next poll
+ */
+export type RestoreHandler = (payment: Payment) => Promise<void>;
+
+/**
+ * Finality tracker options
+ */
+export interface FinalityTrackerOptions {
+  storage: Storage;
+  chainId: number;
+  verifier: DepthVerifier;
+  /** Confirmations after which a payment is final */
+  depth: number;
+  onRevert: RevertHandler;
+  /** Called when a reverted payment's transaction is back on chain */
+  onRestore?: RestoreHandler;
+  /** Polling interval in ms (default: 30000) */
+  interval?: number;
+  /** Consecutive checks a transaction must be missing on before its payment is reverted (default: 3) */
+  revertAfterMisses?: number;
+  /** Time in ms reverted payments are re-checked for (default: 24 hours) */
+  restoreWindow?: number;
+}
+
+/**
+ * Finality Tracker
+ * Finalizes or reverts the unfinalized payments of a chain
+ */
+export class FinalityTracker {
+  private options: Required<FinalityTrackerOptions>;
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  /** Consecutive misses per payment ID, kept in memory */
+  private misses = new Map<string, number>();
+
+  constructor(options: FinalityTrackerOptions) {
+    this.options = {
+      ...options,
+      onRestore: options.onRestore ?? (async () => {}),
+      interval: options.interval ?? DEFAULT_FINALITY_INTERVAL,
+      revertAfterMisses: options.revertAfterMisses ?? DEFAULT_REVERT_AFTER_MISSES,
+      restoreWindow: options.restoreWindow ?? DEFAULT_RESTORE_WINDOW,
+    };
+  }
+
+  get chainId(): number {
+    return this.options.chainId;
+  }
+
+  /**
+   * Start polling
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.poll().catch(err => {
+        console.error(`Finality tracker error on chain ${this.chainId}:`, err);
+      });
+    }, this.options.interval);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Re-check unfinalized payments once; overlapping calls share the running poll
+   */
+  poll(): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.check().finally(() => {
+        this.polling = undefined;
+      });
+    }
+    return this.polling;
+  }
+
+  private async check(): Promise<void> {
+    for (const payment of await this.options.storage.getUnfinalizedPayments(this.chainId)) {
+      // One failing payment (RPC error, handler error) must not hold up the others
+      try {
+        await this.checkPayment(payment);
+      } catch (err) {
+        console.error(`Finality check of payment ${payment.id} on chain ${this.chainId} failed:`, err);
+      }
+    }
+  }
+
+  private async checkPayment(payment: Payment): Promise<void> {
+    const { storage, verifier, depth, onRevert, onRestore, revertAfterMisses, restoreWindow } = this.options;
+    const tx = await verifier.getTransactionDepth(payment.txHash);
+    const final = tx.included && (tx.finalized || tx.confirmations >= depth);
+
+    if (payment.revertedAt) {
+      // Confirmed again through /confirm in the meantime: that payment is tracked instead
+      const latest = await storage.getPaymentByTxHash(payment.txHash);
+      if (latest && latest.id !== payment.id) {
+        await storage.savePayment({ ...payment, finalizedAt: new Date() });
+      } else if (tx.included) {
+        const restored: Payment = { ...payment, confirmed: true, revertedAt: undefined };
+        await onRestore(restored);
+        await storage.savePayment(final ? { ...restored, finalizedAt: new Date() } : restored);
+      } else if (Date.now() - payment.revertedAt.getTime() >= restoreWindow) {
+        // Stays reverted; no longer re-checked
+        await storage.savePayment({ ...payment, finalizedAt: new Date() });
+      }
+      return;
+    }
+
+    if (!tx.included) {
+      // A lagging node or API can miss a transaction that is still there
+      const misses = (this.misses.get(payment.id) ?? 0) + 1;
+      if (misses < revertAfterMisses) {
+        this.misses.set(payment.id, misses);
+        return;
+      }
+
+      const reverted: Payment = { ...payment, confirmed: false, revertedAt: new Date() };
+      await onRevert(reverted);
+      await storage.savePayment(reverted);
+      this.misses.delete(payment.id);
+      return;
+    }
+
+    this.misses.delete(payment.id);
+    if (final) {
+      await storage.savePayment({ ...payment, finalizedAt: new Date() });
+    }
+  }
+}
+
+/**
+ * Create a finality tracker
+ */
+export function createFinalityTracker(options: FinalityTrackerOptions): FinalityTracker {
+  return new FinalityTracker(options);
+}
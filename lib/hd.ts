@@ -0,0 +1,110 @@
+/**
+ * HD deposit addresses
+ * BIP-32 public child derivation on secp256k1, so the server can derive a fresh
+ * EVM address per checkout from an extended public key without holding any
+ * private key.
+ */
+
+import { createHmac } from 'crypto';
+import { decodeBase58Check } from './base58.js';
+import { keccak256 } from './keccak.js';
+import { G, N, addPoints, bigIntToBytes, bytesToBigInt, compress, decompress, multiply } from './secp256k1.js';
+
+// ========================================
+// BIP-32
+// ========================================
+
+/** Version bytes of mainnet (xpub) and testnet (tpub) extended public keys */
+const PUBLIC_VERSIONS = [0x0488b21e, 0x043587cf];
+
+/** Child indexes at or above this are hardened and need the private key */
+export const HARDENED_OFFSET = 0x80000000;
+
+/**
+ * Decoded extended public key
+ */
+export interface ExtendedPublicKey {
+  depth: number;
+  /** Compressed secp256k1 public key */
+  publicKey: Uint8Array;
+  chainCode: Uint8Array;
+}
+
+/**
+ * Decode and validate an xpub/tpub string
+ */
+export function parseExtendedPublicKey(xpub: string): ExtendedPublicKey {
+  const bytes = decodeBase58Check(xpub);
+  if (bytes.length !== 78) {
+    throw new Error('Invalid extended public key length');
+  }
+
+  const version = new DataView(bytes.buffer, bytes.byteOffset).getUint32(0);
+  if (!PUBLIC_VERSIONS.includes(version)) {
+    throw new Error('Not an extended public key (expected xpub or tpub)');
+  }
+
+  const publicKey = bytes.slice(45, 78);
+  decompress(publicKey);
+
+  return { depth: bytes[4], chainCode: bytes.slice(13, 45), publicKey };
+}
+
+/**
+ * Derive a non-hardened child public key (BIP-32 CKDpub)
+ */
+export function deriveChildPublicKey(parent: ExtendedPublicKey, index: number): ExtendedPublicKey {
+  if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+    throw new Error('Invalid derivation index: hardened children need the private key');
+  }
+
+  const data = new Uint8Array(37);
+  data.set(parent.publicKey);
+  new DataView(data.buffer).setUint32(33, index);
+  const digest = createHmac('sha512', parent.chainCode).update(data).digest();
+
+  const tweak = bytesToBigInt(digest.subarray(0, 32));
+  const child = tweak < N ? addPoints(multiply(G, tweak), decompress(parent.publicKey)) : null;
+  if (!child) {
+    // Probability below 2^-127; BIP-32 says to skip to the next index
+    throw new Error(`Derivation index ${index} is invalid, use the next one`);
+  }
+
+  return { depth: parent.depth + 1, publicKey: compress(child), chainCode: digest.slice(32) };
+}
+
+// ========================================
+// ADDRESSES
+// ========================================
+
+/**
+ * EVM address of a public key, EIP-55 checksummed
+ */
+export function publicKeyToAddress(publicKey: Uint8Array): string {
+  const point = decompress(publicKey);
+  const uncompressed = new Uint8Array(64);
+  uncompressed.set(bigIntToBytes(point.x));
+  uncompressed.set(bigIntToBytes(point.y), 32);
+  return toChecksumAddress(Buffer.from(keccak256(uncompressed).subarray(12)).toString('hex'));
+}
+
+/**
+ * EIP-55 mixed-case checksum encoding of an address
+ */
+export function toChecksumAddress(address: string): string {
+  const lower = address.toLowerCase().replace(/^0x/, '');
+  const hash = Buffer.from(keccak256(new TextEncoder().encode(lower))).toString('hex');
+  let result = '0x';
+  for (let i = 0; i < lower.length; i++) {
+    result += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return result;
+}
+
+/**
+ * Derive the EVM deposit address at `index` below an extended public key
+ * With the xpub of m/44'/60'/0'/0 this yields the usual wallet addresses m/44'/60'/0'/0/index.
+ */
+export function deriveEvmAddress(xpub: string, index: number): string {
+  return publicKeyToAddress(deriveChildPublicKey(parseExtendedPublicKey(xpub), index).publicKey);
+}
@@ -1,23 +1,53 @@
 // Main exports
-export { PaylinkServer, createServer } from './server.js';
+export { PaylinkServer, createServer, DEFAULT_CHECKOUTS_PER_MINUTE, DEFAULT_MAX_OPEN_REFERENCES } from './server.js';
 
 // Types
 export type {
   PaylinkConfig,
   PayLink,
   Payment,
+  PaymentIntent,
+  PaymentIntentStatus,
+  ChainCheckpoint,
+  DerivationCounter,
+  AuthChallenge,
+  PayerAuthConfig,
+  AccessTokenConfig,
+  AccessTokenRevocation,
+  ProxyConfig,
+  DeliveryMode,
+  RedirectSigningConfig,
+  X402Config,
+  WatcherConfig,
+  CheckoutConfig,
+  FinalityConfig,
+  TransactionDepth,
   Price,
   PaymentOption,
   MultiPrice,
   ChainConfig,
   ChainType,
+  TokenConfig,
   CreatePayLinkInput,
   Storage,
+  ListOptions,
+  ListPayLinksOptions,
+  ListPaymentsOptions,
+  ListSubscriptionsOptions,
+  ListReferralsOptions,
+  ListCommissionsOptions,
+  ListInstallmentPlansOptions,
+  ListPaymentIntentsOptions,
+  Page,
   PayLinkStatus,
   PaymentStatus,
   Protocol402Response,
+  CheckoutOption,
+  CheckoutResponse,
   Protocol403Response,
   PaymentCheckResult,
+  PaymentVerifier,
+  PaymentProvider,
   WebhookConfigType,
   // Subscription types
   Subscription,
@@ -42,18 +72,183 @@ export type {
   InstallmentPlanStats,
 } from './types.js';
 
-export { ReasonCode, SOLANA_CHAIN_IDS } from './types.js';
+export { ReasonCode, SOLANA_CHAIN_IDS, BITCOIN_CHAIN_IDS, TRON_CHAIN_IDS } from './types.js';
 
 // Storage
-export { MemoryStorage } from './storage.js';
+export { MemoryStorage, createMemoryStorage } from './storage/memory.js';
+export { ConcurrentUpdateError, updateWithRetry, DEFAULT_UPDATE_ATTEMPTS } from './storage/concurrency.js';
+export { encodeCursor, decodeCursor, DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from './storage/pagination.js';
+export { exportData, importData, ARCHIVE_FORMAT, ARCHIVE_VERSION } from './storage/archive.js';
+export type { ArchiveCounts, ArchiveImportResult, ArchiveSource } from './storage/archive.js';
+export { SqliteStorage, createSqliteStorage, SQLITE_MIGRATIONS } from './storage/sqlite.js';
+export type {
+  SqliteDatabase,
+  SqliteStatement,
+  SqliteStorageConfig,
+  SqliteMigration,
+} from './storage/sqlite.js';
+export { PostgresStorage, createPostgresStorage, POSTGRES_MIGRATIONS } from './storage/postgres.js';
+export type {
+  PostgresPool,
+  PostgresPoolClient,
+  PostgresQueryResult,
+  PostgresStorageConfig,
+  PostgresMigration,
+} from './storage/postgres.js';
 
 // Chain verification
 export { ChainVerifier, MockVerifier } from './chain.js';
+export type { BlockTransaction } from './chain.js';
+
+// RPC endpoints
+export {
+  RpcClient,
+  RpcError,
+  RpcRequestError,
+  createRpcClient,
+  rpcEndpoints,
+  isMethodUnsupported,
+  DEFAULT_RPC_TIMEOUT,
+  DEFAULT_RPC_COOLDOWN,
+} from './rpc.js';
+export type { RpcClientOptions, RpcEndpointHealth } from './rpc.js';
+
+// ERC-20 helpers
+export { TRANSFER_TOPIC, decodeTransfers, resolveToken, addressToTopic } from './erc20.js';
+export type { ReceiptLog, TransferLog, TokenTransfer } from './erc20.js';
+
+// Transaction traces
+export { callFrameTransfers, parityTraceTransfers } from './trace.js';
+export type { InternalTransfer, CallFrame, ParityTrace } from './trace.js';
+
+// SPL token helpers
+export { tokenBalanceChanges, findSplTransfer } from './spl.js';
+export type { TokenBalance, SplTransfer } from './spl.js';
+export { solanaTransfers, transactionAccountKeys } from './solana-transfers.js';
+export type { SolanaAccountKey, SolanaInstruction, SolanaTransfer, SolanaTransferSource } from './solana-transfers.js';
+
+// Payment providers
+export {
+  ProviderRegistry,
+  createProviderRegistry,
+  MockPaymentProvider,
+  createMockProvider,
+  EVMPaymentProvider,
+  createEVMProvider,
+  SolanaPaymentProvider,
+  BitcoinPaymentProvider,
+  TronPaymentProvider,
+} from './providers/index.js';
+export type { MockPaymentConfig } from './providers/index.js';
 
 // Solana verification
 export { SolanaVerifier, MockSolanaVerifier, createSolanaVerifier } from './providers/solana.js';
 export type { SolanaConfig } from './providers/solana.js';
 
+// Bitcoin verification
+export { BitcoinVerifier, MockBitcoinVerifier, createBitcoinVerifier } from './providers/bitcoin.js';
+export type { BitcoinConfig } from './providers/bitcoin.js';
+
+// TRON verification
+export { TronVerifier, MockTronVerifier, createTronVerifier } from './providers/tron.js';
+export type { TronConfig } from './providers/tron.js';
+export { tronAddressToHex, toTronAddress, isSameTronAddress } from './tron.js';
+
+// Solana Pay references
+export {
+  SolanaPayWatcher,
+  createSolanaPayWatcher,
+  generateReference,
+} from './solana-pay.js';
+export type { ReferenceSignature, ReferenceVerifier, SolanaPayWatcherOptions } from './solana-pay.js';
+
+// Base58
+export { encodeBase58, decodeBase58, encodeBase58Check, decodeBase58Check } from './base58.js';
+
+// Payment watchers
+export {
+  EVMPaymentWatcher,
+  createEVMPaymentWatcher,
+  DEFAULT_MAX_BLOCKS_PER_POLL,
+} from './evm-watcher.js';
+export type { EVMPaymentWatcherOptions } from './evm-watcher.js';
+export {
+  DEFAULT_WATCH_INTERVAL,
+  DEFAULT_INTENT_GRACE_PERIOD,
+  isIntentStale,
+  expirePaymentIntent,
+} from './watcher.js';
+export type { PaymentHandler } from './watcher.js';
+
+// Payment finality
+export {
+  FinalityTracker,
+  createFinalityTracker,
+  DEFAULT_FINALITY_INTERVAL,
+  DEFAULT_EVM_FINALITY_DEPTH,
+  DEFAULT_SOLANA_FINALITY_DEPTH,
+  DEFAULT_BITCOIN_FINALITY_DEPTH,
+  DEFAULT_TRON_FINALITY_DEPTH,
+  DEFAULT_REVERT_AFTER_MISSES,
+  DEFAULT_RESTORE_WINDOW,
+} from './finality.js';
+export type { DepthVerifier, FinalityTrackerOptions, RevertHandler, RestoreHandler } from './finality.js';
+
+// HD deposit addresses
+export {
+  HARDENED_OFFSET,
+  parseExtendedPublicKey,
+  deriveChildPublicKey,
+  deriveEvmAddress,
+  publicKeyToAddress,
+  toChecksumAddress,
+} from './hd.js';
+export type { ExtendedPublicKey } from './hd.js';
+export { keccak256 } from './keccak.js';
+
+// Wallet sign-in
+export {
+  formatSignInMessage,
+  hashPersonalMessage,
+  recoverPersonalSignAddress,
+  verifyPersonalSignature,
+  verifySolanaSignature,
+  encodeIsValidSignatureCall,
+  EIP1271_MAGIC_VALUE,
+} from './wallet-auth.js';
+export type { SignInFields } from './wallet-auth.js';
+
+// Access tokens
+export { signAccessToken, verifyAccessToken } from './access-token.js';
+export type { AccessScope, AccessTokenClaims } from './access-token.js';
+
+// Proxy delivery
+export { proxyRequest, isPublicAddress, UpstreamBlockedError, DEFAULT_PROXY_TIMEOUT } from './proxy.js';
+
+// Signed redirects
+export { signPaylinkRedirect, verifyPaylinkRedirect, REDIRECT_PARAMS } from './redirect-signing.js';
+export type { PaylinkRedirect, RedirectKey } from './redirect-signing.js';
+export { requirePaylinkRedirect } from './express/redirect.js';
+export type { PaylinkRedirectOptions } from './express/redirect.js';
+
+// x402
+export {
+  X402Facilitator,
+  X402_HEADERS,
+  X402_NETWORKS,
+  X402_VERSION,
+  DEFAULT_FACILITATOR_TIMEOUT,
+  encodeX402Header,
+  decodeX402Payment,
+} from './x402.js';
+export type {
+  X402PaymentRequirements,
+  X402PaymentRequired,
+  X402PaymentPayload,
+  X402VerifyResponse,
+  X402SettleResponse,
+} from './x402.js';
+
 // QR Code generation
 export {
   generatePaymentURI,
@@ -142,6 +337,21 @@ export {
   sign,
   isExpired,
   isLimitReached,
-  compareAmounts,
+  getCookie,
   REASON_MESSAGES,
 } from './utils.js';
+
+// Amounts
+export {
+  DEFAULT_DECIMALS,
+  isValidAmount,
+  parseUnits,
+  formatUnits,
+  compareAmounts,
+  addAmounts,
+  subtractAmounts,
+  percentOf,
+  splitAmount,
+  percentageOf,
+} from './amount.js';
+export type { DecimalsResolver } from './amount.js';
@@ -17,6 +17,18 @@ import type {
   Payment,
 } from './types.js';
 import { generateUUID } from './utils.js';
+import {
+  addAmounts,
+  compareAmounts,
+  isValidAmount,
+  percentOf,
+  percentageOf,
+  splitAmount,
+  subtractAmounts,
+  DEFAULT_DECIMALS,
+  type DecimalsResolver,
+} from './amount.js';
+import { updateWithRetry } from './storage/concurrency.js';
 
 /**
  * Default installment configuration
@@ -35,15 +47,16 @@ export const DEFAULT_INSTALLMENT_CONFIG: InstallmentConfig = {
  * @param totalAmount Total price amount
  * @param totalInstallments Number of installments
  * @param downPaymentPercent Percentage for first payment (0-100)
+ * @param decimals Token decimals; amounts are rounded to this precision and sum exactly to the total
  * @returns Array of amounts for each installment
  */
 export function calculateInstallmentAmounts(
   totalAmount: string,
   totalInstallments: number,
-  downPaymentPercent: number = 25
+  downPaymentPercent: number = 25,
+  decimals: number = DEFAULT_DECIMALS
 ): string[] {
-  const total = parseFloat(totalAmount);
-  if (isNaN(total) || total <= 0) {
+  if (!isValidAmount(totalAmount) || compareAmounts(totalAmount, '0') <= 0) {
     throw new Error('Invalid total amount');
   }
   if (totalInstallments < 2) {
@@ -53,21 +66,13 @@ export function calculateInstallmentAmounts(
     throw new Error('Down payment percent must be between 0 and 100');
   }
 
-  const amounts: string[] = [];
-
   // Calculate down payment (first installment)
-  const downPayment = total * (downPaymentPercent / 100);
-  amounts.push(downPayment.toFixed(8));
-
-  // Calculate remaining installments
-  const remaining = total - downPayment;
-  const regularAmount = remaining / (totalInstallments - 1);
+  const downPayment = percentOf(totalAmount, downPaymentPercent, decimals);
 
-  for (let i = 1; i < totalInstallments; i++) {
-    amounts.push(regularAmount.toFixed(8));
-  }
+  // Split the rest evenly; the rounding remainder goes to the last installment
+  const remaining = subtractAmounts(totalAmount, downPayment);
 
-  return amounts;
+  return [downPayment, ...splitAmount(remaining, totalInstallments - 1, decimals)];
 }
 
 /**
@@ -138,16 +143,12 @@ export function getInstallmentProgress(plan: InstallmentPlan): {
   percentComplete: number;
   isComplete: boolean;
 } {
-  const paidAmount = parseFloat(plan.paidAmount);
-  const totalAmount = parseFloat(plan.totalAmount);
-  const remainingAmount = totalAmount - paidAmount;
-
   return {
     paidCount: plan.completedInstallments,
     remainingCount: plan.totalInstallments - plan.completedInstallments,
     paidAmount: plan.paidAmount,
-    remainingAmount: remainingAmount.toFixed(8),
-    percentComplete: Math.round((paidAmount / totalAmount) * 100),
+    remainingAmount: subtractAmounts(plan.totalAmount, plan.paidAmount),
+    percentComplete: percentageOf(plan.paidAmount, plan.totalAmount),
     isComplete: plan.completedInstallments >= plan.totalInstallments,
   };
 }
@@ -220,7 +221,7 @@ export function formatInstallmentSchedule(
  * Installment Plan Manager
  */
 export class InstallmentManager {
-  constructor(private storage: Storage) {}
+  constructor(private storage: Storage, private decimalsOf?: DecimalsResolver) {}
 
   /**
    * Create a new installment plan
@@ -255,7 +256,8 @@ export class InstallmentManager {
     const installmentAmounts = calculateInstallmentAmounts(
       totalAmount,
       totalInstallments,
-      downPaymentPercent
+      downPaymentPercent,
+      this.decimalsOf?.(payLink.price.chainId, payLink.price.tokenSymbol) ?? DEFAULT_DECIMALS
     );
 
     const now = new Date();
@@ -355,103 +357,205 @@ export class InstallmentManager {
     payment: InstallmentPayment;
     plan: InstallmentPlan;
   }> {
-    const payment = await this.storage.getInstallmentPayment(installmentPaymentId);
-    if (!payment) {
+    const existing = await this.storage.getInstallmentPayment(installmentPaymentId);
+    if (!existing) {
       throw new Error('Installment payment not found');
     }
 
-    const plan = await this.storage.getInstallmentPlan(payment.installmentPlanId);
-    if (!plan) {
+    const current = await this.storage.getInstallmentPlan(existing.installmentPlanId);
+    if (!current) {
       throw new Error('Installment plan not found');
     }
 
-    // Update payment status
-    payment.status = 'confirmed';
-    payment.confirmedAt = new Date();
-    await this.storage.updateInstallmentPayment(payment);
-
-    // Update plan
-    const paidAmount = parseFloat(plan.paidAmount) + parseFloat(payment.amount);
-    plan.paidAmount = paidAmount.toFixed(8);
-    plan.completedInstallments++;
-    plan.updatedAt = new Date();
-
-    // Check if first payment - activate access
-    if (plan.completedInstallments === 1 && plan.status === 'pending') {
-      plan.status = 'active';
-      plan.activatedAt = new Date();
+    // Update payment status; only the caller that wins pending -> confirmed credits the plan
+    let confirmed = false;
+    const payment = await updateWithRetry(
+      () => this.storage.getInstallmentPayment(installmentPaymentId),
+      p => {
+        confirmed = p.status !== 'confirmed';
+        if (!confirmed) return false;
+        p.status = 'confirmed';
+        p.confirmedAt = new Date();
+      },
+      p => this.storage.updateInstallmentPayment(p)
+    );
+
+    if (!payment) {
+      throw new Error('Installment payment not found');
     }
 
-    // Check if all installments completed
-    if (plan.completedInstallments >= plan.totalInstallments) {
-      plan.status = 'completed';
-      plan.completedAt = new Date();
-    } else {
-      // Calculate next due date
-      plan.nextInstallmentNumber++;
-      plan.nextDueDate = calculateNextDueDate(
-        plan.nextDueDate,
-        plan.intervalDays
-      );
-      
-      // If was suspended, reactivate
-      if (plan.status === 'suspended') {
-        plan.status = 'active';
-        plan.suspendedAt = undefined;
-      }
+    if (!confirmed) {
+      return { payment, plan: current };
     }
 
-    await this.storage.updateInstallmentPlan(plan);
+    // Update plan (compare-and-swap, retried on concurrent updates)
+    const plan = await updateWithRetry(
+      () => this.storage.getInstallmentPlan(payment.installmentPlanId),
+      p => {
+        p.paidAmount = addAmounts(p.paidAmount, payment.amount);
+        p.completedInstallments++;
+        p.updatedAt = new Date();
+
+        // Check if first payment - activate access
+        if (p.completedInstallments === 1 && p.status === 'pending') {
+          p.status = 'active';
+          p.activatedAt = new Date();
+        }
+
+        // Check if all installments completed
+        if (p.completedInstallments >= p.totalInstallments) {
+          p.status = 'completed';
+          p.completedAt = new Date();
+        } else {
+          // Calculate next due date
+          p.nextInstallmentNumber++;
+          p.nextDueDate = calculateNextDueDate(
+            p.nextDueDate,
+            p.intervalDays
+          );
+
+          // If was suspended, reactivate
+          if (p.status === 'suspended') {
+            p.status = 'active';
+            p.suspendedAt = undefined;
+          }
+        }
+      },
+      p => this.storage.updateInstallmentPlan(p)
+    );
+
+    if (!plan) {
+      throw new Error('Installment plan not found');
+    }
 
     return { payment, plan };
   }
 
   /**
-   * Suspend a plan due to missed payment
+   * Take back the credit of an installment whose payment left the chain
+   * The installment is due again; a plan left without confirmed installments loses access.
+   * Returns the updated plan, or null when the payment was not an installment.
    */
-  async suspendPlan(planId: string, reason?: string): Promise<InstallmentPlan> {
-    const plan = await this.storage.getInstallmentPlan(planId);
-    if (!plan) {
-      throw new Error('Installment plan not found');
-    }
+  async reversePayment(paymentId: string): Promise<InstallmentPlan | null> {
+    const payments = await this.storage.getAllInstallmentPayments();
+    const found = payments.find(p => p.paymentId === paymentId);
 
-    if (plan.status !== 'active') {
-      throw new Error('Can only suspend active plans');
+    if (!found) {
+      return null;
     }
 
-    plan.status = 'suspended';
-    plan.suspendedAt = new Date();
-    plan.updatedAt = new Date();
-    if (reason) {
-      plan.metadata = { ...plan.metadata, suspendReason: reason };
+    // Only the caller that wins confirmed -> reversed takes the credit back
+    let credited = false;
+    const payment = await updateWithRetry(
+      () => this.storage.getInstallmentPayment(found.id),
+      p => {
+        if (p.status === 'reversed' || p.status === 'failed') return false;
+        credited = p.status === 'confirmed';
+        p.status = 'reversed';
+      },
+      p => this.storage.updateInstallmentPayment(p)
+    );
+
+    if (!payment || !credited) {
+      return null;
     }
 
-    await this.storage.updateInstallmentPlan(plan);
+    return updateWithRetry(
+      () => this.storage.getInstallmentPlan(payment.installmentPlanId),
+      p => {
+        p.paidAmount = subtractAmounts(p.paidAmount, payment.amount);
+        p.completedInstallments = Math.max(0, p.completedInstallments - 1);
+        p.updatedAt = new Date();
+
+        if (p.status === 'completed') {
+          p.status = 'active';
+          p.completedAt = undefined;
+        }
+
+        // The reversed installment is the next one due
+        if (payment.installmentNumber < p.nextInstallmentNumber) {
+          p.nextInstallmentNumber = payment.installmentNumber;
+          p.nextDueDate = payment.dueDate;
+        }
+
+        if (p.completedInstallments === 0 && (p.status === 'active' || p.status === 'suspended')) {
+          p.status = 'pending';
+          p.activatedAt = undefined;
+          p.suspendedAt = undefined;
+        }
+      },
+      p => this.storage.updateInstallmentPlan(p)
+    );
+  }
+
+  /**
+   * Credit again an installment reversed by `reversePayment()` once its transaction is mined again
+   * Returns the updated plan, or null when the payment was not a reversed installment.
+   */
+  async restorePayment(paymentId: string): Promise<InstallmentPlan | null> {
+    const payments = await this.storage.getAllInstallmentPayments();
+    const found = payments.find(p => p.paymentId === paymentId && p.status === 'reversed');
+
+    if (!found) {
+      return null;
+    }
 
+    const { plan } = await this.confirmPayment(found.id);
     return plan;
   }
 
   /**
-   * Cancel an installment plan
+   * Suspend a plan due to missed payment
    */
-  async cancelPlan(planId: string, reason?: string): Promise<InstallmentPlan> {
-    const plan = await this.storage.getInstallmentPlan(planId);
+  async suspendPlan(planId: string, reason?: string): Promise<InstallmentPlan> {
+    const plan = await updateWithRetry(
+      () => this.storage.getInstallmentPlan(planId),
+      p => {
+        if (p.status !== 'active') {
+          throw new Error('Can only suspend active plans');
+        }
+
+        p.status = 'suspended';
+        p.suspendedAt = new Date();
+        p.updatedAt = new Date();
+        if (reason) {
+          p.metadata = { ...p.metadata, suspendReason: reason };
+        }
+      },
+      p => this.storage.updateInstallmentPlan(p)
+    );
+
     if (!plan) {
       throw new Error('Installment plan not found');
     }
 
-    if (plan.status === 'completed') {
-      throw new Error('Cannot cancel completed plan');
-    }
+    return plan;
+  }
 
-    plan.status = 'cancelled';
-    plan.cancelledAt = new Date();
-    plan.updatedAt = new Date();
-    if (reason) {
-      plan.metadata = { ...plan.metadata, cancelReason: reason };
-    }
+  /**
+   * Cancel an installment plan
+   */
+  async cancelPlan(planId: string, reason?: string): Promise<InstallmentPlan> {
+    const plan = await updateWithRetry(
+      () => this.storage.getInstallmentPlan(planId),
+      p => {
+        if (p.status === 'completed') {
+          throw new Error('Cannot cancel completed plan');
+        }
+
+        p.status = 'cancelled';
+        p.cancelledAt = new Date();
+        p.updatedAt = new Date();
+        if (reason) {
+          p.metadata = { ...p.metadata, cancelReason: reason };
+        }
+      },
+      p => this.storage.updateInstallmentPlan(p)
+    );
 
-    await this.storage.updateInstallmentPlan(plan);
+    if (!plan) {
+      throw new Error('Installment plan not found');
+    }
 
     return plan;
   }
@@ -0,0 +1,106 @@
+/**
+ * Keccak-256 (the pre-standard SHA-3 variant used by Ethereum)
+ * Node's crypto only ships the NIST SHA3-256, which pads differently.
+ */
+
+const MASK_64 = (1n << 64n) - 1n;
+
+/** Rate in bytes for a 256-bit output */
+const RATE = 136;
+
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+/** Rotation offsets per lane (index x + 5y) */
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14,
+];
+
+/**
+ * Hash bytes with Keccak-256
+ */
+export function keccak256(data: Uint8Array): Uint8Array {
+  // Keccak padding: 0x01 ... 0x80 up to a multiple of the rate
+  const padded = new Uint8Array(Math.floor(data.length / RATE) * RATE + RATE);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state: bigint[] = new Array(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += RATE) {
+    for (let lane = 0; lane < RATE / 8; lane++) {
+      state[lane] ^= readLane(padded, offset + lane * 8);
+    }
+    keccakF(state);
+  }
+
+  const out = new Uint8Array(32);
+  for (let lane = 0; lane < 4; lane++) {
+    let value = state[lane];
+    for (let byte = 0; byte < 8; byte++) {
+      out[lane * 8 + byte] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+  }
+  return out;
+}
+
+function readLane(bytes: Uint8Array, offset: number): bigint {
+  let value = 0n;
+  for (let byte = 7; byte >= 0; byte--) {
+    value = (value << 8n) | BigInt(bytes[offset + byte]);
+  }
+  return value;
+}
+
+function rotate(value: bigint, shift: number): bigint {
+  if (shift === 0) return value;
+  const bits = BigInt(shift);
+  return ((value << bits) | (value >> (64n - bits))) & MASK_64;
+}
+
+/** Keccak-f[1600] permutation */
+function keccakF(state: bigint[]): void {
+  const columns = new Array<bigint>(5);
+  const moved = new Array<bigint>(25);
+
+  for (const constant of ROUND_CONSTANTS) {
+    // Theta
+    for (let x = 0; x < 5; x++) {
+      columns[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = columns[(x + 4) % 5] ^ rotate(columns[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y] ^= d;
+      }
+    }
+
+    // Rho and pi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        moved[y + 5 * ((2 * x + 3 * y) % 5)] = rotate(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+      }
+    }
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = moved[x + y] ^ (~moved[((x + 1) % 5) + y] & MASK_64 & moved[((x + 2) % 5) + y]);
+      }
+    }
+
+    // Iota
+    state[0] ^= constant;
+  }
+}
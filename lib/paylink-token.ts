@@ -9,6 +9,8 @@
  */
 
 import type { PaymentCheckResult } from './types.js';
+import { findSplTransfer } from './spl.js';
+import { compareAmounts, formatUnits } from './amount.js';
 
 /**
  * PAYLINK Token Constants
@@ -114,7 +116,7 @@ export class PaylinkTokenManager {
       }
 
       // Convert from raw amount to token amount
-      return Number(paylinkAccount.amount) / Math.pow(10, PAYLINK_TOKEN.DECIMALS);
+      return Number(formatUnits(BigInt(paylinkAccount.amount), PAYLINK_TOKEN.DECIMALS));
     } catch (error) {
       console.error('Error fetching PAYLINK balance:', error);
       return 0;
@@ -208,20 +210,19 @@ export class PaylinkTokenManager {
       }
 
       // Convert amount to token units
-      const actualAmount = transfer.amount / Math.pow(10, PAYLINK_TOKEN.DECIMALS);
-      const requiredAmount = parseFloat(params.amount);
+      const actualAmount = formatUnits(transfer.amount, PAYLINK_TOKEN.DECIMALS);
 
-      if (actualAmount < requiredAmount) {
+      if (compareAmounts(actualAmount, params.amount) < 0) {
         return {
           status: 'underpaid',
-          actualAmount: actualAmount.toString(),
+          actualAmount,
           fromAddress: transfer.from,
         };
       }
 
       return {
         status: 'confirmed',
-        actualAmount: actualAmount.toString(),
+        actualAmount,
         fromAddress: transfer.from,
         raw: tx,
       };
@@ -237,55 +238,20 @@ export class PaylinkTokenManager {
   private parseTokenTransfer(
     tx: any,
     expectedRecipient: string
-  ): { mint: string; from: string; to: string; amount: number } | null {
+  ): { mint: string; from: string; to: string; amount: bigint } | null {
     try {
-      // Look for token balance changes in postTokenBalances
-      const preBalances = tx.meta?.preTokenBalances || [];
-      const postBalances = tx.meta?.postTokenBalances || [];
-
-      // Find PAYLINK transfers to recipient
-      for (const post of postBalances) {
-        if (post.mint !== PAYLINK_TOKEN.MINT) continue;
-
-        const pre = preBalances.find(
-          (p: any) => p.accountIndex === post.accountIndex
-        );
-
-        const preAmount = pre ? Number(pre.uiTokenAmount?.amount || 0) : 0;
-        const postAmount = Number(post.uiTokenAmount?.amount || 0);
-        const diff = postAmount - preAmount;
-
-        if (diff > 0) {
-          // This account received tokens
-          const owner = post.owner;
-          
-          if (owner?.toLowerCase() === expectedRecipient.toLowerCase()) {
-            // Find sender (account with negative diff)
-            let sender = '';
-            for (const otherPost of postBalances) {
-              if (otherPost.mint !== PAYLINK_TOKEN.MINT) continue;
-              const otherPre = preBalances.find(
-                (p: any) => p.accountIndex === otherPost.accountIndex
-              );
-              const otherPreAmount = otherPre ? Number(otherPre.uiTokenAmount?.amount || 0) : 0;
-              const otherPostAmount = Number(otherPost.uiTokenAmount?.amount || 0);
-              if (otherPostAmount - otherPreAmount < 0) {
-                sender = otherPost.owner || '';
-                break;
-              }
-            }
-
-            return {
-              mint: PAYLINK_TOKEN.MINT,
-              from: sender,
-              to: owner,
-              amount: diff,
-            };
-          }
-        }
+      const transfer = findSplTransfer(tx.meta, PAYLINK_TOKEN.MINT, expectedRecipient);
+
+      if (!transfer) {
+        return null;
       }
 
-      return null;
+      return {
+        mint: transfer.mint,
+        from: transfer.from,
+        to: transfer.to,
+        amount: transfer.value,
+      };
     } catch {
       return null;
     }
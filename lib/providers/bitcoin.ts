@@ -0,0 +1,317 @@
+import type { ChainConfig, PaymentCheckResult, PaymentProvider, PaymentVerifier, TransactionDepth } from '../types.js';
+import { BITCOIN_CHAIN_IDS } from '../types.js';
+import { compareAmounts, formatUnits } from '../amount.js';
+import { decodeBase58Check } from '../base58.js';
+import { DEFAULT_BITCOIN_FINALITY_DEPTH } from '../finality.js';
+import { generatePaymentURI, type PaymentQRData } from '../qrcode.js';
+import { rpcEndpoints } from '../rpc.js';
+import { RpcError, endpointHost } from '../rpc.js';
+
+/**
+ * Bitcoin chain configuration
+ */
+export interface BitcoinConfig {
+  /** Esplora REST API base URL (e.g., https://blockstream.info/api) */
+  apiUrl: string;
+  /** Further API URLs, used in order when earlier ones fail */
+  apiUrls?: string[];
+  /** Confirmations required, counting the block that includes the transaction (default: 1) */
+  confirmations?: number;
+  /** Request timeout in ms (default: 30000) */
+  timeout?: number;
+  /** Native currency symbol (default: 'BTC') */
+  symbol?: string;
+}
+
+interface EsploraStatus {
+  confirmed: boolean;
+  block_height?: number;
+  block_hash?: string;
+}
+
+interface EsploraOutput {
+  scriptpubkey_address?: string;
+  /** Value in satoshis */
+  value: number;
+}
+
+interface EsploraTransaction {
+  txid: string;
+  vin: Array<{ prevout: EsploraOutput | null; is_coinbase?: boolean }>;
+  vout: EsploraOutput[];
+  status: EsploraStatus;
+}
+
+/**
+ * Compare Bitcoin addresses: bech32 is case-insensitive, base58 is not
+ */
+function isSameAddress(a: string, b: string): boolean {
+  const isBech32 = (address: string) => /^(bc|tb|bcrt)1/i.test(address);
+  return isBech32(a) && isBech32(b) ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+/**
+ * Bitcoin Payment Verifier
+ * Verifies BTC transfers through an Esplora-compatible REST API (Blockstream, mempool.space, self-hosted electrs)
+ */
+export class BitcoinVerifier {
+  private config: Required<Omit<BitcoinConfig, 'apiUrl' | 'apiUrls'>>;
+  private apiUrls: string[];
+
+  constructor(config: BitcoinConfig) {
+    this.config = {
+      confirmations: config.confirmations ?? 1,
+      timeout: config.timeout ?? 30000,
+      symbol: config.symbol ?? 'BTC',
+    };
+    this.apiUrls = [...new Set([config.apiUrl, ...(config.apiUrls ?? [])])]
+      .map(url => url.replace(/\/+$/, ''));
+  }
+
+  /**
+   * Verify a Bitcoin payment
+   * Sums every output of the transaction paying the recipient address.
+   */
+  async verifyPayment(params: {
+    txHash: string;
+    recipient: string;
+    amount: string;
+    /** Expected currency; only the chain symbol is supported */
+    tokenSymbol?: string;
+  }): Promise<PaymentCheckResult> {
+    try {
+      if (params.tokenSymbol && params.tokenSymbol.toUpperCase() !== this.config.symbol.toUpperCase()) {
+        console.warn(`Token ${params.tokenSymbol} is not supported on Bitcoin`);
+        return { status: 'not_found' };
+      }
+
+      const tx = await this.get<EsploraTransaction>(`/tx/${encodeURIComponent(params.txHash)}`);
+
+      if (!tx) {
+        return { status: 'not_found' };
+      }
+
+      // In the mempool
+      if (!tx.status.confirmed || tx.status.block_height === undefined) {
+        return { status: 'pending' };
+      }
+
+      // Check confirmations
+      const confirmations = (await this.getTipHeight()) - tx.status.block_height + 1;
+      if (confirmations < this.config.confirmations) {
+        return { status: 'pending' };
+      }
+
+      // Verify recipient and amount
+      const outputs = tx.vout.filter(
+        output => output.scriptpubkey_address && isSameAddress(output.scriptpubkey_address, params.recipient)
+      );
+      if (outputs.length === 0) {
+        return { status: 'not_found' };
+      }
+
+      const satoshis = outputs.reduce((sum, output) => sum + BigInt(output.value), 0n);
+      const actualAmount = formatUnits(satoshis, 8);
+      // Inputs may come from several addresses; the first one stands for the payer
+      const fromAddress = tx.vin[0]?.prevout?.scriptpubkey_address ?? '';
+
+      if (compareAmounts(actualAmount, params.amount) < 0) {
+        return {
+          status: 'underpaid',
+          actualAmount,
+          fromAddress,
+          raw: tx,
+        };
+      }
+
+      return {
+        status: 'confirmed',
+        actualAmount,
+        fromAddress,
+        raw: tx,
+      };
+    } catch (error) {
+      console.error('Bitcoin verification error:', error);
+      // An unreachable or failing API must not tell the buyer their transaction does not exist
+      return { status: 'rpc_error' };
+    }
+  }
+
+  /**
+   * Whether a transaction is still in the best chain, and its confirmations
+   * A transaction pushed back to the mempool by a reorg counts as not included.
+   * API errors are thrown rather than reported as a missing transaction.
+   */
+  async getTransactionDepth(txid: string): Promise<TransactionDepth> {
+    const status = await this.get<EsploraStatus>(`/tx/${encodeURIComponent(txid)}/status`);
+    if (!status?.confirmed || status.block_height === undefined) {
+      return { included: false, confirmations: 0 };
+    }
+
+    return { included: true, confirmations: (await this.getTipHeight()) - status.block_height + 1 };
+  }
+
+  /**
+   * Height of the best block
+   */
+  async getTipHeight(): Promise<number> {
+    const height = await this.get<number>('/blocks/tip/height');
+    if (typeof height !== 'number') {
+      throw new RpcError('Esplora API returned no tip height');
+    }
+    return height;
+  }
+
+  /**
+   * GET an API path, failing over between API URLs
+   * Null when the API reports the resource as missing or invalid (404/400).
+   */
+  private async get<T>(path: string): Promise<T | null> {
+    const causes: Error[] = [];
+
+    for (const apiUrl of this.apiUrls) {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), this.config.timeout);
+
+      try {
+        const response = await fetch(`${apiUrl}${path}`, { signal: controller.signal });
+        if (response.status === 404 || response.status === 400) {
+          return null;
+        }
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return (await response.json()) as T;
+      } catch (error) {
+        const message = (error as Error).name === 'AbortError'
+          ? `timed out after ${this.config.timeout}ms`
+          : (error as Error).message;
+        causes.push(new Error(`${endpointHost(apiUrl)}: ${message}`));
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+
+    throw new RpcError(`GET ${path} failed on every Esplora API`, causes);
+  }
+}
+
+/**
+ * Mock Bitcoin verifier for testing
+ */
+export class MockBitcoinVerifier {
+  private pending = new Set<string>();
+  private reverted = new Set<string>();
+
+  markConfirmed(txid: string): void {
+    this.pending.delete(txid);
+    this.reverted.delete(txid);
+  }
+
+  markPending(txid: string): void {
+    this.pending.add(txid);
+  }
+
+  /** Simulate a confirmed transaction that a reorg removed from the chain */
+  markReverted(txid: string): void {
+    this.reverted.add(txid);
+  }
+
+  async verifyPayment(params: {
+    txHash: string;
+    recipient: string;
+    amount: string;
+    tokenSymbol?: string;
+  }): Promise<PaymentCheckResult> {
+    await new Promise(r => setTimeout(r, 100));
+
+    if (this.reverted.has(params.txHash)) {
+      return { status: 'not_found' };
+    }
+
+    if (this.pending.has(params.txHash)) {
+      return { status: 'pending' };
+    }
+
+    // Auto-confirm for testing
+    return {
+      status: 'confirmed',
+      actualAmount: params.amount,
+      fromAddress: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq',
+    };
+  }
+
+  async getTransactionDepth(txid: string): Promise<TransactionDepth> {
+    if (this.reverted.has(txid)) {
+      return { included: false, confirmations: 0 };
+    }
+    // Mock transactions are final at once
+    return { included: true, confirmations: 0, finalized: true };
+  }
+}
+
+/**
+ * Create a Bitcoin verifier
+ */
+export function createBitcoinVerifier(config: BitcoinConfig): BitcoinVerifier {
+  return new BitcoinVerifier(config);
+}
+
+/** Version bytes of base58 P2PKH and P2SH addresses (mainnet and testnet) */
+const BASE58_VERSIONS = [0x00, 0x05, 0x6f, 0xc4];
+
+/**
+ * Bitcoin payment provider
+ */
+export class BitcoinPaymentProvider implements PaymentProvider {
+  readonly type = 'bitcoin';
+  readonly chainIds = Object.values(BITCOIN_CHAIN_IDS);
+  readonly nativeDecimals = 8;
+  readonly finalityDepth = DEFAULT_BITCOIN_FINALITY_DEPTH;
+
+  createVerifier(chain: ChainConfig): PaymentVerifier {
+    if (chain.rpcUrl === 'mock') {
+      return new MockBitcoinVerifier();
+    }
+    const [apiUrl, ...apiUrls] = rpcEndpoints(chain);
+    return new BitcoinVerifier({
+      apiUrl,
+      apiUrls,
+      confirmations: chain.confirmations,
+      symbol: chain.symbol,
+    });
+  }
+
+  /**
+   * BIP-21 URI
+   */
+  generatePaymentURI(data: PaymentQRData): string {
+    return generatePaymentURI({ ...data, chainType: 'bitcoin' });
+  }
+
+  /** Bech32 (segwit) or base58check (legacy, P2SH) addresses; the checksum of bech32 is left to the wallet */
+  isValidAddress(address: string): boolean {
+    if (/^(bc|tb|bcrt)1[02-9ac-hj-np-z]{8,87}$/.test(address.toLowerCase())) {
+      // Mixed case is invalid bech32
+      return address === address.toLowerCase() || address === address.toUpperCase();
+    }
+    try {
+      const payload = decodeBase58Check(address);
+      return payload.length === 21 && BASE58_VERSIONS.includes(payload[0]);
+    } catch {
+      return false;
+    }
+  }
+
+  /** Transaction IDs are 32 bytes of hex */
+  isValidTxHash(txHash: string): boolean {
+    return /^[0-9a-fA-F]{64}$/.test(txHash);
+  }
+
+  /** Esplora APIs are queried one at a time */
+  validateChain(chain: ChainConfig): void {
+    if ((chain.rpcQuorum ?? 1) !== 1) {
+      throw new Error(`Chain ${chain.chainId}: rpcQuorum is not supported on Bitcoin chains`);
+    }
+  }
+}
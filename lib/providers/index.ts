@@ -1,5 +1,9 @@
+export { ProviderRegistry, createProviderRegistry } from './registry.js';
+
 export { MockPaymentProvider, createMockProvider } from './mock.js';
 export type { MockPaymentConfig } from './mock.js';
 
 export { EVMPaymentProvider, createEVMProvider } from './evm.js';
-export type { EVMProviderConfig } from './evm.js';
+export { SolanaPaymentProvider } from './solana.js';
+export { BitcoinPaymentProvider } from './bitcoin.js';
+export { TronPaymentProvider } from './tron.js';
@@ -1,7 +1,19 @@
-import type { PaymentProvider, PaymentStatusResult } from '../types.js';
-import { compareAmounts } from '../utils.js';
+import type {
+  ChainConfig,
+  ChainType,
+  PaymentCheckResult,
+  PaymentProvider,
+  PaymentVerifier,
+  TransactionDepth,
+} from '../types.js';
+import { compareAmounts, percentOf } from '../amount.js';
+import type { PaymentQRData } from '../qrcode.js';
 
 export interface MockPaymentConfig {
+  /** Chain type served (default: 'mock') */
+  type?: ChainType;
+  /** Decimals of the native currency (default: 18) */
+  nativeDecimals?: number;
   /** Default status to return */
   defaultStatus?: 'confirmed' | 'pending' | 'failed';
   /** Simulate network delay in ms */
@@ -12,14 +24,20 @@ export interface MockPaymentConfig {
 
 /**
  * Mock payment provider for development and testing
+ * Registers a chain type whose chains share the provider's marked transactions.
  */
 export class MockPaymentProvider implements PaymentProvider {
+  readonly type: ChainType;
+  readonly nativeDecimals: number;
+  readonly finalityDepth = 0;
   private config: MockPaymentConfig;
   private confirmedTxHashes: Set<string> = new Set();
   private pendingTxHashes: Set<string> = new Set();
   private failedTxHashes: Set<string> = new Set();
 
   constructor(config: MockPaymentConfig = {}) {
+    this.type = config.type ?? 'mock';
+    this.nativeDecimals = config.nativeDecimals ?? 18;
     this.config = {
       defaultStatus: config.defaultStatus ?? 'confirmed',
       simulateDelay: config.simulateDelay ?? 100,
@@ -63,12 +81,28 @@ export class MockPaymentProvider implements PaymentProvider {
     this.failedTxHashes.clear();
   }
 
+  createVerifier(chain: ChainConfig): PaymentVerifier {
+    return {
+      verifyPayment: params => this.getPaymentStatus({ ...params, chainId: chain.chainId }),
+      getTransactionDepth: async txHash => this.getTransactionDepth(txHash),
+    };
+  }
+
+  generatePaymentURI(data: PaymentQRData): string {
+    return `${this.type}:${data.recipient}?${new URLSearchParams({ amount: data.amount }).toString()}`;
+  }
+
+  /** Any non-empty address */
+  isValidAddress(address: string): boolean {
+    return address.length > 0;
+  }
+
   async getPaymentStatus(params: {
     chainId: number;
     recipient: string;
     amount: string;
     txHash?: string;
-  }): Promise<PaymentStatusResult> {
+  }): Promise<PaymentCheckResult> {
     // Simulate network delay
     if (this.config.simulateDelay) {
       await new Promise(resolve => setTimeout(resolve, this.config.simulateDelay));
@@ -103,17 +137,23 @@ export class MockPaymentProvider implements PaymentProvider {
     }
   }
 
+  /** Failed transactions are not on chain; all others are final at once */
+  private getTransactionDepth(txHash: string): TransactionDepth {
+    if (this.failedTxHashes.has(txHash)) {
+      return { included: false, confirmations: 0 };
+    }
+    return { included: true, confirmations: 0, finalized: true };
+  }
+
   private createConfirmedResult(params: {
     amount: string;
     recipient: string;
-  }): PaymentStatusResult {
+  }): PaymentCheckResult {
     let actualAmount = params.amount;
 
     // Simulate underpayment
     if (this.config.underpaidPercent && this.config.underpaidPercent > 0) {
-      const original = parseFloat(params.amount);
-      const reduced = original * (1 - this.config.underpaidPercent / 100);
-      actualAmount = reduced.toString();
+      actualAmount = percentOf(params.amount, 100 - this.config.underpaidPercent);
     }
 
     const status = compareAmounts(actualAmount, params.amount) < 0 
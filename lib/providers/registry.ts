@@ -0,0 +1,75 @@
+import type { ChainConfig, ChainType, PaymentProvider } from '../types.js';
+import { EVMPaymentProvider } from './evm.js';
+import { SolanaPaymentProvider } from './solana.js';
+import { BitcoinPaymentProvider } from './bitcoin.js';
+import { TronPaymentProvider } from './tron.js';
+
+/**
+ * Payment providers by chain type
+ * Starts with the built-in providers; a registered provider replaces the one of the same type.
+ */
+export class ProviderRegistry {
+  private providers = new Map<ChainType, PaymentProvider>();
+
+  constructor(providers: PaymentProvider[] = []) {
+    const builtIn = [
+      new EVMPaymentProvider(),
+      new SolanaPaymentProvider(),
+      new BitcoinPaymentProvider(),
+      new TronPaymentProvider(),
+    ];
+    for (const provider of [...builtIn, ...providers]) {
+      this.register(provider);
+    }
+  }
+
+  /**
+   * Add a provider, replacing the one registered for its type
+   */
+  register(provider: PaymentProvider): void {
+    if (!provider.type) {
+      throw new Error('Payment provider type is required');
+    }
+    // Re-inserted so a replacement also takes precedence for chain IDs
+    this.providers.delete(provider.type);
+    this.providers.set(provider.type, provider);
+  }
+
+  /**
+   * Provider of a chain type
+   */
+  get(type: ChainType): PaymentProvider | undefined {
+    return this.providers.get(type);
+  }
+
+  /**
+   * Registered chain types
+   */
+  types(): ChainType[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Provider serving a chain: by `type`, else by chain ID, else EVM
+   * Later registrations win when several providers claim a chain ID.
+   */
+  resolve(chain: ChainConfig): PaymentProvider {
+    if (chain.type) {
+      const provider = this.providers.get(chain.type);
+      if (!provider) {
+        throw new Error(`Chain ${chain.chainId}: no payment provider for type '${chain.type}'`);
+      }
+      return provider;
+    }
+
+    const claimed = [...this.providers.values()].reverse().find(p => p.chainIds?.includes(chain.chainId));
+    return claimed ?? this.providers.get('evm')!;
+  }
+}
+
+/**
+ * Create a provider registry with the built-in providers and the given ones
+ */
+export function createProviderRegistry(providers?: PaymentProvider[]): ProviderRegistry {
+  return new ProviderRegistry(providers);
+}
@@ -1,26 +1,47 @@
-import type { PaymentCheckResult } from '../types.js';
-import { compareAmounts } from '../utils.js';
+import type {
+  ChainConfig,
+  PaymentCheckResult,
+  PaymentProvider,
+  PaymentVerifier,
+  TokenConfig,
+  TransactionDepth,
+} from '../types.js';
+import { SOLANA_CHAIN_IDS } from '../types.js';
+import { compareAmounts, formatUnits } from '../amount.js';
+import { decodeBase58 } from '../base58.js';
+import { DEFAULT_SOLANA_FINALITY_DEPTH } from '../finality.js';
+import { generatePaymentURI, type PaymentQRData } from '../qrcode.js';
+import { formatSignInMessage, verifySolanaSignature, type SignInFields } from '../wallet-auth.js';
+import { resolveToken } from '../erc20.js';
+import { findSplTransfer, type TokenBalance } from '../spl.js';
+import {
+  solanaTransfers,
+  transactionAccountKeys,
+  type SolanaAccountKey,
+  type SolanaInstruction,
+  type SolanaTransfer,
+} from '../solana-transfers.js';
+import type { ReferenceSignature } from '../solana-pay.js';
+import { RpcClient, RpcError, rpcEndpoints, type RpcEndpointHealth } from '../rpc.js';
 
 /**
  * Solana chain configuration
  */
 export interface SolanaConfig {
-  /** RPC URL (e.g., https://api.mainnet-beta.solana.com) */
-  rpcUrl: string;
+  /** RPC URL (e.g., https://api.mainnet-beta.solana.com); tried before `rpcUrls` */
+  rpcUrl?: string;
+  /** Further RPC URLs, used in order when earlier ones fail */
+  rpcUrls?: string[];
+  /** RPC endpoints that must agree on a transaction before it is confirmed (default: 1) */
+  quorum?: number;
   /** Number of confirmations required (default: 1) */
   confirmations?: number;
   /** Request timeout in ms (default: 30000) */
   timeout?: number;
-}
-
-interface JsonRpcResponse<T> {
-  jsonrpc: string;
-  id: number;
-  result?: T;
-  error?: {
-    code: number;
-    message: string;
-  };
+  /** Native currency symbol (default: 'SOL') */
+  symbol?: string;
+  /** SPL tokens accepted, keyed by symbol; `address` is the mint */
+  tokens?: Record<string, TokenConfig>;
 }
 
 interface SolanaTransaction {
@@ -30,16 +51,16 @@ interface SolanaTransaction {
     fee: number;
     preBalances: number[];
     postBalances: number[];
+    preTokenBalances?: TokenBalance[] | null;
+    postTokenBalances?: TokenBalance[] | null;
+    innerInstructions?: Array<{ index: number; instructions: SolanaInstruction[] }> | null;
+    loadedAddresses?: { writable: string[]; readonly: string[] } | null;
     status: { Ok: null } | { Err: object };
   } | null;
   transaction: {
     message: {
-      accountKeys: string[];
-      instructions: Array<{
-        programIdIndex: number;
-        accounts: number[];
-        data: string;
-      }>;
+      accountKeys: SolanaAccountKey[];
+      instructions: SolanaInstruction[];
     };
     signatures: string[];
   };
@@ -53,20 +74,44 @@ interface SignatureStatus {
   confirmationStatus: 'processed' | 'confirmed' | 'finalized' | null;
 }
 
+/** Order of commitment levels, for comparing statuses across endpoints */
+const COMMITMENT_LEVELS = [null, 'processed', 'confirmed', 'finalized'];
+
+/** Whether `a` is less confirmed than `b`; rooted statuses report null confirmations */
+function isLessConfirmed(a: SignatureStatus, b: SignatureStatus): boolean {
+  const levelA = COMMITMENT_LEVELS.indexOf(a.confirmationStatus);
+  const levelB = COMMITMENT_LEVELS.indexOf(b.confirmationStatus);
+  if (levelA !== levelB) return levelA < levelB;
+  return (a.confirmations ?? Infinity) < (b.confirmations ?? Infinity);
+}
+
 /**
  * Solana Payment Verifier
- * Verifies native SOL transfers on Solana blockchain
+ * Verifies native SOL and SPL token transfers on Solana blockchain
  */
 export class SolanaVerifier {
-  private config: Required<SolanaConfig>;
-  private requestId = 0;
+  private config: Required<Omit<SolanaConfig, 'rpcUrl' | 'rpcUrls' | 'quorum'>>;
+  private client: RpcClient;
 
   constructor(config: SolanaConfig) {
     this.config = {
-      rpcUrl: config.rpcUrl,
       confirmations: config.confirmations ?? 1,
       timeout: config.timeout ?? 30000,
+      symbol: config.symbol ?? 'SOL',
+      tokens: config.tokens ?? {},
     };
+    this.client = new RpcClient({
+      urls: rpcEndpoints(config),
+      quorum: config.quorum,
+      timeout: this.config.timeout,
+    });
+  }
+
+  /**
+   * Health of the cluster's RPC endpoints
+   */
+  getRpcHealth(): RpcEndpointHealth[] {
+    return this.client.getHealth();
   }
 
   /**
@@ -76,8 +121,17 @@ export class SolanaVerifier {
     txHash: string;
     recipient: string;
     amount: string;
+    /** Expected token; native SOL when omitted or equal to the chain symbol */
+    tokenSymbol?: string;
   }): Promise<PaymentCheckResult> {
     try {
+      // Resolve the expected mint before hitting the RPC
+      const token = params.tokenSymbol ? resolveToken(this.config.tokens, params.tokenSymbol) : undefined;
+      if (!token && params.tokenSymbol && params.tokenSymbol.toUpperCase() !== this.config.symbol.toUpperCase()) {
+        console.warn(`Token ${params.tokenSymbol} is not configured for this Solana chain`);
+        return { status: 'not_found' };
+      }
+
       // Get transaction details
       const tx = await this.getTransaction(params.txHash);
 
@@ -106,19 +160,20 @@ export class SolanaVerifier {
       }
 
       // Parse transaction to find recipient and amount
-      const { recipient: actualRecipient, amount: actualAmount, sender } = 
-        this.parseTransfer(tx, params.recipient);
+      const { recipient: actualRecipient, amount: actualAmount, sender } = token
+        ? this.parseTokenTransfer(tx, params.recipient, token)
+        : this.parseTransfer(tx, params.recipient);
 
       if (!actualRecipient) {
         return { status: 'not_found' };
       }
 
-      // Verify recipient matches
-      if (actualRecipient.toLowerCase() !== params.recipient.toLowerCase()) {
+      // Verify recipient matches; base58 addresses are case-sensitive
+      if (actualRecipient !== params.recipient) {
         return { status: 'not_found' };
       }
 
-      // Compare amounts (SOL has 9 decimals)
+      // Compare amounts
       if (compareAmounts(actualAmount, params.amount) < 0) {
         return {
           status: 'underpaid',
@@ -136,117 +191,187 @@ export class SolanaVerifier {
       };
     } catch (error) {
       console.error('Solana verification error:', error);
-      return { status: 'not_found' };
+      // Outages and JSON-RPC errors (e.g. rate limits) say nothing about the transaction
+      return { status: 'rpc_error' };
     }
   }
 
   /**
-   * Parse a Solana transaction to extract transfer details
+   * Parse a native SOL transfer to the recipient
+   * System transfers of all instructions, inner ones included, are summed; the sender is
+   * their source account, which need not be the fee payer. Lamports moved without a
+   * system transfer are read from the recipient's balance change instead.
    */
   private parseTransfer(
     tx: SolanaTransaction,
     expectedRecipient: string
   ): { recipient: string | null; amount: string; sender: string } {
-    const accountKeys = tx.transaction.message.accountKeys;
+    const transfers = solanaTransfers(tx).filter(t => t.mint === null && t.to === expectedRecipient);
+    if (transfers.length > 0) {
+      return this.sumTransfers(transfers, expectedRecipient, 9);
+    }
+
+    const accountKeys = transactionAccountKeys(tx);
     const preBalances = tx.meta?.preBalances ?? [];
     const postBalances = tx.meta?.postBalances ?? [];
-
-    // Find the expected recipient in account keys
-    const recipientIndex = accountKeys.findIndex(
-      key => key.toLowerCase() === expectedRecipient.toLowerCase()
-    );
+    const recipientIndex = accountKeys.indexOf(expectedRecipient);
 
     if (recipientIndex === -1) {
       return { recipient: null, amount: '0', sender: '' };
     }
 
     // Calculate amount received (in lamports)
-    const preBalance = preBalances[recipientIndex] ?? 0;
-    const postBalance = postBalances[recipientIndex] ?? 0;
-    const lamportsReceived = postBalance - preBalance;
+    const lamportsReceived = (postBalances[recipientIndex] ?? 0) - (preBalances[recipientIndex] ?? 0);
 
     if (lamportsReceived <= 0) {
       return { recipient: null, amount: '0', sender: '' };
     }
 
-    // Convert lamports to SOL (9 decimals)
-    const solAmount = lamportsReceived / 1e9;
-
-    // First account is typically the fee payer/sender
-    const sender = accountKeys[0] ?? '';
+    // Best-effort sender: the account debited the most
+    let sender = '';
+    let largestDebit = 0;
+    accountKeys.forEach((key, i) => {
+      const change = (postBalances[i] ?? 0) - (preBalances[i] ?? 0);
+      if (change < largestDebit) {
+        largestDebit = change;
+        sender = key;
+      }
+    });
 
     return {
       recipient: expectedRecipient,
-      amount: solAmount.toString(),
+      // Convert lamports to SOL (9 decimals)
+      amount: formatUnits(BigInt(lamportsReceived), 9),
       sender,
     };
   }
 
   /**
-   * Get transaction details from Solana RPC
+   * Parse an SPL token transfer to the recipient's wallet
+   * Transfer instructions of the mint are summed, falling back to the token balance
+   * changes of the recipient's token accounts. Other mints are ignored.
+   */
+  private parseTokenTransfer(
+    tx: SolanaTransaction,
+    expectedRecipient: string,
+    token: TokenConfig
+  ): { recipient: string | null; amount: string; sender: string } {
+    const transfers = solanaTransfers(tx).filter(t => t.mint === token.address && t.to === expectedRecipient);
+    if (transfers.length > 0) {
+      return this.sumTransfers(transfers, expectedRecipient, token.decimals);
+    }
+
+    const transfer = findSplTransfer(tx.meta, token.address, expectedRecipient);
+
+    if (!transfer) {
+      return { recipient: null, amount: '0', sender: '' };
+    }
+
+    return {
+      recipient: transfer.to,
+      amount: formatUnits(transfer.value, token.decimals),
+      sender: transfer.from,
+    };
+  }
+
+  /**
+   * Total of transfers to one recipient, attributed to the sender of the largest one
+   */
+  private sumTransfers(
+    transfers: SolanaTransfer[],
+    recipient: string,
+    decimals: number
+  ): { recipient: string; amount: string; sender: string } {
+    const total = transfers.reduce((sum, t) => sum + t.value, 0n);
+    const largest = transfers.reduce((max, t) => t.value > max.value ? t : max);
+    return { recipient, amount: formatUnits(total, decimals), sender: largest.from };
+  }
+
+  /**
+   * Get the latest confirmed signatures of transactions involving an address
+   * Used to find payments by Solana Pay reference
+   */
+  async getSignaturesForAddress(address: string, limit = 10): Promise<ReferenceSignature[]> {
+    const result = await this.client.request<ReferenceSignature[]>('getSignaturesForAddress', [
+      address,
+      { limit, commitment: 'confirmed' },
+    ]);
+    return result ?? [];
+  }
+
+  /**
+   * Whether a transaction is still on the cluster's chain, and its confirmations
+   * RPC errors are thrown rather than reported as a missing transaction.
+   */
+  async getTransactionDepth(signature: string): Promise<TransactionDepth> {
+    // Search the full history: the status cache only covers the last ~150 slots
+    const statuses = await this.getSignatureStatuses(signature, { searchTransactionHistory: true });
+    const included = statuses.filter(status => status && !status.err) as SignatureStatus[];
+    if (included.length === 0) {
+      return { included: false, confirmations: 0 };
+    }
+    // Only drop a payment once every endpoint of the quorum lost it
+    if (included.length < statuses.length) {
+      throw new RpcError(`RPC endpoints disagree on the status of ${signature}`);
+    }
+
+    const status = included.reduce((least, s) => isLessConfirmed(s, least) ? s : least);
+
+    return {
+      included: true,
+      confirmations: status.confirmations ?? 0,
+      finalized: status.confirmationStatus === 'finalized',
+    };
+  }
+
+  /**
+   * Get transaction details from Solana RPC, agreed by the quorum on slot, accounts and balance changes
+   * `jsonParsed` decodes system and token instructions and lists lookup table accounts.
    */
   private async getTransaction(signature: string): Promise<SolanaTransaction | null> {
-    return this.rpc<SolanaTransaction>('getTransaction', [
+    return this.client.requestAgreed<SolanaTransaction>('getTransaction', [
       signature,
       {
-        encoding: 'json',
+        encoding: 'jsonParsed',
         commitment: 'confirmed',
         maxSupportedTransactionVersion: 0,
       },
-    ]);
+    ], tx => tx && {
+      slot: tx.slot,
+      err: tx.meta?.err ?? null,
+      accountKeys: transactionAccountKeys(tx),
+      transfers: solanaTransfers(tx).map(t => [t.mint, t.from, t.to, t.value.toString()]),
+      preBalances: tx.meta?.preBalances,
+      postBalances: tx.meta?.postBalances,
+      preTokenBalances: tx.meta?.preTokenBalances,
+      postTokenBalances: tx.meta?.postTokenBalances,
+    });
   }
 
   /**
-   * Get signature status
+   * Get signature status; with a quorum, the least confirmed status among the endpoints
+   * Null when any endpoint has not seen the transaction yet.
    */
   private async getSignatureStatus(signature: string): Promise<SignatureStatus | null> {
-    const result = await this.rpc<{ value: Array<SignatureStatus | null> }>(
-      'getSignatureStatuses',
-      [[signature]]
+    const statuses = await this.getSignatureStatuses(signature);
+    if (statuses.some(status => !status)) return null;
+    return (statuses as SignatureStatus[]).reduce((least, status) =>
+      isLessConfirmed(status, least) ? status : least
     );
-    return result?.value?.[0] ?? null;
   }
 
   /**
-   * Make an RPC call to Solana
+   * Signature status as reported by each endpoint of the quorum
    */
-  private async rpc<T>(method: string, params: unknown[]): Promise<T | null> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), this.config.timeout);
-
-    try {
-      const response = await fetch(this.config.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: ++this.requestId,
-          method,
-          params,
-        }),
-        signal: controller.signal,
-      });
-
-      const data = (await response.json()) as JsonRpcResponse<T>;
-
-      if (data.error) {
-        console.error('Solana RPC error:', data.error);
-        return null;
-      }
-
-      return data.result ?? null;
-    } catch (error) {
-      if ((error as Error).name === 'AbortError') {
-        console.error('Solana RPC request timeout');
-      } else {
-        console.error('Solana RPC error:', error);
-      }
-      return null;
-    } finally {
-      clearTimeout(timeout);
-    }
+  private async getSignatureStatuses(
+    signature: string,
+    options?: { searchTransactionHistory: boolean }
+  ): Promise<Array<SignatureStatus | null>> {
+    const results = await this.client.requestMany<{ value: Array<SignatureStatus | null> }>(
+      'getSignatureStatuses',
+      options ? [[signature], options] : [[signature]]
+    );
+    return results.map(result => result?.value?.[0] ?? null);
   }
 }
 
@@ -257,6 +382,8 @@ export class MockSolanaVerifier {
   private confirmed = new Set<string>();
   private pending = new Set<string>();
   private failed = new Set<string>();
+  private reverted = new Set<string>();
+  private references = new Map<string, string[]>();
 
   markConfirmed(signature: string): void {
     this.confirmed.add(signature);
@@ -272,10 +399,28 @@ export class MockSolanaVerifier {
     this.failed.add(signature);
   }
 
+  /** Simulate a confirmed transaction whose fork was dropped */
+  markReverted(signature: string): void {
+    this.reverted.add(signature);
+  }
+
+  /** Simulate a transaction that includes a Solana Pay reference */
+  addReferenceSignature(reference: string, signature: string): void {
+    this.references.set(reference, [signature, ...(this.references.get(reference) ?? [])]);
+  }
+
+  async getSignaturesForAddress(address: string): Promise<ReferenceSignature[]> {
+    return (this.references.get(address) ?? []).map(signature => ({
+      signature,
+      err: this.failed.has(signature) ? { InstructionError: [0, 'Custom'] } : null,
+    }));
+  }
+
   async verifyPayment(params: {
     txHash: string;
     recipient: string;
     amount: string;
+    tokenSymbol?: string;
   }): Promise<PaymentCheckResult> {
     await new Promise(r => setTimeout(r, 100));
 
@@ -283,6 +428,10 @@ export class MockSolanaVerifier {
       return { status: 'failed' };
     }
 
+    if (this.reverted.has(params.txHash)) {
+      return { status: 'not_found' };
+    }
+
     if (this.pending.has(params.txHash)) {
       return { status: 'pending' };
     }
@@ -294,6 +443,14 @@ export class MockSolanaVerifier {
       fromAddress: 'So11111111111111111111111111111111111111112',
     };
   }
+
+  async getTransactionDepth(signature: string): Promise<TransactionDepth> {
+    if (this.reverted.has(signature) || this.failed.has(signature)) {
+      return { included: false, confirmations: 0 };
+    }
+    // Mock transactions are final at once
+    return { included: true, confirmations: 0, finalized: true };
+  }
 }
 
 /**
@@ -302,3 +459,73 @@ export class MockSolanaVerifier {
 export function createSolanaVerifier(config: SolanaConfig): SolanaVerifier {
   return new SolanaVerifier(config);
 }
+
+/** Cluster names used as chain IDs in Sign In With Solana messages */
+const SOLANA_CLUSTERS: Record<number, string> = {
+  [SOLANA_CHAIN_IDS.MAINNET]: 'mainnet',
+  [SOLANA_CHAIN_IDS.DEVNET]: 'devnet',
+  [SOLANA_CHAIN_IDS.TESTNET]: 'testnet',
+};
+
+/**
+ * Solana payment provider
+ */
+export class SolanaPaymentProvider implements PaymentProvider {
+  readonly type = 'solana';
+  readonly chainIds = Object.values(SOLANA_CHAIN_IDS);
+  readonly nativeDecimals = 9;
+  readonly finalityDepth = DEFAULT_SOLANA_FINALITY_DEPTH;
+
+  createVerifier(chain: ChainConfig): PaymentVerifier {
+    if (chain.rpcUrl === 'mock') {
+      return new MockSolanaVerifier();
+    }
+    return new SolanaVerifier({
+      rpcUrl: chain.rpcUrl,
+      rpcUrls: chain.rpcUrls,
+      quorum: chain.rpcQuorum,
+      confirmations: chain.confirmations,
+      symbol: chain.symbol,
+      tokens: chain.tokens,
+    });
+  }
+
+  /**
+   * Solana Pay URI
+   */
+  generatePaymentURI(data: PaymentQRData): string {
+    return generatePaymentURI({ ...data, chainType: 'solana' });
+  }
+
+  /** Base58 public keys of 32 bytes */
+  isValidAddress(address: string): boolean {
+    try {
+      return decodeBase58(address).length === 32;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Base58 transaction signatures of 64 bytes */
+  isValidTxHash(txHash: string): boolean {
+    try {
+      return decodeBase58(txHash).length === 64;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Sign In With Solana message; the chain ID is the cluster name
+   */
+  createSignInMessage(fields: SignInFields): string {
+    return formatSignInMessage('Solana', SOLANA_CLUSTERS[fields.chainId] ?? fields.chainId, fields);
+  }
+
+  /**
+   * Ed25519 `signMessage` signature, base58-encoded
+   */
+  verifySignature(message: string, signature: string, address: string): boolean {
+    return verifySolanaSignature(message, signature, address);
+  }
+}
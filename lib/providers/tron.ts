@@ -0,0 +1,409 @@
+import type {
+  ChainConfig,
+  PaymentCheckResult,
+  PaymentProvider,
+  PaymentVerifier,
+  TokenConfig,
+  TransactionDepth,
+} from '../types.js';
+import { TRON_CHAIN_IDS } from '../types.js';
+import { compareAmounts, formatUnits } from '../amount.js';
+import { decodeTransfers, resolveToken, type ReceiptLog } from '../erc20.js';
+import { DEFAULT_TRON_FINALITY_DEPTH } from '../finality.js';
+import { generatePaymentURI, type PaymentQRData } from '../qrcode.js';
+import { RpcError, endpointHost, rpcEndpoints } from '../rpc.js';
+import { isSameTronAddress, toTronAddress, tronAddressToHex } from '../tron.js';
+
+/**
+ * TRON chain configuration
+ */
+export interface TronConfig {
+  /** HTTP API base URL of a full node or TronGrid (e.g., https://api.trongrid.io) */
+  apiUrl: string;
+  /** Further API URLs, used in order when earlier ones fail */
+  apiUrls?: string[];
+  /** Blocks a transaction must be behind the head before it is confirmed (default: 1) */
+  confirmations?: number;
+  /** Request timeout in ms (default: 30000) */
+  timeout?: number;
+  /** Native currency symbol (default: 'TRX') */
+  symbol?: string;
+  /** TRC-20 tokens accepted, keyed by symbol; `address` is the contract (base58 or hex) */
+  tokens?: Record<string, TokenConfig>;
+}
+
+interface TronTransaction {
+  txID?: string;
+  ret?: Array<{ contractRet?: string }>;
+  raw_data?: {
+    contract: Array<{
+      type: string;
+      parameter: {
+        value: {
+          owner_address: string;
+          to_address?: string;
+          /** TRX amount in sun */
+          amount?: number;
+          contract_address?: string;
+        };
+      };
+    }>;
+  };
+}
+
+interface TronTransactionInfo {
+  id?: string;
+  blockNumber?: number;
+  /** 'FAILED' when the transaction failed */
+  result?: string;
+  receipt?: { result?: string };
+  /** Event logs; hex without 0x, addresses without the 41 prefix */
+  log?: Array<{ address: string; topics: string[]; data?: string }>;
+}
+
+/**
+ * TRON Payment Verifier
+ * Verifies TRX transfers and TRC-20 Transfer events through TRON's HTTP API
+ */
+export class TronVerifier {
+  private config: Required<Omit<TronConfig, 'apiUrl' | 'apiUrls'>>;
+  private apiUrls: string[];
+
+  constructor(config: TronConfig) {
+    this.config = {
+      confirmations: config.confirmations ?? 1,
+      timeout: config.timeout ?? 30000,
+      symbol: config.symbol ?? 'TRX',
+      tokens: config.tokens ?? {},
+    };
+    this.apiUrls = [...new Set([config.apiUrl, ...(config.apiUrls ?? [])])]
+      .map(url => url.replace(/\/+$/, ''));
+  }
+
+  /**
+   * Verify a TRON payment
+   */
+  async verifyPayment(params: {
+    txHash: string;
+    recipient: string;
+    amount: string;
+    /** Expected token; native TRX when omitted or equal to the chain symbol */
+    tokenSymbol?: string;
+  }): Promise<PaymentCheckResult> {
+    try {
+      // Resolve the expected contract before hitting the API
+      const token = params.tokenSymbol ? resolveToken(this.config.tokens, params.tokenSymbol) : undefined;
+      if (!token && params.tokenSymbol && params.tokenSymbol.toUpperCase() !== this.config.symbol.toUpperCase()) {
+        console.warn(`Token ${params.tokenSymbol} is not configured for this TRON chain`);
+        return { status: 'not_found' };
+      }
+
+      const tx = await this.post<TronTransaction>('/wallet/gettransactionbyid', { value: params.txHash });
+
+      // Unknown transactions come back as {}
+      if (!tx?.txID) {
+        return { status: 'not_found' };
+      }
+
+      if (tx.ret?.[0]?.contractRet && tx.ret[0].contractRet !== 'SUCCESS') {
+        return { status: 'failed' };
+      }
+
+      // Not in a block yet
+      const info = await this.getTransactionInfo(params.txHash);
+      if (info?.blockNumber === undefined) {
+        return { status: 'pending' };
+      }
+
+      if (this.isFailed(info)) {
+        return { status: 'failed' };
+      }
+
+      // Check confirmations
+      const confirmations = (await this.getBlockNumber()) - info.blockNumber;
+      if (confirmations < this.config.confirmations) {
+        return { status: 'pending' };
+      }
+
+      // Verify recipient and amount
+      const transfer = token
+        ? this.findTokenTransfer(info, params.recipient, token)
+        : this.findTransfer(tx, params.recipient);
+      if (!transfer) {
+        return { status: 'not_found' };
+      }
+
+      const { actualAmount, fromAddress } = transfer;
+
+      if (compareAmounts(actualAmount, params.amount) < 0) {
+        return {
+          status: 'underpaid',
+          actualAmount,
+          fromAddress,
+          raw: { tx, info },
+        };
+      }
+
+      return {
+        status: 'confirmed',
+        actualAmount,
+        fromAddress,
+        raw: { tx, info },
+      };
+    } catch (error) {
+      console.error('TRON verification error:', error);
+      // Failed requests are retried; only an empty answer reports the transaction missing
+      return { status: 'rpc_error' };
+    }
+  }
+
+  /**
+   * Whether a transaction is still on chain, and its confirmations
+   * API errors are thrown rather than reported as a missing transaction.
+   */
+  async getTransactionDepth(txHash: string): Promise<TransactionDepth> {
+    const info = await this.getTransactionInfo(txHash);
+    if (info?.blockNumber === undefined || this.isFailed(info)) {
+      return { included: false, confirmations: 0 };
+    }
+
+    return { included: true, confirmations: (await this.getBlockNumber()) - info.blockNumber };
+  }
+
+  /**
+   * Latest block number
+   */
+  async getBlockNumber(): Promise<number> {
+    const block = await this.post<{ block_header?: { raw_data?: { number?: number } } }>('/wallet/getnowblock', {});
+    const number = block?.block_header?.raw_data?.number;
+    if (typeof number !== 'number') {
+      throw new RpcError('TRON API returned no head block');
+    }
+    return number;
+  }
+
+  private async getTransactionInfo(txHash: string): Promise<TronTransactionInfo | null> {
+    return this.post<TronTransactionInfo>('/wallet/gettransactioninfobyid', { value: txHash });
+  }
+
+  /** Failed contract execution (e.g. a reverted TRC-20 transfer, out of energy) */
+  private isFailed(info: TronTransactionInfo): boolean {
+    return info.result === 'FAILED' || (!!info.receipt?.result && info.receipt.result !== 'SUCCESS');
+  }
+
+  /**
+   * Native TRX transfer to the recipient (TransferContract)
+   */
+  private findTransfer(
+    tx: TronTransaction,
+    recipient: string
+  ): { actualAmount: string; fromAddress: string } | null {
+    const contract = tx.raw_data?.contract[0];
+    const value = contract?.parameter.value;
+    if (contract?.type !== 'TransferContract' || !value?.to_address || !isSameTronAddress(value.to_address, recipient)) {
+      return null;
+    }
+    return {
+      actualAmount: formatUnits(BigInt(value.amount ?? 0), 6),
+      fromAddress: toTronAddress(value.owner_address),
+    };
+  }
+
+  /**
+   * Sum the token's Transfer events to the recipient; events of other contracts are ignored
+   */
+  private findTokenTransfer(
+    info: TronTransactionInfo,
+    recipient: string,
+    token: TokenConfig
+  ): { actualAmount: string; fromAddress: string } | null {
+    // TRON logs are EVM logs without the 0x and 41 prefixes
+    const logs: ReceiptLog[] = (info.log ?? []).map(log => ({
+      address: '0x' + log.address.slice(-40),
+      topics: log.topics.map(topic => '0x' + topic.toLowerCase()),
+      data: '0x' + (log.data ?? ''),
+    }));
+    const contract = '0x' + tronAddressToHex(token.address).slice(2);
+    const to = '0x' + tronAddressToHex(recipient).slice(2);
+
+    const transfers = decodeTransfers(logs).filter(t => t.token === contract && t.to === to);
+    if (transfers.length === 0) {
+      return null;
+    }
+
+    const total = transfers.reduce((sum, t) => sum + t.value, 0n);
+    return { actualAmount: formatUnits(total, token.decimals), fromAddress: toTronAddress(transfers[0].from) };
+  }
+
+  /**
+   * POST to an API path, failing over between API URLs
+   */
+  private async post<T>(path: string, body: unknown): Promise<T | null> {
+    const causes: Error[] = [];
+
+    for (const apiUrl of this.apiUrls) {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), this.config.timeout);
+
+      try {
+        const response = await fetch(`${apiUrl}${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const data = (await response.json()) as T & { Error?: string };
+        if (data && typeof data === 'object' && data.Error) {
+          throw new Error(data.Error);
+        }
+        return data ?? null;
+      } catch (error) {
+        const message = (error as Error).name === 'AbortError'
+          ? `timed out after ${this.config.timeout}ms`
+          : (error as Error).message;
+        causes.push(new Error(`${endpointHost(apiUrl)}: ${message}`));
+      } finally {
+        clearTimeout(timeout);
+      }
+    }
+
+    throw new RpcError(`POST ${path} failed on every TRON API`, causes);
+  }
+}
+
+/**
+ * Mock TRON verifier for testing
+ */
+export class MockTronVerifier {
+  private pending = new Set<string>();
+  private failed = new Set<string>();
+  private reverted = new Set<string>();
+
+  markConfirmed(txHash: string): void {
+    this.pending.delete(txHash);
+    this.failed.delete(txHash);
+    this.reverted.delete(txHash);
+  }
+
+  markPending(txHash: string): void {
+    this.pending.add(txHash);
+  }
+
+  markFailed(txHash: string): void {
+    this.failed.add(txHash);
+  }
+
+  /** Simulate a confirmed transaction that a reorg removed from the chain */
+  markReverted(txHash: string): void {
+    this.reverted.add(txHash);
+  }
+
+  async verifyPayment(params: {
+    txHash: string;
+    recipient: string;
+    amount: string;
+    tokenSymbol?: string;
+  }): Promise<PaymentCheckResult> {
+    await new Promise(r => setTimeout(r, 100));
+
+    if (this.failed.has(params.txHash)) {
+      return { status: 'failed' };
+    }
+
+    if (this.reverted.has(params.txHash)) {
+      return { status: 'not_found' };
+    }
+
+    if (this.pending.has(params.txHash)) {
+      return { status: 'pending' };
+    }
+
+    // Auto-confirm for testing
+    return {
+      status: 'confirmed',
+      actualAmount: params.amount,
+      fromAddress: 'T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb',
+    };
+  }
+
+  async getTransactionDepth(txHash: string): Promise<TransactionDepth> {
+    if (this.reverted.has(txHash) || this.failed.has(txHash)) {
+      return { included: false, confirmations: 0 };
+    }
+    // Mock transactions are final at once
+    return { included: true, confirmations: 0, finalized: true };
+  }
+}
+
+/**
+ * Create a TRON verifier
+ */
+export function createTronVerifier(config: TronConfig): TronVerifier {
+  return new TronVerifier(config);
+}
+
+/**
+ * TRON payment provider
+ */
+export class TronPaymentProvider implements PaymentProvider {
+  readonly type = 'tron';
+  readonly chainIds = Object.values(TRON_CHAIN_IDS);
+  readonly nativeDecimals = 6;
+  readonly finalityDepth = DEFAULT_TRON_FINALITY_DEPTH;
+
+  createVerifier(chain: ChainConfig): PaymentVerifier {
+    if (chain.rpcUrl === 'mock') {
+      return new MockTronVerifier();
+    }
+    const [apiUrl, ...apiUrls] = rpcEndpoints(chain);
+    return new TronVerifier({
+      apiUrl,
+      apiUrls,
+      confirmations: chain.confirmations,
+      symbol: chain.symbol,
+      tokens: chain.tokens,
+    });
+  }
+
+  /**
+   * tron: URI; the token contract is shown in base58 like the recipient
+   */
+  generatePaymentURI(data: PaymentQRData): string {
+    return generatePaymentURI({
+      ...data,
+      chainType: 'tron',
+      recipient: this.formatAddress(data.recipient),
+      tokenContract: data.tokenContract && this.formatAddress(data.tokenContract),
+    });
+  }
+
+  isValidAddress(address: string): boolean {
+    try {
+      tronAddressToHex(address);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Transaction IDs are 32 bytes of hex */
+  isValidTxHash(txHash: string): boolean {
+    return /^[0-9a-fA-F]{64}$/.test(txHash);
+  }
+
+  /** Base58check (T...); addresses that do not parse are returned unchanged */
+  formatAddress(address: string): string {
+    return this.isValidAddress(address) ? toTronAddress(address) : address;
+  }
+
+  /** TRON APIs are queried one at a time */
+  validateChain(chain: ChainConfig): void {
+    if ((chain.rpcQuorum ?? 1) !== 1) {
+      throw new Error(`Chain ${chain.chainId}: rpcQuorum is not supported on TRON chains`);
+    }
+  }
+}
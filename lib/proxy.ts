@@ -0,0 +1,150 @@
+/**
+ * Reverse-proxy delivery
+ * Streams a paid link's target through the server, so buyers never learn its URL.
+ * Upstream connections only go to public addresses, checked on the address actually
+ * connected to so DNS rebinding cannot slip past, and redirects are not followed.
+ */
+
+import http, { type IncomingMessage, type ServerResponse } from 'http';
+import https from 'https';
+import { lookup, type LookupAddress } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { pipeline } from 'stream';
+import type { ProxyConfig } from './types.js';
+
+/** Default upstream idle timeout in ms */
+export const DEFAULT_PROXY_TIMEOUT = 30000;
+
+/**
+ * Thrown when a target's host is not allowed or resolves to a non-public address
+ */
+export class UpstreamBlockedError extends Error {
+  constructor(host: string, reason: string) {
+    super(`Upstream ${host} blocked: ${reason}`);
+    this.name = 'UpstreamBlockedError';
+  }
+}
+
+/** Loopback, private, link-local, shared, reserved, documentation and multicast ranges */
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001:db8::', 32],
+  ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is publicly routable
+ * IPv4-mapped IPv6 addresses are judged by their IPv4 address.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/** DNS lookup failing unless every address of the host is public */
+const publicLookup = ((hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses: LookupAddress[]) => {
+    if (err) {
+      callback(err, '');
+      return;
+    }
+    const blocked = addresses.find(a => !isPublicAddress(a.address));
+    if (blocked || addresses.length === 0) {
+      callback(new UpstreamBlockedError(hostname, `resolves to ${blocked?.address ?? 'nothing'}`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as LookupFunction;
+
+/** Request headers passed upstream; cookies and credentials for this server never are */
+const REQUEST_HEADERS = ['accept', 'accept-encoding', 'accept-language', 'range', 'if-range', 'if-none-match', 'if-modified-since'];
+
+/** Response headers passed back; cookies and locations of the upstream never are */
+const RESPONSE_HEADERS = [
+  'content-type', 'content-length', 'content-range', 'content-encoding', 'content-language',
+  'content-disposition', 'accept-ranges', 'etag', 'last-modified',
+];
+
+/**
+ * Stream `targetUrl` to `res` for a GET or HEAD request
+ * Range and conditional requests pass through, so media seeking and resumed downloads work.
+ * Rejects before any response is sent when the upstream is blocked, unreachable or redirects;
+ * failures mid-stream destroy the response instead.
+ */
+export function proxyRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  targetUrl: string,
+  options: ProxyConfig = {}
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const url = new URL(targetUrl);
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      reject(new UpstreamBlockedError(host, `unsupported protocol ${url.protocol}`));
+      return;
+    }
+
+    // Hosts the operator lists are trusted wherever they resolve
+    const allowedHosts = options.allowedHosts?.map(h => h.toLowerCase());
+    if (allowedHosts && !allowedHosts.includes(host.toLowerCase())) {
+      reject(new UpstreamBlockedError(host, 'not in allowedHosts'));
+      return;
+    }
+    // IP literals are connected to without a lookup
+    if (!allowedHosts && isIP(host) && !isPublicAddress(host)) {
+      reject(new UpstreamBlockedError(host, 'not a public address'));
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    for (const name of REQUEST_HEADERS) {
+      const value = req.headers[name];
+      if (typeof value === 'string') headers[name] = value;
+    }
+
+    const upstream = (url.protocol === 'https:' ? https : http).request(url, {
+      method: req.method === 'HEAD' ? 'HEAD' : 'GET',
+      headers,
+      lookup: allowedHosts ? undefined : publicLookup,
+      timeout: options.timeout ?? DEFAULT_PROXY_TIMEOUT,
+    }, response => {
+      const status = response.statusCode ?? 502;
+      if (status >= 300 && status < 400 && status !== 304) {
+        response.resume();
+        reject(new Error(`Upstream redirected with ${status}`));
+        return;
+      }
+
+      res.statusCode = status;
+      for (const name of RESPONSE_HEADERS) {
+        const value = response.headers[name];
+        if (value !== undefined) res.setHeader(name, value);
+      }
+      // Every use goes back through the access check, so no shared caches and revalidate each time
+      res.setHeader('cache-control', 'private, no-cache');
+
+      pipeline(response, res, () => resolve());
+    });
+
+    upstream.on('timeout', () => upstream.destroy(new Error('Upstream timed out')));
+    upstream.on('error', reject);
+    // Stop fetching when the buyer goes away
+    res.on('close', () => upstream.destroy());
+    upstream.end();
+  });
+}
@@ -3,6 +3,9 @@
  * Generates QR codes for payment links with wallet deep links
  */
 
+import { parseUnits } from './amount.js';
+import { BITCOIN_CHAIN_IDS, SOLANA_CHAIN_IDS, TRON_CHAIN_IDS, type ChainType } from './types.js';
+
 // QR Code matrix generation using Reed-Solomon error correction
 // This is a pure TypeScript implementation without external dependencies
 
@@ -31,6 +34,8 @@ export interface QRCodeOptions {
 export interface PaymentQRData {
   /** Chain ID */
   chainId: number;
+  /** Chain type; inferred from well-known chain IDs when omitted */
+  chainType?: ChainType;
   /** Recipient address */
   recipient: string;
   /** Amount to pay */
@@ -41,6 +46,21 @@ export interface PaymentQRData {
   payLinkId: string;
   /** Callback URL for confirmation */
   confirmUrl: string;
+  /** Solana Pay reference public key, lets the server detect the payment */
+  reference?: string;
+  /** Mint address for SPL token payments (Solana) */
+  splToken?: string;
+  /** Token contract for token payments (TRC-20 on TRON) */
+  tokenContract?: string;
+}
+
+/**
+ * Chain type of a well-known chain ID
+ */
+function inferChainType(chainId: number): ChainType {
+  if ((Object.values(BITCOIN_CHAIN_IDS) as number[]).includes(chainId)) return 'bitcoin';
+  if ((Object.values(TRON_CHAIN_IDS) as number[]).includes(chainId)) return 'tron';
+  return (Object.values(SOLANA_CHAIN_IDS) as number[]).includes(chainId) ? 'solana' : 'evm';
 }
 
 /**
@@ -48,22 +68,39 @@ export interface PaymentQRData {
  */
 export function generatePaymentURI(data: PaymentQRData): string {
   const { chainId, recipient, amount, tokenSymbol } = data;
+  const chainType = data.chainType ?? inferChainType(chainId);
+
+  // Bitcoin - BIP-21 format
+  // bitcoin:<address>?amount=<btc>&label=<label>&message=<message>
+  if (chainType === 'bitcoin') {
+    // BIP-21 wants percent-encoding, not the '+' for spaces URLSearchParams produces
+    const label = encodeURIComponent('Paylink Payment');
+    const message = encodeURIComponent(`Payment for ${data.payLinkId}`);
+    return `bitcoin:${recipient}?amount=${amount}&label=${label}&message=${message}`;
+  }
+
+  // TRON - tron:<address>?amount=<amount>&token=<trc20 contract>
+  if (chainType === 'tron') {
+    const params = new URLSearchParams({ amount });
+    if (data.tokenContract) params.set('token', data.tokenContract);
+    return `tron:${recipient}?${params.toString()}`;
+  }
 
   // Solana (chainId 101 = mainnet, 102 = devnet, 103 = testnet)
-  if (chainId >= 101 && chainId <= 103) {
+  if (chainType === 'solana') {
     // Solana Pay URI format
-    // solana:<recipient>?amount=<amount>&label=<label>&message=<message>
-    const params = new URLSearchParams({
-      amount: amount,
-      label: 'Paylink Payment',
-      message: `Payment for ${data.payLinkId}`,
-    });
+    // solana:<recipient>?amount=<amount>&spl-token=<mint>&reference=<reference>&label=<label>&message=<message>
+    const params = new URLSearchParams({ amount: amount });
+    if (data.splToken) params.set('spl-token', data.splToken);
+    if (data.reference) params.set('reference', data.reference);
+    params.set('label', 'Paylink Payment');
+    params.set('message', `Payment for ${data.payLinkId}`);
     return `solana:${recipient}?${params.toString()}`;
   }
 
   // EVM chains - use EIP-681 format
   // ethereum:<address>@<chainId>/transfer?value=<value>
-  const weiAmount = parseFloat(amount) * 1e18;
+  const weiAmount = parseUnits(amount, 18);
   
   // Determine scheme based on chain
   let scheme = 'ethereum';
@@ -75,7 +112,7 @@ export function generatePaymentURI(data: PaymentQRData): string {
     scheme = 'arbitrum';
   }
 
-  return `${scheme}:${recipient}@${chainId}?value=${weiAmount.toFixed(0)}`;
+  return `${scheme}:${recipient}@${chainId}?value=${weiAmount}`;
 }
 
 /**
@@ -0,0 +1,113 @@
+/**
+ * Signed redirects
+ * Query parameters appended to a paid link's target when redirecting to it, so the
+ * target origin can tell a visitor came through a paid link. Signed with a shared
+ * HMAC-SHA256 secret, or an Ed25519 key whose public half the origin holds.
+ */
+
+import {
+  createHmac,
+  createPrivateKey,
+  createPublicKey,
+  createSecretKey,
+  sign,
+  timingSafeEqual,
+  verify,
+  type KeyObject,
+} from 'crypto';
+
+/** Query parameters added to signed redirects */
+export const REDIRECT_PARAMS = ['pl_exp', 'pl_link', 'pl_payer', 'pl_sig'] as const;
+
+/**
+ * What a signed redirect vouches for
+ */
+export interface PaylinkRedirect {
+  /** Pay link the visitor came through */
+  linkId: string;
+  /** Address that paid; empty when unknown */
+  payer: string;
+  /** The redirect URL stops verifying after this */
+  expiresAt: Date;
+}
+
+/**
+ * Signing or verification key
+ * A plain string or secret KeyObject is an HMAC secret; a PEM string or asymmetric
+ * KeyObject is an Ed25519 key (private to sign, public or private to verify).
+ */
+export type RedirectKey = string | KeyObject;
+
+function toKeyObject(key: RedirectKey): KeyObject {
+  if (typeof key !== 'string') {
+    return key;
+  }
+  if (!key.includes('-----BEGIN')) {
+    return createSecretKey(Buffer.from(key));
+  }
+  return key.includes('PRIVATE KEY') ? createPrivateKey(key) : createPublicKey(key);
+}
+
+/**
+ * Signed part of a URL: path and query without `pl_sig`, in URLSearchParams form
+ * The host is left out so proxies and load balancers that rewrite it do not break verification.
+ */
+function signedPart(url: URL): string {
+  const params = new URLSearchParams(url.search);
+  params.delete('pl_sig');
+  return `${url.pathname}?${params.toString()}`;
+}
+
+/**
+ * Append `pl_exp`, `pl_link`, `pl_payer` and `pl_sig` to a target URL
+ * Any `pl_*` parameters already in the URL are replaced.
+ */
+export function signPaylinkRedirect(targetUrl: string, redirect: PaylinkRedirect, key: RedirectKey): string {
+  const url = new URL(targetUrl);
+  for (const name of REDIRECT_PARAMS) {
+    url.searchParams.delete(name);
+  }
+  url.searchParams.set('pl_exp', String(Math.floor(redirect.expiresAt.getTime() / 1000)));
+  url.searchParams.set('pl_link', redirect.linkId);
+  url.searchParams.set('pl_payer', redirect.payer);
+
+  const data = Buffer.from(signedPart(url));
+  const keyObject = toKeyObject(key);
+  const signature = keyObject.type === 'secret'
+    ? createHmac('sha256', keyObject).update(data).digest()
+    : sign(null, data, keyObject);
+  url.searchParams.set('pl_sig', signature.toString('base64url'));
+  return url.toString();
+}
+
+/**
+ * What a signed redirect URL vouches for, or null when it is unsigned, tampered with or expired
+ * `url` may be absolute or a path with query, such as Express's `req.originalUrl`.
+ */
+export function verifyPaylinkRedirect(url: string | URL, key: RedirectKey, now: Date = new Date()): PaylinkRedirect | null {
+  try {
+    const parsed = new URL(url, 'http://localhost');
+    const signature = Buffer.from(parsed.searchParams.get('pl_sig') ?? '', 'base64url');
+    const exp = Number(parsed.searchParams.get('pl_exp'));
+    const linkId = parsed.searchParams.get('pl_link');
+    const payer = parsed.searchParams.get('pl_payer');
+    if (signature.length === 0 || !linkId || payer === null || !(exp * 1000 > now.getTime())) {
+      return null;
+    }
+
+    const data = Buffer.from(signedPart(parsed));
+    const keyObject = toKeyObject(key);
+    if (keyObject.type === 'secret') {
+      const expected = createHmac('sha256', keyObject).update(data).digest();
+      if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+        return null;
+      }
+    } else if (!verify(null, data, keyObject, signature)) {
+      return null;
+    }
+
+    return { linkId, payer, expiresAt: new Date(exp * 1000) };
+  } catch {
+    return null;
+  }
+}
@@ -21,6 +21,15 @@ import type {
   Storage,
 } from './types.js';
 import { generateId } from './utils.js';
+import {
+  addAmounts,
+  compareAmounts,
+  percentOf,
+  subtractAmounts,
+  DEFAULT_DECIMALS,
+  type DecimalsResolver,
+} from './amount.js';
+import { updateWithRetry } from './storage/concurrency.js';
 
 /**
  * Default referral configuration
@@ -53,16 +62,14 @@ export function isValidReferralCode(code: string): boolean {
 }
 
 /**
- * Calculate commission amount
+ * Calculate commission amount, rounded down to the token's decimals
  */
 export function calculateCommission(
   paymentAmount: string,
-  commissionPercent: number
+  commissionPercent: number,
+  decimals: number = DEFAULT_DECIMALS
 ): string {
-  const amount = parseFloat(paymentAmount);
-  const commission = (amount * commissionPercent) / 100;
-  // Round to 8 decimal places for crypto precision
-  return commission.toFixed(8).replace(/\.?0+$/, '');
+  return percentOf(paymentAmount, commissionPercent, decimals);
 }
 
 /**
@@ -86,9 +93,11 @@ export function isCommissionExpired(
  */
 export class ReferralManager {
   private storage: Storage;
+  private decimalsOf?: DecimalsResolver;
 
-  constructor(storage: Storage) {
+  constructor(storage: Storage, decimalsOf?: DecimalsResolver) {
     this.storage = storage;
+    this.decimalsOf = decimalsOf;
   }
 
   /**
@@ -233,7 +242,12 @@ export class ReferralManager {
 
     // Calculate commission
     const commissionPercent = payLink.referral.commissionPercent;
-    const commissionAmount = calculateCommission(payment.amount, commissionPercent);
+    const tokenSymbol = payment.tokenSymbol || payLink.price.tokenSymbol;
+    const commissionAmount = calculateCommission(
+      payment.amount,
+      commissionPercent,
+      this.decimalsOf?.(payment.chainId, tokenSymbol) ?? DEFAULT_DECIMALS
+    );
 
     // Create commission record
     const now = new Date();
@@ -247,7 +261,7 @@ export class ReferralManager {
       paymentAmount: payment.amount,
       commissionAmount,
       commissionPercent,
-      tokenSymbol: payment.tokenSymbol || payLink.price.tokenSymbol,
+      tokenSymbol,
       chainId: payment.chainId,
       status: payment.confirmed ? 'confirmed' : 'pending',
       createdAt: now,
@@ -256,16 +270,20 @@ export class ReferralManager {
 
     await this.storage.saveCommission(commission);
 
-    // Update referral stats
-    referral.totalReferrals += 1;
-    if (payment.confirmed) {
-      referral.confirmedReferrals += 1;
-      referral.pendingAmount = this.addAmounts(referral.pendingAmount, commissionAmount);
-      referral.totalEarned = this.addAmounts(referral.totalEarned, commissionAmount);
-    }
-    referral.updatedAt = now;
-
-    await this.storage.updateReferral(referral);
+    // Update referral stats (compare-and-swap, retried on concurrent updates)
+    await updateWithRetry(
+      () => this.storage.getReferral(referral.id),
+      fresh => {
+        fresh.totalReferrals += 1;
+        if (payment.confirmed) {
+          fresh.confirmedReferrals += 1;
+          fresh.pendingAmount = addAmounts(fresh.pendingAmount, commissionAmount);
+          fresh.totalEarned = addAmounts(fresh.totalEarned, commissionAmount);
+        }
+        fresh.updatedAt = now;
+      },
+      fresh => this.storage.updateReferral(fresh)
+    );
 
     return commission;
   }
@@ -275,35 +293,138 @@ export class ReferralManager {
    */
   async confirmCommission(paymentId: string): Promise<ReferralCommission | null> {
     const commissions = await this.storage.getAllCommissions();
-    const commission = commissions.find(c => c.paymentId === paymentId);
+    const found = commissions.find(c => c.paymentId === paymentId);
 
-    if (!commission) {
+    if (!found) {
       return null;
     }
 
-    if (commission.status !== 'pending') {
-      return commission;
+    // Only the caller that wins the pending -> confirmed transition credits the referral
+    const now = new Date();
+    let confirmed = false;
+    const commission = await updateWithRetry(
+      () => this.storage.getCommission(found.id),
+      c => {
+        confirmed = c.status === 'pending';
+        if (!confirmed) return false;
+        c.status = 'confirmed';
+        c.confirmedAt = now;
+      },
+      c => this.storage.updateCommission(c)
+    );
+
+    if (commission && confirmed) {
+      await updateWithRetry(
+        () => this.storage.getReferral(commission.referralId),
+        referral => {
+          referral.confirmedReferrals += 1;
+          referral.pendingAmount = addAmounts(referral.pendingAmount, commission.commissionAmount);
+          referral.totalEarned = addAmounts(referral.totalEarned, commission.commissionAmount);
+          referral.updatedAt = now;
+        },
+        referral => this.storage.updateReferral(referral)
+      );
+    }
+
+    return commission;
+  }
+
+  /**
+   * Reverse the commission of a payment whose transaction left the chain
+   * Unpaid amounts are taken out of the referral's balance; a commission that was
+   * already paid out stays in `paidAmount` and has to be recovered from the referrer.
+   * Returns the commission only to the caller that reversed it.
+   */
+  async reverseCommission(paymentId: string): Promise<ReferralCommission | null> {
+    const commissions = await this.storage.getAllCommissions();
+    const found = commissions.find(c => c.paymentId === paymentId);
+
+    if (!found) {
+      return null;
     }
 
     const now = new Date();
-    commission.status = 'confirmed';
-    commission.confirmedAt = now;
+    let previous: ReferralStatus | undefined;
+    const commission = await updateWithRetry(
+      () => this.storage.getCommission(found.id),
+      c => {
+        previous = c.status === 'reversed' ? undefined : c.status;
+        if (!previous) return false;
+        c.status = 'reversed';
+      },
+      c => this.storage.updateCommission(c)
+    );
 
-    await this.storage.updateCommission(commission);
+    if (!commission || !previous) {
+      return null;
+    }
 
-    // Update referral stats
-    const referral = await this.storage.getReferral(commission.referralId);
-    if (referral) {
-      referral.confirmedReferrals += 1;
-      referral.pendingAmount = this.addAmounts(referral.pendingAmount, commission.commissionAmount);
-      referral.totalEarned = this.addAmounts(referral.totalEarned, commission.commissionAmount);
-      referral.updatedAt = now;
-      await this.storage.updateReferral(referral);
+    if (previous === 'confirmed' || previous === 'paid') {
+      const wasPaid = previous === 'paid';
+      await updateWithRetry(
+        () => this.storage.getReferral(commission.referralId),
+        referral => {
+          referral.confirmedReferrals = Math.max(0, referral.confirmedReferrals - 1);
+          referral.totalEarned = this.subtractClamped(referral.totalEarned, commission.commissionAmount);
+          if (!wasPaid) {
+            referral.pendingAmount = this.subtractClamped(referral.pendingAmount, commission.commissionAmount);
+          }
+          referral.updatedAt = now;
+        },
+        referral => this.storage.updateReferral(referral)
+      );
     }
 
     return commission;
   }
 
+  /**
+   * Restore the reversed commission of a payment whose transaction was mined again
+   * A commission paid out before the reversal is `paid` again, others `confirmed`.
+   * Returns the commission only to the caller that restored it.
+   */
+  async restoreCommission(paymentId: string): Promise<ReferralCommission | null> {
+    const commissions = await this.storage.getAllCommissions();
+    const found = commissions.find(c => c.paymentId === paymentId);
+
+    if (!found) {
+      return null;
+    }
+
+    const now = new Date();
+    let restored = false;
+    const commission = await updateWithRetry(
+      () => this.storage.getCommission(found.id),
+      c => {
+        restored = c.status === 'reversed';
+        if (!restored) return false;
+        c.status = c.paidAt ? 'paid' : 'confirmed';
+        c.confirmedAt = c.confirmedAt ?? now;
+      },
+      c => this.storage.updateCommission(c)
+    );
+
+    if (!commission || !restored) {
+      return null;
+    }
+
+    const wasPaid = commission.status === 'paid';
+    await updateWithRetry(
+      () => this.storage.getReferral(commission.referralId),
+      referral => {
+        referral.confirmedReferrals += 1;
+        referral.totalEarned = addAmounts(referral.totalEarned, commission.commissionAmount);
+        if (!wasPaid) {
+          referral.pendingAmount = addAmounts(referral.pendingAmount, commission.commissionAmount);
+        }
+        referral.updatedAt = now;
+      },
+      referral => this.storage.updateReferral(referral)
+    );
+
+    return commission;
+  }
+
   /**
    * Mark commission as paid
    */
@@ -311,31 +432,34 @@ export class ReferralManager {
     commissionId: string,
     payoutTxHash: string
   ): Promise<ReferralCommission> {
-    const commission = await this.storage.getCommission(commissionId);
+    const now = new Date();
+    const commission = await updateWithRetry(
+      () => this.storage.getCommission(commissionId),
+      c => {
+        if (c.status !== 'confirmed') {
+          throw new Error('Commission is not in confirmed status');
+        }
+        c.status = 'paid';
+        c.paidAt = now;
+        c.payoutTxHash = payoutTxHash;
+      },
+      c => this.storage.updateCommission(c)
+    );
 
     if (!commission) {
       throw new Error('Commission not found');
     }
 
-    if (commission.status !== 'confirmed') {
-      throw new Error('Commission is not in confirmed status');
-    }
-
-    const now = new Date();
-    commission.status = 'paid';
-    commission.paidAt = now;
-    commission.payoutTxHash = payoutTxHash;
-
-    await this.storage.updateCommission(commission);
-
     // Update referral stats
-    const referral = await this.storage.getReferral(commission.referralId);
-    if (referral) {
-      referral.pendingAmount = this.subtractAmounts(referral.pendingAmount, commission.commissionAmount);
-      referral.paidAmount = this.addAmounts(referral.paidAmount, commission.commissionAmount);
-      referral.updatedAt = now;
-      await this.storage.updateReferral(referral);
-    }
+    await updateWithRetry(
+      () => this.storage.getReferral(commission.referralId),
+      referral => {
+        referral.pendingAmount = this.subtractClamped(referral.pendingAmount, commission.commissionAmount);
+        referral.paidAmount = addAmounts(referral.paidAmount, commission.commissionAmount);
+        referral.updatedAt = now;
+      },
+      referral => this.storage.updateReferral(referral)
+    );
 
     return commission;
   }
@@ -349,23 +473,23 @@ export class ReferralManager {
     let totalReferrals = 0;
     let confirmedReferrals = 0;
     let pendingReferrals = 0;
-    let totalEarned = 0;
-    let pendingPayout = 0;
-    let paidOut = 0;
+    let totalEarned = '0';
+    let pendingPayout = '0';
+    let paidOut = '0';
 
     for (const commission of commissions) {
       totalReferrals++;
       
       if (commission.status === 'confirmed') {
         confirmedReferrals++;
-        pendingPayout += parseFloat(commission.commissionAmount);
-        totalEarned += parseFloat(commission.commissionAmount);
+        pendingPayout = addAmounts(pendingPayout, commission.commissionAmount);
+        totalEarned = addAmounts(totalEarned, commission.commissionAmount);
       } else if (commission.status === 'pending') {
         pendingReferrals++;
       } else if (commission.status === 'paid') {
         confirmedReferrals++;
-        paidOut += parseFloat(commission.commissionAmount);
-        totalEarned += parseFloat(commission.commissionAmount);
+        paidOut = addAmounts(paidOut, commission.commissionAmount);
+        totalEarned = addAmounts(totalEarned, commission.commissionAmount);
       }
     }
 
@@ -377,9 +501,9 @@ export class ReferralManager {
       totalReferrals,
       confirmedReferrals,
       pendingReferrals,
-      totalEarned: totalEarned.toString(),
-      pendingPayout: pendingPayout.toString(),
-      paidOut: paidOut.toString(),
+      totalEarned,
+      pendingPayout,
+      paidOut,
       conversionRate: Math.round(conversionRate * 100) / 100,
     };
   }
@@ -388,16 +512,19 @@ export class ReferralManager {
    * Disable a referral
    */
   async disableReferral(referralId: string): Promise<Referral> {
-    const referral = await this.storage.getReferral(referralId);
+    const referral = await updateWithRetry(
+      () => this.storage.getReferral(referralId),
+      r => {
+        r.status = 'disabled';
+        r.updatedAt = new Date();
+      },
+      r => this.storage.updateReferral(r)
+    );
 
     if (!referral) {
       throw new Error('Referral not found');
     }
 
-    referral.status = 'disabled';
-    referral.updatedAt = new Date();
-
-    await this.storage.updateReferral(referral);
     return referral;
   }
 
@@ -409,19 +536,10 @@ export class ReferralManager {
   }
 
   /**
-   * Helper: Add string amounts
-   */
-  private addAmounts(a: string, b: string): string {
-    const result = parseFloat(a) + parseFloat(b);
-    return result.toFixed(8).replace(/\.?0+$/, '');
-  }
-
-  /**
-   * Helper: Subtract string amounts
+   * Helper: Subtract string amounts, clamped at zero
    */
-  private subtractAmounts(a: string, b: string): string {
-    const result = parseFloat(a) - parseFloat(b);
-    return Math.max(0, result).toFixed(8).replace(/\.?0+$/, '');
+  private subtractClamped(a: string, b: string): string {
+    return compareAmounts(a, b) > 0 ? subtractAmounts(a, b) : '0';
   }
 }
 
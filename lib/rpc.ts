@@ -0,0 +1,335 @@
+/**
+ * JSON-RPC client over several endpoints of one chain
+ * Requests go to healthy endpoints first and fail over to the next one on any
+ * error; an endpoint failing at the transport level is benched for a cooldown.
+ * JSON-RPC errors are answers about the request and do not bench the endpoint. Reads that decide whether
+ * a payment is confirmed can require several endpoints to agree, so a single
+ * lagging or lying node cannot confirm (or hide) a payment on its own.
+ */
+
+/** Default request timeout in ms */
+export const DEFAULT_RPC_TIMEOUT = 30000;
+
+/** Default time in ms a failing endpoint is tried last */
+export const DEFAULT_RPC_COOLDOWN = 30000;
+
+/**
+ * Thrown when no endpoint (or too few agreeing endpoints) answered a request
+ * Callers must report it as an RPC outage, never as a missing transaction.
+ */
+export class RpcError extends Error {
+  /** Errors of the individual endpoints */
+  readonly causes: Error[];
+
+  constructor(message: string, causes: Error[] = []) {
+    super(causes.length > 0 ? `${message}: ${causes.map(c => c.message).join('; ')}` : message);
+    this.name = 'RpcError';
+    this.causes = causes;
+  }
+}
+
+/**
+ * Every endpoint that answered rejected the request with a JSON-RPC error (e.g. a
+ * malformed parameter); the endpoints are up, so this is not an outage
+ */
+export class RpcRequestError extends Error {
+  /** JSON-RPC error code */
+  readonly code: number;
+
+  constructor(message: string, code: number) {
+    super(message);
+    this.name = 'RpcRequestError';
+    this.code = code;
+  }
+}
+
+/**
+ * An endpoint answered that it does not offer a method (e.g. no debug or trace API)
+ * The endpoint is up, so it is not benched.
+ */
+class UnsupportedMethodError extends Error {}
+
+/**
+ * JSON-RPC errors of nodes lacking a method: the standard code, or the messages of nodes that use others
+ */
+function isUnsupportedMethod(error: { code: number; message: string }): boolean {
+  return error.code === -32601 || /method .*(not found|does not exist|not available|not supported)/i.test(error.message);
+}
+
+/**
+ * Whether a request failed only because no endpoint offers the method
+ */
+export function isMethodUnsupported(error: unknown): boolean {
+  return error instanceof RpcError &&
+    error.causes.length > 0 &&
+    error.causes.every(cause => cause instanceof UnsupportedMethodError);
+}
+
+/**
+ * RPC client options
+ */
+export interface RpcClientOptions {
+  /** Endpoint URLs in order of preference */
+  urls: string[];
+  /** Endpoints that must return the same answer to agreed reads (default: 1) */
+  quorum?: number;
+  /** Request timeout in ms (default: 30000) */
+  timeout?: number;
+  /** Time in ms a failing endpoint is tried last (default: 30000) */
+  cooldown?: number;
+}
+
+/**
+ * Health of one endpoint
+ */
+export interface RpcEndpointHealth {
+  url: string;
+  healthy: boolean;
+  /** Consecutive failed requests */
+  failures: number;
+  lastError?: string;
+}
+
+interface Endpoint {
+  url: string;
+  failures: number;
+  unhealthyUntil: number;
+  lastError?: string;
+}
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Collect the RPC endpoints of a chain: `rpcUrl` first, then `rpcUrls`
+ */
+export function rpcEndpoints(config: { rpcUrl?: string; rpcUrls?: string[] }): string[] {
+  const urls = [config.rpcUrl, ...(config.rpcUrls ?? [])].filter((url): url is string => !!url);
+  return [...new Set(urls)];
+}
+
+/**
+ * Host of an endpoint URL, for error messages: endpoint paths often embed API keys
+ */
+export function endpointHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'invalid RPC URL';
+  }
+}
+
+/**
+ * Failover JSON-RPC client
+ */
+export class RpcClient {
+  private endpoints: Endpoint[];
+  private quorum: number;
+  private timeout: number;
+  private cooldown: number;
+  private requestId = 0;
+
+  constructor(options: RpcClientOptions) {
+    if (options.urls.length === 0) {
+      throw new Error('At least one RPC URL is required');
+    }
+    const quorum = options.quorum ?? 1;
+    if (!Number.isInteger(quorum) || quorum < 1 || quorum > options.urls.length) {
+      throw new Error(`RPC quorum must be between 1 and the number of endpoints (${options.urls.length})`);
+    }
+
+    this.endpoints = options.urls.map(url => ({ url, failures: 0, unhealthyUntil: 0 }));
+    this.quorum = quorum;
+    this.timeout = options.timeout ?? DEFAULT_RPC_TIMEOUT;
+    this.cooldown = options.cooldown ?? DEFAULT_RPC_COOLDOWN;
+  }
+
+  /**
+   * Call a method on the first endpoint that answers
+   */
+  async request<T>(method: string, params: unknown[]): Promise<T | null> {
+    const causes: Error[] = [];
+    for (const endpoint of this.ordered()) {
+      try {
+        return await this.call<T>(endpoint, method, params);
+      } catch (error) {
+        causes.push(error as Error);
+      }
+    }
+    throw failure(`${method} failed on every RPC endpoint`, causes);
+  }
+
+  /**
+   * Call a method on `quorum` distinct endpoints, failing over for the ones that error
+   * For reads where endpoints legitimately differ (e.g. the head block), so the
+   * caller can pick the most conservative answer.
+   */
+  async requestMany<T>(method: string, params: unknown[]): Promise<Array<T | null>> {
+    const results: Array<T | null> = [];
+    const causes: Error[] = [];
+    await this.each(method, params, causes, result => {
+      results.push(result as T | null);
+      return results.length >= this.quorum;
+    });
+    if (results.length === 0) {
+      throw failure(`${method} failed on every RPC endpoint`, causes);
+    }
+    if (results.length < this.quorum) {
+      throw new RpcError(`${method} answered by ${results.length} of ${this.quorum} required RPC endpoints`, causes);
+    }
+    return results;
+  }
+
+  /**
+   * Call a method until `quorum` endpoints return the same answer
+   * `key` projects a result onto the fields that must match (default: the whole result).
+   */
+  async requestAgreed<T>(
+    method: string,
+    params: unknown[],
+    key: (result: T | null) => unknown = result => result
+  ): Promise<T | null> {
+    const votes = new Map<string, { result: T | null; count: number }>();
+    const causes: Error[] = [];
+    let agreed: { result: T | null } | undefined;
+
+    await this.each(method, params, causes, result => {
+      const id = JSON.stringify(key(result as T | null)) ?? 'null';
+      const vote = votes.get(id) ?? { result: result as T | null, count: 0 };
+      vote.count++;
+      votes.set(id, vote);
+      if (vote.count >= this.quorum) {
+        agreed = vote;
+      }
+      return !!agreed;
+    });
+
+    if (!agreed && votes.size === 0) {
+      throw failure(`${method} failed on every RPC endpoint`, causes);
+    }
+    if (!agreed) {
+      const reason = votes.size > 1 ? 'RPC endpoints disagree on' : 'too few RPC endpoints answered';
+      throw new RpcError(`${reason} ${method} (quorum ${this.quorum})`, causes);
+    }
+    return agreed.result;
+  }
+
+  /**
+   * Health of every endpoint, in configuration order
+   */
+  getHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map(endpoint => ({
+      url: endpoint.url,
+      healthy: endpoint.unhealthyUntil <= now,
+      failures: endpoint.failures,
+      lastError: endpoint.lastError,
+    }));
+  }
+
+  /**
+   * Query endpoints in order until `done` returns true; the first `quorum` are queried in parallel
+   */
+  private async each(
+    method: string,
+    params: unknown[],
+    causes: Error[],
+    done: (result: unknown) => boolean
+  ): Promise<void> {
+    const queue = this.ordered();
+    let batch = queue.splice(0, this.quorum);
+
+    while (batch.length > 0) {
+      const settled = await Promise.allSettled(batch.map(endpoint => this.call(endpoint, method, params)));
+      for (const outcome of settled) {
+        if (outcome.status === 'rejected') {
+          causes.push(outcome.reason as Error);
+        } else if (done(outcome.value)) {
+          return;
+        }
+      }
+      batch = queue.splice(0, 1);
+    }
+  }
+
+  /**
+   * Healthy endpoints in configuration order, then benched ones by earliest recovery
+   * Benched endpoints are still tried, so an outage of every endpoint degrades to retries.
+   */
+  private ordered(): Endpoint[] {
+    const now = Date.now();
+    const healthy = this.endpoints.filter(endpoint => endpoint.unhealthyUntil <= now);
+    const benched = this.endpoints
+      .filter(endpoint => endpoint.unhealthyUntil > now)
+      .sort((a, b) => a.unhealthyUntil - b.unhealthyUntil);
+    return [...healthy, ...benched];
+  }
+
+  private async call<T>(endpoint: Endpoint, method: string, params: unknown[]): Promise<T | null> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: ++this.requestId,
+          method,
+          params,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const data = (await response.json()) as JsonRpcResponse<T>;
+      if (data.error && isUnsupportedMethod(data.error)) {
+        throw new UnsupportedMethodError(`${endpointHost(endpoint.url)}: RPC error ${data.error.code}: ${data.error.message}`);
+      }
+      if (data.error) {
+        throw new RpcRequestError(`${endpointHost(endpoint.url)}: RPC error ${data.error.code}: ${data.error.message}`, data.error.code);
+      }
+
+      endpoint.failures = 0;
+      endpoint.unhealthyUntil = 0;
+      return data.result ?? null;
+    } catch (error) {
+      if (error instanceof UnsupportedMethodError || error instanceof RpcRequestError) {
+        throw error;
+      }
+      const message = (error as Error).name === 'AbortError'
+        ? `timed out after ${this.timeout}ms`
+        : (error as Error).message;
+      endpoint.failures++;
+      endpoint.unhealthyUntil = Date.now() + this.cooldown;
+      endpoint.lastError = message;
+      throw new Error(`${endpointHost(endpoint.url)}: ${message}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+/**
+ * Error for a request no endpoint answered: the JSON-RPC error when every endpoint
+ * rejected the request itself, else an outage
+ */
+function failure(message: string, causes: Error[]): Error {
+  if (causes.length > 0 && causes.every(cause => cause instanceof RpcRequestError)) {
+    return causes[0];
+  }
+  return new RpcError(message, causes);
+}
+
+/**
+ * Create an RPC client
+ */
+export function createRpcClient(options: RpcClientOptions): RpcClient {
+  return new RpcClient(options);
+}
@@ -0,0 +1,130 @@
+/**
+ * secp256k1
+ * Affine point arithmetic for public key derivation (BIP-32) and signature
+ * recovery (EIP-191). Public keys only: nothing here handles private keys, so
+ * plain bigint math without constant-time guarantees is fine.
+ */
+
+const P = 2n ** 256n - 2n ** 32n - 977n;
+export const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+export const G: Point = {
+  x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+};
+
+/** Affine curve point; null is the point at infinity */
+export interface Point {
+  x: bigint;
+  y: bigint;
+}
+
+function mod(a: bigint, m: bigint = P): bigint {
+  const result = a % m;
+  return result >= 0n ? result : result + m;
+}
+
+function invert(a: bigint, m: bigint = P): bigint {
+  // Extended Euclid
+  let [low, high] = [mod(a, m), m];
+  let [lm, hm] = [1n, 0n];
+  while (low > 1n) {
+    const ratio = high / low;
+    [lm, hm] = [hm - lm * ratio, lm];
+    [low, high] = [high - low * ratio, low];
+  }
+  return mod(lm, m);
+}
+
+function powMod(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = mod(base);
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % P;
+    b = (b * b) % P;
+    e >>= 1n;
+  }
+  return result;
+}
+
+export function addPoints(a: Point | null, b: Point | null): Point | null {
+  if (!a) return b;
+  if (!b) return a;
+  if (a.x === b.x && mod(a.y + b.y) === 0n) return null;
+
+  const slope = a.x === b.x
+    ? mod(3n * a.x * a.x * invert(2n * a.y))
+    : mod((b.y - a.y) * invert(b.x - a.x));
+  const x = mod(slope * slope - a.x - b.x);
+  return { x, y: mod(slope * (a.x - x) - a.y) };
+}
+
+export function multiply(point: Point, scalar: bigint): Point | null {
+  let result: Point | null = null;
+  let addend: Point | null = point;
+  for (let k = scalar; k > 0n; k >>= 1n) {
+    if (k & 1n) result = addPoints(result, addend);
+    addend = addPoints(addend, addend);
+  }
+  return result;
+}
+
+/**
+ * Point with the given x coordinate and y parity (0 even, 1 odd)
+ */
+function liftX(x: bigint, parity: number): Point {
+  // P % 4 === 3, so the square root is y^((P + 1) / 4)
+  let y = powMod(mod(x * x * x + 7n), (P + 1n) / 4n);
+  if (mod(y * y) !== mod(x * x * x + 7n)) {
+    throw new Error('Invalid public key: not on curve');
+  }
+  if ((y & 1n) !== BigInt(parity & 1)) {
+    y = P - y;
+  }
+  return { x, y };
+}
+
+export function decompress(bytes: Uint8Array): Point {
+  if (bytes.length !== 33 || (bytes[0] !== 2 && bytes[0] !== 3)) {
+    throw new Error('Invalid compressed public key');
+  }
+  return liftX(bytesToBigInt(bytes.subarray(1)), bytes[0]);
+}
+
+export function compress(point: Point): Uint8Array {
+  const bytes = new Uint8Array(33);
+  bytes[0] = point.y & 1n ? 3 : 2;
+  bytes.set(bigIntToBytes(point.x), 1);
+  return bytes;
+}
+
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  return BigInt('0x' + (Buffer.from(bytes).toString('hex') || '0'));
+}
+
+export function bigIntToBytes(value: bigint): Uint8Array {
+  return Uint8Array.from(Buffer.from(value.toString(16).padStart(64, '0'), 'hex'));
+}
+
+/**
+ * Recover the compressed public key that produced an ECDSA signature of a 32-byte digest
+ * `recovery` is the parity of R's y coordinate (0 or 1).
+ */
+export function recoverPublicKey(digest: Uint8Array, r: bigint, s: bigint, recovery: number): Uint8Array {
+  if (r <= 0n || r >= N || s <= 0n || s >= N || (recovery !== 0 && recovery !== 1)) {
+    throw new Error('Invalid signature');
+  }
+
+  const R = liftX(r, recovery);
+  const e = mod(bytesToBigInt(digest), N);
+  const rInverse = invert(r, N);
+  // Q = r^-1 (sR - eG)
+  const point = addPoints(
+    multiply(R, mod(s * rInverse, N)),
+    multiply(G, mod(-e * rInverse, N))
+  );
+  if (!point) {
+    throw new Error('Invalid signature');
+  }
+  return compress(point);
+}
@@ -1,31 +1,76 @@
 import express, { Express, Request, Response, NextFunction } from 'express';
+import type { Server } from 'http';
+import { randomBytes } from 'crypto';
 import cors from 'cors';
 import helmet from 'helmet';
 import type {
   PaylinkConfig,
   PayLink,
   Payment,
+  PaymentIntent,
+  PaymentCheckResult,
   CreatePayLinkInput,
   Protocol402Response,
   Protocol403Response,
   Storage,
   ChainConfig,
+  ChainType,
+  PaymentProvider,
+  PaymentVerifier,
   Subscription,
   CreateSubscriptionInput,
   PaymentOption,
+  CheckoutOption,
+  CheckoutResponse,
   Referral,
   ReferralCommission,
   CreateReferralInput,
   InstallmentPlan,
   InstallmentPayment,
   CreateInstallmentPlanInput,
+  ListOptions,
+  PayLinkStatus,
+  SubscriptionStatus,
+  ReferralStatus,
+  InstallmentStatus,
+  AccessTokenRevocation,
 } from './types.js';
-import { ReasonCode, SOLANA_CHAIN_IDS } from './types.js';
-import { MemoryStorage } from './storage.js';
-import { ChainVerifier, MockVerifier } from './chain.js';
+import { ReasonCode } from './types.js';
+import { MemoryStorage } from './storage/memory.js';
+import { updateWithRetry } from './storage/concurrency.js';
+import { decodeCursor } from './storage/pagination.js';
+import { ChainVerifier } from './chain.js';
 import { SolanaVerifier, MockSolanaVerifier } from './providers/solana.js';
+import { ProviderRegistry } from './providers/registry.js';
+import { PAYLINK_TOKEN } from './paylink-token.js';
+import { resolveToken } from './erc20.js';
+import { addAmounts, parseUnits, type DecimalsResolver } from './amount.js';
 import { WebhookManager } from './webhook.js';
-import { generatePaymentQR, generateQRCodeSVG, type PaymentQRData } from './qrcode.js';
+import { SolanaPayWatcher, generateReference, type ReferenceVerifier } from './solana-pay.js';
+import { EVMPaymentWatcher } from './evm-watcher.js';
+import { FinalityTracker } from './finality.js';
+import { deriveEvmAddress, parseExtendedPublicKey } from './hd.js';
+import { rpcEndpoints, type RpcEndpointHealth } from './rpc.js';
+import { signAccessToken, verifyAccessToken, type AccessScope, type AccessTokenClaims } from './access-token.js';
+import { proxyRequest, UpstreamBlockedError } from './proxy.js';
+import { signPaylinkRedirect } from './redirect-signing.js';
+import {
+  X402Facilitator,
+  X402_HEADERS,
+  X402_NETWORKS,
+  X402_VERSION,
+  decodeX402Payment,
+  encodeX402Header,
+  type X402PaymentPayload,
+  type X402PaymentRequired,
+  type X402PaymentRequirements,
+} from './x402.js';
+import {
+  generatePaymentURI,
+  generateQRCodeSVG,
+  generateQRCodeDataURL,
+  type PaymentQRData,
+} from './qrcode.js';
 import {
   generateId,
   generateUUID,
@@ -34,6 +79,7 @@ import {
   isExpired,
   isLimitReached,
   REASON_MESSAGES,
+  getCookie,
 } from './utils.js';
 import {
   SubscriptionManager,
@@ -48,12 +94,15 @@ import {
 } from './referral.js';
 import {
   InstallmentManager,
-  calculateInstallmentAmounts,
   getInstallmentProgress,
   formatInstallmentSchedule,
 } from './installment.js';
 
-type Verifier = ChainVerifier | MockVerifier | SolanaVerifier | MockSolanaVerifier;
+/** Default checkouts a client IP may open per minute */
+export const DEFAULT_CHECKOUTS_PER_MINUTE = 10;
+
+/** Default unexpired Solana Pay references per chain that 402 responses and QR codes may open */
+export const DEFAULT_MAX_OPEN_REFERENCES = 1000;
 
 /**
  * Paylink Server
@@ -61,19 +110,30 @@ type Verifier = ChainVerifier | MockVerifier | SolanaVerifier | MockSolanaVerifi
  */
 export class PaylinkServer {
   private app: Express;
-  private config: Required<Omit<PaylinkConfig, 'chains' | 'webhook' | 'paylinkToken'>> & { 
+  private config: Required<Omit<PaylinkConfig, 'chains' | 'webhook' | 'paylinkToken' | 'storage' | 'providers'>> & { 
     chains: PaylinkConfig['chains'];
     webhook?: PaylinkConfig['webhook'];
     paylinkToken?: PaylinkConfig['paylinkToken'];
   };
   private storage: Storage;
-  private verifiers: Map<number, Verifier>;
+  private providers: ProviderRegistry;
+  private verifiers: Map<number, PaymentVerifier>;
+  private decimalsOf: DecimalsResolver = (chainId, tokenSymbol) => this.getTokenDecimals(chainId, tokenSymbol);
   private webhookManager?: WebhookManager;
   private subscriptionManager: SubscriptionManager;
   private referralManager: ReferralManager;
   private installmentManager: InstallmentManager;
+  private paymentWatchers: Array<SolanaPayWatcher | EVMPaymentWatcher>;
+  private finalityTrackers: FinalityTracker[];
   private subscriptionCheckInterval?: NodeJS.Timeout;
   private installmentCheckInterval?: NodeJS.Timeout;
+  private storageReady?: Promise<void>;
+  private httpServer?: Server;
+  private accessTokenSecret: string;
+  private x402Facilitator?: X402Facilitator;
+  /** Checkouts per client IP in the current one-minute window */
+  private checkoutCounts = new Map<string, number>();
+  private checkoutWindowEnd = 0;
 
   constructor(config: PaylinkConfig) {
     // Default config
@@ -88,13 +148,32 @@ export class PaylinkServer {
       cors: config.cors ?? true,
       webhook: config.webhook,
       paylinkToken: config.paylinkToken,
+      watcher: config.watcher ?? {},
+      finality: config.finality ?? {},
+      payerAuth: config.payerAuth ?? {},
+      accessTokens: config.accessTokens ?? {},
+      proxy: config.proxy ?? {},
+      redirectSigning: config.redirectSigning ?? {},
+      x402: config.x402 ?? {},
+      checkout: config.checkout ?? {},
     };
+    this.accessTokenSecret = this.config.accessTokens.secret || this.config.signatureSecret || randomBytes(32).toString('hex');
+    if (this.config.accessTokens.enabled !== false && !this.config.accessTokens.secret && !this.config.signatureSecret) {
+      console.warn(
+        'Access tokens are signed with a random per-process secret: they stop working on restart and are not ' +
+        'accepted by other instances. Set accessTokens.secret (or signatureSecret).'
+      );
+    }
+    if (this.config.x402.facilitatorUrl) {
+      this.x402Facilitator = new X402Facilitator(this.config.x402.facilitatorUrl, this.config.x402.timeout);
+    }
 
-    this.storage = new MemoryStorage();
+    this.providers = new ProviderRegistry(config.providers);
     this.verifiers = new Map();
+    this.storage = config.storage ?? new MemoryStorage();
     this.subscriptionManager = new SubscriptionManager(this.storage);
-    this.referralManager = new ReferralManager(this.storage);
-    this.installmentManager = new InstallmentManager(this.storage);
+    this.referralManager = new ReferralManager(this.storage, this.decimalsOf);
+    this.installmentManager = new InstallmentManager(this.storage, this.decimalsOf);
 
     // Initialize webhook manager
     if (config.webhook?.url) {
@@ -103,8 +182,12 @@ export class PaylinkServer {
 
     // Initialize chain verifiers
     for (const chain of config.chains) {
+      this.validateRpc(chain);
+      this.validateXpub(chain);
       this.verifiers.set(chain.chainId, this.createVerifier(chain));
     }
+    this.paymentWatchers = this.createPaymentWatchers();
+    this.finalityTrackers = this.createFinalityTrackers();
 
     this.app = express();
     this.setupMiddleware();
@@ -112,32 +195,164 @@ export class PaylinkServer {
   }
 
   /**
-   * Create appropriate verifier based on chain type
+   * Create the verifier of a chain through its payment provider
    */
-  private createVerifier(chain: ChainConfig): Verifier {
-    const isSolana = chain.type === 'solana' || this.isSolanaChainId(chain.chainId);
-    
-    if (chain.rpcUrl === 'mock') {
-      return isSolana ? new MockSolanaVerifier() : new MockVerifier();
+  private createVerifier(chain: ChainConfig): PaymentVerifier {
+    return this.getProvider(chain).createVerifier({ ...chain, tokens: this.getChainTokens(chain) });
+  }
+
+  /**
+   * Reject chains without RPC endpoints, or with a quorum they cannot reach, at startup
+   */
+  private validateRpc(chain: ChainConfig): void {
+    const endpoints = rpcEndpoints(chain);
+    if (endpoints.length === 0) {
+      throw new Error(`Chain ${chain.chainId}: rpcUrl or rpcUrls is required`);
     }
-    
-    if (isSolana) {
-      return new SolanaVerifier({
-        rpcUrl: chain.rpcUrl,
-        confirmations: chain.confirmations,
-      });
+    this.getProvider(chain).validateChain?.(chain);
+    const quorum = chain.rpcQuorum ?? 1;
+    if (!Number.isInteger(quorum) || quorum < 1 || quorum > endpoints.length) {
+      throw new Error(`Chain ${chain.chainId}: rpcQuorum must be between 1 and ${endpoints.length}`);
     }
-    
-    return new ChainVerifier(chain);
   }
 
   /**
-   * Check if chain ID is a Solana chain
+   * Reject unusable deposit address keys at startup
+   * Solana uses SLIP-0010 ed25519 derivation, which is hardened-only and needs the
+   * private key; Solana Pay references identify Solana checkouts instead. Bitcoin
+   * address derivation is not implemented.
+   */
+  private validateXpub(chain: ChainConfig): void {
+    if (!chain.xpub) return;
+    if (this.getChainType(chain) !== 'evm') {
+      throw new Error(`Chain ${chain.chainId}: xpub deposit addresses are only supported on EVM chains`);
+    }
+    try {
+      parseExtendedPublicKey(chain.xpub);
+    } catch (error) {
+      throw new Error(`Chain ${chain.chainId}: invalid xpub (${(error as Error).message})`);
+    }
+  }
+
+  /**
+   * Token registry of a chain
+   * PAYLINK is accepted on Solana mainnet without extra configuration
+   */
+  private getChainTokens(chain: ChainConfig): ChainConfig['tokens'] {
+    if (chain.chainId !== PAYLINK_TOKEN.CHAIN_ID) {
+      return chain.tokens;
+    }
+    return {
+      [PAYLINK_TOKEN.SYMBOL]: { address: PAYLINK_TOKEN.MINT, decimals: PAYLINK_TOKEN.DECIMALS },
+      ...chain.tokens,
+    };
+  }
+
+  /**
+   * Decimals of a token on a configured chain (native: from the chain's provider)
+   */
+  private getTokenDecimals(chainId: number, tokenSymbol: string): number | undefined {
+    const chain = this.config.chains.find(c => c.chainId === chainId);
+    if (!chain) return undefined;
+
+    const token = resolveToken(this.getChainTokens(chain), tokenSymbol);
+    if (token) return token.decimals;
+
+    if (tokenSymbol.toUpperCase() !== chain.symbol.toUpperCase()) return undefined;
+    return this.getProvider(chain).nativeDecimals;
+  }
+
+  /**
+   * Address as wallets expect it (e.g. TRON addresses in base58check)
+   */
+  private formatRecipient(chainId: number, address: string): string {
+    const chain = this.config.chains.find(c => c.chainId === chainId);
+    return chain ? this.getProvider(chain).formatAddress?.(address) ?? address : address;
+  }
+
+  /**
+   * Whether the address can be paid on a configured chain; unknown chains are not checked
    */
-  private isSolanaChainId(chainId: number): boolean {
-    return chainId === SOLANA_CHAIN_IDS.MAINNET ||
-           chainId === SOLANA_CHAIN_IDS.DEVNET ||
-           chainId === SOLANA_CHAIN_IDS.TESTNET;
+  private isValidRecipient(chainId: number, address: string): boolean {
+    const chain = this.config.chains.find(c => c.chainId === chainId);
+    return !chain || this.getProvider(chain).isValidAddress(address);
+  }
+
+  /**
+   * Whether a string can be a transaction ID on a configured chain
+   * Mock chains and unknown chains are not checked.
+   */
+  private isValidTxHash(chainId: number, txHash: string): boolean {
+    const chain = this.config.chains.find(c => c.chainId === chainId);
+    return !chain || chain.rpcUrl === 'mock' || this.getProvider(chain).isValidTxHash?.(txHash) !== false;
+  }
+
+  /**
+   * Payment provider serving a chain
+   */
+  private getProvider(chain: ChainConfig): PaymentProvider {
+    return this.providers.resolve(chain);
+  }
+
+  /**
+   * Chain type from the config, or inferred from the providers' chain IDs
+   */
+  private getChainType(chain: ChainConfig): ChainType {
+    return this.getProvider(chain).type;
+  }
+
+  /**
+   * Create the watchers detecting payments to open intents:
+   * one for Solana Pay references and one block scanner per EVM chain with an xpub
+   */
+  private createPaymentWatchers(): Array<SolanaPayWatcher | EVMPaymentWatcher> {
+    const onPayment = (intent: PaymentIntent, txHash: string, result: PaymentCheckResult) =>
+      this.completePaymentIntent(intent, txHash, result);
+    const solanaVerifiers = new Map<number, ReferenceVerifier>();
+    const watchers: Array<SolanaPayWatcher | EVMPaymentWatcher> = [];
+
+    for (const chain of this.config.chains) {
+      const verifier = this.verifiers.get(chain.chainId);
+      if (verifier instanceof SolanaVerifier || verifier instanceof MockSolanaVerifier) {
+        solanaVerifiers.set(chain.chainId, verifier);
+      } else if (verifier instanceof ChainVerifier && chain.xpub) {
+        watchers.push(new EVMPaymentWatcher({
+          storage: this.storage,
+          chain,
+          verifier,
+          interval: this.config.watcher.interval,
+          onPayment,
+        }));
+      }
+    }
+
+    if (solanaVerifiers.size > 0) {
+      watchers.push(new SolanaPayWatcher({
+        storage: this.storage,
+        verifiers: solanaVerifiers,
+        interval: this.config.watcher.interval,
+        onPayment,
+      }));
+    }
+
+    return watchers;
+  }
+
+  /**
+   * Create one finality tracker per chain, re-checking confirmed payments until final
+   */
+  private createFinalityTrackers(): FinalityTracker[] {
+    return this.config.chains.map(chain => new FinalityTracker({
+      storage: this.storage,
+      chainId: chain.chainId,
+      verifier: this.verifiers.get(chain.chainId)!,
+      depth: chain.finalityDepth ?? this.getProvider(chain).finalityDepth,
+      interval: this.config.finality.interval,
+      revertAfterMisses: this.config.finality.revertAfterMisses,
+      restoreWindow: this.config.finality.restoreWindow,
+      onRevert: payment => this.revertPayment(payment),
+      onRestore: payment => this.restorePayment(payment),
+    }));
   }
 
   /**
@@ -156,12 +371,62 @@ export class PaylinkServer {
 
   /**
    * Set custom storage
+   * Must be called before init()/start(); prefer the `storage` config option
    */
   setStorage(storage: Storage): void {
+    if (this.storageReady) {
+      throw new Error('Cannot replace storage after the server has been initialized');
+    }
+
     this.storage = storage;
     this.subscriptionManager = new SubscriptionManager(storage);
-    this.referralManager = new ReferralManager(storage);
-    this.installmentManager = new InstallmentManager(storage);
+    this.referralManager = new ReferralManager(storage, this.decimalsOf);
+    this.installmentManager = new InstallmentManager(storage, this.decimalsOf);
+    this.paymentWatchers = this.createPaymentWatchers();
+    this.finalityTrackers = this.createFinalityTrackers();
+  }
+
+  /**
+   * Initialize storage (connect, run migrations)
+   * Safe to call multiple times; start() and incoming requests await it.
+   * A failed initialization is retried by the next call.
+   */
+  init(): Promise<void> {
+    if (!this.storageReady) {
+      this.storageReady = Promise.resolve()
+        .then(() => this.storage.init?.())
+        .catch(error => {
+          this.storageReady = undefined;
+          throw error;
+        });
+    }
+    return this.storageReady;
+  }
+
+  /**
+   * Stop background checks, close the HTTP listener and release storage
+   */
+  async close(): Promise<void> {
+    this.stopSubscriptionCheck();
+    this.stopInstallmentCheck();
+    this.paymentWatchers.forEach(watcher => watcher.stop());
+    this.finalityTrackers.forEach(tracker => tracker.stop());
+
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (httpServer) {
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close(err => (err ? reject(err) : resolve()));
+      });
+    }
+
+    // Only release storage this server initialized; close() is then idempotent
+    const storageReady = this.storageReady;
+    this.storageReady = undefined;
+    if (storageReady) {
+      await storageReady.catch(() => undefined);
+      await this.storage.close?.();
+    }
   }
 
   /**
@@ -185,16 +450,61 @@ export class PaylinkServer {
     return this.installmentManager;
   }
 
+  /**
+   * Health of a chain's RPC endpoints (empty for unknown and mock chains)
+   */
+  getRpcHealth(chainId: number): RpcEndpointHealth[] {
+    return this.verifiers.get(chainId)?.getRpcHealth?.() ?? [];
+  }
+
+  /**
+   * Check open payment intents once and record the payments found
+   * start() does this periodically; call it from a scheduler when running without start()
+   */
+  async detectPayments(): Promise<void> {
+    await this.init();
+    for (const watcher of this.paymentWatchers) {
+      // One unreachable chain must not stop detection on the others
+      await watcher.poll().catch(err => {
+        console.error('Payment watcher error:', err);
+      });
+    }
+  }
+
+  /**
+   * Re-check confirmed payments once: finalize the deep ones and revert those that left the chain
+   * start() does this periodically; call it from a scheduler when running without start()
+   */
+  async checkFinality(): Promise<void> {
+    await this.init();
+    for (const tracker of this.finalityTrackers) {
+      await tracker.poll().catch(err => {
+        console.error('Finality tracker error:', err);
+      });
+    }
+  }
+
   /**
    * Start server
    */
-  start(): void {
+  async start(): Promise<void> {
+    // Storage must be ready before background checks or requests touch it
+    await this.init();
+
     // Start subscription payment check
     this.startSubscriptionCheck();
     // Start installment payment check
     this.startInstallmentCheck();
+    // Start detecting payments to open payment intents
+    if (this.config.watcher.enabled !== false) {
+      this.paymentWatchers.forEach(watcher => watcher.start());
+    }
+    // Start re-checking confirmed payments until they are final
+    if (this.config.finality.enabled !== false) {
+      this.finalityTrackers.forEach(tracker => tracker.start());
+    }
 
-    this.app.listen(this.config.port, () => {
+    this.httpServer = this.app.listen(this.config.port, () => {
       console.log('');
       console.log('╔══════════════════════════════════════════════════════════╗');
       console.log('║              Paylink Protocol Server v1.7.0              ║');
@@ -202,6 +512,7 @@ export class PaylinkServer {
       console.log(`║  Port:     ${String(this.config.port).padEnd(44)}║`);
       console.log(`║  Base URL: ${(this.config.baseUrl || 'http://localhost:' + this.config.port).padEnd(44)}║`);
       console.log(`║  Chains:   ${this.config.chains.map(c => c.name).join(', ').padEnd(44)}║`);
+      console.log(`║  Storage:  ${this.storage.constructor.name.padEnd(44)}║`);
       if (this.webhookManager) {
         console.log(`║  Webhook:  ${this.config.webhook?.url?.substring(0, 44).padEnd(44)}║`);
       }
@@ -233,6 +544,10 @@ export class PaylinkServer {
    * Create a new payment link
    */
   async createPayLink(input: CreatePayLinkInput): Promise<PayLink> {
+    if (input.delivery === 'proxy' && !/^https?:\/\//i.test(input.targetUrl)) {
+      throw new Error('Proxy delivery needs an http(s) targetUrl');
+    }
+
     const now = new Date();
     
     const payLink: PayLink = {
@@ -252,6 +567,7 @@ export class PaylinkServer {
       subscription: input.subscription,
       multiUse: input.multiUse,
       referral: input.referral,
+      delivery: input.delivery,
     };
 
     await this.storage.savePayLink(payLink);
@@ -277,11 +593,15 @@ export class PaylinkServer {
    * Disable a payment link
    */
   async disablePayLink(id: string): Promise<void> {
-    const link = await this.storage.getPayLink(id);
+    const link = await updateWithRetry(
+      () => this.storage.getPayLink(id),
+      l => {
+        l.status = 'disabled';
+        l.updatedAt = new Date();
+      },
+      l => this.storage.updatePayLink(l)
+    );
     if (!link) throw new Error('Link not found');
-    
-    link.status = 'disabled';
-    await this.storage.updatePayLink(link);
 
     // Send webhook notification
     if (this.webhookManager) {
@@ -328,6 +648,7 @@ export class PaylinkServer {
    */
   async cancelSubscription(subscriptionId: string): Promise<Subscription> {
     const subscription = await this.subscriptionManager.cancelSubscription(subscriptionId);
+    await this.revokeAccessTokens(subscription.id, subscription.currentPeriodEnd);
     const link = await this.storage.getPayLink(subscription.payLinkId);
 
     if (this.webhookManager && link) {
@@ -344,6 +665,7 @@ export class PaylinkServer {
    */
   async pauseSubscription(subscriptionId: string): Promise<Subscription> {
     const subscription = await this.subscriptionManager.pauseSubscription(subscriptionId);
+    await this.revokeAccessTokens(subscription.id, subscription.currentPeriodEnd);
     const link = await this.storage.getPayLink(subscription.payLinkId);
 
     if (this.webhookManager && link) {
@@ -451,6 +773,7 @@ export class PaylinkServer {
 
             // Suspend the plan
             const suspended = await this.installmentManager.suspendPlan(plan.id, 'Payment overdue');
+            await this.revokeInstallmentAccess(suspended);
             
             if (this.webhookManager && link) {
               this.webhookManager.sendInstallmentEvent('installment.plan_suspended', suspended, link).catch(err => {
@@ -490,6 +813,125 @@ export class PaylinkServer {
     }
   }
 
+  /**
+   * Record a payment detected for an open intent
+   * A transaction is recorded once; the intent is claimed with compare-and-swap so each intent completes once.
+   */
+  private async completePaymentIntent(
+    intent: PaymentIntent,
+    txHash: string,
+    result: PaymentCheckResult
+  ): Promise<void> {
+    const existing = await this.storage.getPaymentByTxHash(txHash);
+    const payment: Payment = {
+      id: generateUUID(),
+      payLinkId: intent.payLinkId,
+      chainId: intent.chainId,
+      txHash,
+      fromAddress: result.fromAddress ?? '',
+      amount: result.actualAmount ?? intent.amount,
+      tokenSymbol: intent.tokenSymbol,
+      confirmed: true,
+      createdAt: new Date(),
+      confirmedAt: new Date(),
+      paymentIntentId: intent.id,
+    };
+
+    if (existing || !(await this.storage.insertPayment(payment))) {
+      // Already recorded, e.g. through /confirm: only link it to the intent of the same link
+      const recorded = existing ?? await this.storage.getPaymentByTxHash(txHash);
+      if (recorded?.confirmed && recorded.payLinkId === intent.payLinkId) {
+        await this.claimPaymentIntent(intent.id, recorded.id);
+      }
+      return;
+    }
+    await this.claimPaymentIntent(intent.id, payment.id);
+
+    const link = await this.storage.getPayLink(intent.payLinkId);
+    if (!link) {
+      console.error(`Payment intent ${intent.id} references missing link ${intent.payLinkId}`);
+      return;
+    }
+
+    await this.processConfirmedPayment(payment, link);
+  }
+
+  /**
+   * Undo what a payment granted once its transaction left the chain:
+   * claw back the referral commission, installment credit, subscription renewal and access tokens, then notify
+   */
+  private async revertPayment(payment: Payment): Promise<void> {
+    const commission = await this.referralManager.reverseCommission(payment.id);
+    const plan = await this.installmentManager.reversePayment(payment.id);
+    // Tokens of the renewed period expire at its end, which the reversal moves back
+    const renewed = (await this.storage.getSubscriptionsByPayLink(payment.payLinkId))
+      .find(s => s.lastPaymentId === payment.id);
+    const subscription = await this.subscriptionManager.reversePayment(payment);
+
+    await this.revokeAccessTokens(payment.id);
+    if (plan) await this.revokeInstallmentAccess(plan);
+    if (subscription && renewed) await this.revokeAccessTokens(subscription.id, renewed.currentPeriodEnd);
+
+    const link = await this.storage.getPayLink(payment.payLinkId);
+    if (!link || !this.webhookManager) return;
+
+    this.webhookManager.sendPaymentEvent('payment.reverted', payment, link).catch(err => {
+      console.error('Webhook error:', err);
+    });
+
+    if (commission) {
+      const referral = await this.storage.getReferral(commission.referralId);
+      if (referral) {
+        this.webhookManager.sendCommissionEvent('commission.reversed', commission, referral, link).catch(err => {
+          console.error('Commission webhook error:', err);
+        });
+      }
+    }
+  }
+
+  /**
+   * Give a payment whose transaction was mined again what its reversal took back:
+   * the referral commission, installment credit and subscription renewal, then notify
+   */
+  private async restorePayment(payment: Payment): Promise<void> {
+    const link = await this.storage.getPayLink(payment.payLinkId);
+    const commission = await this.referralManager.restoreCommission(payment.id);
+    await this.installmentManager.restorePayment(payment.id);
+    if (link) await this.subscriptionManager.restorePayment(payment, link);
+
+    if (!link || !this.webhookManager) return;
+
+    this.webhookManager.sendPaymentEvent('payment.confirmed', payment, link).catch(err => {
+      console.error('Webhook error:', err);
+    });
+
+    if (commission) {
+      const referral = await this.storage.getReferral(commission.referralId);
+      if (referral) {
+        this.webhookManager.sendCommissionEvent('commission.confirmed', commission, referral, link).catch(err => {
+          console.error('Commission webhook error:', err);
+        });
+      }
+    }
+  }
+
+  /**
+   * Mark an intent completed by a payment; false if another payment completed it first
+   */
+  private async claimPaymentIntent(intentId: string, paymentId: string): Promise<boolean> {
+    const claimed = await updateWithRetry(
+      () => this.storage.getPaymentIntent(intentId),
+      current => {
+        if (current.status === 'completed') return false;
+        current.status = 'completed';
+        current.paymentId = paymentId;
+        current.updatedAt = new Date();
+      },
+      current => this.storage.updatePaymentIntent(current)
+    );
+    return claimed?.paymentId === paymentId;
+  }
+
   // ========================================
   // PRIVATE METHODS
   // ========================================
@@ -498,12 +940,21 @@ export class PaylinkServer {
     this.app.use(helmet());
     
     if (this.config.cors) {
-      this.app.use(cors({ origin: '*', methods: ['GET', 'POST', 'DELETE'] }));
+      this.app.use(cors({
+        origin: '*',
+        methods: ['GET', 'POST', 'DELETE'],
+        exposedHeaders: [X402_HEADERS.REQUIRED, X402_HEADERS.RESPONSE],
+      }));
     }
     
     this.app.use(express.json());
     this.app.set('trust proxy', 1);
 
+    // Wait for storage initialization (when mounted via getApp() without start())
+    this.app.use((req, res, next) => {
+      this.init().then(() => next(), next);
+    });
+
     // Request logging
     this.app.use((req, res, next) => {
       const start = Date.now();
@@ -531,6 +982,7 @@ export class PaylinkServer {
           paylink: `${base}${this.config.basePath}/:id`,
           status: `${base}${this.config.basePath}/:id/status`,
           confirm: `${base}${this.config.basePath}/:id/confirm`,
+          challenge: `${base}${this.config.basePath}/:id/challenge`,
           subscribe: `${base}${this.config.basePath}/:id/subscribe`,
           installment: `${base}${this.config.basePath}/:id/installment`,
         },
@@ -542,6 +994,8 @@ export class PaylinkServer {
     this.app.get(`${this.config.basePath}/:id/status`, this.handleStatus.bind(this));
     this.app.post(`${this.config.basePath}/:id/confirm`, this.handleConfirm.bind(this));
     this.app.get(`${this.config.basePath}/:id/qr`, this.handleQRCode.bind(this));
+    this.app.post(`${this.config.basePath}/:id/checkout`, this.handleCheckout.bind(this));
+    this.app.get(`${this.config.basePath}/:id/challenge`, this.handleChallenge.bind(this));
     
     // Subscription routes
     this.app.post(`${this.config.basePath}/:id/subscribe`, this.handleSubscribe.bind(this));
@@ -555,6 +1009,7 @@ export class PaylinkServer {
       this.app.get('/api/links/:id', auth, this.apiGetLink.bind(this));
       this.app.delete('/api/links/:id', auth, this.apiDeleteLink.bind(this));
       this.app.get('/api/payments', auth, this.apiListPayments.bind(this));
+      this.app.post('/api/access-tokens/revoke', auth, this.apiRevokeAccessToken.bind(this));
       
       // Subscription admin routes
       this.app.get('/api/subscriptions', auth, this.apiListSubscriptions.bind(this));
@@ -623,8 +1078,13 @@ export class PaylinkServer {
         return;
       }
 
+      // A valid access token stands in for the payment lookup and payer proof
+      const claims = await this.readAccessToken(req, link);
+      // A proxied viewing whose use was counted goes on (seeking) even if it took the last use
+      const session = claims?.counted && link.delivery === 'proxy';
+
       // Check usage limit (for non-subscription, non-multiUse links)
-      if (!link.subscription && !link.multiUse && isLimitReached(link.usedCount, link.maxUses)) {
+      if (!link.subscription && !link.multiUse && !session && isLimitReached(link.usedCount, link.maxUses)) {
         this.send403(res, ReasonCode.LINK_USAGE_LIMIT_REACHED, link.id, {
           maxUses: link.maxUses,
           usedCount: link.usedCount,
@@ -632,11 +1092,30 @@ export class PaylinkServer {
         return;
       }
 
+      if (claims) {
+        if (link.subscription || session) {
+          await this.deliver(req, res, link, claims.sub);
+        } else {
+          await this.deliverAfterUse(req, res, link, claims.sub, this.proxySession(link, {
+            scope: claims.scope,
+            sub: claims.sub,
+            grant: claims.grant,
+            expiresAt: new Date(claims.exp * 1000),
+          }));
+        }
+        return;
+      }
+
       // Handle subscription links
       if (link.subscription) {
         const subscriberAddress = req.query.subscriber as string;
         
         if (subscriberAddress) {
+          if (!(await this.verifyPayerProof(req.query, link, subscriberAddress))) {
+            this.sendPayerNotVerified(res, link, subscriberAddress);
+            return;
+          }
+
           const subscription = await this.storage.getSubscriptionByAddress(link.id, subscriberAddress);
           
           if (subscription) {
@@ -644,7 +1123,13 @@ export class PaylinkServer {
             
             if (access.hasAccess) {
               // Grant access
-              res.redirect(302, link.targetUrl);
+              this.grantAccessToken(req, res, link, {
+                scope: 'subscription',
+                sub: subscriberAddress,
+                grant: subscription.id,
+                expiresAt: subscription.currentPeriodEnd,
+              });
+              await this.deliver(req, res, link, subscriberAddress);
               return;
             }
             
@@ -674,24 +1159,37 @@ export class PaylinkServer {
             
             if (subscription.status === 'past_due') {
               // Return 402 with subscription info for renewal
-              this.send402(res, link, subscription);
+              await this.send402(req, res, link, subscription);
               return;
             }
           }
         }
         
         // No subscription or subscriber address - return 402 for new subscription
-        this.send402(res, link);
+        await this.send402(req, res, link);
         return;
       }
 
+      // x402 clients pay by retrying with a signed payment payload
+      const x402Header = req.get(X402_HEADERS.PAYMENT) ?? req.get(X402_HEADERS.PAYMENT_SIGNATURE);
+
       // Handle multi-use links (requires payer address)
       if (link.multiUse) {
         const payerAddress = req.query.payer as string;
+
+        if (x402Header) {
+          await this.handleX402Payment(req, res, link, x402Header);
+          return;
+        }
         
         if (!payerAddress) {
           // No payer address provided - return 402 with info
-          this.send402(res, link);
+          await this.send402(req, res, link);
+          return;
+        }
+
+        if (!(await this.verifyPayerProof(req.query, link, payerAddress))) {
+          this.sendPayerNotVerified(res, link, payerAddress);
           return;
         }
         
@@ -699,24 +1197,12 @@ export class PaylinkServer {
         const payment = await this.storage.getConfirmedPaymentByAddress(link.id, payerAddress);
         
         if (payment) {
-          // Check maxUses limit if set
-          if (link.maxUses && (link.usedCount ?? 0) >= link.maxUses) {
-            this.send403(res, ReasonCode.LINK_USAGE_LIMIT_REACHED, link.id, {
-              maxUses: link.maxUses,
-              usedCount: link.usedCount,
-            });
-            return;
-          }
-          
-          // Increment usage and redirect
-          link.usedCount = (link.usedCount ?? 0) + 1;
-          await this.storage.updatePayLink(link);
-          res.redirect(302, link.targetUrl);
+          await this.deliverAfterUse(req, res, link, payerAddress, { scope: 'multi-use', sub: payerAddress, grant: payment.id });
           return;
         }
         
         // No payment from this address - return 402
-        this.send402(res, link);
+        await this.send402(req, res, link);
         return;
       }
 
@@ -724,21 +1210,232 @@ export class PaylinkServer {
       const payment = await this.storage.getConfirmedPayment(link.id);
 
       if (payment) {
-        // Increment usage and redirect
-        link.usedCount = (link.usedCount ?? 0) + 1;
-        await this.storage.updatePayLink(link);
-        res.redirect(302, link.targetUrl);
+        const grant = { scope: 'single-use' as const, sub: payment.fromAddress, grant: payment.id };
+        await this.deliverAfterUse(req, res, link, payment.fromAddress, this.proxySession(link, grant));
+        return;
+      }
+
+      if (x402Header) {
+        await this.handleX402Payment(req, res, link, x402Header);
         return;
       }
 
       // No payment - return 402
-      this.send402(res, link);
+      await this.send402(req, res, link);
     } catch (error) {
       console.error('PayLink error:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   }
 
+  /**
+   * Count a use of a paid link and deliver its target
+   * Usage is incremented atomically; a concurrent request may have used the last slot.
+   * `grant` gets an access token once the use is counted. On proxied links the token is
+   * marked `counted`: it is the viewing session, whose further fetches (a player's range
+   * requests while seeking) are not counted again.
+   */
+  private async deliverAfterUse(
+    req: Request,
+    res: Response,
+    link: PayLink,
+    payer: string,
+    grant?: { scope: AccessScope; sub: string; grant: string; expiresAt?: Date }
+  ): Promise<void> {
+    // Multi-use links treat maxUses 0 as unlimited
+    const maxUses = link.multiUse ? link.maxUses || undefined : link.maxUses;
+    const updated = await this.storage.incrementUsage(link.id, maxUses);
+    if (!updated) {
+      this.send403(res, ReasonCode.LINK_USAGE_LIMIT_REACHED, link.id, {
+        maxUses: link.maxUses,
+        usedCount: link.maxUses,
+      });
+      return;
+    }
+
+    if (grant) {
+      this.grantAccessToken(req, res, link, { ...grant, counted: link.delivery === 'proxy' });
+    }
+    await this.deliver(req, res, link, payer);
+  }
+
+  /**
+   * Grant for the session token of a proxied link's counted use; redirects need none
+   */
+  private proxySession(
+    link: PayLink,
+    grant: { scope: AccessScope; sub: string; grant: string; expiresAt?: Date }
+  ): { scope: AccessScope; sub: string; grant: string; expiresAt?: Date } | undefined {
+    return link.delivery === 'proxy' ? grant : undefined;
+  }
+
+  /**
+   * Hand over a paid link's target to `payer`: a redirect, signed when configured,
+   * or the target streamed through the server. Proxy errors never reveal the target URL.
+   */
+  private async deliver(req: Request, res: Response, link: PayLink, payer: string): Promise<void> {
+    if (link.delivery !== 'proxy') {
+      res.redirect(302, this.redirectTarget(link, payer));
+      return;
+    }
+
+    try {
+      await proxyRequest(req, res, link.targetUrl, this.config.proxy);
+    } catch (error) {
+      console.error(`Proxy error for link ${link.id}:`, error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.status(502).json({
+        error: error instanceof UpstreamBlockedError ? 'Upstream not allowed' : 'Upstream unavailable',
+      });
+    }
+  }
+
+  /**
+   * Pay a link with an x402 payment payload: verified and settled by the facilitator,
+   * recorded as a confirmed payment, then the target is delivered
+   * The settlement goes back in `X-PAYMENT-RESPONSE`; rejected payments get a 402 saying why.
+   */
+  private async handleX402Payment(req: Request, res: Response, link: PayLink, header: string): Promise<void> {
+    let payload: X402PaymentPayload;
+    try {
+      payload = decodeX402Payment(header);
+    } catch {
+      await this.send402(req, res, link, undefined, 'Invalid payment header');
+      return;
+    }
+
+    const offer = this.x402Offers(link)
+      .find(o => o.requirements.scheme === payload.scheme && o.requirements.network === payload.network);
+    if (!offer || !this.x402Facilitator) {
+      await this.send402(req, res, link, undefined, 'Unsupported payment scheme or network');
+      return;
+    }
+
+    let payer: string;
+    let transaction: string;
+    try {
+      const verification = await this.x402Facilitator.verify(payload, offer.requirements);
+      if (!verification.isValid) {
+        await this.send402(req, res, link, undefined, verification.invalidReason ?? 'Invalid payment');
+        return;
+      }
+
+      const settlement = await this.x402Facilitator.settle(payload, offer.requirements);
+      if (!settlement.success || !settlement.transaction) {
+        await this.send402(req, res, link, undefined, settlement.errorReason ?? 'Settlement failed');
+        return;
+      }
+      payer = settlement.payer ?? verification.payer ?? '';
+      transaction = settlement.transaction;
+      res.set(X402_HEADERS.RESPONSE, encodeX402Header({ ...settlement, payer }));
+    } catch (error) {
+      console.error(`x402 facilitator error for link ${link.id}:`, error);
+      res.status(503).json({ error: 'Payment facilitator unavailable, try again later' });
+      return;
+    }
+
+    const payment: Payment = {
+      id: generateUUID(),
+      payLinkId: link.id,
+      chainId: offer.option.chainId,
+      txHash: transaction,
+      fromAddress: payer,
+      amount: offer.option.amount,
+      tokenSymbol: offer.option.tokenSymbol,
+      confirmed: true,
+      createdAt: new Date(),
+      confirmedAt: new Date(),
+    };
+    if (!(await this.storage.insertPayment(payment))) {
+      res.status(409).json({ error: 'Transaction already recorded' });
+      return;
+    }
+    await this.processConfirmedPayment(payment, link);
+
+    await this.deliverAfterUse(req, res, link, payer, payer ? {
+      scope: link.multiUse ? 'multi-use' : 'single-use',
+      sub: payer,
+      grant: payment.id,
+    } : undefined);
+  }
+
+  /**
+   * Issue a sign-in challenge (EIP-4361, Sign In With Solana) for proving control of a payer address
+   * The signed challenge is redeemed once on `GET /pay/:id?payer=...&nonce=...&signature=...`.
+   */
+  private async handleChallenge(req: Request, res: Response): Promise<void> {
+    try {
+      // Every challenge is stored, so they share the client's checkout budget
+      if (!this.allowCheckout(req.ip ?? '')) {
+        res.status(429).json({ error: 'Too many challenges, try again later' });
+        return;
+      }
+
+      const link = await this.storage.getPayLink(req.params.id);
+
+      if (!link) {
+        res.status(404).json({ error: 'Payment link not found' });
+        return;
+      }
+
+      const address = req.query.address;
+      if (typeof address !== 'string' || !address) {
+        res.status(400).json({ error: 'Missing address query parameter' });
+        return;
+      }
+
+      const chainId = req.query.chainId ? Number(req.query.chainId) : link.price.chainId;
+      const linkChains = [link.price.chainId, ...(link.paymentOptions ?? []).map(opt => opt.chainId)];
+      const chain = this.config.chains.find(c => c.chainId === chainId);
+      if (!chain || !linkChains.includes(chainId)) {
+        res.status(400).json({ error: `Link is not payable on chain ${req.query.chainId ?? chainId}` });
+        return;
+      }
+
+      const provider = this.getProvider(chain);
+      if (!provider.createSignInMessage || !provider.verifySignature) {
+        res.status(400).json({ error: `Wallet sign-in is not supported on chain ${chainId}` });
+        return;
+      }
+      if (!provider.isValidAddress(address)) {
+        res.status(400).json({ error: `Invalid address for chain ${chainId}: ${address}` });
+        return;
+      }
+
+      // The wallet shows the domain, so use the host the buyer actually reached
+      const base = this.config.baseUrl || `${req.protocol}://${req.get('host')}`;
+      const nonce = generateNonce();
+      const createdAt = new Date();
+      const expiresAt = new Date(createdAt.getTime() + (this.config.payerAuth.challengeTtl ?? 300) * 1000);
+      const message = provider.createSignInMessage({
+        domain: new URL(base).host,
+        address,
+        statement: 'Sign in to access content you paid for. This request does not send a transaction or cost any fees.',
+        uri: `${base}${this.config.basePath}/${link.id}`,
+        chainId,
+        nonce,
+        issuedAt: createdAt,
+        expirationTime: expiresAt,
+      });
+      await this.storage.saveAuthChallenge({ nonce, payLinkId: link.id, chainId, address, message, createdAt, expiresAt });
+
+      res.json({
+        payLinkId: link.id,
+        chainId,
+        address,
+        nonce,
+        message,
+        expiresAt: expiresAt.toISOString(),
+      });
+    } catch (error) {
+      console.error('Challenge error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
   private async handleStatus(req: Request, res: Response): Promise<void> {
     try {
       const link = await this.storage.getPayLink(req.params.id);
@@ -796,7 +1493,13 @@ export class PaylinkServer {
 
   private async handleConfirm(req: Request, res: Response): Promise<void> {
     try {
-      const { txHash, chainId: requestedChainId, referralCode } = req.body;
+      const {
+        txHash,
+        chainId: requestedChainId,
+        tokenSymbol: requestedToken,
+        recipient: depositAddress,
+        referralCode,
+      } = req.body;
 
       if (!txHash || typeof txHash !== 'string') {
         res.status(400).json({ status: 'failed', message: 'Missing txHash' });
@@ -810,8 +1513,12 @@ export class PaylinkServer {
         return;
       }
 
-      // Check if already confirmed
+      // Check if already confirmed; a transaction pays one link only
       const existing = await this.storage.getPaymentByTxHash(txHash);
+      if (existing?.confirmed && existing.payLinkId !== link.id) {
+        res.status(409).json({ status: 'failed', message: 'Transaction already used for another link' });
+        return;
+      }
       if (existing?.confirmed) {
         res.json({ status: 'confirmed', message: 'Already confirmed' });
         return;
@@ -827,14 +1534,20 @@ export class PaylinkServer {
       if (requestedChainId !== undefined) {
         const numChainId = Number(requestedChainId);
         
-        if (numChainId === link.price.chainId) {
+        // A chain may carry several options (e.g. SOL and USDC); tokenSymbol picks one
+        const matchesToken = (symbol: string) =>
+          typeof requestedToken !== 'string' || symbol.toUpperCase() === requestedToken.toUpperCase();
+
+        if (numChainId === link.price.chainId && matchesToken(link.price.tokenSymbol)) {
           // Primary price matches
           chainId = link.price.chainId;
           expectedAmount = link.price.amount;
           tokenSymbol = link.price.tokenSymbol;
         } else if (link.paymentOptions) {
           // Look for matching payment option
-          const option = link.paymentOptions.find(opt => opt.chainId === numChainId);
+          const option = link.paymentOptions.find(
+            opt => opt.chainId === numChainId && matchesToken(opt.tokenSymbol)
+          );
           if (option) {
             chainId = option.chainId;
             expectedAmount = option.amount;
@@ -856,12 +1569,33 @@ export class PaylinkServer {
         res.status(400).json({ status: 'failed', message: 'Chain not supported by server' });
         return;
       }
+      if (!this.isValidTxHash(chainId, txHash)) {
+        res.status(400).json({ status: 'failed', message: 'Invalid txHash' });
+        return;
+      }
+
+      // Paid to a derived deposit address: verify against the intent that handed it out
+      let intent: PaymentIntent | undefined;
+      if (typeof depositAddress === 'string' && depositAddress.toLowerCase() !== recipient.toLowerCase()) {
+        intent = (await this.storage.getOpenPaymentIntents(chainId)).find(open =>
+          open.payLinkId === link.id &&
+          open.recipient.toLowerCase() === depositAddress.toLowerCase() &&
+          open.tokenSymbol.toUpperCase() === tokenSymbol.toUpperCase()
+        );
+        if (!intent) {
+          res.status(400).json({ status: 'failed', message: 'Unknown deposit address' });
+          return;
+        }
+        recipient = intent.recipient;
+        expectedAmount = intent.amount;
+      }
 
       // Verify payment
       const result = await verifier.verifyPayment({
         txHash,
         recipient,
         amount: expectedAmount,
+        tokenSymbol,
       });
 
       switch (result.status) {
@@ -878,46 +1612,22 @@ export class PaylinkServer {
             createdAt: new Date(),
             confirmedAt: new Date(),
             referralCode: referralCode || undefined,
+            paymentIntentId: intent?.id,
           };
-          await this.storage.savePayment(payment);
-          
-          // Process referral commission if referral code provided
-          let commission = null;
-          if (referralCode && link.referral?.enabled) {
-            try {
-              commission = await this.referralManager.processReferralPayment(
-                payment,
-                link,
-                referralCode
-              );
-              
-              // Send webhook for commission
-              if (commission && this.webhookManager) {
-                const referral = await this.storage.getReferral(commission.referralId);
-                if (referral) {
-                  this.webhookManager.sendCommissionEvent(
-                    'commission.confirmed',
-                    commission,
-                    referral,
-                    link
-                  ).catch(err => {
-                    console.error('Commission webhook error:', err);
-                  });
-                }
-              }
-            } catch (err) {
-              console.error('Referral processing error:', err);
-              // Don't fail the payment if referral fails
+          // A concurrent /confirm or watcher may have recorded the transaction since the check above
+          if (!(await this.storage.insertPayment(payment))) {
+            const recorded = await this.storage.getPaymentByTxHash(txHash);
+            if (recorded?.confirmed && recorded.payLinkId === link.id) {
+              res.json({ status: 'confirmed', message: 'Already confirmed' });
+            } else {
+              res.status(409).json({ status: 'failed', message: 'Transaction already recorded' });
             }
+            return;
           }
-          
-          // Send webhook notification
-          if (this.webhookManager) {
-            this.webhookManager.sendPaymentEvent('payment.confirmed', payment, link).catch(err => {
-              console.error('Webhook error:', err);
-            });
-          }
-          
+          if (intent) await this.claimPaymentIntent(intent.id, payment.id);
+          const commission = await this.processConfirmedPayment(payment, link);
+          const accessToken = await this.paymentAccessToken(req, res, link, payment);
+
           res.json({ 
             status: 'confirmed', 
             chainId, 
@@ -926,6 +1636,7 @@ export class PaylinkServer {
               commissionId: commission.id,
               commissionAmount: commission.commissionAmount,
             } : undefined,
+            ...accessToken,
           });
           break;
         }
@@ -971,6 +1682,10 @@ export class PaylinkServer {
             message: `Underpaid: received ${result.actualAmount}, required ${link.price.amount}`,
           });
           break;
+        case 'rpc_error':
+          // The transaction may well exist: ask the buyer to retry instead of failing it
+          res.status(503).json({ status: 'rpc_error', message: 'Chain RPC unavailable, try again later' });
+          break;
         default:
           res.status(400).json({ status: 'failed', message: 'Transaction not found or failed' });
       }
@@ -980,6 +1695,50 @@ export class PaylinkServer {
     }
   }
 
+  /**
+   * Process the referral commission of a newly recorded payment and send webhooks
+   */
+  private async processConfirmedPayment(payment: Payment, link: PayLink): Promise<ReferralCommission | null> {
+    // Process referral commission if referral code provided
+    let commission: ReferralCommission | null = null;
+    if (payment.referralCode && link.referral?.enabled) {
+      try {
+        commission = await this.referralManager.processReferralPayment(
+          payment,
+          link,
+          payment.referralCode
+        );
+
+        // Send webhook for commission
+        if (commission && this.webhookManager) {
+          const referral = await this.storage.getReferral(commission.referralId);
+          if (referral) {
+            this.webhookManager.sendCommissionEvent(
+              'commission.confirmed',
+              commission,
+              referral,
+              link
+            ).catch(err => {
+              console.error('Commission webhook error:', err);
+            });
+          }
+        }
+      } catch (err) {
+        console.error('Referral processing error:', err);
+        // Don't fail the payment if referral fails
+      }
+    }
+
+    // Send webhook notification
+    if (this.webhookManager) {
+      this.webhookManager.sendPaymentEvent('payment.confirmed', payment, link).catch(err => {
+        console.error('Webhook error:', err);
+      });
+    }
+
+    return commission;
+  }
+
   /**
    * Handle QR code generation
    */
@@ -1001,16 +1760,46 @@ export class PaylinkServer {
       const format = req.query.format as string || 'svg';
       const size = parseInt(req.query.size as string) || 256;
 
+      // Checkout intent of the price option (`?intent=` from POST /:id/checkout), else
+      // a fresh Solana Pay reference so a wallet scan completes on its own
+      let intent: PaymentIntent | null | undefined = null;
+      if (req.query.intent === undefined) {
+        [intent] = await this.openReferenceIntents(req.ip ?? '', link, [
+          { option: link.price, recipient: link.recipientAddress },
+        ]);
+      } else {
+        intent = typeof req.query.intent === 'string' ? await this.storage.getPaymentIntent(req.query.intent) : null;
+        if (
+          !intent ||
+          intent.payLinkId !== link.id ||
+          intent.chainId !== link.price.chainId ||
+          intent.tokenSymbol !== link.price.tokenSymbol ||
+          intent.status !== 'open'
+        ) {
+          res.status(404).json({ error: 'Payment intent not found' });
+          return;
+        }
+      }
+      const chain = this.config.chains.find(c => c.chainId === link.price.chainId);
+      const provider = chain && this.getProvider(chain);
+      const tokenAddress = chain && resolveToken(this.getChainTokens(chain), link.price.tokenSymbol)?.address;
+      const recipient = this.formatRecipient(link.price.chainId, intent?.recipient ?? link.recipientAddress);
+
       const qrData: PaymentQRData = {
         chainId: link.price.chainId,
-        recipient: link.recipientAddress,
+        chainType: provider?.type,
+        recipient,
         amount: link.price.amount,
         tokenSymbol: link.price.tokenSymbol,
         payLinkId: link.id,
         confirmUrl: `${base}${this.config.basePath}/${link.id}/confirm`,
+        reference: intent?.reference,
+        splToken: provider?.type === 'solana' ? tokenAddress : undefined,
+        tokenContract: provider?.type === 'solana' ? undefined : tokenAddress,
       };
 
-      const qr = generatePaymentQR(qrData, { size });
+      const uri = provider ? provider.generatePaymentURI(qrData) : generatePaymentURI(qrData);
+      const qr = { uri, svg: generateQRCodeSVG(uri, { size }), dataUrl: generateQRCodeDataURL(uri, { size }) };
 
       if (format === 'json') {
         res.json({
@@ -1021,16 +1810,17 @@ export class PaylinkServer {
             chainId: link.price.chainId,
             tokenSymbol: link.price.tokenSymbol,
             amount: link.price.amount,
-            recipient: link.recipientAddress,
+            recipient,
+            reference: intent?.reference,
           },
         });
         return;
       }
 
-      // Return SVG directly
+      // Return SVG directly; per-checkout references and deposit addresses must not be cached
       res.set({
         'Content-Type': 'image/svg+xml',
-        'Cache-Control': 'public, max-age=300',
+        'Cache-Control': intent ? 'no-store' : 'public, max-age=300',
       });
       res.send(qr.svg);
     } catch (error) {
@@ -1039,6 +1829,81 @@ export class PaylinkServer {
     }
   }
 
+  /**
+   * Handle checkout: open a payment intent per payment option
+   * Derived deposit addresses are only handed out here, never by a plain GET, and each
+   * client IP may open a limited number of checkouts per minute.
+   */
+  private async handleCheckout(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.allowCheckout(req.ip ?? '')) {
+        res.status(429).json({ error: 'Too many checkouts, try again later' });
+        return;
+      }
+
+      const link = await this.storage.getPayLink(req.params.id);
+
+      if (!link) {
+        res.status(404).json({ error: 'Payment link not found' });
+        return;
+      }
+
+      if (link.status !== 'active') {
+        res.status(403).json({ error: 'Payment link is not active' });
+        return;
+      }
+
+      const checkoutOption = async (option: PaymentOption, recipient: string): Promise<CheckoutOption> => {
+        const intent = await this.openPaymentIntent(link, option, recipient);
+        return {
+          chainId: option.chainId,
+          tokenSymbol: option.tokenSymbol,
+          amount: option.amount,
+          recipient: this.formatRecipient(option.chainId, intent?.recipient ?? recipient),
+          reference: intent?.reference,
+          intentId: intent?.id,
+          expiresAt: intent?.expiresAt.toISOString(),
+        };
+      };
+
+      const body: CheckoutResponse = {
+        payLinkId: link.id,
+        payment: await checkoutOption(link.price, link.recipientAddress),
+      };
+      if (link.paymentOptions && link.paymentOptions.length > 0) {
+        body.paymentOptions = await Promise.all(link.paymentOptions.map(opt =>
+          checkoutOption(opt, opt.recipientAddress || link.recipientAddress)
+        ));
+      }
+
+      res.status(201).json(body);
+    } catch (error) {
+      console.error('Checkout error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Count a checkout (or a stored sign-in challenge) against the client's budget of the
+   * current minute; false once it is used up
+   */
+  private allowCheckout(client: string): boolean {
+    const limit = this.config.checkout.maxPerMinute ?? DEFAULT_CHECKOUTS_PER_MINUTE;
+    if (limit <= 0) {
+      return true;
+    }
+
+    const now = Date.now();
+    if (now >= this.checkoutWindowEnd) {
+      this.checkoutCounts.clear();
+      this.checkoutWindowEnd = now + 60000;
+    }
+
+    const count = (this.checkoutCounts.get(client) ?? 0) + 1;
+    this.checkoutCounts.set(client, count);
+    return count <= limit;
+  }
+
   // ========================================
   // SUBSCRIPTION HANDLERS
   // ========================================
@@ -1077,15 +1942,20 @@ export class PaylinkServer {
           res.status(400).json({ error: 'Chain not supported' });
           return;
         }
+        if (typeof txHash !== 'string' || !this.isValidTxHash(link.price.chainId, txHash)) {
+          res.status(400).json({ error: 'Invalid txHash' });
+          return;
+        }
 
         const result = await verifier.verifyPayment({
           txHash,
           recipient: link.recipientAddress,
           amount: link.price.amount,
+          tokenSymbol: link.price.tokenSymbol,
         });
 
         if (result.status !== 'confirmed') {
-          res.status(400).json({
+          res.status(result.status === 'rpc_error' ? 503 : 400).json({
             error: 'Payment not confirmed',
             status: result.status,
           });
@@ -1103,8 +1973,12 @@ export class PaylinkServer {
           confirmed: true,
           createdAt: new Date(),
           confirmedAt: new Date(),
+          subscriptionId: subscription?.id,
         };
-        await this.storage.savePayment(payment);
+        if (!(await this.storage.insertPayment(payment))) {
+          res.status(409).json({ error: 'Transaction already recorded' });
+          return;
+        }
 
         // Send payment webhook
         if (this.webhookManager) {
@@ -1127,6 +2001,7 @@ export class PaylinkServer {
             success: true,
             action: 'renewed',
             subscription: this.formatSubscriptionResponse(subscription, link),
+            ...(await this.subscriptionAccessToken(req, res, link, subscription)),
           });
           return;
         }
@@ -1140,6 +2015,7 @@ export class PaylinkServer {
           success: true,
           action: 'created',
           subscription: this.formatSubscriptionResponse(subscription, link),
+          ...(await this.subscriptionAccessToken(req, res, link, subscription)),
         });
         return;
       }
@@ -1149,6 +2025,7 @@ export class PaylinkServer {
         success: true,
         action: 'existing',
         subscription: this.formatSubscriptionResponse(subscription, link),
+        ...(await this.subscriptionAccessToken(req, res, link, subscription)),
       });
     } catch (error) {
       console.error('Subscribe error:', error);
@@ -1247,6 +2124,8 @@ export class PaylinkServer {
         multiUse,
         // Referral configuration
         referral,
+        // Redirect or proxy
+        delivery,
       } = req.body;
 
       if (!targetUrl || !amount || !recipientAddress) {
@@ -1254,6 +2133,15 @@ export class PaylinkServer {
         return;
       }
 
+      if (delivery !== undefined && delivery !== 'redirect' && delivery !== 'proxy') {
+        res.status(400).json({ error: 'Invalid delivery. Must be: redirect or proxy' });
+        return;
+      }
+      if (delivery === 'proxy' && !/^https?:\/\//i.test(targetUrl)) {
+        res.status(400).json({ error: 'Proxy delivery needs an http(s) targetUrl' });
+        return;
+      }
+
       // Parse payment options if provided
       let parsedPaymentOptions: PaymentOption[] | undefined;
       if (paymentOptions && Array.isArray(paymentOptions)) {
@@ -1265,6 +2153,17 @@ export class PaylinkServer {
         }));
       }
 
+      // Reject addresses the chain's provider cannot pay
+      const recipients = [
+        { chainId: Number(chainId), address: recipientAddress },
+        ...(parsedPaymentOptions ?? []).map(opt => ({ chainId: opt.chainId, address: opt.recipientAddress || recipientAddress })),
+      ];
+      const invalid = recipients.find(r => !this.isValidRecipient(r.chainId, r.address));
+      if (invalid) {
+        res.status(400).json({ error: `Invalid recipient address for chain ${invalid.chainId}: ${invalid.address}` });
+        return;
+      }
+
       // Parse subscription config if provided
       let subscriptionConfig;
       if (subscription) {
@@ -1303,6 +2202,7 @@ export class PaylinkServer {
         subscription: subscriptionConfig,
         multiUse: multiUse === true || multiUse === 'true',
         referral: referralConfig,
+        delivery,
       });
 
       const base = this.config.baseUrl || `http://localhost:${this.config.port}`;
@@ -1319,6 +2219,7 @@ export class PaylinkServer {
           description: link.description,
           maxUses: link.maxUses,
           multiUse: link.multiUse,
+          delivery: link.delivery ?? 'redirect',
           expiresAt: link.expiresAt?.toISOString(),
           subscription: link.subscription ? {
             interval: link.subscription.interval,
@@ -1343,11 +2244,18 @@ export class PaylinkServer {
   }
 
   private async apiListLinks(req: Request, res: Response): Promise<void> {
-    const links = await this.storage.getAllPayLinks();
+    const options = this.parseListQuery(req, res);
+    if (!options) return;
+
+    const { items: links, nextCursor } = await this.storage.listPayLinks({
+      ...options,
+      status: req.query.status as PayLinkStatus | undefined,
+    });
     const base = this.config.baseUrl || `http://localhost:${this.config.port}`;
 
     res.json({
       count: links.length,
+      nextCursor: nextCursor ?? null,
       links: links.map(l => ({
         id: l.id,
         url: `${base}${this.config.basePath}/${l.id}`,
@@ -1379,6 +2287,7 @@ export class PaylinkServer {
       status: link.status,
       usedCount: link.usedCount,
       maxUses: link.maxUses,
+      delivery: link.delivery ?? 'redirect',
       expiresAt: link.expiresAt?.toISOString(),
       createdAt: link.createdAt.toISOString(),
     });
@@ -1394,10 +2303,29 @@ export class PaylinkServer {
   }
 
   private async apiListPayments(req: Request, res: Response): Promise<void> {
-    const payments = await this.storage.getAllPayments();
+    const options = this.parseListQuery(req, res);
+    if (!options) return;
+
+    const { payLinkId, chainId, status } = req.query;
+    if (chainId !== undefined && !/^\d+$/.test(chainId as string)) {
+      res.status(400).json({ error: 'Invalid chainId' });
+      return;
+    }
+    if (status !== undefined && status !== 'confirmed' && status !== 'pending') {
+      res.status(400).json({ error: 'Invalid status' });
+      return;
+    }
+
+    const { items: payments, nextCursor } = await this.storage.listPayments({
+      ...options,
+      payLinkId: payLinkId as string | undefined,
+      chainId: chainId === undefined ? undefined : Number(chainId),
+      confirmed: status === undefined ? undefined : status === 'confirmed',
+    });
 
     res.json({
       count: payments.length,
+      nextCursor: nextCursor ?? null,
       payments: payments.map(p => ({
         id: p.id,
         payLinkId: p.payLinkId,
@@ -1414,10 +2342,19 @@ export class PaylinkServer {
   // ========================================
 
   private async apiListSubscriptions(req: Request, res: Response): Promise<void> {
-    const subscriptions = await this.storage.getAllSubscriptions();
-    
+    const options = this.parseListQuery(req, res);
+    if (!options) return;
+
+    const { items: subscriptions, nextCursor } = await this.storage.listSubscriptions({
+      ...options,
+      payLinkId: req.query.payLinkId as string | undefined,
+      subscriberAddress: req.query.subscriberAddress as string | undefined,
+      status: req.query.status as SubscriptionStatus | undefined,
+    });
+
     res.json({
       count: subscriptions.length,
+      nextCursor: nextCursor ?? null,
       subscriptions: subscriptions.map(s => ({
         id: s.id,
         payLinkId: s.payLinkId,
@@ -1464,6 +2401,26 @@ export class PaylinkServer {
     });
   }
 
+  /**
+   * Revoke an access token before it expires
+   */
+  private async apiRevokeAccessToken(req: Request, res: Response): Promise<void> {
+    try {
+      const { token } = req.body;
+      const claims = typeof token === 'string' ? verifyAccessToken(token, this.accessTokenSecret) : null;
+      if (!claims) {
+        res.status(400).json({ error: 'Invalid or expired access token' });
+        return;
+      }
+
+      await this.revokeAccessTokens(claims.jti, new Date(claims.exp * 1000));
+      res.json({ success: true, revoked: { jti: claims.jti, link: claims.link, sub: claims.sub } });
+    } catch (error) {
+      console.error('Revoke access token error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
   private async apiCancelSubscription(req: Request, res: Response): Promise<void> {
     try {
       const subscription = await this.cancelSubscription(req.params.id);
@@ -1541,22 +2498,21 @@ export class PaylinkServer {
 
   private async apiListReferrals(req: Request, res: Response): Promise<void> {
     try {
-      const { payLinkId, referrerAddress } = req.query;
-
-      let referrals: Referral[];
-      
-      if (payLinkId) {
-        referrals = await this.storage.getReferralsByPayLink(payLinkId as string);
-      } else if (referrerAddress) {
-        referrals = await this.storage.getReferralsByReferrer(referrerAddress as string);
-      } else {
-        referrals = await this.storage.getAllReferrals();
-      }
+      const options = this.parseListQuery(req, res);
+      if (!options) return;
+
+      const { items: referrals, nextCursor } = await this.storage.listReferrals({
+        ...options,
+        payLinkId: req.query.payLinkId as string | undefined,
+        referrerAddress: req.query.referrerAddress as string | undefined,
+        status: req.query.status as Referral['status'] | undefined,
+      });
 
       const base = this.config.baseUrl || `http://localhost:${this.config.port}`;
 
       res.json({
         count: referrals.length,
+        nextCursor: nextCursor ?? null,
         referrals: referrals.map(r => ({
           id: r.id,
           code: r.code,
@@ -1684,25 +2640,19 @@ export class PaylinkServer {
 
   private async apiListCommissions(req: Request, res: Response): Promise<void> {
     try {
-      const { referralId, referrerAddress, status } = req.query;
-
-      let commissions: ReferralCommission[];
-
-      if (referralId) {
-        commissions = await this.storage.getCommissionsByReferral(referralId as string);
-      } else if (referrerAddress) {
-        commissions = await this.storage.getCommissionsByReferrer(referrerAddress as string);
-      } else {
-        commissions = await this.storage.getAllCommissions();
-      }
-
-      // Filter by status if provided
-      if (status) {
-        commissions = commissions.filter(c => c.status === status);
-      }
+      const options = this.parseListQuery(req, res);
+      if (!options) return;
+
+      const { items: commissions, nextCursor } = await this.storage.listCommissions({
+        ...options,
+        referralId: req.query.referralId as string | undefined,
+        referrerAddress: req.query.referrerAddress as string | undefined,
+        status: req.query.status as ReferralStatus | undefined,
+      });
 
       res.json({
         count: commissions.length,
+        nextCursor: nextCursor ?? null,
         commissions: commissions.map(c => ({
           id: c.id,
           referralId: c.referralId,
@@ -1733,15 +2683,12 @@ export class PaylinkServer {
       const commissions = await this.referralManager.getPendingCommissions(req.params.address);
 
       // Calculate total pending
-      const totalPending = commissions.reduce(
-        (sum, c) => sum + parseFloat(c.commissionAmount),
-        0
-      );
+      const totalPending = addAmounts(...commissions.map(c => c.commissionAmount));
 
       res.json({
         address: req.params.address,
         count: commissions.length,
-        totalPending: totalPending.toString(),
+        totalPending,
         commissions: commissions.map(c => ({
           id: c.id,
           referralId: c.referralId,
@@ -1844,25 +2791,19 @@ export class PaylinkServer {
 
   private async apiListInstallmentPlans(req: Request, res: Response): Promise<void> {
     try {
-      const { payLinkId, buyerAddress, status } = req.query;
-
-      let plans: InstallmentPlan[];
-
-      if (payLinkId) {
-        plans = await this.storage.getInstallmentPlansByPayLink(payLinkId as string);
-      } else if (buyerAddress) {
-        plans = await this.storage.getInstallmentPlansByBuyer(buyerAddress as string);
-      } else {
-        plans = await this.storage.getAllInstallmentPlans();
-      }
-
-      // Filter by status if provided
-      if (status) {
-        plans = plans.filter(p => p.status === status);
-      }
+      const options = this.parseListQuery(req, res);
+      if (!options) return;
+
+      const { items: plans, nextCursor } = await this.storage.listInstallmentPlans({
+        ...options,
+        payLinkId: req.query.payLinkId as string | undefined,
+        buyerAddress: req.query.buyerAddress as string | undefined,
+        status: req.query.status as InstallmentStatus | undefined,
+      });
 
       res.json({
         count: plans.length,
+        nextCursor: nextCursor ?? null,
         plans: plans.map(p => ({
           id: p.id,
           payLinkId: p.payLinkId,
@@ -1984,6 +2925,10 @@ export class PaylinkServer {
         res.status(400).json({ error: 'Unsupported chain' });
         return;
       }
+      if (typeof txHash !== 'string' || !this.isValidTxHash(chainId, txHash)) {
+        res.status(400).json({ error: 'Invalid txHash' });
+        return;
+      }
 
       // Verify payment
       const expectedAmount = plan.installmentAmounts[plan.nextInstallmentNumber - 1];
@@ -1991,10 +2936,11 @@ export class PaylinkServer {
         txHash,
         recipient: link.recipientAddress,
         amount: expectedAmount,
+        tokenSymbol: link.price.tokenSymbol,
       });
 
       if (result.status !== 'confirmed') {
-        res.status(400).json({ error: 'Payment not confirmed', status: result.status });
+        res.status(result.status === 'rpc_error' ? 503 : 400).json({ error: 'Payment not confirmed', status: result.status });
         return;
       }
 
@@ -2011,7 +2957,10 @@ export class PaylinkServer {
         createdAt: new Date(),
         confirmedAt: new Date(),
       };
-      await this.storage.savePayment(payment);
+      if (!(await this.storage.insertPayment(payment))) {
+        res.status(409).json({ error: 'Transaction already recorded' });
+        return;
+      }
 
       // Process installment payment
       const installmentPayment = await this.installmentManager.processPayment(plan.id, payment);
@@ -2065,6 +3014,15 @@ export class PaylinkServer {
           nextInstallmentNumber: updatedPlan.nextInstallmentNumber,
         },
         progress,
+        // Handed to the buyer by the caller; access lasts until the next installment is due
+        ...(updatedPlan.status === 'active' || updatedPlan.status === 'completed'
+          ? this.issueAccessToken(link, {
+              scope: 'installment',
+              sub: updatedPlan.buyerAddress,
+              grant: updatedPlan.id,
+              expiresAt: updatedPlan.status === 'active' ? updatedPlan.nextDueDate : undefined,
+            })
+          : undefined),
       });
     } catch (error) {
       res.status(400).json({ error: (error as Error).message });
@@ -2076,6 +3034,7 @@ export class PaylinkServer {
       const { reason } = req.body;
 
       const plan = await this.installmentManager.suspendPlan(req.params.id, reason);
+      await this.revokeInstallmentAccess(plan);
       const link = await this.storage.getPayLink(plan.payLinkId);
 
       // Send webhook
@@ -2103,6 +3062,7 @@ export class PaylinkServer {
       const { reason } = req.body;
 
       const plan = await this.installmentManager.cancelPlan(req.params.id, reason);
+      await this.revokeInstallmentAccess(plan);
       const link = await this.storage.getPayLink(plan.payLinkId);
 
       // Send webhook
@@ -2175,13 +3135,95 @@ export class PaylinkServer {
     }
   }
 
+  // ========================================
+  // LISTING HELPERS
+  // ========================================
+
+  /**
+   * Parse `?cursor=&limit=&since=&until=&sort=` for admin listings
+   * Sends a 400 and returns null when a parameter is invalid
+   */
+  private parseListQuery(req: Request, res: Response): ListOptions | null {
+    const { cursor, limit, since, until, sort } = req.query;
+    const options: ListOptions = {};
+
+    if (cursor !== undefined) {
+      try {
+        decodeCursor(cursor as string);
+      } catch {
+        res.status(400).json({ error: 'Invalid cursor' });
+        return null;
+      }
+      options.cursor = cursor as string;
+    }
+
+    if (limit !== undefined) {
+      if (!/^\d+$/.test(limit as string) || Number(limit) < 1) {
+        res.status(400).json({ error: 'Invalid limit' });
+        return null;
+      }
+      options.limit = Number(limit);
+    }
+
+    for (const [name, value, key] of [
+      ['since', since, 'from'],
+      ['until', until, 'to'],
+    ] as const) {
+      if (value === undefined) continue;
+      const date = /^\d+$/.test(value as string) ? new Date(Number(value)) : new Date(value as string);
+      if (isNaN(date.getTime())) {
+        res.status(400).json({ error: `Invalid ${name}` });
+        return null;
+      }
+      options[key] = date;
+    }
+
+    if (sort !== undefined) {
+      if (sort !== 'asc' && sort !== 'desc') {
+        res.status(400).json({ error: 'Invalid sort' });
+        return null;
+      }
+      options.sort = sort;
+    }
+
+    return options;
+  }
+
   // ========================================
   // RESPONSE HELPERS
   // ========================================
 
-  private send402(res: Response, link: PayLink, subscription?: Subscription): void {
+  /**
+   * Send a 402 with the link's payment details
+   * The x402 payment requirements go in the `PAYMENT-REQUIRED` header; they replace the
+   * 402-paylink-v1 body for clients asking for x402 or retrying with an x402 payment (`x402Error`).
+   */
+  private async send402(
+    req: Request,
+    res: Response,
+    link: PayLink,
+    subscription?: Subscription,
+    x402Error?: string
+  ): Promise<void> {
+    const accepts = this.x402Offers(link).map(offer => offer.requirements);
+    const x402: X402PaymentRequired = { x402Version: X402_VERSION, error: x402Error, accepts };
+    if (accepts.length > 0) {
+      res.set(X402_HEADERS.REQUIRED, encodeX402Header(x402));
+    }
+    if (x402Error !== undefined || (accepts.length > 0 && req.get('X-Paylink-Protocol')?.toLowerCase() === 'x402')) {
+      res.set('X-Paylink-Protocol', 'x402');
+      res.status(402).json({ ...x402, error: x402Error ?? 'Payment required' });
+      return;
+    }
+
+
     const base = this.config.baseUrl || `http://localhost:${this.config.port}`;
     const nonce = generateNonce();
+    const options = [
+      { option: link.price, recipient: link.recipientAddress },
+      ...(link.paymentOptions ?? []).map(opt => ({ option: opt, recipient: opt.recipientAddress || link.recipientAddress })),
+    ];
+    const intents = await this.openReferenceIntents(req.ip ?? '', link, options);
 
     const body: Protocol402Response = {
       protocol: '402-paylink-v1',
@@ -2194,23 +3236,29 @@ export class PaylinkServer {
         chainId: link.price.chainId,
         tokenSymbol: link.price.tokenSymbol,
         amount: link.price.amount,
-        recipient: link.recipientAddress,
+        recipient: this.formatRecipient(link.price.chainId, link.recipientAddress),
         timeoutSeconds: this.config.paymentTimeout,
+        reference: intents[0]?.reference,
       },
       callbacks: {
         status: `${base}${this.config.basePath}/${link.id}/status`,
         confirm: `${base}${this.config.basePath}/${link.id}/confirm`,
+        challenge: link.multiUse || link.subscription
+          ? `${base}${this.config.basePath}/${link.id}/challenge`
+          : undefined,
+        checkout: link.subscription ? undefined : `${base}${this.config.basePath}/${link.id}/checkout`,
       },
       nonce,
     };
 
     // Add multi-currency payment options
     if (link.paymentOptions && link.paymentOptions.length > 0) {
-      body.paymentOptions = link.paymentOptions.map(opt => ({
+      body.paymentOptions = link.paymentOptions.map((opt, i) => ({
         chainId: opt.chainId,
         tokenSymbol: opt.tokenSymbol,
         amount: opt.amount,
-        recipient: opt.recipientAddress || link.recipientAddress,
+        recipient: this.formatRecipient(opt.chainId, opt.recipientAddress || link.recipientAddress),
+        reference: intents[i + 1]?.reference,
       }));
     }
 
@@ -2238,6 +3286,389 @@ export class PaylinkServer {
     res.status(402).json(body);
   }
 
+  /**
+   * x402 payment requirements of a link, one per payment option on a chain with an x402
+   * network name and a registered token (x402 moves tokens, not native coins)
+   * Subscription and installment links are not offered over x402.
+   */
+  private x402Offers(link: PayLink): Array<{ option: PaymentOption; requirements: X402PaymentRequirements }> {
+    if (!this.x402Facilitator || link.subscription || link.installment) {
+      return [];
+    }
+
+    const base = this.config.baseUrl || `http://localhost:${this.config.port}`;
+    const options: PaymentOption[] = [
+      { ...link.price, recipientAddress: link.recipientAddress },
+      ...(link.paymentOptions ?? []).map(opt => ({ ...opt, recipientAddress: opt.recipientAddress || link.recipientAddress })),
+    ];
+
+    return options.flatMap(option => {
+      const network = this.config.x402.networks?.[option.chainId] ?? X402_NETWORKS[option.chainId];
+      const chain = this.config.chains.find(c => c.chainId === option.chainId);
+      const token = chain && resolveToken(this.getChainTokens(chain), option.tokenSymbol);
+      if (!network || !token) {
+        return [];
+      }
+      return [{
+        option,
+        requirements: {
+          scheme: 'exact' as const,
+          network,
+          maxAmountRequired: parseUnits(option.amount, token.decimals).toString(),
+          resource: `${base}${this.config.basePath}/${link.id}`,
+          description: link.description ?? '',
+          mimeType: '',
+          payTo: this.formatRecipient(option.chainId, option.recipientAddress!),
+          maxTimeoutSeconds: this.config.paymentTimeout,
+          asset: token.address,
+          extra: token.eip712,
+        },
+      }];
+    });
+  }
+
+  /**
+   * Open a payment intent for a payment option
+   * Solana intents get a Solana Pay reference; on chains with an xpub the intent
+   * gets a derived deposit address as its recipient, recycled from an expired intent when possible.
+   * Returns undefined on chains with neither Solana Pay references nor an xpub, whose
+   * payments to the fixed recipient are confirmed through /confirm, or when the link
+   * is a subscription (subscriptions are activated through /subscribe)
+   */
+  private async openPaymentIntent(
+    link: PayLink,
+    option: { chainId: number; tokenSymbol: string; amount: string },
+    recipient: string
+  ): Promise<PaymentIntent | undefined> {
+    const verifier = this.verifiers.get(option.chainId);
+    const isSolana = verifier instanceof SolanaVerifier || verifier instanceof MockSolanaVerifier;
+    const xpub = this.config.chains.find(c => c.chainId === option.chainId)?.xpub;
+    if ((!this.watchesReferences(option.chainId) && !xpub) || link.subscription) {
+      return undefined;
+    }
+
+    let derivationIndex: number | undefined;
+    if (xpub) {
+      derivationIndex = await this.recycleDerivationIndex(option.chainId)
+        ?? await this.storage.nextDerivationIndex(option.chainId);
+      recipient = deriveEvmAddress(xpub, derivationIndex);
+    }
+
+    const now = new Date();
+    const intent: PaymentIntent = {
+      id: generateUUID(),
+      payLinkId: link.id,
+      chainId: option.chainId,
+      tokenSymbol: option.tokenSymbol,
+      amount: option.amount,
+      recipient,
+      reference: isSolana ? generateReference() : undefined,
+      derivationIndex,
+      status: 'open',
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: new Date(now.getTime() + this.config.paymentTimeout * 1000),
+    };
+    await this.storage.savePaymentIntent(intent);
+    return intent;
+  }
+
+  /**
+   * Open reference intents for the options of a 402 response or QR code (no intent where
+   * the option's chain has no watched Solana Pay references)
+   * Any GET can ask for these, so they are bounded: one response counts as a checkout
+   * against the client's budget, and a chain stops getting new references once it holds
+   * `checkout.maxOpenReferences` unexpired ones. Past either limit the response simply
+   * carries no reference and the payment is confirmed through /confirm.
+   */
+  private async openReferenceIntents(
+    client: string,
+    link: PayLink,
+    options: Array<{ option: { chainId: number; tokenSymbol: string; amount: string }; recipient: string }>
+  ): Promise<Array<PaymentIntent | undefined>> {
+    const referenced = options.map(({ option }) => !link.subscription && this.watchesReferences(option.chainId));
+    if (!referenced.includes(true) || !this.allowCheckout(client)) {
+      return options.map(() => undefined);
+    }
+
+    const limit = this.config.checkout.maxOpenReferences ?? DEFAULT_MAX_OPEN_REFERENCES;
+    const intents: Array<PaymentIntent | undefined> = [];
+    for (const [i, { option, recipient }] of options.entries()) {
+      const now = Date.now();
+      const open = referenced[i]
+        ? (await this.storage.getOpenPaymentIntents(option.chainId))
+          .filter(intent => intent.reference && intent.expiresAt.getTime() > now).length
+        : limit;
+      intents.push(open < limit ? await this.openPaymentIntent(link, option, recipient) : undefined);
+    }
+    return intents;
+  }
+
+  /**
+   * Whether payments on a chain are detected by Solana Pay reference
+   */
+  private watchesReferences(chainId: number): boolean {
+    const verifier = this.verifiers.get(chainId);
+    return (verifier instanceof SolanaVerifier || verifier instanceof MockSolanaVerifier)
+      && this.config.watcher.enabled !== false;
+  }
+
+  /**
+   * Take over the deposit address of an expired, unpaid intent on a chain, so checkouts
+   * that were never paid don't push derivation past the wallet's gap limit
+   */
+  private async recycleDerivationIndex(chainId: number): Promise<number | undefined> {
+    for (const expired of await this.storage.getExpiredDepositIntents(chainId, 10)) {
+      // Only the caller that wins expired -> recycled gets the address
+      let claimed = false;
+      await updateWithRetry(
+        () => this.storage.getPaymentIntent(expired.id),
+        current => {
+          claimed = current.status === 'expired';
+          if (!claimed) return false;
+          current.status = 'recycled';
+          current.updatedAt = new Date();
+        },
+        current => this.storage.updatePaymentIntent(current)
+      );
+      if (claimed) {
+        return expired.derivationIndex;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether `proof` redeems a signed challenge of `address` for the link
+   * (`nonce` and `signature` from the query or JSON body); always true when payer proof is off.
+   * The challenge is used up even when the signature does not match.
+   */
+  private async verifyPayerProof(
+    proof: { nonce?: unknown; signature?: unknown },
+    link: PayLink,
+    address: string
+  ): Promise<boolean> {
+    if (this.config.payerAuth.required === false) {
+      return true;
+    }
+
+    const { nonce, signature } = proof ?? {};
+    if (typeof nonce !== 'string' || typeof signature !== 'string') {
+      return false;
+    }
+
+    const challenge = await this.storage.consumeAuthChallenge(nonce);
+    if (
+      !challenge ||
+      challenge.payLinkId !== link.id ||
+      challenge.expiresAt.getTime() <= Date.now() ||
+      // Payment lookups are case-insensitive; the signature binds the exact challenged address
+      challenge.address.toLowerCase() !== address.toLowerCase()
+    ) {
+      return false;
+    }
+
+    const chain = this.config.chains.find(c => c.chainId === challenge.chainId);
+    if (!chain) {
+      return false;
+    }
+    if (this.getProvider(chain).verifySignature?.(challenge.message, signature, challenge.address)) {
+      return true;
+    }
+
+    // Contract wallets (Safe, ERC-4337 accounts) validate signatures on chain
+    try {
+      const verifier = this.verifiers.get(chain.chainId);
+      return !!(await verifier?.verifyContractSignature?.(challenge.message, signature, challenge.address));
+    } catch (error) {
+      console.error(`Contract signature check on chain ${chain.chainId} failed:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Target URL to redirect `payer` to, with `pl_*` signature parameters when redirect signing is configured
+   */
+  private redirectTarget(link: PayLink, payer: string): string {
+    const { secret, privateKey, ttl } = this.config.redirectSigning;
+    const key = privateKey ?? secret;
+    if (!key) {
+      return link.targetUrl;
+    }
+    return signPaylinkRedirect(link.targetUrl, {
+      linkId: link.id,
+      payer,
+      expiresAt: new Date(Date.now() + (ttl ?? 60) * 1000),
+    }, key);
+  }
+
+  /**
+   * Sign an access token to a link for `grant.sub`, expiring after the configured TTL unless
+   * `grant.expiresAt` says otherwise, and never after the link; undefined when tokens are off or it would be expired
+   */
+  private issueAccessToken(
+    link: PayLink,
+    grant: { scope: AccessScope; sub: string; grant: string; expiresAt?: Date; counted?: boolean }
+  ): { accessToken: string; accessTokenExpiresAt: string } | undefined {
+    if (this.config.accessTokens.enabled === false) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    let expiresAt = grant.expiresAt?.getTime() ?? now + (this.config.accessTokens.ttl ?? 86400) * 1000;
+    if (link.expiresAt) {
+      expiresAt = Math.min(expiresAt, link.expiresAt.getTime());
+    }
+    const exp = Math.floor(expiresAt / 1000);
+    if (exp * 1000 <= now) {
+      return undefined;
+    }
+
+    const claims: AccessTokenClaims = {
+      jti: generateUUID(),
+      sub: grant.sub,
+      link: link.id,
+      scope: grant.scope,
+      grant: grant.grant,
+      counted: grant.counted || undefined,
+      iat: Math.floor(now / 1000),
+      iatMs: now,
+      exp,
+    };
+    return {
+      accessToken: signAccessToken(claims, this.accessTokenSecret),
+      accessTokenExpiresAt: new Date(exp * 1000).toISOString(),
+    };
+  }
+
+  /**
+   * Issue an access token to the buyer making the request, also setting it as a cookie scoped to the link
+   */
+  private grantAccessToken(
+    req: Request,
+    res: Response,
+    link: PayLink,
+    grant: { scope: AccessScope; sub: string; grant: string; expiresAt?: Date; counted?: boolean }
+  ): { accessToken: string; accessTokenExpiresAt: string } | undefined {
+    const token = this.issueAccessToken(link, grant);
+    if (token) {
+      res.cookie(this.config.accessTokens.cookieName ?? 'paylink_access', token.accessToken, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: req.secure || this.config.baseUrl.startsWith('https:'),
+        path: `${this.config.basePath}/${link.id}`,
+        expires: new Date(token.accessTokenExpiresAt),
+      });
+    }
+    return token;
+  }
+
+  /**
+   * Access token for the payer of a payment just confirmed
+   * Multi-use access is per payer, so it takes the same proof as `?payer=` visits.
+   */
+  private async paymentAccessToken(
+    req: Request,
+    res: Response,
+    link: PayLink,
+    payment: Payment
+  ): Promise<{ accessToken: string; accessTokenExpiresAt: string } | undefined> {
+    if (this.config.accessTokens.enabled === false || link.subscription || link.installment || !payment.fromAddress) {
+      return undefined;
+    }
+    if (link.multiUse && !(await this.verifyPayerProof(req.body, link, payment.fromAddress))) {
+      return undefined;
+    }
+    return this.grantAccessToken(req, res, link, {
+      scope: link.multiUse ? 'multi-use' : 'single-use',
+      sub: payment.fromAddress,
+      grant: payment.id,
+    });
+  }
+
+  /**
+   * Access token for a subscriber with access, taking the same proof as `?subscriber=` visits
+   */
+  private async subscriptionAccessToken(
+    req: Request,
+    res: Response,
+    link: PayLink,
+    subscription: Subscription
+  ): Promise<{ accessToken: string; accessTokenExpiresAt: string } | undefined> {
+    if (
+      this.config.accessTokens.enabled === false ||
+      !(await this.subscriptionManager.checkAccess(subscription, link)).hasAccess ||
+      !(await this.verifyPayerProof(req.body, link, subscription.subscriberAddress))
+    ) {
+      return undefined;
+    }
+    return this.grantAccessToken(req, res, link, {
+      scope: 'subscription',
+      sub: subscription.subscriberAddress,
+      grant: subscription.id,
+      expiresAt: subscription.currentPeriodEnd,
+    });
+  }
+
+  /**
+   * Claims of the access token to a link sent as a bearer token or cookie, unless invalid or revoked
+   */
+  private async readAccessToken(req: Request, link: PayLink): Promise<AccessTokenClaims | null> {
+    const config = this.config.accessTokens;
+    if (config.enabled === false) {
+      return null;
+    }
+
+    const token = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1] ??
+      getCookie(req.headers.cookie, config.cookieName ?? 'paylink_access');
+    const claims = token ? verifyAccessToken(token, this.accessTokenSecret) : null;
+    if (!claims || claims.link !== link.id) {
+      return null;
+    }
+
+    // Revoking the token itself or what it was granted from; tokens without `iatMs` predate it
+    const issuedAt = claims.iatMs ?? claims.iat * 1000;
+    for (const id of [claims.jti, claims.grant]) {
+      const revocation = await this.storage.getAccessTokenRevocation(id);
+      if (revocation && revocation.revokedAt.getTime() >= issuedAt) {
+        return null;
+      }
+    }
+    return claims;
+  }
+
+  /**
+   * Revoke the access tokens issued so far for a token ID, payment, subscription or installment plan
+   * `until` is the latest expiry among them, when later than the configured TTL from now.
+   */
+  private async revokeAccessTokens(id: string, until?: Date): Promise<void> {
+    const revokedAt = new Date();
+    const ttlEnd = revokedAt.getTime() + (this.config.accessTokens.ttl ?? 86400) * 1000;
+    const revocation: AccessTokenRevocation = {
+      id,
+      revokedAt,
+      expiresAt: new Date(Math.max(until?.getTime() ?? 0, ttlEnd)),
+    };
+    await this.storage.saveAccessTokenRevocation(revocation);
+  }
+
+  /**
+   * Revoke the access tokens of a suspended, cancelled or reversed installment plan
+   */
+  private async revokeInstallmentAccess(plan: InstallmentPlan): Promise<void> {
+    await this.revokeAccessTokens(plan.id, plan.nextDueDate);
+  }
+
+  /**
+   * 403 for a payer address claimed without a valid signed challenge
+   */
+  private sendPayerNotVerified(res: Response, link: PayLink, address: string): void {
+    const base = this.config.baseUrl || `http://localhost:${this.config.port}`;
+    this.send403(res, ReasonCode.PAYER_NOT_VERIFIED, link.id, {
+      challenge: `${base}${this.config.basePath}/${link.id}/challenge?address=${encodeURIComponent(address)}`,
+    });
+  }
+
   private send403(
     res: Response,
     code: ReasonCode,
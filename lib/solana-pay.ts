@@ -0,0 +1,162 @@
+/**
+ * Solana Pay reference keys
+ * Each checkout carries a unique reference public key; the wallet adds it to the
+ * transfer as a read-only account, so the payment can be found with
+ * getSignaturesForAddress(reference) without the buyer submitting a txHash.
+ */
+
+import { randomBytes } from 'crypto';
+import type { PaymentCheckResult, PaymentIntent, Storage } from './types.js';
+import { encodeBase58 } from './base58.js';
+import {
+  DEFAULT_WATCH_INTERVAL,
+  DEFAULT_INTENT_GRACE_PERIOD,
+  isIntentStale,
+  expirePaymentIntent,
+  type PaymentHandler,
+} from './watcher.js';
+
+/**
+ * Generate a random Solana Pay reference (32-byte public key, base58)
+ */
+export function generateReference(): string {
+  return encodeBase58(randomBytes(32));
+}
+
+/**
+ * Signature returned by getSignaturesForAddress
+ */
+export interface ReferenceSignature {
+  signature: string;
+  /** Transaction error, null when it succeeded */
+  err: unknown;
+}
+
+/**
+ * Verifier able to look up transactions by reference
+ */
+export interface ReferenceVerifier {
+  getSignaturesForAddress(address: string): Promise<ReferenceSignature[]>;
+  verifyPayment(params: {
+    txHash: string;
+    recipient: string;
+    amount: string;
+    tokenSymbol?: string;
+  }): Promise<PaymentCheckResult>;
+}
+
+/**
+ * Solana Pay watcher options
+ */
+export interface SolanaPayWatcherOptions {
+  storage: Storage;
+  /** Verifiers of the watched Solana chains, keyed by chain ID */
+  verifiers: Map<number, ReferenceVerifier>;
+  /** Called once per confirmed transaction found for an open intent */
+  onPayment: PaymentHandler;
+  /** Polling interval in ms (default: 5000) */
+  interval?: number;
+  /** Keep watching this long after an intent expires, for late transactions in ms (default: 60000) */
+  gracePeriod?: number;
+}
+
+/**
+ * Solana Pay Watcher
+ * Polls open payment intents and reports transactions that reference them
+ */
+export class SolanaPayWatcher {
+  private options: Required<SolanaPayWatcherOptions>;
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+
+  constructor(options: SolanaPayWatcherOptions) {
+    this.options = {
+      ...options,
+      interval: options.interval ?? DEFAULT_WATCH_INTERVAL,
+      gracePeriod: options.gracePeriod ?? DEFAULT_INTENT_GRACE_PERIOD,
+    };
+  }
+
+  /**
+   * Start polling
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.poll().catch(err => {
+        console.error('Solana Pay watcher error:', err);
+      });
+    }, this.options.interval);
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Check all open intents once; overlapping calls share the running poll
+   */
+  poll(): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.checkIntents().finally(() => {
+        this.polling = undefined;
+      });
+    }
+    return this.polling;
+  }
+
+  private async checkIntents(): Promise<void> {
+    for (const [chainId, verifier] of this.options.verifiers) {
+      const intents = await this.options.storage.getOpenPaymentIntents(chainId);
+
+      for (const intent of intents) {
+        if (!intent.reference) continue;
+
+        try {
+          if (isIntentStale(intent, this.options.gracePeriod)) {
+            await expirePaymentIntent(this.options.storage, intent);
+            continue;
+          }
+          await this.checkIntent(intent, intent.reference, verifier);
+        } catch (error) {
+          // One failing intent must not block the others
+          console.error(`Solana Pay watcher error for intent ${intent.id}:`, error);
+        }
+      }
+    }
+  }
+
+  private async checkIntent(intent: PaymentIntent, reference: string, verifier: ReferenceVerifier): Promise<void> {
+    const signatures = await verifier.getSignaturesForAddress(reference);
+
+    for (const { signature, err } of signatures) {
+      if (err) continue;
+
+      const result = await verifier.verifyPayment({
+        txHash: signature,
+        recipient: intent.recipient,
+        amount: intent.amount,
+        tokenSymbol: intent.tokenSymbol,
+      });
+
+      // Pending transactions are picked up again on the next poll
+      if (result.status === 'confirmed') {
+        await this.options.onPayment(intent, signature, result);
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Create a Solana Pay watcher
+ */
+export function createSolanaPayWatcher(options: SolanaPayWatcherOptions): SolanaPayWatcher {
+  return new SolanaPayWatcher(options);
+}
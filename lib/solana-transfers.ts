@@ -0,0 +1,137 @@
+/**
+ * Solana transfer instructions
+ * Reads SOL and SPL token transfers from a `jsonParsed` transaction, including
+ * inner instructions of programs and accounts loaded from address lookup tables.
+ */
+
+import type { TokenBalance } from './spl.js';
+
+/**
+ * Account key of a message: a string with `json` encoding, an object with `jsonParsed`
+ */
+export type SolanaAccountKey = string | {
+  pubkey: string;
+  signer?: boolean;
+  writable?: boolean;
+  /** 'transaction' or 'lookupTable' */
+  source?: string;
+};
+
+/**
+ * Instruction of a `jsonParsed` transaction
+ * Instructions of programs the node cannot decode keep their raw `accounts` and `data`.
+ */
+export interface SolanaInstruction {
+  program?: string;
+  programId?: string;
+  parsed?: { type: string; info: Record<string, unknown> } | string;
+  /** Raw encoding: index into the account keys */
+  programIdIndex?: number;
+  accounts?: Array<number | string>;
+  data?: string;
+}
+
+/**
+ * The parts of a transaction needed to find its transfers
+ */
+export interface SolanaTransferSource {
+  meta: {
+    preTokenBalances?: TokenBalance[] | null;
+    postTokenBalances?: TokenBalance[] | null;
+    innerInstructions?: Array<{ index: number; instructions: SolanaInstruction[] }> | null;
+    /** Accounts of v0 transactions loaded from address lookup tables */
+    loadedAddresses?: { writable: string[]; readonly: string[] } | null;
+  } | null;
+  transaction: {
+    message: {
+      accountKeys: SolanaAccountKey[];
+      instructions: SolanaInstruction[];
+    };
+  };
+}
+
+/**
+ * SOL or SPL token moved by one instruction
+ */
+export interface SolanaTransfer {
+  /** Token mint, null for SOL */
+  mint: string | null;
+  /** Wallet debited: the source account for SOL, the source token account's owner for SPL */
+  from: string;
+  /** Wallet credited: the destination account for SOL, the destination token account's owner for SPL */
+  to: string;
+  /** Lamports or raw token units */
+  value: bigint;
+}
+
+const SYSTEM_PROGRAM = '11111111111111111111111111111111';
+const TOKEN_PROGRAMS = [
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+];
+const SYSTEM_TRANSFERS = ['transfer', 'transferWithSeed'];
+const TOKEN_TRANSFERS = ['transfer', 'transferChecked', 'transferCheckedWithFee'];
+
+/**
+ * All account keys of a transaction, in the order balances and token balances index them
+ * With `json` encoding, lookup table addresses only appear in `meta.loadedAddresses`.
+ */
+export function transactionAccountKeys(tx: SolanaTransferSource): string[] {
+  const keys = tx.transaction.message.accountKeys;
+  const pubkeys = keys.map(key => typeof key === 'string' ? key : key.pubkey);
+  // jsonParsed already lists loaded addresses, marked with their source
+  if (keys.some(key => typeof key !== 'string')) {
+    return pubkeys;
+  }
+  const loaded = tx.meta?.loadedAddresses;
+  return [...pubkeys, ...(loaded?.writable ?? []), ...(loaded?.readonly ?? [])];
+}
+
+/**
+ * SOL and SPL transfers of a transaction's instructions and inner instructions
+ * Token accounts are resolved to their owners (and mints) through the token balances;
+ * a source without a balance entry falls back to the transfer authority.
+ */
+export function solanaTransfers(tx: SolanaTransferSource): SolanaTransfer[] {
+  const keys = transactionAccountKeys(tx);
+  const tokenAccounts = new Map<string, { mint: string; owner?: string }>();
+  for (const balance of [...(tx.meta?.preTokenBalances ?? []), ...(tx.meta?.postTokenBalances ?? [])]) {
+    const account = keys[balance.accountIndex];
+    if (account) {
+      tokenAccounts.set(account, { mint: balance.mint, owner: balance.owner ?? tokenAccounts.get(account)?.owner });
+    }
+  }
+
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap(inner => inner.instructions),
+  ];
+
+  const transfers: SolanaTransfer[] = [];
+  for (const instruction of instructions) {
+    if (typeof instruction.parsed !== 'object' || !instruction.parsed) continue;
+    const { type, info } = instruction.parsed;
+    const programId = instruction.programId ?? '';
+
+    if ((programId === SYSTEM_PROGRAM || instruction.program === 'system') && SYSTEM_TRANSFERS.includes(type)) {
+      const value = BigInt(String(info.lamports ?? 0));
+      if (value > 0n && typeof info.source === 'string' && typeof info.destination === 'string') {
+        transfers.push({ mint: null, from: info.source, to: info.destination, value });
+      }
+      continue;
+    }
+
+    if ((TOKEN_PROGRAMS.includes(programId) || String(instruction.program).startsWith('spl-token')) && TOKEN_TRANSFERS.includes(type)) {
+      const source = tokenAccounts.get(String(info.source));
+      const destination = tokenAccounts.get(String(info.destination));
+      const mint = typeof info.mint === 'string' ? info.mint : destination?.mint ?? source?.mint;
+      const amount = (info.tokenAmount as { amount?: string } | undefined)?.amount ?? info.amount;
+      const value = BigInt(String(amount ?? 0));
+      const from = source?.owner ?? info.authority ?? info.multisigAuthority;
+      if (value > 0n && mint && destination?.owner && typeof from === 'string') {
+        transfers.push({ mint, from, to: destination.owner, value });
+      }
+    }
+  }
+  return transfers;
+}
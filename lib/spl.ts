@@ -0,0 +1,83 @@
+/**
+ * SPL token helpers
+ * Reads token transfers from a transaction's pre/post token balances
+ */
+
+/**
+ * Token balance entry from transaction meta (pre/postTokenBalances)
+ */
+export interface TokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount?: {
+    /** Raw amount in the token's smallest unit */
+    amount: string;
+    decimals: number;
+  };
+}
+
+/**
+ * SPL transfer of one mint to one owner
+ */
+export interface SplTransfer {
+  mint: string;
+  /** Owner whose balance decreased the most (best-effort sender) */
+  from: string;
+  to: string;
+  /** Raw amount received in the token's smallest unit */
+  value: bigint;
+  /** Decimals reported by the RPC node */
+  decimals: number;
+}
+
+/**
+ * Net balance change per owner for a mint, in raw units
+ */
+export function tokenBalanceChanges(
+  meta: { preTokenBalances?: TokenBalance[] | null; postTokenBalances?: TokenBalance[] | null } | null | undefined,
+  mint: string
+): Map<string, bigint> {
+  const changes = new Map<string, bigint>();
+  const add = (balance: TokenBalance, sign: bigint) => {
+    if (balance.mint !== mint || !balance.owner) return;
+    const amount = BigInt(balance.uiTokenAmount?.amount || '0');
+    changes.set(balance.owner, (changes.get(balance.owner) ?? 0n) + sign * amount);
+  };
+
+  for (const balance of meta?.preTokenBalances ?? []) add(balance, -1n);
+  for (const balance of meta?.postTokenBalances ?? []) add(balance, 1n);
+
+  return changes;
+}
+
+/**
+ * Find the amount of `mint` received by `recipient` (a wallet, not a token account)
+ * Balances are summed across all of the owner's token accounts for the mint.
+ */
+export function findSplTransfer(
+  meta: { preTokenBalances?: TokenBalance[] | null; postTokenBalances?: TokenBalance[] | null } | null | undefined,
+  mint: string,
+  recipient: string
+): SplTransfer | null {
+  const changes = tokenBalanceChanges(meta, mint);
+  const received = changes.get(recipient) ?? 0n;
+
+  if (received <= 0n) {
+    return null;
+  }
+
+  let from = '';
+  let largestDebit = 0n;
+  for (const [owner, change] of changes) {
+    if (change < largestDebit) {
+      largestDebit = change;
+      from = owner;
+    }
+  }
+
+  const decimals = [...(meta?.postTokenBalances ?? []), ...(meta?.preTokenBalances ?? [])]
+    .find(balance => balance.mint === mint && balance.uiTokenAmount)?.uiTokenAmount?.decimals ?? 0;
+
+  return { mint, from, to: recipient, value: received, decimals };
+}
@@ -0,0 +1,261 @@
+/**
+ * Storage archives
+ * Portable NDJSON export/import of every entity a Storage holds
+ *
+ * Format (one JSON object per line):
+ *   {"type":"header","format":"paylink-archive","version":2,"exportedAt":"..."}
+ *   {"type":"payLink","data":{...}}
+ *   ...
+ *   {"type":"footer","counts":{"payLink":12,...}}
+ *
+ * Dates are written as ISO strings and revived on import. Imports upsert by id,
+ * so importing the same archive twice leaves the storage unchanged.
+ * Payment intents, derivation counters and chain checkpoints are archived so a
+ * restored server keeps detecting open checkouts, resumes scanning where the
+ * watcher stopped and never hands out a deposit address twice; counters are only
+ * ever raised on import. The access token denylist is archived so revoked tokens
+ * stay revoked. Sign-in challenges are not archived: they are single-use and
+ * expire within minutes, so wallets simply request a new one.
+ */
+
+import type { Storage, ListOptions, Page } from '../types.js';
+import { serializeEntity, deserializeEntity, type EntityType, type EntityMap } from './serialization.js';
+
+/** Archive format identifier written to the header line */
+export const ARCHIVE_FORMAT = 'paylink-archive';
+
+/**
+ * Current archive format version
+ * Version 1 archives (without watcher state and the access token denylist) are still imported.
+ */
+export const ARCHIVE_VERSION = 2;
+
+/** Page size used while reading from storage */
+const EXPORT_PAGE_SIZE = 500;
+
+/**
+ * Entity kinds written to archives
+ */
+export type ArchiveEntityType = Exclude<EntityType, 'authChallenge'>;
+
+/**
+ * Number of records per entity type
+ */
+export type ArchiveCounts = Record<ArchiveEntityType, number>;
+
+/**
+ * Result of importData()
+ */
+export interface ArchiveImportResult {
+  /** Archive format version that was read */
+  version: number;
+  /** Records written per entity type */
+  counts: ArchiveCounts;
+}
+
+/**
+ * Archive input: the whole archive as a string, or raw text/byte chunks
+ * (a file read stream, or the output of exportData())
+ */
+export type ArchiveSource = string | Iterable<string | Uint8Array> | AsyncIterable<string | Uint8Array>;
+
+interface ArchiveEntity<K extends ArchiveEntityType> {
+  /** Stream all records, page by page */
+  read(storage: Storage): AsyncIterable<EntityMap[K]>;
+  /** Upsert one record */
+  write(storage: Storage, entity: EntityMap[K]): Promise<void>;
+}
+
+/** Page through a list* method until the last page */
+async function* pages<T>(list: (options: ListOptions) => Promise<Page<T>>): AsyncIterable<T> {
+  let cursor: string | undefined;
+  do {
+    const page = await list({ cursor, limit: EXPORT_PAGE_SIZE, sort: 'asc' });
+    yield* page.items;
+    cursor = page.nextCursor;
+  } while (cursor);
+}
+
+/**
+ * Entities in archive order: parents before the records that reference them
+ */
+const ARCHIVE_ENTITIES: { [K in ArchiveEntityType]: ArchiveEntity<K> } = {
+  payLink: {
+    read: storage => pages(options => storage.listPayLinks(options)),
+    write: (storage, link) => storage.savePayLink(link),
+  },
+  payment: {
+    read: storage => pages(options => storage.listPayments(options)),
+    write: (storage, payment) => storage.savePayment(payment),
+  },
+  subscription: {
+    read: storage => pages(options => storage.listSubscriptions(options)),
+    write: (storage, subscription) => storage.saveSubscription(subscription),
+  },
+  referral: {
+    read: storage => pages(options => storage.listReferrals(options)),
+    write: (storage, referral) => storage.saveReferral(referral),
+  },
+  commission: {
+    read: storage => pages(options => storage.listCommissions(options)),
+    write: (storage, commission) => storage.saveCommission(commission),
+  },
+  installmentPlan: {
+    read: storage => pages(options => storage.listInstallmentPlans(options)),
+    write: (storage, plan) => storage.saveInstallmentPlan(plan),
+  },
+  installmentPayment: {
+    read: async function* (storage) {
+      yield* await storage.getAllInstallmentPayments();
+    },
+    write: (storage, payment) => storage.saveInstallmentPayment(payment),
+  },
+  paymentIntent: {
+    read: storage => pages(options => storage.listPaymentIntents(options)),
+    write: (storage, intent) => storage.savePaymentIntent(intent),
+  },
+  derivationCounter: {
+    read: async function* (storage) {
+      yield* await storage.getDerivationCounters();
+    },
+    write: (storage, counter) => storage.restoreDerivationCounter(counter),
+  },
+  chainCheckpoint: {
+    read: async function* (storage) {
+      yield* await storage.getChainCheckpoints();
+    },
+    write: (storage, checkpoint) => storage.saveChainCheckpoint(checkpoint),
+  },
+  accessTokenRevocation: {
+    read: async function* (storage) {
+      yield* await storage.getAccessTokenRevocations();
+    },
+    write: (storage, revocation) => storage.saveAccessTokenRevocation(revocation),
+  },
+};
+
+const ENTITY_TYPES = Object.keys(ARCHIVE_ENTITIES) as ArchiveEntityType[];
+
+function emptyCounts(): ArchiveCounts {
+  return Object.fromEntries(ENTITY_TYPES.map(type => [type, 0])) as ArchiveCounts;
+}
+
+/**
+ * Export every entity as NDJSON lines (each ending in "\n")
+ *
+ * @example
+ * await pipeline(Readable.from(exportData(storage)), createWriteStream('backup.jsonl'));
+ */
+export async function* exportData(storage: Storage): AsyncGenerator<string> {
+  const counts = emptyCounts();
+
+  yield JSON.stringify({
+    type: 'header',
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+  }) + '\n';
+
+  for (const type of ENTITY_TYPES) {
+    const entity = ARCHIVE_ENTITIES[type] as ArchiveEntity<ArchiveEntityType>;
+    for await (const record of entity.read(storage)) {
+      counts[type]++;
+      yield `{"type":${JSON.stringify(type)},"data":${serializeEntity(record)}}\n`;
+    }
+  }
+
+  yield JSON.stringify({ type: 'footer', counts }) + '\n';
+}
+
+/**
+ * Import an archive produced by exportData(), upserting every record
+ *
+ * @example
+ * await importData(storage, createReadStream('backup.jsonl'));
+ */
+export async function importData(storage: Storage, archive: ArchiveSource): Promise<ArchiveImportResult> {
+  const counts = emptyCounts();
+  let version: number | undefined;
+  let footer: ArchiveCounts | undefined;
+  let lineNumber = 0;
+
+  for await (const line of lines(archive)) {
+    lineNumber++;
+    if (!line.trim()) continue;
+
+    let record: { type?: string; data?: Record<string, unknown>; [key: string]: unknown };
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid archive line ${lineNumber}: not JSON`);
+    }
+
+    if (version === undefined) {
+      if (record.type !== 'header' || record.format !== ARCHIVE_FORMAT) {
+        throw new Error('Not a paylink archive: missing header');
+      }
+      if (typeof record.version !== 'number' || record.version < 1 || record.version > ARCHIVE_VERSION) {
+        throw new Error(`Unsupported archive version ${record.version}`);
+      }
+      version = record.version;
+      continue;
+    }
+
+    if (footer) {
+      throw new Error(`Invalid archive line ${lineNumber}: data after footer`);
+    }
+
+    if (record.type === 'footer') {
+      footer = record.counts as ArchiveCounts;
+      continue;
+    }
+
+    const type = record.type as ArchiveEntityType;
+    if (!ENTITY_TYPES.includes(type) || !record.data) {
+      throw new Error(`Invalid archive line ${lineNumber}: unknown record type "${record.type}"`);
+    }
+
+    const entity = ARCHIVE_ENTITIES[type] as ArchiveEntity<ArchiveEntityType>;
+    await entity.write(storage, deserializeEntity(type, record.data));
+    counts[type]++;
+  }
+
+  if (version === undefined) {
+    throw new Error('Not a paylink archive: missing header');
+  }
+  if (!footer) {
+    throw new Error('Archive is truncated: missing footer');
+  }
+  for (const type of ENTITY_TYPES) {
+    if ((footer[type] ?? 0) !== counts[type]) {
+      throw new Error(`Archive is incomplete: expected ${footer[type] ?? 0} ${type} records, got ${counts[type]}`);
+    }
+  }
+
+  return { version, counts };
+}
+
+/**
+ * Split an archive source into lines, decoding byte chunks as UTF-8
+ */
+async function* lines(source: ArchiveSource): AsyncGenerator<string> {
+  if (typeof source === 'string') {
+    yield* source.split('\n');
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of source) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      yield buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
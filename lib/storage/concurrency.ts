@@ -0,0 +1,48 @@
+/**
+ * Optimistic concurrency helpers for Storage updates
+ */
+
+/** Default number of attempts for updateWithRetry() */
+export const DEFAULT_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Thrown by update* methods when the entity's `version` no longer matches storage
+ */
+export class ConcurrentUpdateError extends Error {
+  constructor(entity: string, id: string) {
+    super(`${entity} ${id} was modified concurrently`);
+    this.name = 'ConcurrentUpdateError';
+  }
+}
+
+/**
+ * Read-modify-write with compare-and-swap
+ *
+ * Loads a fresh copy, applies `mutate` and saves it; on ConcurrentUpdateError the
+ * whole cycle is retried against the latest state. `mutate` may return false to
+ * skip the write (e.g. the change was already applied by someone else).
+ * Returns the saved entity, or null when `load` finds nothing.
+ */
+export async function updateWithRetry<T extends { version?: number }>(
+  load: () => Promise<T | null>,
+  mutate: (entity: T) => boolean | void,
+  save: (entity: T) => Promise<void>,
+  maxAttempts = DEFAULT_UPDATE_ATTEMPTS
+): Promise<T | null> {
+  for (let attempt = 1; ; attempt++) {
+    const entity = await load();
+    if (!entity) return null;
+
+    if (mutate(entity) === false) return entity;
+
+    try {
+      await save(entity);
+      entity.version = (entity.version ?? 0) + 1;
+      return entity;
+    } catch (error) {
+      if (!(error instanceof ConcurrentUpdateError) || attempt >= maxAttempts) {
+        throw error;
+      }
+    }
+  }
+}
@@ -0,0 +1,973 @@
+/**
+ * Storage conformance suite
+ * Runs the same behavioural checks against any Storage adapter (vitest)
+ *
+ * Usage (in a *.spec.ts file):
+ *   runStorageConformanceSuite(() => new MyStorage(), { name: 'MyStorage' });
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type {
+  Storage,
+  PayLink,
+  Payment,
+  Subscription,
+  Referral,
+  ReferralCommission,
+  InstallmentPlan,
+  InstallmentPayment,
+  PaymentIntent,
+} from '../types.js';
+import { ConcurrentUpdateError } from './concurrency.js';
+
+/**
+ * Creates a fresh, empty storage instance for each test
+ */
+export type StorageFactory = () => Storage | Promise<Storage>;
+
+/**
+ * Conformance suite options
+ */
+export interface StorageConformanceOptions {
+  /** Suite name (default: 'Storage conformance') */
+  name?: string;
+  /** Called after each test, e.g. to drop data or close connections */
+  cleanup?: (storage: Storage) => void | Promise<void>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const ids = <T extends { id: string }>(items: T[]): string[] => items.map(item => item.id).sort();
+
+function payLinkFixture(overrides: Partial<PayLink> = {}): PayLink {
+  return {
+    id: 'link1',
+    targetUrl: 'https://example.com/content',
+    price: { amount: '0.01', tokenSymbol: 'ETH', chainId: 1 },
+    recipientAddress: '0xRecipient',
+    status: 'active',
+    createdAt: new Date(Date.now() - DAY_MS),
+    updatedAt: new Date(Date.now() - DAY_MS),
+    ...overrides,
+  };
+}
+
+function paymentFixture(overrides: Partial<Payment> = {}): Payment {
+  return {
+    id: 'pay1',
+    payLinkId: 'link1',
+    chainId: 1,
+    txHash: '0xtx1',
+    fromAddress: '0xAbCdEf',
+    amount: '0.01',
+    confirmed: true,
+    createdAt: new Date(),
+    confirmedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function subscriptionFixture(overrides: Partial<Subscription> = {}): Subscription {
+  const now = Date.now();
+  return {
+    id: 'sub1',
+    payLinkId: 'link1',
+    subscriberAddress: '0xSubScriber',
+    status: 'active',
+    currentPeriodStart: new Date(now - 30 * DAY_MS),
+    currentPeriodEnd: new Date(now),
+    nextPaymentDue: new Date(now),
+    cycleCount: 1,
+    createdAt: new Date(now - 30 * DAY_MS),
+    updatedAt: new Date(now - 30 * DAY_MS),
+    ...overrides,
+  };
+}
+
+function referralFixture(overrides: Partial<Referral> = {}): Referral {
+  return {
+    id: 'ref1',
+    code: 'ABC123',
+    referrerAddress: '0xReFerrer',
+    payLinkId: 'link1',
+    totalReferrals: 0,
+    confirmedReferrals: 0,
+    totalEarned: '0',
+    pendingAmount: '0',
+    paidAmount: '0',
+    status: 'active',
+    createdAt: new Date(Date.now() - DAY_MS),
+    updatedAt: new Date(Date.now() - DAY_MS),
+    ...overrides,
+  };
+}
+
+function commissionFixture(overrides: Partial<ReferralCommission> = {}): ReferralCommission {
+  return {
+    id: 'comm1',
+    referralId: 'ref1',
+    paymentId: 'pay1',
+    payLinkId: 'link1',
+    referrerAddress: '0xReFerrer',
+    referredAddress: '0xAbCdEf',
+    paymentAmount: '0.01',
+    commissionAmount: '0.001',
+    commissionPercent: 10,
+    tokenSymbol: 'ETH',
+    chainId: 1,
+    status: 'pending',
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function planFixture(overrides: Partial<InstallmentPlan> = {}): InstallmentPlan {
+  const now = Date.now();
+  return {
+    id: 'plan1',
+    payLinkId: 'link1',
+    buyerAddress: '0xBuYer',
+    status: 'active',
+    totalAmount: '1',
+    paidAmount: '0.25',
+    totalInstallments: 4,
+    completedInstallments: 1,
+    installmentAmounts: ['0.25', '0.25', '0.25', '0.25'],
+    intervalDays: 30,
+    gracePeriodDays: 3,
+    nextDueDate: new Date(now + 10 * DAY_MS),
+    nextInstallmentNumber: 2,
+    createdAt: new Date(now - DAY_MS),
+    updatedAt: new Date(now - DAY_MS),
+    ...overrides,
+  };
+}
+
+function installmentPaymentFixture(overrides: Partial<InstallmentPayment> = {}): InstallmentPayment {
+  return {
+    id: 'ipay1',
+    installmentPlanId: 'plan1',
+    paymentId: 'pay1',
+    payLinkId: 'link1',
+    buyerAddress: '0xBuYer',
+    installmentNumber: 1,
+    amount: '0.25',
+    expectedAmount: '0.25',
+    txHash: '0xtx1',
+    chainId: 1,
+    tokenSymbol: 'ETH',
+    status: 'pending',
+    dueDate: new Date(),
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+function intentFixture(overrides: Partial<PaymentIntent> = {}): PaymentIntent {
+  const now = Date.now();
+  return {
+    id: 'intent1',
+    payLinkId: 'link1',
+    chainId: 101,
+    tokenSymbol: 'SOL',
+    amount: '0.5',
+    recipient: 'Recipient1111',
+    reference: 'Ref1111',
+    status: 'open',
+    createdAt: new Date(now - HOUR_MS),
+    updatedAt: new Date(now - HOUR_MS),
+    expiresAt: new Date(now + HOUR_MS),
+    ...overrides,
+  };
+}
+
+/**
+ * Register a vitest suite that checks a Storage adapter against the reference behaviour
+ */
+export function runStorageConformanceSuite(
+  factory: StorageFactory,
+  options: StorageConformanceOptions = {}
+): void {
+  describe(options.name ?? 'Storage conformance', () => {
+    let storage: Storage;
+
+    beforeEach(async () => {
+      storage = await factory();
+      await storage.init?.();
+    });
+
+    afterEach(async () => {
+      await options.cleanup?.(storage);
+    });
+
+    describe('pay links', () => {
+      it('saves and retrieves pay links with dates intact', async () => {
+        const link = payLinkFixture({ expiresAt: new Date(Date.now() + HOUR_MS), metadata: { tier: 'gold' } });
+        await storage.savePayLink(link);
+
+        const stored = await storage.getPayLink('link1');
+        expect(stored?.targetUrl).toBe(link.targetUrl);
+        expect(stored?.price).toEqual(link.price);
+        expect(stored?.metadata).toEqual({ tier: 'gold' });
+        expect(stored?.createdAt).toBeInstanceOf(Date);
+        expect(stored?.expiresAt?.getTime()).toBe(link.expiresAt?.getTime());
+      });
+
+      it('returns null for unknown pay links', async () => {
+        expect(await storage.getPayLink('missing')).toBeNull();
+      });
+
+      it('does not share state with the saved object', async () => {
+        const link = payLinkFixture();
+        await storage.savePayLink(link);
+        link.status = 'disabled';
+
+        expect((await storage.getPayLink('link1'))?.status).toBe('active');
+      });
+
+      it('updates pay links and bumps updatedAt', async () => {
+        const link = payLinkFixture();
+        await storage.savePayLink(link);
+
+        await storage.updatePayLink({ ...link, status: 'disabled', usedCount: 3 });
+
+        const stored = await storage.getPayLink('link1');
+        expect(stored?.status).toBe('disabled');
+        expect(stored?.usedCount).toBe(3);
+        expect(stored!.updatedAt.getTime()).toBeGreaterThan(link.updatedAt.getTime());
+      });
+
+      it('throws when updating an unknown pay link', async () => {
+        await expect(storage.updatePayLink(payLinkFixture({ id: 'missing' }))).rejects.toThrow('not found');
+      });
+
+      it('deletes and lists pay links', async () => {
+        await storage.savePayLink(payLinkFixture({ id: 'link1' }));
+        await storage.savePayLink(payLinkFixture({ id: 'link2' }));
+        await storage.deletePayLink('link1');
+
+        expect(await storage.getPayLink('link1')).toBeNull();
+        expect(ids(await storage.getAllPayLinks())).toEqual(['link2']);
+      });
+    });
+
+    describe('payments', () => {
+      it('finds payments by tx hash', async () => {
+        await storage.savePayment(paymentFixture());
+
+        const stored = await storage.getPaymentByTxHash('0xtx1');
+        expect(stored?.id).toBe('pay1');
+        expect(stored?.confirmedAt).toBeInstanceOf(Date);
+        expect(await storage.getPaymentByTxHash('0xother')).toBeNull();
+      });
+
+      it('only returns confirmed payments as confirmed', async () => {
+        await storage.savePayment(paymentFixture({ id: 'pay1', txHash: '0xtx1', confirmed: false }));
+        expect(await storage.getConfirmedPayment('link1')).toBeNull();
+
+        await storage.savePayment(paymentFixture({ id: 'pay2', txHash: '0xtx2', confirmed: true }));
+        expect((await storage.getConfirmedPayment('link1'))?.id).toBe('pay2');
+      });
+
+      it('looks up confirmed payments by address case-insensitively', async () => {
+        await storage.savePayment(paymentFixture({ fromAddress: '0xAbCdEf' }));
+
+        expect((await storage.getConfirmedPaymentByAddress('link1', '0xabcdef'))?.id).toBe('pay1');
+        expect((await storage.getConfirmedPaymentByAddress('link1', '0XABCDEF'))?.id).toBe('pay1');
+        expect(await storage.getConfirmedPaymentByAddress('link2', '0xabcdef')).toBeNull();
+      });
+
+      it('keeps an earlier confirmed payment visible after a later unconfirmed one', async () => {
+        await storage.savePayment(paymentFixture({ id: 'pay1', txHash: '0xtx1', confirmed: true }));
+        await storage.savePayment(paymentFixture({
+          id: 'pay2',
+          txHash: '0xtx2',
+          confirmed: false,
+          createdAt: new Date(Date.now() + 1000),
+        }));
+
+        expect((await storage.getConfirmedPaymentByAddress('link1', '0xabcdef'))?.id).toBe('pay1');
+      });
+
+      it('lists payments by link without duplicating re-saved payments', async () => {
+        const payment = paymentFixture({ confirmed: false });
+        await storage.savePayment(payment);
+        await storage.savePayment({ ...payment, confirmed: true });
+        await storage.savePayment(paymentFixture({ id: 'pay2', txHash: '0xtx2', payLinkId: 'link2' }));
+
+        const byLink = await storage.getPaymentsByLink('link1');
+        expect(ids(byLink)).toEqual(['pay1']);
+        expect(byLink[0].confirmed).toBe(true);
+        expect(ids(await storage.getAllPayments())).toEqual(['pay1', 'pay2']);
+      });
+
+      it('inserts one payment per transaction and chain under concurrency', async () => {
+        const results = await Promise.all(
+          ['pay1', 'pay2', 'pay3'].map((id, i) => storage.insertPayment(paymentFixture({ id, payLinkId: `link${i % 2}` })))
+        );
+
+        expect(results.filter(Boolean)).toHaveLength(1);
+        expect(await storage.getAllPayments()).toHaveLength(1);
+        expect(await storage.insertPayment(paymentFixture({ id: 'pay4', chainId: 137 }))).toBe(true);
+        expect(await storage.insertPayment(paymentFixture({ id: 'pay4', txHash: '0xtx2' }))).toBe(false);
+      });
+
+      it('lists confirmed and reverted payments of a chain until they are finalized', async () => {
+        const now = Date.now();
+        await storage.savePayment(paymentFixture({ id: 'pay2', txHash: '0xtx2', createdAt: new Date(now + 1000) }));
+        await storage.savePayment(paymentFixture({ id: 'pay1', txHash: '0xtx1', createdAt: new Date(now) }));
+        await storage.savePayment(paymentFixture({ id: 'pay3', txHash: '0xtx3', chainId: 137 }));
+        await storage.savePayment(paymentFixture({ id: 'pay4', txHash: '0xtx4', confirmed: false }));
+        expect(ids(await storage.getUnfinalizedPayments(1))).toEqual(['pay1', 'pay2']);
+
+        const [first, second] = await storage.getUnfinalizedPayments(1);
+        await storage.savePayment({ ...first, finalizedAt: new Date() });
+        await storage.savePayment({ ...second, confirmed: false, revertedAt: new Date() });
+
+        // Reverted payments are re-checked in case their transaction is mined again
+        const [reverted] = await storage.getUnfinalizedPayments(1);
+        expect(reverted).toMatchObject({ id: 'pay2', confirmed: false, revertedAt: expect.any(Date) });
+        await storage.savePayment({ ...reverted, finalizedAt: new Date() });
+
+        expect(await storage.getUnfinalizedPayments(1)).toEqual([]);
+        expect((await storage.getPaymentByTxHash('0xtx1'))?.finalizedAt).toBeInstanceOf(Date);
+        expect((await storage.getPaymentByTxHash('0xtx2'))?.revertedAt).toBeInstanceOf(Date);
+        expect(ids(await storage.getUnfinalizedPayments(137))).toEqual(['pay3']);
+      });
+    });
+
+    describe('subscriptions', () => {
+      it('saves and retrieves subscriptions', async () => {
+        await storage.saveSubscription(subscriptionFixture({ metadata: { plan: 'pro' } }));
+
+        const stored = await storage.getSubscription('sub1');
+        expect(stored?.subscriberAddress).toBe('0xSubScriber');
+        expect(stored?.nextPaymentDue).toBeInstanceOf(Date);
+        expect(stored?.metadata).toEqual({ plan: 'pro' });
+        expect(await storage.getSubscription('missing')).toBeNull();
+      });
+
+      it('looks up subscriptions by address case-insensitively', async () => {
+        await storage.saveSubscription(subscriptionFixture());
+
+        expect((await storage.getSubscriptionByAddress('link1', '0xsubscriber'))?.id).toBe('sub1');
+        expect((await storage.getSubscriptionByAddress('link1', '0XSUBSCRIBER'))?.id).toBe('sub1');
+        expect(await storage.getSubscriptionByAddress('link2', '0xsubscriber')).toBeNull();
+      });
+
+      it('reflects status updates in due queries and address lookups', async () => {
+        const sub = subscriptionFixture({ nextPaymentDue: new Date(Date.now() - HOUR_MS) });
+        await storage.saveSubscription(sub);
+        expect(ids(await storage.getSubscriptionsDue(new Date()))).toEqual(['sub1']);
+
+        await storage.updateSubscription({ ...sub, status: 'cancelled', cancelledAt: new Date() });
+
+        expect(await storage.getSubscriptionsDue(new Date())).toHaveLength(0);
+        const stored = await storage.getSubscriptionByAddress('link1', '0xsubscriber');
+        expect(stored?.status).toBe('cancelled');
+        expect(stored?.cancelledAt).toBeInstanceOf(Date);
+        expect(stored!.updatedAt.getTime()).toBeGreaterThan(sub.updatedAt.getTime());
+      });
+
+      it('reflects due date updates in due queries', async () => {
+        const sub = subscriptionFixture({ nextPaymentDue: new Date(Date.now() - HOUR_MS) });
+        await storage.saveSubscription(sub);
+
+        await storage.updateSubscription({ ...sub, nextPaymentDue: new Date(Date.now() + 30 * DAY_MS) });
+
+        expect(await storage.getSubscriptionsDue(new Date())).toHaveLength(0);
+        expect(ids(await storage.getSubscriptionsDue(new Date(Date.now() + 31 * DAY_MS)))).toEqual(['sub1']);
+      });
+
+      it('treats the due date boundary as inclusive', async () => {
+        const due = new Date(Date.now() - HOUR_MS);
+        await storage.saveSubscription(subscriptionFixture({ nextPaymentDue: due }));
+
+        expect(ids(await storage.getSubscriptionsDue(new Date(due.getTime())))).toEqual(['sub1']);
+        expect(await storage.getSubscriptionsDue(new Date(due.getTime() - 1))).toHaveLength(0);
+      });
+
+      it('lists subscriptions by link and in total', async () => {
+        await storage.saveSubscription(subscriptionFixture({ id: 'sub1', payLinkId: 'link1' }));
+        await storage.saveSubscription(subscriptionFixture({ id: 'sub2', payLinkId: 'link1', subscriberAddress: '0xOther' }));
+        await storage.saveSubscription(subscriptionFixture({ id: 'sub3', payLinkId: 'link2' }));
+
+        expect(ids(await storage.getSubscriptionsByPayLink('link1'))).toEqual(['sub1', 'sub2']);
+        expect(ids(await storage.getAllSubscriptions())).toEqual(['sub1', 'sub2', 'sub3']);
+      });
+
+      it('throws when updating an unknown subscription', async () => {
+        await expect(storage.updateSubscription(subscriptionFixture({ id: 'missing' }))).rejects.toThrow('not found');
+      });
+    });
+
+    describe('referrals', () => {
+      it('looks up referrals by code case-insensitively', async () => {
+        await storage.saveReferral(referralFixture({ code: 'ABC123' }));
+
+        expect((await storage.getReferral('ref1'))?.code).toBe('ABC123');
+        expect((await storage.getReferralByCode('abc123'))?.id).toBe('ref1');
+        expect(await storage.getReferralByCode('NOPE')).toBeNull();
+      });
+
+      it('lists referrals by link and referrer address case-insensitively', async () => {
+        await storage.saveReferral(referralFixture({ id: 'ref1', code: 'CODE1', payLinkId: 'link1' }));
+        await storage.saveReferral(referralFixture({ id: 'ref2', code: 'CODE2', payLinkId: 'link2' }));
+        await storage.saveReferral(referralFixture({ id: 'ref3', code: 'CODE3', referrerAddress: '0xSomeoneElse' }));
+
+        expect(ids(await storage.getReferralsByPayLink('link1'))).toEqual(['ref1', 'ref3']);
+        expect(ids(await storage.getReferralsByReferrer('0xREFERRER'))).toEqual(['ref1', 'ref2']);
+        expect(ids(await storage.getAllReferrals())).toEqual(['ref1', 'ref2', 'ref3']);
+      });
+
+      it('reflects updates in code and list lookups', async () => {
+        const referral = referralFixture();
+        await storage.saveReferral(referral);
+
+        await storage.updateReferral({ ...referral, code: 'NEWCODE', totalReferrals: 2 });
+
+        expect(await storage.getReferralByCode('ABC123')).toBeNull();
+        expect((await storage.getReferralByCode('newcode'))?.totalReferrals).toBe(2);
+        expect((await storage.getReferralsByReferrer('0xreferrer'))[0].totalReferrals).toBe(2);
+        expect((await storage.getReferral('ref1'))!.updatedAt.getTime()).toBeGreaterThan(referral.updatedAt.getTime());
+      });
+
+      it('throws when updating an unknown referral', async () => {
+        await expect(storage.updateReferral(referralFixture({ id: 'missing' }))).rejects.toThrow('not found');
+      });
+    });
+
+    describe('commissions', () => {
+      it('saves and lists commissions by referral and referrer', async () => {
+        await storage.saveCommission(commissionFixture({ id: 'comm1', referralId: 'ref1' }));
+        await storage.saveCommission(commissionFixture({ id: 'comm2', referralId: 'ref2' }));
+
+        expect((await storage.getCommission('comm1'))?.commissionAmount).toBe('0.001');
+        expect(await storage.getCommission('missing')).toBeNull();
+        expect(ids(await storage.getCommissionsByReferral('ref1'))).toEqual(['comm1']);
+        expect(ids(await storage.getCommissionsByReferrer('0xreferrer'))).toEqual(['comm1', 'comm2']);
+        expect(ids(await storage.getAllCommissions())).toEqual(['comm1', 'comm2']);
+      });
+
+      it('reflects status updates in pending commission queries', async () => {
+        const commission = commissionFixture({ status: 'pending' });
+        await storage.saveCommission(commission);
+        expect(await storage.getPendingCommissions('0xReferrer')).toHaveLength(0);
+
+        await storage.updateCommission({ ...commission, status: 'confirmed', confirmedAt: new Date() });
+        const pending = await storage.getPendingCommissions('0XREFERRER');
+        expect(ids(pending)).toEqual(['comm1']);
+        expect(pending[0].confirmedAt).toBeInstanceOf(Date);
+
+        await storage.updateCommission({ ...commission, status: 'paid', paidAt: new Date(), payoutTxHash: '0xpayout' });
+        expect(await storage.getPendingCommissions('0xreferrer')).toHaveLength(0);
+        expect((await storage.getCommissionsByReferral('ref1'))[0].status).toBe('paid');
+      });
+
+      it('throws when updating an unknown commission', async () => {
+        await expect(storage.updateCommission(commissionFixture({ id: 'missing' }))).rejects.toThrow('not found');
+      });
+    });
+
+    describe('installment plans', () => {
+      it('looks up plans by address and buyer case-insensitively', async () => {
+        await storage.saveInstallmentPlan(planFixture({ id: 'plan1', payLinkId: 'link1' }));
+        await storage.saveInstallmentPlan(planFixture({ id: 'plan2', payLinkId: 'link2' }));
+
+        expect((await storage.getInstallmentPlan('plan1'))?.installmentAmounts).toHaveLength(4);
+        expect(await storage.getInstallmentPlan('missing')).toBeNull();
+        expect((await storage.getInstallmentPlanByAddress('link1', '0xbuyer'))?.id).toBe('plan1');
+        expect(await storage.getInstallmentPlanByAddress('link3', '0xbuyer')).toBeNull();
+        expect(ids(await storage.getInstallmentPlansByBuyer('0XBUYER'))).toEqual(['plan1', 'plan2']);
+        expect(ids(await storage.getInstallmentPlansByPayLink('link1'))).toEqual(['plan1']);
+        expect(ids(await storage.getAllInstallmentPlans())).toEqual(['plan1', 'plan2']);
+      });
+
+      it('finds active plans past their grace period as overdue', async () => {
+        const now = Date.now();
+        await storage.saveInstallmentPlan(planFixture({ id: 'overdue', nextDueDate: new Date(now - 5 * DAY_MS) }));
+        await storage.saveInstallmentPlan(planFixture({ id: 'in-grace', nextDueDate: new Date(now - DAY_MS) }));
+        await storage.saveInstallmentPlan(planFixture({ id: 'upcoming' }));
+        await storage.saveInstallmentPlan(planFixture({
+          id: 'suspended',
+          status: 'suspended',
+          nextDueDate: new Date(now - 5 * DAY_MS),
+        }));
+
+        expect(ids(await storage.getOverdueInstallmentPlans())).toEqual(['overdue']);
+      });
+
+      it('finds active and pending plans due before a date', async () => {
+        const soon = new Date(Date.now() + DAY_MS);
+        await storage.saveInstallmentPlan(planFixture({ id: 'active', nextDueDate: soon }));
+        await storage.saveInstallmentPlan(planFixture({ id: 'pending', status: 'pending', nextDueDate: soon }));
+        await storage.saveInstallmentPlan(planFixture({ id: 'completed', status: 'completed', nextDueDate: soon }));
+        await storage.saveInstallmentPlan(planFixture({ id: 'later', nextDueDate: new Date(Date.now() + 20 * DAY_MS) }));
+
+        expect(ids(await storage.getInstallmentPlansDueBefore(new Date(Date.now() + 2 * DAY_MS)))).toEqual([
+          'active',
+          'pending',
+        ]);
+      });
+
+      it('reflects status and due date updates in date queries', async () => {
+        const plan = planFixture({ nextDueDate: new Date(Date.now() - 5 * DAY_MS) });
+        await storage.saveInstallmentPlan(plan);
+        expect(await storage.getOverdueInstallmentPlans()).toHaveLength(1);
+
+        await storage.updateInstallmentPlan({ ...plan, status: 'suspended', suspendedAt: new Date() });
+        expect(await storage.getOverdueInstallmentPlans()).toHaveLength(0);
+        expect(await storage.getInstallmentPlansDueBefore(new Date())).toHaveLength(0);
+
+        await storage.updateInstallmentPlan({ ...plan, nextDueDate: new Date(Date.now() + 10 * DAY_MS) });
+        expect(await storage.getOverdueInstallmentPlans()).toHaveLength(0);
+        const stored = await storage.getInstallmentPlanByAddress('link1', '0xBUYER');
+        expect(stored?.status).toBe('active');
+        expect(stored!.updatedAt.getTime()).toBeGreaterThan(plan.updatedAt.getTime());
+      });
+
+      it('throws when updating an unknown plan', async () => {
+        await expect(storage.updateInstallmentPlan(planFixture({ id: 'missing' }))).rejects.toThrow('not found');
+      });
+    });
+
+    describe('usage counting', () => {
+      it('increments usage atomically up to maxUses', async () => {
+        const link = payLinkFixture({ usedCount: 0, maxUses: 3 });
+        await storage.savePayLink(link);
+
+        const results = await Promise.all(Array.from({ length: 5 }, () => storage.incrementUsage('link1', 3)));
+
+        expect(results.filter(Boolean)).toHaveLength(3);
+        const stored = await storage.getPayLink('link1');
+        expect(stored?.usedCount).toBe(3);
+        expect(stored!.updatedAt.getTime()).toBeGreaterThan(link.updatedAt.getTime());
+      });
+
+      it('returns the updated link and counts without a limit', async () => {
+        await storage.savePayLink(payLinkFixture());
+
+        const first = await storage.incrementUsage('link1');
+        const second = await storage.incrementUsage('link1');
+
+        expect(first?.usedCount).toBe(1);
+        expect(second?.usedCount).toBe(2);
+        expect(second?.updatedAt).toBeInstanceOf(Date);
+      });
+
+      it('throws when incrementing an unknown pay link', async () => {
+        await expect(storage.incrementUsage('missing', 1)).rejects.toThrow('not found');
+      });
+    });
+
+    describe('optimistic versioning', () => {
+      it('starts at version 0 and bumps the version on every update', async () => {
+        await storage.savePayLink(payLinkFixture());
+        const saved = await storage.getPayLink('link1');
+        expect(saved?.version).toBe(0);
+
+        await storage.updatePayLink({ ...saved!, status: 'disabled' });
+        expect((await storage.getPayLink('link1'))?.version).toBe(1);
+
+        await storage.incrementUsage('link1');
+        expect((await storage.getPayLink('link1'))?.version).toBe(2);
+      });
+
+      it('rejects updates carrying a stale version', async () => {
+        await storage.savePayLink(payLinkFixture());
+        const first = await storage.getPayLink('link1');
+        const second = await storage.getPayLink('link1');
+
+        await storage.updatePayLink({ ...first!, status: 'disabled' });
+
+        await expect(storage.updatePayLink({ ...second!, usedCount: 1 })).rejects.toBeInstanceOf(ConcurrentUpdateError);
+        expect((await storage.getPayLink('link1'))?.status).toBe('disabled');
+      });
+
+      it('applies updates without a version unconditionally', async () => {
+        await storage.savePayLink(payLinkFixture());
+        await storage.updatePayLink({ ...payLinkFixture(), status: 'disabled' });
+        await storage.updatePayLink({ ...payLinkFixture(), status: 'expired' });
+
+        const stored = await storage.getPayLink('link1');
+        expect(stored?.status).toBe('expired');
+        expect(stored?.version).toBe(2);
+      });
+
+      it('compare-and-swaps every updatable entity', async () => {
+        await storage.saveSubscription(subscriptionFixture());
+        await storage.saveReferral(referralFixture());
+        await storage.saveCommission(commissionFixture());
+        await storage.saveInstallmentPlan(planFixture());
+        await storage.saveInstallmentPayment(installmentPaymentFixture());
+
+        const subscription = (await storage.getSubscription('sub1'))!;
+        await storage.updateSubscription(subscription);
+        await expect(storage.updateSubscription(subscription)).rejects.toBeInstanceOf(ConcurrentUpdateError);
+
+        const referral = (await storage.getReferral('ref1'))!;
+        await storage.updateReferral(referral);
+        await expect(storage.updateReferral(referral)).rejects.toBeInstanceOf(ConcurrentUpdateError);
+
+        const commission = (await storage.getCommission('comm1'))!;
+        await storage.updateCommission(commission);
+        await expect(storage.updateCommission(commission)).rejects.toBeInstanceOf(ConcurrentUpdateError);
+
+        const plan = (await storage.getInstallmentPlan('plan1'))!;
+        await storage.updateInstallmentPlan(plan);
+        await expect(storage.updateInstallmentPlan(plan)).rejects.toBeInstanceOf(ConcurrentUpdateError);
+
+        const payment = (await storage.getInstallmentPayment('ipay1'))!;
+        await storage.updateInstallmentPayment(payment);
+        await expect(storage.updateInstallmentPayment(payment)).rejects.toBeInstanceOf(ConcurrentUpdateError);
+      });
+    });
+
+    describe('paged listings', () => {
+      const base = Date.now() - DAY_MS;
+
+      // pay5..pay1 share timestamps in pairs so the id tie-breaker is exercised
+      async function savePayments(): Promise<void> {
+        const fixtures = [
+          paymentFixture({ id: 'pay1', txHash: '0x1', createdAt: new Date(base) }),
+          paymentFixture({ id: 'pay2', txHash: '0x2', createdAt: new Date(base), chainId: 137 }),
+          paymentFixture({ id: 'pay3', txHash: '0x3', createdAt: new Date(base + HOUR_MS), confirmed: false }),
+          paymentFixture({ id: 'pay4', txHash: '0x4', createdAt: new Date(base + HOUR_MS), payLinkId: 'link2' }),
+          paymentFixture({ id: 'pay5', txHash: '0x5', createdAt: new Date(base + 2 * HOUR_MS) }),
+        ];
+        for (const payment of fixtures) {
+          await storage.savePayment(payment);
+        }
+      }
+
+      it('pages newest first by default without gaps or duplicates', async () => {
+        await savePayments();
+
+        const seen: string[] = [];
+        let cursor: string | undefined;
+        do {
+          const page = await storage.listPayments({ limit: 2, cursor });
+          expect(page.items.length).toBeLessThanOrEqual(2);
+          seen.push(...page.items.map(p => p.id));
+          cursor = page.nextCursor;
+        } while (cursor);
+
+        expect(seen).toEqual(['pay5', 'pay4', 'pay3', 'pay2', 'pay1']);
+      });
+
+      it('pages oldest first with sort asc', async () => {
+        await savePayments();
+
+        const first = await storage.listPayments({ limit: 3, sort: 'asc' });
+        const second = await storage.listPayments({ limit: 3, sort: 'asc', cursor: first.nextCursor });
+
+        expect(first.items.map(p => p.id)).toEqual(['pay1', 'pay2', 'pay3']);
+        expect(second.items.map(p => p.id)).toEqual(['pay4', 'pay5']);
+        expect(second.nextCursor).toBeUndefined();
+      });
+
+      it('omits nextCursor when the page is not full', async () => {
+        await savePayments();
+
+        const page = await storage.listPayments({ limit: 5 });
+        expect(page.items).toHaveLength(5);
+        expect(page.nextCursor).toBeUndefined();
+        expect(page.items[0].createdAt).toBeInstanceOf(Date);
+      });
+
+      it('filters payments by link, chain, confirmation and creation time', async () => {
+        await savePayments();
+
+        expect(ids((await storage.listPayments({ payLinkId: 'link2' })).items)).toEqual(['pay4']);
+        expect(ids((await storage.listPayments({ chainId: 137 })).items)).toEqual(['pay2']);
+        expect(ids((await storage.listPayments({ confirmed: false })).items)).toEqual(['pay3']);
+        expect(ids((await storage.listPayments({ from: new Date(base + HOUR_MS) })).items)).toEqual([
+          'pay3',
+          'pay4',
+          'pay5',
+        ]);
+        expect(ids((await storage.listPayments({ to: new Date(base + HOUR_MS) })).items)).toEqual(['pay1', 'pay2']);
+      });
+
+      it('keeps filters applied across pages', async () => {
+        await savePayments();
+
+        const first = await storage.listPayments({ confirmed: true, limit: 2, sort: 'asc' });
+        const second = await storage.listPayments({ confirmed: true, limit: 2, sort: 'asc', cursor: first.nextCursor });
+
+        expect(first.items.map(p => p.id)).toEqual(['pay1', 'pay2']);
+        expect(second.items.map(p => p.id)).toEqual(['pay4', 'pay5']);
+      });
+
+      it('rejects malformed cursors', async () => {
+        await expect(storage.listPayments({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+      });
+
+      it('filters pay links by status', async () => {
+        await storage.savePayLink(payLinkFixture({ id: 'link1' }));
+        await storage.savePayLink(payLinkFixture({ id: 'link2', status: 'disabled' }));
+
+        expect(ids((await storage.listPayLinks({ status: 'disabled' })).items)).toEqual(['link2']);
+        expect(ids((await storage.listPayLinks()).items)).toEqual(['link1', 'link2']);
+      });
+
+      it('filters subscriptions by link, subscriber and status', async () => {
+        await storage.saveSubscription(subscriptionFixture({ id: 'sub1' }));
+        await storage.saveSubscription(subscriptionFixture({ id: 'sub2', status: 'paused' }));
+        await storage.saveSubscription(subscriptionFixture({ id: 'sub3', subscriberAddress: '0xOther', payLinkId: 'link2' }));
+
+        expect(ids((await storage.listSubscriptions({ status: 'paused' })).items)).toEqual(['sub2']);
+        expect(ids((await storage.listSubscriptions({ payLinkId: 'link2' })).items)).toEqual(['sub3']);
+        expect(ids((await storage.listSubscriptions({ subscriberAddress: '0xsubscriber' })).items)).toEqual([
+          'sub1',
+          'sub2',
+        ]);
+      });
+
+      it('filters referrals by link, referrer and status', async () => {
+        await storage.saveReferral(referralFixture({ id: 'ref1', code: 'AAA111' }));
+        await storage.saveReferral(referralFixture({ id: 'ref2', code: 'BBB222', payLinkId: 'link2' }));
+        await storage.saveReferral(referralFixture({ id: 'ref3', code: 'CCC333', referrerAddress: '0xOther' }));
+
+        const disabled = (await storage.getReferral('ref3'))!;
+        await storage.updateReferral({ ...disabled, status: 'disabled' });
+
+        expect(ids((await storage.listReferrals({ status: 'disabled' })).items)).toEqual(['ref3']);
+        expect(ids((await storage.listReferrals({ payLinkId: 'link2' })).items)).toEqual(['ref2']);
+        expect(ids((await storage.listReferrals({ referrerAddress: '0xREFERRER' })).items)).toEqual(['ref1', 'ref2']);
+      });
+
+      it('filters commissions by referral, referrer and status', async () => {
+        await storage.saveCommission(commissionFixture({ id: 'comm1' }));
+        await storage.saveCommission(commissionFixture({ id: 'comm2', referralId: 'ref2', status: 'confirmed' }));
+        await storage.saveCommission(commissionFixture({ id: 'comm3', referrerAddress: '0xOther' }));
+
+        expect(ids((await storage.listCommissions({ status: 'confirmed' })).items)).toEqual(['comm2']);
+        expect(ids((await storage.listCommissions({ referralId: 'ref1' })).items)).toEqual(['comm1', 'comm3']);
+        expect(ids((await storage.listCommissions({ referrerAddress: '0xreferrer' })).items)).toEqual([
+          'comm1',
+          'comm2',
+        ]);
+      });
+
+      it('filters installment plans by link, buyer and status', async () => {
+        await storage.saveInstallmentPlan(planFixture({ id: 'plan1' }));
+        await storage.saveInstallmentPlan(planFixture({ id: 'plan2', status: 'suspended', payLinkId: 'link2' }));
+        await storage.saveInstallmentPlan(planFixture({ id: 'plan3', buyerAddress: '0xOther' }));
+
+        expect(ids((await storage.listInstallmentPlans({ status: 'suspended' })).items)).toEqual(['plan2']);
+        expect(ids((await storage.listInstallmentPlans({ payLinkId: 'link1' })).items)).toEqual(['plan1', 'plan3']);
+        expect(ids((await storage.listInstallmentPlans({ buyerAddress: '0xBUYER' })).items)).toEqual([
+          'plan1',
+          'plan2',
+        ]);
+      });
+    });
+
+    describe('installment payments', () => {
+      it('lists installment payments by plan and buyer case-insensitively', async () => {
+        await storage.saveInstallmentPayment(installmentPaymentFixture({ id: 'ipay1', installmentPlanId: 'plan1' }));
+        await storage.saveInstallmentPayment(installmentPaymentFixture({ id: 'ipay2', installmentPlanId: 'plan2' }));
+
+        expect((await storage.getInstallmentPayment('ipay1'))?.dueDate).toBeInstanceOf(Date);
+        expect(await storage.getInstallmentPayment('missing')).toBeNull();
+        expect(ids(await storage.getInstallmentPaymentsByPlan('plan1'))).toEqual(['ipay1']);
+        expect(ids(await storage.getInstallmentPaymentsByBuyer('0xbuyer'))).toEqual(['ipay1', 'ipay2']);
+        expect(ids(await storage.getAllInstallmentPayments())).toEqual(['ipay1', 'ipay2']);
+      });
+
+      it('reflects updates in list lookups', async () => {
+        const payment = installmentPaymentFixture();
+        await storage.saveInstallmentPayment(payment);
+
+        await storage.updateInstallmentPayment({ ...payment, status: 'confirmed', confirmedAt: new Date() });
+
+        const [stored] = await storage.getInstallmentPaymentsByPlan('plan1');
+        expect(stored.status).toBe('confirmed');
+        expect(stored.confirmedAt).toBeInstanceOf(Date);
+        expect((await storage.getInstallmentPaymentsByBuyer('0xBUYER'))[0].status).toBe('confirmed');
+      });
+
+      it('throws when updating an unknown installment payment', async () => {
+        await expect(
+          storage.updateInstallmentPayment(installmentPaymentFixture({ id: 'missing' }))
+        ).rejects.toThrow('not found');
+      });
+    });
+
+    describe('payment intents', () => {
+      it('looks up intents by id and reference', async () => {
+        await storage.savePaymentIntent(intentFixture());
+
+        const stored = await storage.getPaymentIntent('intent1');
+        expect(stored?.expiresAt).toBeInstanceOf(Date);
+        expect((await storage.getPaymentIntentByReference('Ref1111'))?.id).toBe('intent1');
+        expect(await storage.getPaymentIntentByReference('missing')).toBeNull();
+        expect(await storage.getPaymentIntent('missing')).toBeNull();
+      });
+
+      it('lists open intents of a chain oldest first', async () => {
+        const now = Date.now();
+        await storage.savePaymentIntent(intentFixture({ id: 'newer', reference: 'r1', createdAt: new Date(now) }));
+        await storage.savePaymentIntent(intentFixture({ id: 'older', reference: 'r2', createdAt: new Date(now - DAY_MS) }));
+        await storage.savePaymentIntent(intentFixture({ id: 'done', reference: 'r3', status: 'completed' }));
+        await storage.savePaymentIntent(intentFixture({ id: 'other', reference: 'r4', chainId: 102 }));
+
+        expect((await storage.getOpenPaymentIntents(101)).map(intent => intent.id)).toEqual(['older', 'newer']);
+      });
+
+      it('lists expired intents holding a deposit address oldest first', async () => {
+        const now = Date.now();
+        const expired = (overrides: Partial<PaymentIntent>) =>
+          intentFixture({ chainId: 1, reference: undefined, status: 'expired', ...overrides });
+        await storage.savePaymentIntent(expired({ id: 'newer', derivationIndex: 1, createdAt: new Date(now) }));
+        await storage.savePaymentIntent(expired({ id: 'older', derivationIndex: 0, createdAt: new Date(now - DAY_MS) }));
+        await storage.savePaymentIntent(expired({ id: 'newest', derivationIndex: 2, createdAt: new Date(now + DAY_MS) }));
+        await storage.savePaymentIntent(expired({ id: 'shared', createdAt: new Date(now - 2 * DAY_MS) }));
+        await storage.savePaymentIntent(expired({ id: 'open', derivationIndex: 3, status: 'open' }));
+        await storage.savePaymentIntent(expired({ id: 'other', derivationIndex: 4, chainId: 137 }));
+
+        expect((await storage.getExpiredDepositIntents(1, 2)).map(intent => intent.id)).toEqual(['older', 'newer']);
+        expect((await storage.getExpiredDepositIntents(1, 10)).map(intent => intent.derivationIndex)).toEqual([0, 1, 2]);
+      });
+
+      it('pages intents by chain and status', async () => {
+        const now = Date.now();
+        await storage.savePaymentIntent(intentFixture({ id: 'a', reference: 'r1', createdAt: new Date(now - DAY_MS) }));
+        await storage.savePaymentIntent(intentFixture({ id: 'b', reference: 'r2', status: 'expired', createdAt: new Date(now) }));
+        await storage.savePaymentIntent(intentFixture({ id: 'c', reference: 'r3', chainId: 102, createdAt: new Date(now) }));
+
+        const first = await storage.listPaymentIntents({ limit: 2, sort: 'asc' });
+        const second = await storage.listPaymentIntents({ limit: 2, sort: 'asc', cursor: first.nextCursor });
+        expect([...first.items, ...second.items].map(intent => intent.id)).toEqual(['a', 'b', 'c']);
+        expect(second.items[0].expiresAt).toBeInstanceOf(Date);
+        expect((await storage.listPaymentIntents({ chainId: 101 })).items.map(intent => intent.id)).toEqual(['b', 'a']);
+        expect((await storage.listPaymentIntents({ status: 'expired' })).items.map(intent => intent.id)).toEqual(['b']);
+      });
+
+      it('rejects stale intent updates and drops completed intents from the open list', async () => {
+        await storage.savePaymentIntent(intentFixture());
+        const first = (await storage.getPaymentIntent('intent1'))!;
+        const second = (await storage.getPaymentIntent('intent1'))!;
+
+        await storage.updatePaymentIntent({ ...first, status: 'completed', paymentId: 'pay1' });
+
+        await expect(storage.updatePaymentIntent({ ...second, status: 'expired' })).rejects.toBeInstanceOf(
+          ConcurrentUpdateError
+        );
+        expect((await storage.getPaymentIntent('intent1'))?.paymentId).toBe('pay1');
+        expect(await storage.getOpenPaymentIntents(101)).toEqual([]);
+      });
+    });
+
+    describe('chain checkpoints', () => {
+      it('stores one checkpoint per chain and replaces it on save', async () => {
+        expect(await storage.getChainCheckpoint(1)).toBeNull();
+
+        await storage.saveChainCheckpoint({ chainId: 1, blockNumber: 100, updatedAt: new Date() });
+        await storage.saveChainCheckpoint({ chainId: 137, blockNumber: 5, updatedAt: new Date() });
+        await storage.saveChainCheckpoint({ chainId: 1, blockNumber: 120, updatedAt: new Date() });
+
+        const checkpoint = await storage.getChainCheckpoint(1);
+        expect(checkpoint?.blockNumber).toBe(120);
+        expect(checkpoint?.updatedAt).toBeInstanceOf(Date);
+        expect((await storage.getChainCheckpoint(137))?.blockNumber).toBe(5);
+        const checkpoints = await storage.getChainCheckpoints();
+        expect(checkpoints.map(c => [c.chainId, c.blockNumber]).sort((a, b) => a[0] - b[0])).toEqual([
+          [1, 120],
+          [137, 5],
+        ]);
+        expect(checkpoints[0].updatedAt).toBeInstanceOf(Date);
+      });
+    });
+
+    describe('derivation indexes', () => {
+      it('hands out consecutive indexes per chain', async () => {
+        expect(await storage.nextDerivationIndex(1)).toBe(0);
+        expect(await storage.nextDerivationIndex(1)).toBe(1);
+        expect(await storage.nextDerivationIndex(137)).toBe(0);
+        expect(await storage.nextDerivationIndex(1)).toBe(2);
+      });
+
+      it('never hands out the same index twice under concurrency', async () => {
+        const indexes = await Promise.all(Array.from({ length: 10 }, () => storage.nextDerivationIndex(8453)));
+        expect([...indexes].sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      });
+
+      it('lists counters and only raises them on restore', async () => {
+        expect(await storage.getDerivationCounters()).toEqual([]);
+        await storage.nextDerivationIndex(1);
+        await storage.nextDerivationIndex(1);
+
+        await storage.restoreDerivationCounter({ chainId: 1, nextIndex: 1 });
+        await storage.restoreDerivationCounter({ chainId: 137, nextIndex: 5 });
+
+        const counters = await storage.getDerivationCounters();
+        expect([...counters].sort((a, b) => a.chainId - b.chainId)).toEqual([
+          { chainId: 1, nextIndex: 2 },
+          { chainId: 137, nextIndex: 5 },
+        ]);
+        expect(await storage.nextDerivationIndex(137)).toBe(5);
+      });
+    });
+
+    describe('sign-in challenges', () => {
+      const challengeFixture = (nonce: string) => ({
+        nonce,
+        payLinkId: 'link1',
+        chainId: 1,
+        address: '0x1111111111111111111111111111111111111111',
+        message: `Nonce: ${nonce}`,
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 300_000),
+      });
+
+      it('returns a challenge once and then forgets it', async () => {
+        await storage.saveAuthChallenge(challengeFixture('nonce1'));
+
+        const challenge = await storage.consumeAuthChallenge('nonce1');
+        expect(challenge?.message).toBe('Nonce: nonce1');
+        expect(challenge?.expiresAt).toBeInstanceOf(Date);
+        expect(await storage.consumeAuthChallenge('nonce1')).toBeNull();
+        expect(await storage.consumeAuthChallenge('unknown')).toBeNull();
+      });
+
+      it('hands a challenge to only one of concurrent consumers', async () => {
+        await storage.saveAuthChallenge(challengeFixture('nonce2'));
+
+        const results = await Promise.all(Array.from({ length: 5 }, () => storage.consumeAuthChallenge('nonce2')));
+        expect(results.filter(Boolean)).toHaveLength(1);
+      });
+    });
+
+    describe('access token denylist', () => {
+      it('stores revocations by id and replaces them on save', async () => {
+        const expiresAt = new Date(Date.now() + 3600_000);
+        expect(await storage.getAccessTokenRevocation('sub1')).toBeNull();
+
+        await storage.saveAccessTokenRevocation({ id: 'sub1', revokedAt: new Date(1000), expiresAt });
+        await storage.saveAccessTokenRevocation({ id: 'sub1', revokedAt: new Date(2000), expiresAt });
+
+        const revocation = await storage.getAccessTokenRevocation('sub1');
+        expect(revocation?.revokedAt).toEqual(new Date(2000));
+        expect(revocation?.expiresAt).toEqual(expiresAt);
+      });
+
+      it('lists revocations that have not expired', async () => {
+        const revocation = (id: string, ttl: number) => ({
+          id,
+          revokedAt: new Date(1000),
+          expiresAt: new Date(Date.now() + ttl),
+        });
+        await storage.saveAccessTokenRevocation(revocation('old', 50));
+        await storage.saveAccessTokenRevocation(revocation('live', 3600_000));
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        const revocations = await storage.getAccessTokenRevocations();
+        expect(revocations.map(revocation => revocation.id)).toEqual(['live']);
+        expect(revocations[0].revokedAt).toEqual(new Date(1000));
+      });
+    });
+  });
+}
@@ -1 +1,15 @@
 export { MemoryStorage, createMemoryStorage } from './memory.js';
+export { ConcurrentUpdateError, updateWithRetry, DEFAULT_UPDATE_ATTEMPTS } from './concurrency.js';
+export { encodeCursor, decodeCursor, DEFAULT_PAGE_LIMIT, MAX_PAGE_LIMIT } from './pagination.js';
+export { exportData, importData, ARCHIVE_FORMAT, ARCHIVE_VERSION } from './archive.js';
+export type { ArchiveCounts, ArchiveImportResult, ArchiveSource } from './archive.js';
+export { SqliteStorage, createSqliteStorage, SQLITE_MIGRATIONS } from './sqlite.js';
+export type { SqliteDatabase, SqliteStatement, SqliteStorageConfig, SqliteMigration } from './sqlite.js';
+export { PostgresStorage, createPostgresStorage, POSTGRES_MIGRATIONS } from './postgres.js';
+export type {
+  PostgresPool,
+  PostgresPoolClient,
+  PostgresQueryResult,
+  PostgresStorageConfig,
+  PostgresMigration,
+} from './postgres.js';
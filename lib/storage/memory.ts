@@ -1,73 +1,773 @@
-import type { Storage, PayLink, Payment } from '../types.js';
+import type {
+  Storage,
+  PayLink,
+  Payment,
+  Subscription,
+  Referral,
+  ReferralCommission,
+  InstallmentPlan,
+  InstallmentPayment,
+  PaymentIntent,
+  ChainCheckpoint,
+  DerivationCounter,
+  AuthChallenge,
+  AccessTokenRevocation,
+  Page,
+  ListPayLinksOptions,
+  ListPaymentsOptions,
+  ListSubscriptionsOptions,
+  ListReferralsOptions,
+  ListCommissionsOptions,
+  ListInstallmentPlansOptions,
+  ListPaymentIntentsOptions,
+} from '../types.js';
+import { normalizeAddress } from './serialization.js';
+import { ConcurrentUpdateError } from './concurrency.js';
+import { paginate } from './pagination.js';
+
+/** Secondary index: lookup key -> entity IDs in insertion order */
+type Index = Map<string, Set<string>>;
+
+function addToIndex(index: Index, key: string, id: string): void {
+  const ids = index.get(key) ?? new Set<string>();
+  ids.add(id);
+  index.set(key, ids);
+}
+
+function removeFromIndex(index: Index, key: string, id: string): void {
+  const ids = index.get(key);
+  if (!ids) return;
+  ids.delete(id);
+  if (ids.size === 0) {
+    index.delete(key);
+  }
+}
+
+function lookup<T extends object>(index: Index, key: string, records: Map<string, T>): T[] {
+  const result: T[] = [];
+  for (const id of index.get(key) ?? []) {
+    const record = records.get(id);
+    if (record) result.push({ ...record });
+  }
+  return result;
+}
+
+/** Copy a stored record so callers can't mutate storage behind its back */
+function copy<T extends object>(record: T | undefined): T | null {
+  return record ? { ...record } : null;
+}
+
+function copyAll<T extends object>(records: Map<string, T>): T[] {
+  return Array.from(records.values(), record => ({ ...record }));
+}
+
+function copyPage<T extends object>(page: Page<T>): Page<T> {
+  return { ...page, items: page.items.map(item => ({ ...item })) };
+}
+
+/** Matches when no filter value was given or the value equals it */
+function matches<T>(filter: T | undefined, value: T): boolean {
+  return filter === undefined || filter === value;
+}
+
+/** Check the caller's version against the stored one and return the next version */
+function nextVersion(entity: string, stored: { id: string; version?: number }, next: { version?: number }): number {
+  const current = stored.version ?? 0;
+  if (next.version !== undefined && next.version !== current) {
+    throw new ConcurrentUpdateError(entity, stored.id);
+  }
+  return current + 1;
+}
 
 /**
- * In-memory storage implementation for development and testing
+ * In-memory storage implementation
+ * Reference Storage adapter for development and testing; replace with a database for production
+ *
+ * Secondary indexes hold entity IDs and resolve through the primary maps, so they
+ * never go stale when an entity's status, address or code changes.
  */
 export class MemoryStorage implements Storage {
-  private payLinks: Map<string, PayLink> = new Map();
-  private payments: Map<string, Payment> = new Map();
-  private paymentsByTxHash: Map<string, Payment> = new Map();
-  private paymentsByPayLinkId: Map<string, Payment[]> = new Map();
+  private links = new Map<string, PayLink>();
+  private payments = new Map<string, Payment>();
+  private paymentsByTx: Index = new Map();
+  private paymentsByLink: Index = new Map();
+  private paymentsByAddress: Index = new Map();
+  private subscriptions = new Map<string, Subscription>();
+  private subscriptionsByAddress: Index = new Map();
+  private subscriptionsByLink: Index = new Map();
+  private referrals = new Map<string, Referral>();
+  private referralsByCode: Index = new Map();
+  private referralsByLink: Index = new Map();
+  private referralsByReferrer: Index = new Map();
+  private commissions = new Map<string, ReferralCommission>();
+  private commissionsByReferral: Index = new Map();
+  private commissionsByReferrer: Index = new Map();
+  private installmentPlans = new Map<string, InstallmentPlan>();
+  private installmentPlansByAddress: Index = new Map();
+  private installmentPlansByLink: Index = new Map();
+  private installmentPlansByBuyer: Index = new Map();
+  private installmentPayments = new Map<string, InstallmentPayment>();
+  private installmentPaymentsByPlan: Index = new Map();
+  private installmentPaymentsByBuyer: Index = new Map();
+  private paymentIntents = new Map<string, PaymentIntent>();
+  private paymentIntentsByReference: Index = new Map();
+  private chainCheckpoints = new Map<number, ChainCheckpoint>();
+  private derivationIndexes = new Map<number, number>();
+  private authChallenges = new Map<string, AuthChallenge>();
+  private accessTokenRevocations = new Map<string, AccessTokenRevocation>();
 
-  async getPayLinkById(id: string): Promise<PayLink | null> {
-    return this.payLinks.get(id) ?? null;
+  async getPayLink(id: string): Promise<PayLink | null> {
+    return copy(this.links.get(id));
   }
 
   async savePayLink(payLink: PayLink): Promise<void> {
-    this.payLinks.set(payLink.id, { ...payLink });
+    this.links.set(payLink.id, { ...payLink, version: payLink.version ?? 0 });
   }
 
   async updatePayLink(payLink: PayLink): Promise<void> {
-    if (!this.payLinks.has(payLink.id)) {
+    const existing = this.links.get(payLink.id);
+    if (!existing) {
       throw new Error(`PayLink ${payLink.id} not found`);
     }
-    this.payLinks.set(payLink.id, { ...payLink, updatedAt: new Date() });
+    const version = nextVersion('PayLink', existing, payLink);
+    this.links.set(payLink.id, { ...payLink, updatedAt: new Date(), version });
+  }
+
+  async incrementUsage(payLinkId: string, maxUses?: number): Promise<PayLink | null> {
+    const existing = this.links.get(payLinkId);
+    if (!existing) {
+      throw new Error(`PayLink ${payLinkId} not found`);
+    }
+
+    const usedCount = existing.usedCount ?? 0;
+    if (maxUses !== undefined && usedCount >= maxUses) {
+      return null;
+    }
+
+    const updated = {
+      ...existing,
+      usedCount: usedCount + 1,
+      updatedAt: new Date(),
+      version: (existing.version ?? 0) + 1,
+    };
+    this.links.set(payLinkId, updated);
+    return { ...updated };
   }
 
   async deletePayLink(id: string): Promise<void> {
-    this.payLinks.delete(id);
+    this.links.delete(id);
+  }
+
+  async getAllPayLinks(): Promise<PayLink[]> {
+    return copyAll(this.links);
   }
 
+  async listPayLinks(options: ListPayLinksOptions = {}): Promise<Page<PayLink>> {
+    return copyPage(paginate([...this.links.values()], options, l => matches(options.status, l.status)));
+  }
+
+  // Payment methods
+
   async savePayment(payment: Payment): Promise<void> {
-    this.payments.set(payment.id, { ...payment });
-    this.paymentsByTxHash.set(payment.txHash, payment);
-    
-    const existing = this.paymentsByPayLinkId.get(payment.payLinkId) ?? [];
-    existing.push(payment);
-    this.paymentsByPayLinkId.set(payment.payLinkId, existing);
+    const existing = this.payments.get(payment.id);
+    if (existing) this.unindexPayment(existing);
+    this.storePayment({ ...payment });
+  }
+
+  async insertPayment(payment: Payment): Promise<boolean> {
+    const recorded = lookup(this.paymentsByTx, payment.txHash, this.payments).some(p => p.chainId === payment.chainId);
+    if (recorded || this.payments.has(payment.id)) return false;
+    this.storePayment({ ...payment });
+    return true;
+  }
+
+  async getPaymentByTxHash(txHash: string): Promise<Payment | null> {
+    return lookup(this.paymentsByTx, txHash, this.payments).pop() ?? null;
+  }
+
+  async getConfirmedPayment(payLinkId: string): Promise<Payment | null> {
+    return lookup(this.paymentsByLink, payLinkId, this.payments).find(p => p.confirmed) ?? null;
+  }
+
+  async getConfirmedPaymentByAddress(
+    payLinkId: string,
+    fromAddress: string
+  ): Promise<Payment | null> {
+    const payments = lookup(this.paymentsByAddress, this.addressKey(payLinkId, fromAddress), this.payments);
+    return payments.filter(p => p.confirmed).pop() ?? null;
+  }
+
+  async getPaymentsByLink(payLinkId: string): Promise<Payment[]> {
+    return lookup(this.paymentsByLink, payLinkId, this.payments);
+  }
+
+  async getAllPayments(): Promise<Payment[]> {
+    return copyAll(this.payments);
+  }
+
+  async getUnfinalizedPayments(chainId: number): Promise<Payment[]> {
+    return copyAll(this.payments)
+      .filter(p => (p.confirmed || p.revertedAt) && !p.finalizedAt && p.chainId === chainId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async listPayments(options: ListPaymentsOptions = {}): Promise<Page<Payment>> {
+    return copyPage(
+      paginate(
+        [...this.payments.values()],
+        options,
+        p =>
+          matches(options.payLinkId, p.payLinkId) &&
+          matches(options.chainId, p.chainId) &&
+          matches(options.confirmed, p.confirmed)
+      )
+    );
+  }
+
+  // Subscription methods
+
+  async saveSubscription(subscription: Subscription): Promise<void> {
+    const existing = this.subscriptions.get(subscription.id);
+    if (existing) this.unindexSubscription(existing);
+    this.storeSubscription({ ...subscription, version: subscription.version ?? 0 });
+  }
+
+  async getSubscription(id: string): Promise<Subscription | null> {
+    return copy(this.subscriptions.get(id));
+  }
+
+  async updateSubscription(subscription: Subscription): Promise<void> {
+    const existing = this.subscriptions.get(subscription.id);
+    if (!existing) {
+      throw new Error(`Subscription ${subscription.id} not found`);
+    }
+
+    const version = nextVersion('Subscription', existing, subscription);
+    this.unindexSubscription(existing);
+    this.storeSubscription({ ...subscription, updatedAt: new Date(), version });
+  }
+
+  async getSubscriptionByAddress(
+    payLinkId: string,
+    subscriberAddress: string
+  ): Promise<Subscription | null> {
+    const key = this.addressKey(payLinkId, subscriberAddress);
+    return lookup(this.subscriptionsByAddress, key, this.subscriptions).pop() ?? null;
+  }
+
+  async getSubscriptionsByPayLink(payLinkId: string): Promise<Subscription[]> {
+    return lookup(this.subscriptionsByLink, payLinkId, this.subscriptions);
+  }
+
+  async getSubscriptionsDue(beforeDate: Date): Promise<Subscription[]> {
+    const result: Subscription[] = [];
+    for (const sub of this.subscriptions.values()) {
+      if (
+        sub.status === 'active' &&
+        sub.nextPaymentDue <= beforeDate
+      ) {
+        result.push({ ...sub });
+      }
+    }
+    return result;
+  }
+
+  async getAllSubscriptions(): Promise<Subscription[]> {
+    return copyAll(this.subscriptions);
+  }
+
+  async listSubscriptions(options: ListSubscriptionsOptions = {}): Promise<Page<Subscription>> {
+    const subscriber = options.subscriberAddress ? normalizeAddress(options.subscriberAddress) : undefined;
+    return copyPage(
+      paginate(
+        [...this.subscriptions.values()],
+        options,
+        s =>
+          matches(options.payLinkId, s.payLinkId) &&
+          matches(subscriber, normalizeAddress(s.subscriberAddress)) &&
+          matches(options.status, s.status)
+      )
+    );
+  }
+
+  // Referral methods
+
+  async saveReferral(referral: Referral): Promise<void> {
+    const existing = this.referrals.get(referral.id);
+    if (existing) this.unindexReferral(existing);
+    this.storeReferral({ ...referral, version: referral.version ?? 0 });
+  }
+
+  async getReferral(id: string): Promise<Referral | null> {
+    return copy(this.referrals.get(id));
+  }
+
+  async getReferralByCode(code: string): Promise<Referral | null> {
+    return lookup(this.referralsByCode, code.toUpperCase(), this.referrals).pop() ?? null;
+  }
+
+  async updateReferral(referral: Referral): Promise<void> {
+    const existing = this.referrals.get(referral.id);
+    if (!existing) {
+      throw new Error(`Referral ${referral.id} not found`);
+    }
+
+    const version = nextVersion('Referral', existing, referral);
+    this.unindexReferral(existing);
+    this.storeReferral({ ...referral, updatedAt: new Date(), version });
+  }
+
+  async getReferralsByPayLink(payLinkId: string): Promise<Referral[]> {
+    return lookup(this.referralsByLink, payLinkId, this.referrals);
+  }
+
+  async getReferralsByReferrer(referrerAddress: string): Promise<Referral[]> {
+    return lookup(this.referralsByReferrer, normalizeAddress(referrerAddress), this.referrals);
+  }
+
+  async getAllReferrals(): Promise<Referral[]> {
+    return copyAll(this.referrals);
+  }
+
+  async listReferrals(options: ListReferralsOptions = {}): Promise<Page<Referral>> {
+    const referrer = options.referrerAddress ? normalizeAddress(options.referrerAddress) : undefined;
+    return copyPage(
+      paginate(
+        [...this.referrals.values()],
+        options,
+        r =>
+          matches(options.payLinkId, r.payLinkId) &&
+          matches(referrer, normalizeAddress(r.referrerAddress)) &&
+          matches(options.status, r.status)
+      )
+    );
+  }
+
+  // Referral commission methods
+
+  async saveCommission(commission: ReferralCommission): Promise<void> {
+    const existing = this.commissions.get(commission.id);
+    if (existing) this.unindexCommission(existing);
+    this.storeCommission({ ...commission, version: commission.version ?? 0 });
+  }
+
+  async getCommission(id: string): Promise<ReferralCommission | null> {
+    return copy(this.commissions.get(id));
+  }
+
+  async updateCommission(commission: ReferralCommission): Promise<void> {
+    const existing = this.commissions.get(commission.id);
+    if (!existing) {
+      throw new Error(`Commission ${commission.id} not found`);
+    }
+
+    const version = nextVersion('Commission', existing, commission);
+    this.unindexCommission(existing);
+    this.storeCommission({ ...commission, version });
+  }
+
+  async getCommissionsByReferral(referralId: string): Promise<ReferralCommission[]> {
+    return lookup(this.commissionsByReferral, referralId, this.commissions);
+  }
+
+  async getCommissionsByReferrer(referrerAddress: string): Promise<ReferralCommission[]> {
+    return lookup(this.commissionsByReferrer, normalizeAddress(referrerAddress), this.commissions);
+  }
+
+  async getPendingCommissions(referrerAddress: string): Promise<ReferralCommission[]> {
+    const comms = await this.getCommissionsByReferrer(referrerAddress);
+    return comms.filter(c => c.status === 'confirmed');
+  }
+
+  async getAllCommissions(): Promise<ReferralCommission[]> {
+    return copyAll(this.commissions);
+  }
+
+  async listCommissions(options: ListCommissionsOptions = {}): Promise<Page<ReferralCommission>> {
+    const referrer = options.referrerAddress ? normalizeAddress(options.referrerAddress) : undefined;
+    return copyPage(
+      paginate(
+        [...this.commissions.values()],
+        options,
+        c =>
+          matches(options.referralId, c.referralId) &&
+          matches(referrer, normalizeAddress(c.referrerAddress)) &&
+          matches(options.status, c.status)
+      )
+    );
+  }
+
+  // Installment plan methods
+
+  async saveInstallmentPlan(plan: InstallmentPlan): Promise<void> {
+    const existing = this.installmentPlans.get(plan.id);
+    if (existing) this.unindexInstallmentPlan(existing);
+    this.storeInstallmentPlan({ ...plan, version: plan.version ?? 0 });
+  }
+
+  async getInstallmentPlan(id: string): Promise<InstallmentPlan | null> {
+    return copy(this.installmentPlans.get(id));
+  }
+
+  async updateInstallmentPlan(plan: InstallmentPlan): Promise<void> {
+    const existing = this.installmentPlans.get(plan.id);
+    if (!existing) {
+      throw new Error(`Installment plan ${plan.id} not found`);
+    }
+
+    const version = nextVersion('Installment plan', existing, plan);
+    this.unindexInstallmentPlan(existing);
+    this.storeInstallmentPlan({ ...plan, updatedAt: new Date(), version });
+  }
+
+  async getInstallmentPlanByAddress(
+    payLinkId: string,
+    buyerAddress: string
+  ): Promise<InstallmentPlan | null> {
+    const key = this.addressKey(payLinkId, buyerAddress);
+    return lookup(this.installmentPlansByAddress, key, this.installmentPlans).pop() ?? null;
+  }
+
+  async getInstallmentPlansByPayLink(payLinkId: string): Promise<InstallmentPlan[]> {
+    return lookup(this.installmentPlansByLink, payLinkId, this.installmentPlans);
+  }
+
+  async getInstallmentPlansByBuyer(buyerAddress: string): Promise<InstallmentPlan[]> {
+    return lookup(this.installmentPlansByBuyer, normalizeAddress(buyerAddress), this.installmentPlans);
+  }
+
+  async getOverdueInstallmentPlans(): Promise<InstallmentPlan[]> {
+    const now = new Date();
+    const result: InstallmentPlan[] = [];
+
+    for (const plan of this.installmentPlans.values()) {
+      if (plan.status === 'active') {
+        const graceEnd = new Date(plan.nextDueDate);
+        graceEnd.setDate(graceEnd.getDate() + plan.gracePeriodDays);
+
+        if (now > graceEnd) {
+          result.push({ ...plan });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  async getInstallmentPlansDueBefore(date: Date): Promise<InstallmentPlan[]> {
+    const result: InstallmentPlan[] = [];
+
+    for (const plan of this.installmentPlans.values()) {
+      if (
+        (plan.status === 'active' || plan.status === 'pending') &&
+        plan.nextDueDate <= date
+      ) {
+        result.push({ ...plan });
+      }
+    }
+
+    return result;
+  }
+
+  async getAllInstallmentPlans(): Promise<InstallmentPlan[]> {
+    return copyAll(this.installmentPlans);
   }
 
-  async findPaymentByTxHash(txHash: string): Promise<Payment | null> {
-    return this.paymentsByTxHash.get(txHash) ?? null;
+  async listInstallmentPlans(options: ListInstallmentPlansOptions = {}): Promise<Page<InstallmentPlan>> {
+    const buyer = options.buyerAddress ? normalizeAddress(options.buyerAddress) : undefined;
+    return copyPage(
+      paginate(
+        [...this.installmentPlans.values()],
+        options,
+        p =>
+          matches(options.payLinkId, p.payLinkId) &&
+          matches(buyer, normalizeAddress(p.buyerAddress)) &&
+          matches(options.status, p.status)
+      )
+    );
   }
 
-  async findConfirmedPaymentByPayLinkId(payLinkId: string): Promise<Payment | null> {
-    const payments = this.paymentsByPayLinkId.get(payLinkId) ?? [];
-    return payments.find(p => p.confirmed) ?? null;
+  // Installment payment methods
+
+  async saveInstallmentPayment(payment: InstallmentPayment): Promise<void> {
+    const existing = this.installmentPayments.get(payment.id);
+    if (existing) this.unindexInstallmentPayment(existing);
+    this.storeInstallmentPayment({ ...payment, version: payment.version ?? 0 });
   }
 
-  /**
-   * Clear all data (useful for testing)
-   */
+  async getInstallmentPayment(id: string): Promise<InstallmentPayment | null> {
+    return copy(this.installmentPayments.get(id));
+  }
+
+  async updateInstallmentPayment(payment: InstallmentPayment): Promise<void> {
+    const existing = this.installmentPayments.get(payment.id);
+    if (!existing) {
+      throw new Error(`Installment payment ${payment.id} not found`);
+    }
+
+    const version = nextVersion('Installment payment', existing, payment);
+    this.unindexInstallmentPayment(existing);
+    this.storeInstallmentPayment({ ...payment, version });
+  }
+
+  async getInstallmentPaymentsByPlan(planId: string): Promise<InstallmentPayment[]> {
+    return lookup(this.installmentPaymentsByPlan, planId, this.installmentPayments);
+  }
+
+  async getInstallmentPaymentsByBuyer(buyerAddress: string): Promise<InstallmentPayment[]> {
+    return lookup(this.installmentPaymentsByBuyer, normalizeAddress(buyerAddress), this.installmentPayments);
+  }
+
+  async getAllInstallmentPayments(): Promise<InstallmentPayment[]> {
+    return copyAll(this.installmentPayments);
+  }
+
+  // Payment intent methods
+
+  async savePaymentIntent(intent: PaymentIntent): Promise<void> {
+    const existing = this.paymentIntents.get(intent.id);
+    if (existing) this.unindexPaymentIntent(existing);
+    this.storePaymentIntent({ ...intent, version: intent.version ?? 0 });
+  }
+
+  async getPaymentIntent(id: string): Promise<PaymentIntent | null> {
+    return copy(this.paymentIntents.get(id));
+  }
+
+  async getPaymentIntentByReference(reference: string): Promise<PaymentIntent | null> {
+    return lookup(this.paymentIntentsByReference, reference, this.paymentIntents)[0] ?? null;
+  }
+
+  async updatePaymentIntent(intent: PaymentIntent): Promise<void> {
+    const existing = this.paymentIntents.get(intent.id);
+    if (!existing) {
+      throw new Error(`Payment intent ${intent.id} not found`);
+    }
+
+    const version = nextVersion('Payment intent', existing, intent);
+    this.unindexPaymentIntent(existing);
+    this.storePaymentIntent({ ...intent, updatedAt: new Date(), version });
+  }
+
+  async getOpenPaymentIntents(chainId: number): Promise<PaymentIntent[]> {
+    return copyAll(this.paymentIntents)
+      .filter(intent => intent.status === 'open' && intent.chainId === chainId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getExpiredDepositIntents(chainId: number, limit: number): Promise<PaymentIntent[]> {
+    return copyAll(this.paymentIntents)
+      .filter(intent => intent.status === 'expired' && intent.chainId === chainId && intent.derivationIndex !== undefined)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async listPaymentIntents(options: ListPaymentIntentsOptions = {}): Promise<Page<PaymentIntent>> {
+    return copyPage(
+      paginate(
+        [...this.paymentIntents.values()],
+        options,
+        intent => matches(options.chainId, intent.chainId) && matches(options.status, intent.status)
+      )
+    );
+  }
+
+  // Chain checkpoint methods
+
+  async getChainCheckpoint(chainId: number): Promise<ChainCheckpoint | null> {
+    return copy(this.chainCheckpoints.get(chainId));
+  }
+
+  async saveChainCheckpoint(checkpoint: ChainCheckpoint): Promise<void> {
+    this.chainCheckpoints.set(checkpoint.chainId, { ...checkpoint });
+  }
+
+  async getChainCheckpoints(): Promise<ChainCheckpoint[]> {
+    return [...this.chainCheckpoints.values()].map(checkpoint => ({ ...checkpoint }));
+  }
+
+  // Deposit address methods
+
+  async nextDerivationIndex(chainId: number): Promise<number> {
+    const index = this.derivationIndexes.get(chainId) ?? 0;
+    this.derivationIndexes.set(chainId, index + 1);
+    return index;
+  }
+
+  async getDerivationCounters(): Promise<DerivationCounter[]> {
+    return [...this.derivationIndexes].map(([chainId, nextIndex]) => ({ chainId, nextIndex }));
+  }
+
+  async restoreDerivationCounter(counter: DerivationCounter): Promise<void> {
+    const index = this.derivationIndexes.get(counter.chainId) ?? 0;
+    this.derivationIndexes.set(counter.chainId, Math.max(index, counter.nextIndex));
+  }
+
+  // Sign-in challenge methods
+
+  async saveAuthChallenge(challenge: AuthChallenge): Promise<void> {
+    // The map keeps insertion order, which is expiry order under one challenge TTL,
+    // so pruning stops at the first challenge still valid
+    const now = Date.now();
+    for (const [nonce, existing] of this.authChallenges) {
+      if (existing.expiresAt.getTime() > now) break;
+      this.authChallenges.delete(nonce);
+    }
+    this.authChallenges.set(challenge.nonce, { ...challenge });
+  }
+
+  async consumeAuthChallenge(nonce: string): Promise<AuthChallenge | null> {
+    const challenge = this.authChallenges.get(nonce);
+    this.authChallenges.delete(nonce);
+    return challenge ?? null;
+  }
+
+  // Access token denylist methods
+
+  async saveAccessTokenRevocation(revocation: AccessTokenRevocation): Promise<void> {
+    const now = Date.now();
+    for (const [id, existing] of this.accessTokenRevocations) {
+      if (existing.expiresAt.getTime() <= now) this.accessTokenRevocations.delete(id);
+    }
+    this.accessTokenRevocations.set(revocation.id, { ...revocation });
+  }
+
+  async getAccessTokenRevocation(id: string): Promise<AccessTokenRevocation | null> {
+    return copy(this.accessTokenRevocations.get(id));
+  }
+
+  async getAccessTokenRevocations(): Promise<AccessTokenRevocation[]> {
+    const now = Date.now();
+    return copyAll(this.accessTokenRevocations).filter(revocation => revocation.expiresAt.getTime() > now);
+  }
+
+  /** Clear all data */
   clear(): void {
-    this.payLinks.clear();
+    this.links.clear();
     this.payments.clear();
-    this.paymentsByTxHash.clear();
-    this.paymentsByPayLinkId.clear();
+    this.paymentsByTx.clear();
+    this.paymentsByLink.clear();
+    this.paymentsByAddress.clear();
+    this.subscriptions.clear();
+    this.subscriptionsByAddress.clear();
+    this.subscriptionsByLink.clear();
+    this.referrals.clear();
+    this.referralsByCode.clear();
+    this.referralsByLink.clear();
+    this.referralsByReferrer.clear();
+    this.commissions.clear();
+    this.commissionsByReferral.clear();
+    this.commissionsByReferrer.clear();
+    this.installmentPlans.clear();
+    this.installmentPlansByAddress.clear();
+    this.installmentPlansByLink.clear();
+    this.installmentPlansByBuyer.clear();
+    this.installmentPayments.clear();
+    this.installmentPaymentsByPlan.clear();
+    this.installmentPaymentsByBuyer.clear();
+    this.paymentIntents.clear();
+    this.paymentIntentsByReference.clear();
+    this.chainCheckpoints.clear();
+    this.derivationIndexes.clear();
+    this.authChallenges.clear();
+    this.accessTokenRevocations.clear();
+  }
+
+  // ========================================
+  // INDEX MAINTENANCE
+  // ========================================
+
+  private addressKey(payLinkId: string, address?: string): string {
+    return `${payLinkId}:${normalizeAddress(address)}`;
+  }
+
+  private storePayment(payment: Payment): void {
+    this.payments.set(payment.id, payment);
+    addToIndex(this.paymentsByTx, payment.txHash, payment.id);
+    addToIndex(this.paymentsByLink, payment.payLinkId, payment.id);
+    addToIndex(this.paymentsByAddress, this.addressKey(payment.payLinkId, payment.fromAddress), payment.id);
+  }
+
+  private unindexPayment(payment: Payment): void {
+    removeFromIndex(this.paymentsByTx, payment.txHash, payment.id);
+    removeFromIndex(this.paymentsByLink, payment.payLinkId, payment.id);
+    removeFromIndex(this.paymentsByAddress, this.addressKey(payment.payLinkId, payment.fromAddress), payment.id);
+  }
+
+  private storeSubscription(subscription: Subscription): void {
+    this.subscriptions.set(subscription.id, subscription);
+    addToIndex(
+      this.subscriptionsByAddress,
+      this.addressKey(subscription.payLinkId, subscription.subscriberAddress),
+      subscription.id
+    );
+    addToIndex(this.subscriptionsByLink, subscription.payLinkId, subscription.id);
+  }
+
+  private unindexSubscription(subscription: Subscription): void {
+    removeFromIndex(
+      this.subscriptionsByAddress,
+      this.addressKey(subscription.payLinkId, subscription.subscriberAddress),
+      subscription.id
+    );
+    removeFromIndex(this.subscriptionsByLink, subscription.payLinkId, subscription.id);
+  }
+
+  private storeReferral(referral: Referral): void {
+    this.referrals.set(referral.id, referral);
+    addToIndex(this.referralsByCode, referral.code.toUpperCase(), referral.id);
+    addToIndex(this.referralsByLink, referral.payLinkId, referral.id);
+    addToIndex(this.referralsByReferrer, normalizeAddress(referral.referrerAddress), referral.id);
+  }
+
+  private unindexReferral(referral: Referral): void {
+    removeFromIndex(this.referralsByCode, referral.code.toUpperCase(), referral.id);
+    removeFromIndex(this.referralsByLink, referral.payLinkId, referral.id);
+    removeFromIndex(this.referralsByReferrer, normalizeAddress(referral.referrerAddress), referral.id);
+  }
+
+  private storeCommission(commission: ReferralCommission): void {
+    this.commissions.set(commission.id, commission);
+    addToIndex(this.commissionsByReferral, commission.referralId, commission.id);
+    addToIndex(this.commissionsByReferrer, normalizeAddress(commission.referrerAddress), commission.id);
+  }
+
+  private unindexCommission(commission: ReferralCommission): void {
+    removeFromIndex(this.commissionsByReferral, commission.referralId, commission.id);
+    removeFromIndex(this.commissionsByReferrer, normalizeAddress(commission.referrerAddress), commission.id);
+  }
+
+  private storeInstallmentPlan(plan: InstallmentPlan): void {
+    this.installmentPlans.set(plan.id, plan);
+    addToIndex(this.installmentPlansByAddress, this.addressKey(plan.payLinkId, plan.buyerAddress), plan.id);
+    addToIndex(this.installmentPlansByLink, plan.payLinkId, plan.id);
+    addToIndex(this.installmentPlansByBuyer, normalizeAddress(plan.buyerAddress), plan.id);
+  }
+
+  private unindexInstallmentPlan(plan: InstallmentPlan): void {
+    removeFromIndex(this.installmentPlansByAddress, this.addressKey(plan.payLinkId, plan.buyerAddress), plan.id);
+    removeFromIndex(this.installmentPlansByLink, plan.payLinkId, plan.id);
+    removeFromIndex(this.installmentPlansByBuyer, normalizeAddress(plan.buyerAddress), plan.id);
+  }
+
+  private storeInstallmentPayment(payment: InstallmentPayment): void {
+    this.installmentPayments.set(payment.id, payment);
+    addToIndex(this.installmentPaymentsByPlan, payment.installmentPlanId, payment.id);
+    addToIndex(this.installmentPaymentsByBuyer, normalizeAddress(payment.buyerAddress), payment.id);
+  }
+
+  private unindexInstallmentPayment(payment: InstallmentPayment): void {
+    removeFromIndex(this.installmentPaymentsByPlan, payment.installmentPlanId, payment.id);
+    removeFromIndex(this.installmentPaymentsByBuyer, normalizeAddress(payment.buyerAddress), payment.id);
   }
 
-  /**
-   * Get all pay links (useful for debugging)
-   */
-  getAllPayLinks(): PayLink[] {
-    return Array.from(this.payLinks.values());
+  private storePaymentIntent(intent: PaymentIntent): void {
+    this.paymentIntents.set(intent.id, intent);
+    if (intent.reference) addToIndex(this.paymentIntentsByReference, intent.reference, intent.id);
   }
 
-  /**
-   * Get all payments (useful for debugging)
-   */
-  getAllPayments(): Payment[] {
-    return Array.from(this.payments.values());
+  private unindexPaymentIntent(intent: PaymentIntent): void {
+    if (intent.reference) removeFromIndex(this.paymentIntentsByReference, intent.reference, intent.id);
   }
 }
 
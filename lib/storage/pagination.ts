@@ -0,0 +1,101 @@
+/**
+ * Cursor pagination helpers for Storage listings
+ *
+ * Pages are ordered by (createdAt, id). The cursor encodes the position of the
+ * last item of a page, so inserts between requests never shift later pages.
+ */
+
+import type { ListOptions, Page } from '../types.js';
+
+/** Default page size */
+export const DEFAULT_PAGE_LIMIT = 50;
+
+/** Largest accepted page size; bigger limits are clamped */
+export const MAX_PAGE_LIMIT = 500;
+
+/**
+ * Decoded cursor position
+ */
+export interface CursorPosition {
+  /** Creation time of the last item (epoch ms) */
+  createdAt: number;
+  id: string;
+}
+
+/**
+ * Encode the position of an item as an opaque cursor
+ */
+export function encodeCursor(item: { id: string; createdAt: Date }): string {
+  return Buffer.from(JSON.stringify([item.createdAt.getTime(), item.id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor()
+ */
+export function decodeCursor(cursor: string): CursorPosition {
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isFinite(createdAt) && typeof id === 'string') {
+      return { createdAt, id };
+    }
+  } catch {
+    // fall through
+  }
+  throw new Error('Invalid cursor');
+}
+
+/**
+ * Clamp a requested page size to [1, MAX_PAGE_LIMIT]
+ */
+export function normalizeLimit(limit?: number): number {
+  if (limit === undefined || !Number.isFinite(limit)) return DEFAULT_PAGE_LIMIT;
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_LIMIT);
+}
+
+/**
+ * Build a page from up to `limit + 1` ordered rows (the extra row signals more data)
+ */
+export function toPage<T extends { id: string; createdAt: Date }>(rows: T[], limit: number): Page<T> {
+  if (rows.length <= limit) {
+    return { items: rows };
+  }
+  const items = rows.slice(0, limit);
+  return { items, nextCursor: encodeCursor(items[items.length - 1]) };
+}
+
+/**
+ * Page through in-memory records: filter, order by (createdAt, id), resume after the cursor
+ */
+export function paginate<T extends { id: string; createdAt: Date }>(
+  records: T[],
+  options: ListOptions,
+  filter: (record: T) => boolean = () => true
+): Page<T> {
+  const direction = options.sort === 'asc' ? 1 : -1;
+  const after = options.cursor ? decodeCursor(options.cursor) : null;
+  const from = options.from?.getTime();
+  const to = options.to?.getTime();
+  const limit = normalizeLimit(options.limit);
+
+  const rows = records
+    .filter(record => {
+      const createdAt = record.createdAt.getTime();
+      if (from !== undefined && createdAt < from) return false;
+      if (to !== undefined && createdAt >= to) return false;
+      if (after && comparePosition(createdAt, record.id, after) * direction <= 0) return false;
+      return filter(record);
+    })
+    .sort((a, b) => comparePosition(a.createdAt.getTime(), a.id, positionOf(b)) * direction);
+
+  return toPage(rows.slice(0, limit + 1), limit);
+}
+
+function positionOf(item: { id: string; createdAt: Date }): CursorPosition {
+  return { createdAt: item.createdAt.getTime(), id: item.id };
+}
+
+function comparePosition(createdAt: number, id: string, other: CursorPosition): number {
+  if (createdAt !== other.createdAt) return createdAt < other.createdAt ? -1 : 1;
+  if (id === other.id) return 0;
+  return id < other.id ? -1 : 1;
+}
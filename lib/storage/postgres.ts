@@ -0,0 +1,1213 @@
+/**
+ * PostgreSQL Storage
+ * Durable Storage implementation for multi-instance deployments
+ *
+ * Works with a `pg` Pool (or any pool exposing `query()` and `connect()`).
+ * The pool is passed in, so `pg` is not a hard dependency.
+ */
+
+import type {
+  Storage,
+  PayLink,
+  Payment,
+  Subscription,
+  Referral,
+  ReferralCommission,
+  InstallmentPlan,
+  InstallmentPayment,
+  PaymentIntent,
+  ChainCheckpoint,
+  DerivationCounter,
+  AuthChallenge,
+  AccessTokenRevocation,
+  Page,
+  ListOptions,
+  ListPayLinksOptions,
+  ListPaymentsOptions,
+  ListSubscriptionsOptions,
+  ListReferralsOptions,
+  ListCommissionsOptions,
+  ListInstallmentPlansOptions,
+  ListPaymentIntentsOptions,
+} from '../types.js';
+import { ConcurrentUpdateError } from './concurrency.js';
+import { decodeCursor, normalizeLimit, toPage } from './pagination.js';
+import {
+  serializeEntity,
+  deserializeEntity,
+  normalizeAddress,
+  type EntityType,
+  type EntityMap,
+} from './serialization.js';
+
+/**
+ * Query result returned by the pool
+ */
+export interface PostgresQueryResult {
+  rows: any[];
+  rowCount: number | null;
+}
+
+/**
+ * Single connection checked out from the pool
+ */
+export interface PostgresPoolClient {
+  query(text: string, params?: unknown[]): Promise<PostgresQueryResult>;
+  release(): void;
+}
+
+/**
+ * Minimal connection pool interface (compatible with `pg.Pool`)
+ */
+export interface PostgresPool {
+  query(text: string, params?: unknown[]): Promise<PostgresQueryResult>;
+  connect(): Promise<PostgresPoolClient>;
+  end?(): Promise<void>;
+}
+
+/**
+ * PostgreSQL storage configuration
+ */
+export interface PostgresStorageConfig {
+  /** Connection pool */
+  pool: PostgresPool;
+}
+
+/**
+ * Versioned schema migration
+ */
+export interface PostgresMigration {
+  version: number;
+  description: string;
+  statements: string[];
+}
+
+/**
+ * Schema migrations, applied in order by `migrate()`
+ */
+export const POSTGRES_MIGRATIONS: PostgresMigration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    statements: [
+      `CREATE TABLE paylink_links (
+        id TEXT PRIMARY KEY,
+        seq BIGSERIAL,
+        status TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        data JSONB NOT NULL
+      )`,
+      `CREATE TABLE paylink_payments (
+        id TEXT PRIMARY KEY,
+        seq BIGSERIAL,
+        pay_link_id TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        from_address TEXT NOT NULL,
+        confirmed BOOLEAN NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        data JSONB NOT NULL
+      )`,
+      'CREATE INDEX paylink_payments_tx_hash ON paylink_payments (tx_hash)',
+      'CREATE INDEX paylink_payments_link ON paylink_payments (pay_link_id, confirmed)',
+      'CREATE INDEX paylink_payments_address ON paylink_payments (pay_link_id, from_address)',
+      `CREATE TABLE paylink_subscriptions (
+        id TEXT PRIMARY KEY,
+        seq BIGSERIAL,
+        pay_link_id TEXT NOT NULL,
+        subscriber_address TEXT NOT NULL,
+        status TEXT NOT NULL,
+        next_payment_due TIMESTAMPTZ NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        data JSONB NOT NULL
+      )`,
+      'CREATE INDEX paylink_subscriptions_address ON paylink_subscriptions (pay_link_id, subscriber_address)',
+      `CREATE INDEX paylink_subscriptions_due ON paylink_subscriptions (next_payment_due)
+        WHERE status = 'active'`,
+      `CREATE TABLE paylink_referrals (
+        id TEXT PRIMARY KEY,
+        seq BIGSERIAL,
+        code TEXT NOT NULL,
+        pay_link_id TEXT NOT NULL,
+        referrer_address TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        data JSONB NOT NULL
+      )`,
+      'CREATE INDEX paylink_referrals_code ON paylink_referrals (code)',
+      'CREATE INDEX paylink_referrals_link ON paylink_referrals (pay_link_id)',
+      'CREATE INDEX paylink_referrals_referrer ON paylink_referrals (referrer_address)',
+      `CREATE TABLE paylink_commissions (
+        id TEXT PRIMARY KEY,
+        seq BIGSERIAL,
+        referral_id TEXT NOT NULL,
+        payment_id TEXT NOT NULL,
+        referrer_address TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        data JSONB NOT NULL
+      )`,
+      'CREATE INDEX paylink_commissions_referral ON paylink_commissions (referral_id)',
+      'CREATE INDEX paylink_commissions_referrer ON paylink_commissions (referrer_address, status)',
+      `CREATE TABLE paylink_installment_plans (
+        id TEXT PRIMARY KEY,
+        seq BIGSERIAL,
+        pay_link_id TEXT NOT NULL,
+        buyer_address TEXT NOT NULL,
+        status TEXT NOT NULL,
+        next_due_date TIMESTAMPTZ NOT NULL,
+        grace_period_days INTEGER NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        data JSONB NOT NULL
+      )`,
+      'CREATE INDEX paylink_installment_plans_address ON paylink_installment_plans (pay_link_id, buyer_address)',
+      'CREATE INDEX paylink_installment_plans_buyer ON paylink_installment_plans (buyer_address)',
+      'CREATE INDEX paylink_installment_plans_due ON paylink_installment_plans (status, next_due_date)',
+      `CREATE TABLE paylink_installment_payments (
+        id TEXT PRIMARY KEY,
+        seq BIGSERIAL,
+        installment_plan_id TEXT NOT NULL,
+        buyer_address TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        data JSONB NOT NULL
+      )`,
+      'CREATE INDEX paylink_installment_payments_plan ON paylink_installment_payments (installment_plan_id)',
+      'CREATE INDEX paylink_installment_payments_buyer ON paylink_installment_payments (buyer_address)',
+    ],
+  },
+  {
+    version: 2,
+    description: 'Optimistic concurrency versions',
+    statements: [
+      'ALTER TABLE paylink_links ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      'ALTER TABLE paylink_subscriptions ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      'ALTER TABLE paylink_referrals ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      'ALTER TABLE paylink_commissions ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      'ALTER TABLE paylink_installment_plans ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      'ALTER TABLE paylink_installment_payments ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      `UPDATE paylink_links SET data = data || '{"version": 0}'::jsonb`,
+      `UPDATE paylink_subscriptions SET data = data || '{"version": 0}'::jsonb`,
+      `UPDATE paylink_referrals SET data = data || '{"version": 0}'::jsonb`,
+      `UPDATE paylink_commissions SET data = data || '{"version": 0}'::jsonb`,
+      `UPDATE paylink_installment_plans SET data = data || '{"version": 0}'::jsonb`,
+      `UPDATE paylink_installment_payments SET data = data || '{"version": 0}'::jsonb`,
+    ],
+  },
+  {
+    version: 3,
+    description: 'Listing filters and cursor indexes',
+    statements: [
+      'ALTER TABLE paylink_payments ADD COLUMN chain_id INTEGER',
+      `UPDATE paylink_payments SET chain_id = (data->>'chainId')::int`,
+      `ALTER TABLE paylink_referrals ADD COLUMN status TEXT NOT NULL DEFAULT 'active'`,
+      `UPDATE paylink_referrals SET status = data->>'status'`,
+      'CREATE INDEX paylink_links_created ON paylink_links (created_at, id COLLATE "C")',
+      'CREATE INDEX paylink_payments_created ON paylink_payments (created_at, id COLLATE "C")',
+      'CREATE INDEX paylink_subscriptions_created ON paylink_subscriptions (created_at, id COLLATE "C")',
+      'CREATE INDEX paylink_referrals_created ON paylink_referrals (created_at, id COLLATE "C")',
+      'CREATE INDEX paylink_commissions_created ON paylink_commissions (created_at, id COLLATE "C")',
+      'CREATE INDEX paylink_installment_plans_created ON paylink_installment_plans (created_at, id COLLATE "C")',
+    ],
+  },
+  {
+    version: 4,
+    description: 'Payment intents',
+    statements: [
+      `CREATE TABLE paylink_payment_intents (
+        id TEXT PRIMARY KEY,
+        seq BIGSERIAL,
+        chain_id INTEGER NOT NULL,
+        reference TEXT,
+        status TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL,
+        version INTEGER NOT NULL DEFAULT 0,
+        data JSONB NOT NULL
+      )`,
+      'CREATE INDEX paylink_payment_intents_reference ON paylink_payment_intents (reference)',
+      'CREATE INDEX paylink_payment_intents_open ON paylink_payment_intents (status, chain_id, created_at)',
+    ],
+  },
+  {
+    version: 5,
+    description: 'Chain checkpoints',
+    statements: [
+      `CREATE TABLE paylink_chain_checkpoints (
+        chain_id INTEGER PRIMARY KEY,
+        data JSONB NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 6,
+    description: 'Derivation indexes',
+    statements: [
+      `CREATE TABLE paylink_derivation_indexes (
+        chain_id INTEGER PRIMARY KEY,
+        next_index INTEGER NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 7,
+    description: 'Payment finality',
+    statements: [
+      // Payments recorded before finality tracking are treated as final
+      'ALTER TABLE paylink_payments ADD COLUMN finalized BOOLEAN NOT NULL DEFAULT TRUE',
+      'CREATE INDEX paylink_payments_unfinalized ON paylink_payments (chain_id, created_at) WHERE confirmed AND NOT finalized',
+    ],
+  },
+  {
+    version: 8,
+    description: 'Sign-in challenges',
+    statements: [
+      `CREATE TABLE paylink_auth_challenges (
+        nonce TEXT PRIMARY KEY,
+        expires_at TIMESTAMPTZ NOT NULL,
+        data JSONB NOT NULL
+      )`,
+      'CREATE INDEX paylink_auth_challenges_expires ON paylink_auth_challenges (expires_at)',
+    ],
+  },
+  {
+    version: 9,
+    description: 'Access token denylist',
+    statements: [
+      `CREATE TABLE paylink_access_token_revocations (
+        id TEXT PRIMARY KEY,
+        expires_at TIMESTAMPTZ NOT NULL,
+        data JSONB NOT NULL
+      )`,
+      'CREATE INDEX paylink_access_token_revocations_expires ON paylink_access_token_revocations (expires_at)',
+    ],
+  },
+  {
+    version: 10,
+    description: 'Re-checked reverted payments',
+    statements: [
+      // Payments reverted before this migration are not re-checked
+      'ALTER TABLE paylink_payments ADD COLUMN reverted BOOLEAN NOT NULL DEFAULT FALSE',
+      'DROP INDEX paylink_payments_unfinalized',
+      'CREATE INDEX paylink_payments_unfinalized ON paylink_payments (chain_id, created_at) WHERE NOT finalized AND (confirmed OR reverted)',
+    ],
+  },
+  {
+    version: 11,
+    description: 'One payment per transaction',
+    statements: [
+      // Later payments of an already recorded transaction keep their row but no longer match its hash
+      `UPDATE paylink_payments SET tx_hash = tx_hash || ':' || id
+       WHERE EXISTS (
+         SELECT 1 FROM paylink_payments first
+         WHERE first.chain_id = paylink_payments.chain_id AND first.tx_hash = paylink_payments.tx_hash
+           AND (first.created_at, first.seq) < (paylink_payments.created_at, paylink_payments.seq)
+       )`,
+      'CREATE UNIQUE INDEX paylink_payments_chain_tx ON paylink_payments (chain_id, tx_hash)',
+    ],
+  },
+];
+
+/** Bumps the version column and mirrors it into the JSON payload */
+function versionSet(dataParam: number): string {
+  return `version = version + 1, data = jsonb_set($${dataParam}::jsonb, '{version}', to_jsonb(version + 1))`;
+}
+
+/** Compare-and-swap guard; skipped when the caller passes no version */
+function versionMatch(versionParam: number): string {
+  return `($${versionParam}::int IS NULL OR version = $${versionParam}::int)`;
+}
+
+/** Advisory lock key serializing concurrent migration runs */
+const MIGRATION_LOCK_KEY = 402403;
+
+/**
+ * PostgreSQL storage implementation
+ */
+export class PostgresStorage implements Storage {
+  private pool: PostgresPool;
+
+  constructor(config: PostgresStorageConfig) {
+    this.pool = config.pool;
+  }
+
+  /**
+   * Prepare the database: applies pending migrations
+   */
+  async init(): Promise<void> {
+    await this.migrate();
+  }
+
+  /**
+   * Close the underlying connection pool
+   */
+  async close(): Promise<void> {
+    await this.pool.end?.();
+  }
+
+  /**
+   * Apply pending schema migrations
+   * Safe to run from several instances at once (guarded by an advisory lock)
+   * Returns the schema version after migrating
+   */
+  async migrate(): Promise<number> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_KEY]);
+      await client.query(`CREATE TABLE IF NOT EXISTS paylink_schema_migrations (
+        version INTEGER PRIMARY KEY,
+        description TEXT NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )`);
+
+      const result = await client.query('SELECT MAX(version) AS version FROM paylink_schema_migrations');
+      let current = Number(result.rows[0]?.version ?? 0);
+
+      for (const migration of POSTGRES_MIGRATIONS) {
+        if (migration.version <= current) continue;
+
+        for (const statement of migration.statements) {
+          await client.query(statement);
+        }
+        await client.query(
+          'INSERT INTO paylink_schema_migrations (version, description) VALUES ($1, $2)',
+          [migration.version, migration.description]
+        );
+        current = migration.version;
+      }
+
+      await client.query('COMMIT');
+      return current;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new Error(`PostgreSQL migration failed: ${(error as Error).message}`);
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Get the currently applied schema version (0 if none)
+   */
+  async getSchemaVersion(): Promise<number> {
+    const exists = await this.pool.query("SELECT to_regclass('paylink_schema_migrations') AS name");
+    if (!exists.rows[0]?.name) {
+      return 0;
+    }
+    const result = await this.pool.query('SELECT MAX(version) AS version FROM paylink_schema_migrations');
+    return Number(result.rows[0]?.version ?? 0);
+  }
+
+  async getPayLink(id: string): Promise<PayLink | null> {
+    return this.one('payLink', 'SELECT data FROM paylink_links WHERE id = $1', [id]);
+  }
+
+  async savePayLink(payLink: PayLink): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO paylink_links (id, status, created_at, version, data) VALUES ($1, $2, $3, $4, $5::jsonb)
+       ON CONFLICT (id) DO UPDATE SET status = EXCLUDED.status, version = EXCLUDED.version, data = EXCLUDED.data`,
+      [
+        payLink.id,
+        payLink.status,
+        payLink.createdAt,
+        payLink.version ?? 0,
+        serializeEntity({ ...payLink, version: payLink.version ?? 0 }),
+      ]
+    );
+  }
+
+  async updatePayLink(payLink: PayLink): Promise<void> {
+    const updated = { ...payLink, updatedAt: new Date() };
+    const result = await this.pool.query(
+      `UPDATE paylink_links SET status = $1, ${versionSet(2)}
+       WHERE id = $3 AND ${versionMatch(4)}`,
+      [updated.status, serializeEntity(updated), payLink.id, payLink.version ?? null]
+    );
+    await this.checkUpdated(result, 'paylink_links', 'PayLink', payLink.id);
+  }
+
+  async incrementUsage(payLinkId: string, maxUses?: number): Promise<PayLink | null> {
+    // Row lock + re-evaluated WHERE make this safe across concurrent instances
+    const result = await this.pool.query(
+      `UPDATE paylink_links
+       SET version = version + 1,
+           data = data || jsonb_build_object(
+             'usedCount', COALESCE((data->>'usedCount')::int, 0) + 1,
+             'updatedAt', $2::text,
+             'version', version + 1
+           )
+       WHERE id = $1 AND ($3::int IS NULL OR COALESCE((data->>'usedCount')::int, 0) < $3::int)
+       RETURNING data`,
+      [payLinkId, new Date().toISOString(), maxUses ?? null]
+    );
+
+    const row = result.rows[0];
+    if (row) {
+      return deserializeEntity('payLink', row.data);
+    }
+    if (!(await this.exists('paylink_links', payLinkId))) {
+      throw new Error(`PayLink ${payLinkId} not found`);
+    }
+    return null;
+  }
+
+  async deletePayLink(id: string): Promise<void> {
+    await this.pool.query('DELETE FROM paylink_links WHERE id = $1', [id]);
+  }
+
+  async getAllPayLinks(): Promise<PayLink[]> {
+    return this.many('payLink', 'SELECT data FROM paylink_links ORDER BY created_at, seq');
+  }
+
+  async listPayLinks(options: ListPayLinksOptions = {}): Promise<Page<PayLink>> {
+    return this.page('payLink', 'paylink_links', { status: options.status }, options);
+  }
+
+  async savePayment(payment: Payment): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO paylink_payments (id, pay_link_id, tx_hash, from_address, confirmed, finalized, reverted, chain_id, created_at, data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10::jsonb)
+       ON CONFLICT (id) DO UPDATE SET
+         tx_hash = EXCLUDED.tx_hash,
+         from_address = EXCLUDED.from_address,
+         confirmed = EXCLUDED.confirmed,
+         finalized = EXCLUDED.finalized,
+         reverted = EXCLUDED.reverted,
+         chain_id = EXCLUDED.chain_id,
+         data = EXCLUDED.data`,
+      [
+        payment.id,
+        payment.payLinkId,
+        payment.txHash,
+        normalizeAddress(payment.fromAddress),
+        payment.confirmed,
+        Boolean(payment.finalizedAt),
+        Boolean(payment.revertedAt),
+        payment.chainId,
+        payment.createdAt,
+        serializeEntity(payment),
+      ]
+    );
+  }
+
+  async insertPayment(payment: Payment): Promise<boolean> {
+    const result = await this.pool.query(
+      `INSERT INTO paylink_payments (id, pay_link_id, tx_hash, from_address, confirmed, finalized, reverted, chain_id, created_at, data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10::jsonb)
+       ON CONFLICT DO NOTHING`,
+      [
+        payment.id,
+        payment.payLinkId,
+        payment.txHash,
+        normalizeAddress(payment.fromAddress),
+        payment.confirmed,
+        Boolean(payment.finalizedAt),
+        Boolean(payment.revertedAt),
+        payment.chainId,
+        payment.createdAt,
+        serializeEntity(payment),
+      ]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getPaymentByTxHash(txHash: string): Promise<Payment | null> {
+    return this.one(
+      'payment',
+      'SELECT data FROM paylink_payments WHERE tx_hash = $1 ORDER BY created_at DESC, seq DESC LIMIT 1',
+      [txHash]
+    );
+  }
+
+  async getConfirmedPayment(payLinkId: string): Promise<Payment | null> {
+    return this.one(
+      'payment',
+      'SELECT data FROM paylink_payments WHERE pay_link_id = $1 AND confirmed ORDER BY created_at, seq LIMIT 1',
+      [payLinkId]
+    );
+  }
+
+  async getConfirmedPaymentByAddress(payLinkId: string, fromAddress: string): Promise<Payment | null> {
+    return this.one(
+      'payment',
+      `SELECT data FROM paylink_payments
+       WHERE pay_link_id = $1 AND from_address = $2 AND confirmed
+       ORDER BY created_at DESC, seq DESC LIMIT 1`,
+      [payLinkId, normalizeAddress(fromAddress)]
+    );
+  }
+
+  async getPaymentsByLink(payLinkId: string): Promise<Payment[]> {
+    return this.many(
+      'payment',
+      'SELECT data FROM paylink_payments WHERE pay_link_id = $1 ORDER BY created_at, seq',
+      [payLinkId]
+    );
+  }
+
+  async getAllPayments(): Promise<Payment[]> {
+    return this.many('payment', 'SELECT data FROM paylink_payments ORDER BY created_at, seq');
+  }
+
+  async getUnfinalizedPayments(chainId: number): Promise<Payment[]> {
+    return this.many(
+      'payment',
+      `SELECT data FROM paylink_payments
+       WHERE chain_id = $1 AND NOT finalized AND (confirmed OR reverted) ORDER BY created_at, seq`,
+      [chainId]
+    );
+  }
+
+  async listPayments(options: ListPaymentsOptions = {}): Promise<Page<Payment>> {
+    return this.page(
+      'payment',
+      'paylink_payments',
+      { pay_link_id: options.payLinkId, chain_id: options.chainId, confirmed: options.confirmed },
+      options
+    );
+  }
+
+  // Subscription methods
+
+  async saveSubscription(subscription: Subscription): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO paylink_subscriptions
+         (id, pay_link_id, subscriber_address, status, next_payment_due, created_at, version, data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb)
+       ON CONFLICT (id) DO UPDATE SET
+         status = EXCLUDED.status,
+         next_payment_due = EXCLUDED.next_payment_due,
+         version = EXCLUDED.version,
+         data = EXCLUDED.data`,
+      [
+        subscription.id,
+        subscription.payLinkId,
+        normalizeAddress(subscription.subscriberAddress),
+        subscription.status,
+        subscription.nextPaymentDue,
+        subscription.createdAt,
+        subscription.version ?? 0,
+        serializeEntity({ ...subscription, version: subscription.version ?? 0 }),
+      ]
+    );
+  }
+
+  async getSubscription(id: string): Promise<Subscription | null> {
+    return this.one('subscription', 'SELECT data FROM paylink_subscriptions WHERE id = $1', [id]);
+  }
+
+  async updateSubscription(subscription: Subscription): Promise<void> {
+    const updated = { ...subscription, updatedAt: new Date() };
+    const result = await this.pool.query(
+      `UPDATE paylink_subscriptions SET status = $1, next_payment_due = $2, ${versionSet(3)}
+       WHERE id = $4 AND ${versionMatch(5)}`,
+      [updated.status, updated.nextPaymentDue, serializeEntity(updated), subscription.id, subscription.version ?? null]
+    );
+    await this.checkUpdated(result, 'paylink_subscriptions', 'Subscription', subscription.id);
+  }
+
+  async getSubscriptionByAddress(payLinkId: string, subscriberAddress: string): Promise<Subscription | null> {
+    return this.one(
+      'subscription',
+      `SELECT data FROM paylink_subscriptions
+       WHERE pay_link_id = $1 AND subscriber_address = $2
+       ORDER BY created_at DESC, seq DESC LIMIT 1`,
+      [payLinkId, normalizeAddress(subscriberAddress)]
+    );
+  }
+
+  async getSubscriptionsByPayLink(payLinkId: string): Promise<Subscription[]> {
+    return this.many(
+      'subscription',
+      'SELECT data FROM paylink_subscriptions WHERE pay_link_id = $1 ORDER BY created_at, seq',
+      [payLinkId]
+    );
+  }
+
+  async getSubscriptionsDue(beforeDate: Date): Promise<Subscription[]> {
+    return this.many(
+      'subscription',
+      `SELECT data FROM paylink_subscriptions
+       WHERE status = 'active' AND next_payment_due <= $1
+       ORDER BY next_payment_due, seq`,
+      [beforeDate]
+    );
+  }
+
+  async getAllSubscriptions(): Promise<Subscription[]> {
+    return this.many('subscription', 'SELECT data FROM paylink_subscriptions ORDER BY created_at, seq');
+  }
+
+  async listSubscriptions(options: ListSubscriptionsOptions = {}): Promise<Page<Subscription>> {
+    const subscriber = options.subscriberAddress ? normalizeAddress(options.subscriberAddress) : undefined;
+    return this.page(
+      'subscription',
+      'paylink_subscriptions',
+      { pay_link_id: options.payLinkId, subscriber_address: subscriber, status: options.status },
+      options
+    );
+  }
+
+  // Referral methods
+
+  async saveReferral(referral: Referral): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO paylink_referrals (id, code, pay_link_id, referrer_address, status, created_at, version, data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb)
+       ON CONFLICT (id) DO UPDATE SET
+         code = EXCLUDED.code,
+         status = EXCLUDED.status,
+         version = EXCLUDED.version,
+         data = EXCLUDED.data`,
+      [
+        referral.id,
+        referral.code.toUpperCase(),
+        referral.payLinkId,
+        normalizeAddress(referral.referrerAddress),
+        referral.status,
+        referral.createdAt,
+        referral.version ?? 0,
+        serializeEntity({ ...referral, version: referral.version ?? 0 }),
+      ]
+    );
+  }
+
+  async getReferral(id: string): Promise<Referral | null> {
+    return this.one('referral', 'SELECT data FROM paylink_referrals WHERE id = $1', [id]);
+  }
+
+  async getReferralByCode(code: string): Promise<Referral | null> {
+    return this.one(
+      'referral',
+      'SELECT data FROM paylink_referrals WHERE code = $1 ORDER BY created_at DESC, seq DESC LIMIT 1',
+      [code.toUpperCase()]
+    );
+  }
+
+  async updateReferral(referral: Referral): Promise<void> {
+    const updated = { ...referral, updatedAt: new Date() };
+    const result = await this.pool.query(
+      `UPDATE paylink_referrals SET code = $1, status = $2, ${versionSet(3)}
+       WHERE id = $4 AND ${versionMatch(5)}`,
+      [updated.code.toUpperCase(), updated.status, serializeEntity(updated), referral.id, referral.version ?? null]
+    );
+    await this.checkUpdated(result, 'paylink_referrals', 'Referral', referral.id);
+  }
+
+  async getReferralsByPayLink(payLinkId: string): Promise<Referral[]> {
+    return this.many(
+      'referral',
+      'SELECT data FROM paylink_referrals WHERE pay_link_id = $1 ORDER BY created_at, seq',
+      [payLinkId]
+    );
+  }
+
+  async getReferralsByReferrer(referrerAddress: string): Promise<Referral[]> {
+    return this.many(
+      'referral',
+      'SELECT data FROM paylink_referrals WHERE referrer_address = $1 ORDER BY created_at, seq',
+      [normalizeAddress(referrerAddress)]
+    );
+  }
+
+  async getAllReferrals(): Promise<Referral[]> {
+    return this.many('referral', 'SELECT data FROM paylink_referrals ORDER BY created_at, seq');
+  }
+
+  async listReferrals(options: ListReferralsOptions = {}): Promise<Page<Referral>> {
+    const referrer = options.referrerAddress ? normalizeAddress(options.referrerAddress) : undefined;
+    return this.page(
+      'referral',
+      'paylink_referrals',
+      { pay_link_id: options.payLinkId, referrer_address: referrer, status: options.status },
+      options
+    );
+  }
+
+  // Referral commission methods
+
+  async saveCommission(commission: ReferralCommission): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO paylink_commissions
+         (id, referral_id, payment_id, referrer_address, status, created_at, version, data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb)
+       ON CONFLICT (id) DO UPDATE SET status = EXCLUDED.status, version = EXCLUDED.version, data = EXCLUDED.data`,
+      [
+        commission.id,
+        commission.referralId,
+        commission.paymentId,
+        normalizeAddress(commission.referrerAddress),
+        commission.status,
+        commission.createdAt,
+        commission.version ?? 0,
+        serializeEntity({ ...commission, version: commission.version ?? 0 }),
+      ]
+    );
+  }
+
+  async getCommission(id: string): Promise<ReferralCommission | null> {
+    return this.one('commission', 'SELECT data FROM paylink_commissions WHERE id = $1', [id]);
+  }
+
+  async updateCommission(commission: ReferralCommission): Promise<void> {
+    const result = await this.pool.query(
+      `UPDATE paylink_commissions SET status = $1, ${versionSet(2)}
+       WHERE id = $3 AND ${versionMatch(4)}`,
+      [commission.status, serializeEntity(commission), commission.id, commission.version ?? null]
+    );
+    await this.checkUpdated(result, 'paylink_commissions', 'Commission', commission.id);
+  }
+
+  async getCommissionsByReferral(referralId: string): Promise<ReferralCommission[]> {
+    return this.many(
+      'commission',
+      'SELECT data FROM paylink_commissions WHERE referral_id = $1 ORDER BY created_at, seq',
+      [referralId]
+    );
+  }
+
+  async getCommissionsByReferrer(referrerAddress: string): Promise<ReferralCommission[]> {
+    return this.many(
+      'commission',
+      'SELECT data FROM paylink_commissions WHERE referrer_address = $1 ORDER BY created_at, seq',
+      [normalizeAddress(referrerAddress)]
+    );
+  }
+
+  async getPendingCommissions(referrerAddress: string): Promise<ReferralCommission[]> {
+    return this.many(
+      'commission',
+      `SELECT data FROM paylink_commissions
+       WHERE referrer_address = $1 AND status = 'confirmed'
+       ORDER BY created_at, seq`,
+      [normalizeAddress(referrerAddress)]
+    );
+  }
+
+  async getAllCommissions(): Promise<ReferralCommission[]> {
+    return this.many('commission', 'SELECT data FROM paylink_commissions ORDER BY created_at, seq');
+  }
+
+  async listCommissions(options: ListCommissionsOptions = {}): Promise<Page<ReferralCommission>> {
+    const referrer = options.referrerAddress ? normalizeAddress(options.referrerAddress) : undefined;
+    return this.page(
+      'commission',
+      'paylink_commissions',
+      { referral_id: options.referralId, referrer_address: referrer, status: options.status },
+      options
+    );
+  }
+
+  // Installment plan methods
+
+  async saveInstallmentPlan(plan: InstallmentPlan): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO paylink_installment_plans
+         (id, pay_link_id, buyer_address, status, next_due_date, grace_period_days, created_at, version, data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9::jsonb)
+       ON CONFLICT (id) DO UPDATE SET
+         status = EXCLUDED.status,
+         next_due_date = EXCLUDED.next_due_date,
+         grace_period_days = EXCLUDED.grace_period_days,
+         version = EXCLUDED.version,
+         data = EXCLUDED.data`,
+      [
+        plan.id,
+        plan.payLinkId,
+        normalizeAddress(plan.buyerAddress),
+        plan.status,
+        plan.nextDueDate,
+        plan.gracePeriodDays,
+        plan.createdAt,
+        plan.version ?? 0,
+        serializeEntity({ ...plan, version: plan.version ?? 0 }),
+      ]
+    );
+  }
+
+  async getInstallmentPlan(id: string): Promise<InstallmentPlan | null> {
+    return this.one('installmentPlan', 'SELECT data FROM paylink_installment_plans WHERE id = $1', [id]);
+  }
+
+  async updateInstallmentPlan(plan: InstallmentPlan): Promise<void> {
+    const updated = { ...plan, updatedAt: new Date() };
+    const result = await this.pool.query(
+      `UPDATE paylink_installment_plans
+       SET status = $1, next_due_date = $2, grace_period_days = $3, ${versionSet(4)}
+       WHERE id = $5 AND ${versionMatch(6)}`,
+      [
+        updated.status,
+        updated.nextDueDate,
+        updated.gracePeriodDays,
+        serializeEntity(updated),
+        plan.id,
+        plan.version ?? null,
+      ]
+    );
+    await this.checkUpdated(result, 'paylink_installment_plans', 'Installment plan', plan.id);
+  }
+
+  async getInstallmentPlanByAddress(payLinkId: string, buyerAddress: string): Promise<InstallmentPlan | null> {
+    return this.one(
+      'installmentPlan',
+      `SELECT data FROM paylink_installment_plans
+       WHERE pay_link_id = $1 AND buyer_address = $2
+       ORDER BY created_at DESC, seq DESC LIMIT 1`,
+      [payLinkId, normalizeAddress(buyerAddress)]
+    );
+  }
+
+  async getInstallmentPlansByPayLink(payLinkId: string): Promise<InstallmentPlan[]> {
+    return this.many(
+      'installmentPlan',
+      'SELECT data FROM paylink_installment_plans WHERE pay_link_id = $1 ORDER BY created_at, seq',
+      [payLinkId]
+    );
+  }
+
+  async getInstallmentPlansByBuyer(buyerAddress: string): Promise<InstallmentPlan[]> {
+    return this.many(
+      'installmentPlan',
+      'SELECT data FROM paylink_installment_plans WHERE buyer_address = $1 ORDER BY created_at, seq',
+      [normalizeAddress(buyerAddress)]
+    );
+  }
+
+  async getOverdueInstallmentPlans(): Promise<InstallmentPlan[]> {
+    return this.many(
+      'installmentPlan',
+      `SELECT data FROM paylink_installment_plans
+       WHERE status = 'active' AND next_due_date + grace_period_days * INTERVAL '1 day' < now()
+       ORDER BY next_due_date, seq`
+    );
+  }
+
+  async getInstallmentPlansDueBefore(date: Date): Promise<InstallmentPlan[]> {
+    return this.many(
+      'installmentPlan',
+      `SELECT data FROM paylink_installment_plans
+       WHERE status IN ('active', 'pending') AND next_due_date <= $1
+       ORDER BY next_due_date, seq`,
+      [date]
+    );
+  }
+
+  async getAllInstallmentPlans(): Promise<InstallmentPlan[]> {
+    return this.many('installmentPlan', 'SELECT data FROM paylink_installment_plans ORDER BY created_at, seq');
+  }
+
+  async listInstallmentPlans(options: ListInstallmentPlansOptions = {}): Promise<Page<InstallmentPlan>> {
+    const buyer = options.buyerAddress ? normalizeAddress(options.buyerAddress) : undefined;
+    return this.page(
+      'installmentPlan',
+      'paylink_installment_plans',
+      { pay_link_id: options.payLinkId, buyer_address: buyer, status: options.status },
+      options
+    );
+  }
+
+  // Installment payment methods
+
+  async saveInstallmentPayment(payment: InstallmentPayment): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO paylink_installment_payments (id, installment_plan_id, buyer_address, created_at, version, data)
+       VALUES ($1, $2, $3, $4, $5, $6::jsonb)
+       ON CONFLICT (id) DO UPDATE SET version = EXCLUDED.version, data = EXCLUDED.data`,
+      [
+        payment.id,
+        payment.installmentPlanId,
+        normalizeAddress(payment.buyerAddress),
+        payment.createdAt,
+        payment.version ?? 0,
+        serializeEntity({ ...payment, version: payment.version ?? 0 }),
+      ]
+    );
+  }
+
+  async getInstallmentPayment(id: string): Promise<InstallmentPayment | null> {
+    return this.one('installmentPayment', 'SELECT data FROM paylink_installment_payments WHERE id = $1', [id]);
+  }
+
+  async updateInstallmentPayment(payment: InstallmentPayment): Promise<void> {
+    const result = await this.pool.query(
+      `UPDATE paylink_installment_payments SET ${versionSet(1)}
+       WHERE id = $2 AND ${versionMatch(3)}`,
+      [serializeEntity(payment), payment.id, payment.version ?? null]
+    );
+    await this.checkUpdated(result, 'paylink_installment_payments', 'Installment payment', payment.id);
+  }
+
+  async getInstallmentPaymentsByPlan(planId: string): Promise<InstallmentPayment[]> {
+    return this.many(
+      'installmentPayment',
+      'SELECT data FROM paylink_installment_payments WHERE installment_plan_id = $1 ORDER BY created_at, seq',
+      [planId]
+    );
+  }
+
+  async getInstallmentPaymentsByBuyer(buyerAddress: string): Promise<InstallmentPayment[]> {
+    return this.many(
+      'installmentPayment',
+      'SELECT data FROM paylink_installment_payments WHERE buyer_address = $1 ORDER BY created_at, seq',
+      [normalizeAddress(buyerAddress)]
+    );
+  }
+
+  async getAllInstallmentPayments(): Promise<InstallmentPayment[]> {
+    return this.many(
+      'installmentPayment',
+      'SELECT data FROM paylink_installment_payments ORDER BY created_at, seq'
+    );
+  }
+
+  // Payment intent methods
+
+  async savePaymentIntent(intent: PaymentIntent): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO paylink_payment_intents (id, chain_id, reference, status, created_at, version, data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb)
+       ON CONFLICT (id) DO UPDATE SET
+         reference = EXCLUDED.reference, status = EXCLUDED.status, version = EXCLUDED.version, data = EXCLUDED.data`,
+      [
+        intent.id,
+        intent.chainId,
+        intent.reference ?? null,
+        intent.status,
+        intent.createdAt,
+        intent.version ?? 0,
+        serializeEntity({ ...intent, version: intent.version ?? 0 }),
+      ]
+    );
+  }
+
+  async getPaymentIntent(id: string): Promise<PaymentIntent | null> {
+    return this.one('paymentIntent', 'SELECT data FROM paylink_payment_intents WHERE id = $1', [id]);
+  }
+
+  async getPaymentIntentByReference(reference: string): Promise<PaymentIntent | null> {
+    return this.one(
+      'paymentIntent',
+      'SELECT data FROM paylink_payment_intents WHERE reference = $1 ORDER BY created_at, seq LIMIT 1',
+      [reference]
+    );
+  }
+
+  async updatePaymentIntent(intent: PaymentIntent): Promise<void> {
+    const updated = { ...intent, updatedAt: new Date() };
+    const result = await this.pool.query(
+      `UPDATE paylink_payment_intents SET reference = $1, status = $2, ${versionSet(3)}
+       WHERE id = $4 AND ${versionMatch(5)}`,
+      [updated.reference ?? null, updated.status, serializeEntity(updated), intent.id, intent.version ?? null]
+    );
+    await this.checkUpdated(result, 'paylink_payment_intents', 'Payment intent', intent.id);
+  }
+
+  async getOpenPaymentIntents(chainId: number): Promise<PaymentIntent[]> {
+    return this.many(
+      'paymentIntent',
+      `SELECT data FROM paylink_payment_intents
+       WHERE status = 'open' AND chain_id = $1 ORDER BY created_at, seq`,
+      [chainId]
+    );
+  }
+
+  async getExpiredDepositIntents(chainId: number, limit: number): Promise<PaymentIntent[]> {
+    return this.many(
+      'paymentIntent',
+      `SELECT data FROM paylink_payment_intents
+       WHERE status = 'expired' AND chain_id = $1 AND data->'derivationIndex' IS NOT NULL
+       ORDER BY created_at, seq LIMIT $2`,
+      [chainId, limit]
+    );
+  }
+
+  async listPaymentIntents(options: ListPaymentIntentsOptions = {}): Promise<Page<PaymentIntent>> {
+    return this.page(
+      'paymentIntent',
+      'paylink_payment_intents',
+      { chain_id: options.chainId, status: options.status },
+      options
+    );
+  }
+
+  // Chain checkpoint methods
+
+  async getChainCheckpoint(chainId: number): Promise<ChainCheckpoint | null> {
+    return this.one('chainCheckpoint', 'SELECT data FROM paylink_chain_checkpoints WHERE chain_id = $1', [chainId]);
+  }
+
+  async saveChainCheckpoint(checkpoint: ChainCheckpoint): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO paylink_chain_checkpoints (chain_id, data) VALUES ($1, $2::jsonb)
+       ON CONFLICT (chain_id) DO UPDATE SET data = EXCLUDED.data`,
+      [checkpoint.chainId, serializeEntity(checkpoint)]
+    );
+  }
+
+  async getChainCheckpoints(): Promise<ChainCheckpoint[]> {
+    return this.many('chainCheckpoint', 'SELECT data FROM paylink_chain_checkpoints ORDER BY chain_id');
+  }
+
+  // Deposit address methods
+
+  async nextDerivationIndex(chainId: number): Promise<number> {
+    const result = await this.pool.query(
+      `INSERT INTO paylink_derivation_indexes (chain_id, next_index) VALUES ($1, 1)
+       ON CONFLICT (chain_id) DO UPDATE SET next_index = paylink_derivation_indexes.next_index + 1
+       RETURNING next_index`,
+      [chainId]
+    );
+    return Number(result.rows[0].next_index) - 1;
+  }
+
+  async getDerivationCounters(): Promise<DerivationCounter[]> {
+    const result = await this.pool.query(
+      'SELECT chain_id, next_index FROM paylink_derivation_indexes ORDER BY chain_id'
+    );
+    return result.rows.map(row => ({ chainId: Number(row.chain_id), nextIndex: Number(row.next_index) }));
+  }
+
+  async restoreDerivationCounter(counter: DerivationCounter): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO paylink_derivation_indexes (chain_id, next_index) VALUES ($1, $2)
+       ON CONFLICT (chain_id) DO UPDATE
+       SET next_index = GREATEST(paylink_derivation_indexes.next_index, EXCLUDED.next_index)`,
+      [counter.chainId, counter.nextIndex]
+    );
+  }
+
+  // Sign-in challenge methods
+
+  async saveAuthChallenge(challenge: AuthChallenge): Promise<void> {
+    await this.pool.query('DELETE FROM paylink_auth_challenges WHERE expires_at <= now()');
+    await this.pool.query(
+      'INSERT INTO paylink_auth_challenges (nonce, expires_at, data) VALUES ($1, $2, $3::jsonb)',
+      [challenge.nonce, challenge.expiresAt, serializeEntity(challenge)]
+    );
+  }
+
+  async consumeAuthChallenge(nonce: string): Promise<AuthChallenge | null> {
+    return this.one('authChallenge', 'DELETE FROM paylink_auth_challenges WHERE nonce = $1 RETURNING data', [nonce]);
+  }
+
+  // Access token denylist methods
+
+  async saveAccessTokenRevocation(revocation: AccessTokenRevocation): Promise<void> {
+    await this.pool.query('DELETE FROM paylink_access_token_revocations WHERE expires_at <= now()');
+    await this.pool.query(
+      `INSERT INTO paylink_access_token_revocations (id, expires_at, data) VALUES ($1, $2, $3::jsonb)
+       ON CONFLICT (id) DO UPDATE SET expires_at = EXCLUDED.expires_at, data = EXCLUDED.data`,
+      [revocation.id, revocation.expiresAt, serializeEntity(revocation)]
+    );
+  }
+
+  async getAccessTokenRevocation(id: string): Promise<AccessTokenRevocation | null> {
+    return this.one(
+      'accessTokenRevocation',
+      'SELECT data FROM paylink_access_token_revocations WHERE id = $1',
+      [id]
+    );
+  }
+
+  async getAccessTokenRevocations(): Promise<AccessTokenRevocation[]> {
+    return this.many(
+      'accessTokenRevocation',
+      'SELECT data FROM paylink_access_token_revocations WHERE expires_at > now() ORDER BY id'
+    );
+  }
+
+  private async exists(table: string, id: string): Promise<boolean> {
+    const result = await this.pool.query(`SELECT 1 FROM ${table} WHERE id = $1`, [id]);
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Distinguish "not found" from a lost compare-and-swap after a versioned update
+   */
+  private async checkUpdated(
+    result: PostgresQueryResult,
+    table: string,
+    entity: string,
+    id: string
+  ): Promise<void> {
+    if (result.rowCount) return;
+    if (await this.exists(table, id)) {
+      throw new ConcurrentUpdateError(entity, id);
+    }
+    throw new Error(`${entity} ${id} not found`);
+  }
+
+  private async one<K extends EntityType>(
+    type: K,
+    sql: string,
+    params: unknown[] = []
+  ): Promise<EntityMap[K] | null> {
+    const result = await this.pool.query(sql, params);
+    const row = result.rows[0];
+    return row ? deserializeEntity(type, row.data) : null;
+  }
+
+  private async many<K extends EntityType>(
+    type: K,
+    sql: string,
+    params: unknown[] = []
+  ): Promise<EntityMap[K][]> {
+    const result = await this.pool.query(sql, params);
+    return result.rows.map(row => deserializeEntity(type, row.data));
+  }
+
+  /**
+   * Keyset-paginated listing ordered by (created_at, id)
+   * `filters` maps column names to required values; undefined values are ignored.
+   * Ids compare bytewise (COLLATE "C") to match cursor order in every adapter.
+   */
+  private async page<K extends EntityType>(
+    type: K,
+    table: string,
+    filters: Record<string, unknown>,
+    options: ListOptions
+  ): Promise<Page<EntityMap[K]>> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+    const param = (value: unknown): string => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    for (const [column, value] of Object.entries(filters)) {
+      if (value === undefined) continue;
+      where.push(`${column} = ${param(value)}`);
+    }
+    if (options.from) {
+      where.push(`created_at >= ${param(options.from)}`);
+    }
+    if (options.to) {
+      where.push(`created_at < ${param(options.to)}`);
+    }
+
+    const desc = options.sort !== 'asc';
+    if (options.cursor) {
+      const after = decodeCursor(options.cursor);
+      const op = desc ? '<' : '>';
+      const createdAt = param(new Date(after.createdAt));
+      where.push(
+        `(created_at ${op} ${createdAt} OR (created_at = ${createdAt} AND id COLLATE "C" ${op} ${param(after.id)}))`
+      );
+    }
+
+    const limit = normalizeLimit(options.limit);
+    const order = desc ? 'DESC' : 'ASC';
+    const rows = await this.many(
+      type,
+      `SELECT data FROM ${table}${where.length ? ` WHERE ${where.join(' AND ')}` : ''}
+       ORDER BY created_at ${order}, id COLLATE "C" ${order} LIMIT ${param(limit + 1)}`,
+      params
+    );
+    return toPage(rows as Array<EntityMap[K] & { id: string; createdAt: Date }>, limit);
+  }
+}
+
+/**
+ * Create a PostgreSQL storage instance
+ */
+export function createPostgresStorage(config: PostgresStorageConfig): PostgresStorage {
+  return new PostgresStorage(config);
+}
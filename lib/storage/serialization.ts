@@ -0,0 +1,124 @@
+import type {
+  PayLink,
+  Payment,
+  Subscription,
+  Referral,
+  ReferralCommission,
+  InstallmentPlan,
+  InstallmentPayment,
+  PaymentIntent,
+  ChainCheckpoint,
+  DerivationCounter,
+  AuthChallenge,
+  AccessTokenRevocation,
+} from '../types.js';
+
+/**
+ * Entity kinds persisted by the Storage interface
+ */
+export type EntityType =
+  | 'payLink'
+  | 'payment'
+  | 'subscription'
+  | 'referral'
+  | 'commission'
+  | 'installmentPlan'
+  | 'installmentPayment'
+  | 'paymentIntent'
+  | 'chainCheckpoint'
+  | 'derivationCounter'
+  | 'authChallenge'
+  | 'accessTokenRevocation';
+
+/**
+ * Entity type to entity interface mapping
+ */
+export interface EntityMap {
+  payLink: PayLink;
+  payment: Payment;
+  subscription: Subscription;
+  referral: Referral;
+  commission: ReferralCommission;
+  installmentPlan: InstallmentPlan;
+  installmentPayment: InstallmentPayment;
+  paymentIntent: PaymentIntent;
+  chainCheckpoint: ChainCheckpoint;
+  derivationCounter: DerivationCounter;
+  authChallenge: AuthChallenge;
+  accessTokenRevocation: AccessTokenRevocation;
+}
+
+/**
+ * Date fields per entity, revived from ISO strings on read
+ */
+export const ENTITY_DATE_FIELDS: { [K in EntityType]: ReadonlyArray<keyof EntityMap[K]> } = {
+  payLink: ['createdAt', 'updatedAt', 'expiresAt'],
+  payment: ['createdAt', 'confirmedAt', 'finalizedAt', 'revertedAt'],
+  subscription: [
+    'currentPeriodStart',
+    'currentPeriodEnd',
+    'nextPaymentDue',
+    'createdAt',
+    'updatedAt',
+    'cancelledAt',
+    'pausedAt',
+    'trialEndsAt',
+  ],
+  referral: ['createdAt', 'updatedAt'],
+  commission: ['createdAt', 'confirmedAt', 'paidAt'],
+  installmentPlan: [
+    'nextDueDate',
+    'createdAt',
+    'updatedAt',
+    'activatedAt',
+    'completedAt',
+    'suspendedAt',
+    'cancelledAt',
+  ],
+  installmentPayment: ['dueDate', 'createdAt', 'confirmedAt'],
+  paymentIntent: ['createdAt', 'updatedAt', 'expiresAt'],
+  chainCheckpoint: ['updatedAt'],
+  derivationCounter: [],
+  authChallenge: ['createdAt', 'expiresAt'],
+  accessTokenRevocation: ['revokedAt', 'expiresAt'],
+};
+
+/**
+ * Serialize an entity to JSON (dates become ISO strings)
+ */
+export function serializeEntity(entity: object): string {
+  return JSON.stringify(entity);
+}
+
+/**
+ * Deserialize an entity from JSON text or an already parsed object
+ */
+export function deserializeEntity<K extends EntityType>(
+  type: K,
+  data: string | Record<string, unknown>
+): EntityMap[K] {
+  const parsed: Record<string, unknown> = typeof data === 'string' ? JSON.parse(data) : { ...data };
+
+  for (const field of ENTITY_DATE_FIELDS[type] as ReadonlyArray<string>) {
+    const value = parsed[field];
+    if (value !== undefined && value !== null) {
+      parsed[field] = new Date(value as string);
+    }
+  }
+
+  return parsed as unknown as EntityMap[K];
+}
+
+/**
+ * Convert an optional date to epoch milliseconds for indexed columns
+ */
+export function toTimestamp(date?: Date | null): number | null {
+  return date ? new Date(date).getTime() : null;
+}
+
+/**
+ * Normalize an address for case-insensitive lookups
+ */
+export function normalizeAddress(address?: string | null): string {
+  return (address ?? '').toLowerCase();
+}
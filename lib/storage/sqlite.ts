@@ -0,0 +1,1204 @@
+/**
+ * SQLite Storage
+ * Durable Storage implementation backed by a SQLite database
+ *
+ * Works with any synchronous SQLite driver exposing `exec()` and
+ * `prepare()` (better-sqlite3, node:sqlite `DatabaseSync`, ...).
+ * The driver is passed in, so it is not a hard dependency.
+ */
+
+import type {
+  Storage,
+  PayLink,
+  Payment,
+  Subscription,
+  Referral,
+  ReferralCommission,
+  InstallmentPlan,
+  InstallmentPayment,
+  PaymentIntent,
+  ChainCheckpoint,
+  DerivationCounter,
+  AuthChallenge,
+  AccessTokenRevocation,
+  Page,
+  ListOptions,
+  ListPayLinksOptions,
+  ListPaymentsOptions,
+  ListSubscriptionsOptions,
+  ListReferralsOptions,
+  ListCommissionsOptions,
+  ListInstallmentPlansOptions,
+  ListPaymentIntentsOptions,
+} from '../types.js';
+import { ConcurrentUpdateError } from './concurrency.js';
+import { decodeCursor, normalizeLimit, toPage } from './pagination.js';
+import {
+  serializeEntity,
+  deserializeEntity,
+  toTimestamp,
+  normalizeAddress,
+  type EntityType,
+  type EntityMap,
+} from './serialization.js';
+
+/**
+ * Minimal prepared statement interface
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Minimal SQLite database interface
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+  close?(): unknown;
+}
+
+/**
+ * SQLite storage configuration
+ */
+export interface SqliteStorageConfig {
+  /** Open database handle */
+  database: SqliteDatabase;
+}
+
+/**
+ * Versioned schema migration
+ */
+export interface SqliteMigration {
+  version: number;
+  description: string;
+  statements: string[];
+}
+
+/**
+ * Schema migrations, applied in order by `migrate()`
+ */
+export const SQLITE_MIGRATIONS: SqliteMigration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    statements: [
+      `CREATE TABLE paylink_links (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      `CREATE TABLE paylink_payments (
+        id TEXT PRIMARY KEY,
+        pay_link_id TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        from_address TEXT NOT NULL,
+        confirmed INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX paylink_payments_tx_hash ON paylink_payments (tx_hash)',
+      'CREATE INDEX paylink_payments_link ON paylink_payments (pay_link_id, confirmed)',
+      'CREATE INDEX paylink_payments_address ON paylink_payments (pay_link_id, from_address)',
+      `CREATE TABLE paylink_subscriptions (
+        id TEXT PRIMARY KEY,
+        pay_link_id TEXT NOT NULL,
+        subscriber_address TEXT NOT NULL,
+        status TEXT NOT NULL,
+        next_payment_due INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX paylink_subscriptions_address ON paylink_subscriptions (pay_link_id, subscriber_address)',
+      'CREATE INDEX paylink_subscriptions_due ON paylink_subscriptions (status, next_payment_due)',
+      `CREATE TABLE paylink_referrals (
+        id TEXT PRIMARY KEY,
+        code TEXT NOT NULL,
+        pay_link_id TEXT NOT NULL,
+        referrer_address TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX paylink_referrals_code ON paylink_referrals (code)',
+      'CREATE INDEX paylink_referrals_link ON paylink_referrals (pay_link_id)',
+      'CREATE INDEX paylink_referrals_referrer ON paylink_referrals (referrer_address)',
+      `CREATE TABLE paylink_commissions (
+        id TEXT PRIMARY KEY,
+        referral_id TEXT NOT NULL,
+        payment_id TEXT NOT NULL,
+        referrer_address TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX paylink_commissions_referral ON paylink_commissions (referral_id)',
+      'CREATE INDEX paylink_commissions_referrer ON paylink_commissions (referrer_address, status)',
+      `CREATE TABLE paylink_installment_plans (
+        id TEXT PRIMARY KEY,
+        pay_link_id TEXT NOT NULL,
+        buyer_address TEXT NOT NULL,
+        status TEXT NOT NULL,
+        next_due_date INTEGER NOT NULL,
+        grace_period_days INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX paylink_installment_plans_address ON paylink_installment_plans (pay_link_id, buyer_address)',
+      'CREATE INDEX paylink_installment_plans_buyer ON paylink_installment_plans (buyer_address)',
+      'CREATE INDEX paylink_installment_plans_due ON paylink_installment_plans (status, next_due_date)',
+      `CREATE TABLE paylink_installment_payments (
+        id TEXT PRIMARY KEY,
+        installment_plan_id TEXT NOT NULL,
+        buyer_address TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX paylink_installment_payments_plan ON paylink_installment_payments (installment_plan_id)',
+      'CREATE INDEX paylink_installment_payments_buyer ON paylink_installment_payments (buyer_address)',
+    ],
+  },
+  {
+    version: 2,
+    description: 'Optimistic concurrency versions',
+    statements: [
+      'ALTER TABLE paylink_links ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      'ALTER TABLE paylink_subscriptions ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      'ALTER TABLE paylink_referrals ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      'ALTER TABLE paylink_commissions ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      'ALTER TABLE paylink_installment_plans ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      'ALTER TABLE paylink_installment_payments ADD COLUMN version INTEGER NOT NULL DEFAULT 0',
+      `UPDATE paylink_links SET data = json_set(data, '$.version', 0)`,
+      `UPDATE paylink_subscriptions SET data = json_set(data, '$.version', 0)`,
+      `UPDATE paylink_referrals SET data = json_set(data, '$.version', 0)`,
+      `UPDATE paylink_commissions SET data = json_set(data, '$.version', 0)`,
+      `UPDATE paylink_installment_plans SET data = json_set(data, '$.version', 0)`,
+      `UPDATE paylink_installment_payments SET data = json_set(data, '$.version', 0)`,
+    ],
+  },
+  {
+    version: 3,
+    description: 'Listing filters and cursor indexes',
+    statements: [
+      'ALTER TABLE paylink_payments ADD COLUMN chain_id INTEGER',
+      `UPDATE paylink_payments SET chain_id = json_extract(data, '$.chainId')`,
+      `ALTER TABLE paylink_referrals ADD COLUMN status TEXT NOT NULL DEFAULT 'active'`,
+      `UPDATE paylink_referrals SET status = json_extract(data, '$.status')`,
+      'CREATE INDEX paylink_links_created ON paylink_links (created_at, id)',
+      'CREATE INDEX paylink_payments_created ON paylink_payments (created_at, id)',
+      'CREATE INDEX paylink_subscriptions_created ON paylink_subscriptions (created_at, id)',
+      'CREATE INDEX paylink_referrals_created ON paylink_referrals (created_at, id)',
+      'CREATE INDEX paylink_commissions_created ON paylink_commissions (created_at, id)',
+      'CREATE INDEX paylink_installment_plans_created ON paylink_installment_plans (created_at, id)',
+    ],
+  },
+  {
+    version: 4,
+    description: 'Payment intents',
+    statements: [
+      `CREATE TABLE paylink_payment_intents (
+        id TEXT PRIMARY KEY,
+        chain_id INTEGER NOT NULL,
+        reference TEXT,
+        status TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        version INTEGER NOT NULL DEFAULT 0,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX paylink_payment_intents_reference ON paylink_payment_intents (reference)',
+      'CREATE INDEX paylink_payment_intents_open ON paylink_payment_intents (status, chain_id, created_at)',
+    ],
+  },
+  {
+    version: 5,
+    description: 'Chain checkpoints',
+    statements: [
+      `CREATE TABLE paylink_chain_checkpoints (
+        chain_id INTEGER PRIMARY KEY,
+        data TEXT NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 6,
+    description: 'Derivation indexes',
+    statements: [
+      `CREATE TABLE paylink_derivation_indexes (
+        chain_id INTEGER PRIMARY KEY,
+        next_index INTEGER NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 7,
+    description: 'Payment finality',
+    statements: [
+      // Payments recorded before finality tracking are treated as final
+      'ALTER TABLE paylink_payments ADD COLUMN finalized INTEGER NOT NULL DEFAULT 1',
+      'CREATE INDEX paylink_payments_unfinalized ON paylink_payments (chain_id, created_at) WHERE confirmed = 1 AND finalized = 0',
+    ],
+  },
+  {
+    version: 8,
+    description: 'Sign-in challenges',
+    statements: [
+      `CREATE TABLE paylink_auth_challenges (
+        nonce TEXT PRIMARY KEY,
+        expires_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX paylink_auth_challenges_expires ON paylink_auth_challenges (expires_at)',
+    ],
+  },
+  {
+    version: 9,
+    description: 'Access token denylist',
+    statements: [
+      `CREATE TABLE paylink_access_token_revocations (
+        id TEXT PRIMARY KEY,
+        expires_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      'CREATE INDEX paylink_access_token_revocations_expires ON paylink_access_token_revocations (expires_at)',
+    ],
+  },
+  {
+    version: 10,
+    description: 'Re-checked reverted payments',
+    statements: [
+      // Payments reverted before this migration are not re-checked
+      'ALTER TABLE paylink_payments ADD COLUMN reverted INTEGER NOT NULL DEFAULT 0',
+      'DROP INDEX paylink_payments_unfinalized',
+      'CREATE INDEX paylink_payments_unfinalized ON paylink_payments (chain_id, created_at) WHERE finalized = 0 AND (confirmed = 1 OR reverted = 1)',
+    ],
+  },
+  {
+    version: 11,
+    description: 'One payment per transaction',
+    statements: [
+      // Later payments of an already recorded transaction keep their row but no longer match its hash
+      `UPDATE paylink_payments SET tx_hash = tx_hash || ':' || id
+       WHERE EXISTS (
+         SELECT 1 FROM paylink_payments first
+         WHERE first.chain_id = paylink_payments.chain_id AND first.tx_hash = paylink_payments.tx_hash
+           AND (first.created_at < paylink_payments.created_at
+             OR (first.created_at = paylink_payments.created_at AND first.rowid < paylink_payments.rowid))
+       )`,
+      'CREATE UNIQUE INDEX paylink_payments_chain_tx ON paylink_payments (chain_id, tx_hash)',
+    ],
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Bumps the version column and mirrors it into the JSON payload (bound: data) */
+const VERSION_SET = "version = version + 1, data = json_set(?, '$.version', version + 1)";
+/** Compare-and-swap guard; skipped when the caller passes no version (bound: version, version) */
+const VERSION_MATCH = '(? IS NULL OR version = ?)';
+
+function versionParams(entity: { version?: number }): [number | null, number | null] {
+  return [entity.version ?? null, entity.version ?? null];
+}
+
+/**
+ * SQLite storage implementation
+ */
+export class SqliteStorage implements Storage {
+  private db: SqliteDatabase;
+  private statements = new Map<string, SqliteStatement>();
+
+  constructor(config: SqliteStorageConfig) {
+    this.db = config.database;
+  }
+
+  /**
+   * Prepare the database: applies pending migrations
+   */
+  async init(): Promise<void> {
+    await this.migrate();
+  }
+
+  /**
+   * Close the underlying database handle
+   */
+  async close(): Promise<void> {
+    this.statements.clear();
+    this.db.close?.();
+  }
+
+  /**
+   * Apply pending schema migrations
+   * Returns the schema version after migrating
+   */
+  async migrate(): Promise<number> {
+    this.db.exec(`CREATE TABLE IF NOT EXISTS paylink_schema_migrations (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )`);
+
+    let current = await this.getSchemaVersion();
+
+    for (const migration of SQLITE_MIGRATIONS) {
+      if (migration.version <= current) continue;
+
+      this.db.exec('BEGIN');
+      try {
+        for (const statement of migration.statements) {
+          this.db.exec(statement);
+        }
+        this.db
+          .prepare('INSERT INTO paylink_schema_migrations (version, description, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.description, Date.now());
+        this.db.exec('COMMIT');
+      } catch (error) {
+        this.db.exec('ROLLBACK');
+        throw new Error(`SQLite migration ${migration.version} failed: ${(error as Error).message}`);
+      }
+
+      current = migration.version;
+    }
+
+    return current;
+  }
+
+  /**
+   * Get the currently applied schema version (0 if none)
+   */
+  async getSchemaVersion(): Promise<number> {
+    const row = this.db
+      .prepare('SELECT MAX(version) AS version FROM paylink_schema_migrations')
+      .get() as { version: number | null } | undefined;
+    return Number(row?.version ?? 0);
+  }
+
+  async getPayLink(id: string): Promise<PayLink | null> {
+    return this.one('payLink', 'SELECT data FROM paylink_links WHERE id = ?', id);
+  }
+
+  async savePayLink(payLink: PayLink): Promise<void> {
+    this.statement(
+      `INSERT INTO paylink_links (id, status, created_at, version, data) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET status = excluded.status, version = excluded.version, data = excluded.data`
+    ).run(
+      payLink.id,
+      payLink.status,
+      toTimestamp(payLink.createdAt),
+      payLink.version ?? 0,
+      serializeEntity({ ...payLink, version: payLink.version ?? 0 })
+    );
+  }
+
+  async updatePayLink(payLink: PayLink): Promise<void> {
+    const updated = { ...payLink, updatedAt: new Date() };
+    const result = this.statement(
+      `UPDATE paylink_links SET status = ?, ${VERSION_SET}
+       WHERE id = ? AND ${VERSION_MATCH}`
+    ).run(updated.status, serializeEntity(updated), payLink.id, ...versionParams(payLink));
+    this.checkUpdated(result, 'paylink_links', 'PayLink', payLink.id);
+  }
+
+  async incrementUsage(payLinkId: string, maxUses?: number): Promise<PayLink | null> {
+    const result = this.statement(
+      `UPDATE paylink_links
+       SET version = version + 1,
+           data = json_set(
+             data,
+             '$.usedCount', COALESCE(json_extract(data, '$.usedCount'), 0) + 1,
+             '$.updatedAt', ?,
+             '$.version', version + 1
+           )
+       WHERE id = ? AND (? IS NULL OR COALESCE(json_extract(data, '$.usedCount'), 0) < ?)`
+    ).run(new Date().toISOString(), payLinkId, maxUses ?? null, maxUses ?? null);
+
+    if (Number(result.changes) === 0) {
+      if (!this.exists('paylink_links', payLinkId)) {
+        throw new Error(`PayLink ${payLinkId} not found`);
+      }
+      return null;
+    }
+
+    return this.getPayLink(payLinkId);
+  }
+
+  async deletePayLink(id: string): Promise<void> {
+    this.statement('DELETE FROM paylink_links WHERE id = ?').run(id);
+  }
+
+  async getAllPayLinks(): Promise<PayLink[]> {
+    return this.many('payLink', 'SELECT data FROM paylink_links ORDER BY created_at, rowid');
+  }
+
+  async listPayLinks(options: ListPayLinksOptions = {}): Promise<Page<PayLink>> {
+    return this.page('payLink', 'paylink_links', { status: options.status }, options);
+  }
+
+  async savePayment(payment: Payment): Promise<void> {
+    this.statement(
+      `INSERT INTO paylink_payments (id, pay_link_id, tx_hash, from_address, confirmed, finalized, reverted, chain_id, created_at, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         tx_hash = excluded.tx_hash,
+         from_address = excluded.from_address,
+         confirmed = excluded.confirmed,
+         finalized = excluded.finalized,
+         reverted = excluded.reverted,
+         chain_id = excluded.chain_id,
+         data = excluded.data`
+    ).run(
+      payment.id,
+      payment.payLinkId,
+      payment.txHash,
+      normalizeAddress(payment.fromAddress),
+      payment.confirmed ? 1 : 0,
+      payment.finalizedAt ? 1 : 0,
+      payment.revertedAt ? 1 : 0,
+      payment.chainId,
+      toTimestamp(payment.createdAt),
+      serializeEntity(payment)
+    );
+  }
+
+  async insertPayment(payment: Payment): Promise<boolean> {
+    const result = this.statement(
+      `INSERT INTO paylink_payments (id, pay_link_id, tx_hash, from_address, confirmed, finalized, reverted, chain_id, created_at, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT DO NOTHING`
+    ).run(
+      payment.id,
+      payment.payLinkId,
+      payment.txHash,
+      normalizeAddress(payment.fromAddress),
+      payment.confirmed ? 1 : 0,
+      payment.finalizedAt ? 1 : 0,
+      payment.revertedAt ? 1 : 0,
+      payment.chainId,
+      toTimestamp(payment.createdAt),
+      serializeEntity(payment)
+    );
+    return Number(result.changes) > 0;
+  }
+
+  async getPaymentByTxHash(txHash: string): Promise<Payment | null> {
+    return this.one(
+      'payment',
+      'SELECT data FROM paylink_payments WHERE tx_hash = ? ORDER BY created_at DESC, rowid DESC LIMIT 1',
+      txHash
+    );
+  }
+
+  async getConfirmedPayment(payLinkId: string): Promise<Payment | null> {
+    return this.one(
+      'payment',
+      'SELECT data FROM paylink_payments WHERE pay_link_id = ? AND confirmed = 1 ORDER BY created_at, rowid LIMIT 1',
+      payLinkId
+    );
+  }
+
+  async getConfirmedPaymentByAddress(payLinkId: string, fromAddress: string): Promise<Payment | null> {
+    return this.one(
+      'payment',
+      `SELECT data FROM paylink_payments
+       WHERE pay_link_id = ? AND from_address = ? AND confirmed = 1
+       ORDER BY created_at DESC, rowid DESC LIMIT 1`,
+      payLinkId,
+      normalizeAddress(fromAddress)
+    );
+  }
+
+  async getPaymentsByLink(payLinkId: string): Promise<Payment[]> {
+    return this.many(
+      'payment',
+      'SELECT data FROM paylink_payments WHERE pay_link_id = ? ORDER BY created_at, rowid',
+      payLinkId
+    );
+  }
+
+  async getAllPayments(): Promise<Payment[]> {
+    return this.many('payment', 'SELECT data FROM paylink_payments ORDER BY created_at, rowid');
+  }
+
+  async getUnfinalizedPayments(chainId: number): Promise<Payment[]> {
+    return this.many(
+      'payment',
+      `SELECT data FROM paylink_payments
+       WHERE chain_id = ? AND finalized = 0 AND (confirmed = 1 OR reverted = 1) ORDER BY created_at, rowid`,
+      chainId
+    );
+  }
+
+  async listPayments(options: ListPaymentsOptions = {}): Promise<Page<Payment>> {
+    return this.page(
+      'payment',
+      'paylink_payments',
+      {
+        pay_link_id: options.payLinkId,
+        chain_id: options.chainId,
+        confirmed: options.confirmed === undefined ? undefined : options.confirmed ? 1 : 0,
+      },
+      options
+    );
+  }
+
+  // Subscription methods
+
+  async saveSubscription(subscription: Subscription): Promise<void> {
+    this.statement(
+      `INSERT INTO paylink_subscriptions
+         (id, pay_link_id, subscriber_address, status, next_payment_due, created_at, version, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         status = excluded.status,
+         next_payment_due = excluded.next_payment_due,
+         version = excluded.version,
+         data = excluded.data`
+    ).run(
+      subscription.id,
+      subscription.payLinkId,
+      normalizeAddress(subscription.subscriberAddress),
+      subscription.status,
+      toTimestamp(subscription.nextPaymentDue),
+      toTimestamp(subscription.createdAt),
+      subscription.version ?? 0,
+      serializeEntity({ ...subscription, version: subscription.version ?? 0 })
+    );
+  }
+
+  async getSubscription(id: string): Promise<Subscription | null> {
+    return this.one('subscription', 'SELECT data FROM paylink_subscriptions WHERE id = ?', id);
+  }
+
+  async updateSubscription(subscription: Subscription): Promise<void> {
+    const updated = { ...subscription, updatedAt: new Date() };
+    const result = this.statement(
+      `UPDATE paylink_subscriptions SET status = ?, next_payment_due = ?, ${VERSION_SET}
+       WHERE id = ? AND ${VERSION_MATCH}`
+    ).run(
+      updated.status,
+      toTimestamp(updated.nextPaymentDue),
+      serializeEntity(updated),
+      subscription.id,
+      ...versionParams(subscription)
+    );
+    this.checkUpdated(result, 'paylink_subscriptions', 'Subscription', subscription.id);
+  }
+
+  async getSubscriptionByAddress(payLinkId: string, subscriberAddress: string): Promise<Subscription | null> {
+    return this.one(
+      'subscription',
+      `SELECT data FROM paylink_subscriptions
+       WHERE pay_link_id = ? AND subscriber_address = ?
+       ORDER BY created_at DESC, rowid DESC LIMIT 1`,
+      payLinkId,
+      normalizeAddress(subscriberAddress)
+    );
+  }
+
+  async getSubscriptionsByPayLink(payLinkId: string): Promise<Subscription[]> {
+    return this.many(
+      'subscription',
+      'SELECT data FROM paylink_subscriptions WHERE pay_link_id = ? ORDER BY created_at, rowid',
+      payLinkId
+    );
+  }
+
+  async getSubscriptionsDue(beforeDate: Date): Promise<Subscription[]> {
+    return this.many(
+      'subscription',
+      `SELECT data FROM paylink_subscriptions
+       WHERE status = 'active' AND next_payment_due <= ?
+       ORDER BY next_payment_due, rowid`,
+      toTimestamp(beforeDate)
+    );
+  }
+
+  async getAllSubscriptions(): Promise<Subscription[]> {
+    return this.many('subscription', 'SELECT data FROM paylink_subscriptions ORDER BY created_at, rowid');
+  }
+
+  async listSubscriptions(options: ListSubscriptionsOptions = {}): Promise<Page<Subscription>> {
+    const subscriber = options.subscriberAddress ? normalizeAddress(options.subscriberAddress) : undefined;
+    return this.page(
+      'subscription',
+      'paylink_subscriptions',
+      {
+        pay_link_id: options.payLinkId,
+        subscriber_address: subscriber,
+        status: options.status,
+      },
+      options
+    );
+  }
+
+  // Referral methods
+
+  async saveReferral(referral: Referral): Promise<void> {
+    this.statement(
+      `INSERT INTO paylink_referrals (id, code, pay_link_id, referrer_address, status, created_at, version, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         code = excluded.code,
+         status = excluded.status,
+         version = excluded.version,
+         data = excluded.data`
+    ).run(
+      referral.id,
+      referral.code.toUpperCase(),
+      referral.payLinkId,
+      normalizeAddress(referral.referrerAddress),
+      referral.status,
+      toTimestamp(referral.createdAt),
+      referral.version ?? 0,
+      serializeEntity({ ...referral, version: referral.version ?? 0 })
+    );
+  }
+
+  async getReferral(id: string): Promise<Referral | null> {
+    return this.one('referral', 'SELECT data FROM paylink_referrals WHERE id = ?', id);
+  }
+
+  async getReferralByCode(code: string): Promise<Referral | null> {
+    return this.one(
+      'referral',
+      'SELECT data FROM paylink_referrals WHERE code = ? ORDER BY created_at DESC, rowid DESC LIMIT 1',
+      code.toUpperCase()
+    );
+  }
+
+  async updateReferral(referral: Referral): Promise<void> {
+    const updated = { ...referral, updatedAt: new Date() };
+    const result = this.statement(
+      `UPDATE paylink_referrals SET code = ?, status = ?, ${VERSION_SET}
+       WHERE id = ? AND ${VERSION_MATCH}`
+    ).run(
+      updated.code.toUpperCase(),
+      updated.status,
+      serializeEntity(updated),
+      referral.id,
+      ...versionParams(referral)
+    );
+    this.checkUpdated(result, 'paylink_referrals', 'Referral', referral.id);
+  }
+
+  async getReferralsByPayLink(payLinkId: string): Promise<Referral[]> {
+    return this.many(
+      'referral',
+      'SELECT data FROM paylink_referrals WHERE pay_link_id = ? ORDER BY created_at, rowid',
+      payLinkId
+    );
+  }
+
+  async getReferralsByReferrer(referrerAddress: string): Promise<Referral[]> {
+    return this.many(
+      'referral',
+      'SELECT data FROM paylink_referrals WHERE referrer_address = ? ORDER BY created_at, rowid',
+      normalizeAddress(referrerAddress)
+    );
+  }
+
+  async getAllReferrals(): Promise<Referral[]> {
+    return this.many('referral', 'SELECT data FROM paylink_referrals ORDER BY created_at, rowid');
+  }
+
+  async listReferrals(options: ListReferralsOptions = {}): Promise<Page<Referral>> {
+    const referrer = options.referrerAddress ? normalizeAddress(options.referrerAddress) : undefined;
+    return this.page(
+      'referral',
+      'paylink_referrals',
+      {
+        pay_link_id: options.payLinkId,
+        referrer_address: referrer,
+        status: options.status,
+      },
+      options
+    );
+  }
+
+  // Referral commission methods
+
+  async saveCommission(commission: ReferralCommission): Promise<void> {
+    this.statement(
+      `INSERT INTO paylink_commissions
+         (id, referral_id, payment_id, referrer_address, status, created_at, version, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET status = excluded.status, version = excluded.version, data = excluded.data`
+    ).run(
+      commission.id,
+      commission.referralId,
+      commission.paymentId,
+      normalizeAddress(commission.referrerAddress),
+      commission.status,
+      toTimestamp(commission.createdAt),
+      commission.version ?? 0,
+      serializeEntity({ ...commission, version: commission.version ?? 0 })
+    );
+  }
+
+  async getCommission(id: string): Promise<ReferralCommission | null> {
+    return this.one('commission', 'SELECT data FROM paylink_commissions WHERE id = ?', id);
+  }
+
+  async updateCommission(commission: ReferralCommission): Promise<void> {
+    const result = this.statement(
+      `UPDATE paylink_commissions SET status = ?, ${VERSION_SET}
+       WHERE id = ? AND ${VERSION_MATCH}`
+    ).run(commission.status, serializeEntity(commission), commission.id, ...versionParams(commission));
+    this.checkUpdated(result, 'paylink_commissions', 'Commission', commission.id);
+  }
+
+  async getCommissionsByReferral(referralId: string): Promise<ReferralCommission[]> {
+    return this.many(
+      'commission',
+      'SELECT data FROM paylink_commissions WHERE referral_id = ? ORDER BY created_at, rowid',
+      referralId
+    );
+  }
+
+  async getCommissionsByReferrer(referrerAddress: string): Promise<ReferralCommission[]> {
+    return this.many(
+      'commission',
+      'SELECT data FROM paylink_commissions WHERE referrer_address = ? ORDER BY created_at, rowid',
+      normalizeAddress(referrerAddress)
+    );
+  }
+
+  async getPendingCommissions(referrerAddress: string): Promise<ReferralCommission[]> {
+    return this.many(
+      'commission',
+      `SELECT data FROM paylink_commissions
+       WHERE referrer_address = ? AND status = 'confirmed'
+       ORDER BY created_at, rowid`,
+      normalizeAddress(referrerAddress)
+    );
+  }
+
+  async getAllCommissions(): Promise<ReferralCommission[]> {
+    return this.many('commission', 'SELECT data FROM paylink_commissions ORDER BY created_at, rowid');
+  }
+
+  async listCommissions(options: ListCommissionsOptions = {}): Promise<Page<ReferralCommission>> {
+    const referrer = options.referrerAddress ? normalizeAddress(options.referrerAddress) : undefined;
+    return this.page(
+      'commission',
+      'paylink_commissions',
+      {
+        referral_id: options.referralId,
+        referrer_address: referrer,
+        status: options.status,
+      },
+      options
+    );
+  }
+
+  // Installment plan methods
+
+  async saveInstallmentPlan(plan: InstallmentPlan): Promise<void> {
+    this.statement(
+      `INSERT INTO paylink_installment_plans
+         (id, pay_link_id, buyer_address, status, next_due_date, grace_period_days, created_at, version, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         status = excluded.status,
+         next_due_date = excluded.next_due_date,
+         grace_period_days = excluded.grace_period_days,
+         version = excluded.version,
+         data = excluded.data`
+    ).run(
+      plan.id,
+      plan.payLinkId,
+      normalizeAddress(plan.buyerAddress),
+      plan.status,
+      toTimestamp(plan.nextDueDate),
+      plan.gracePeriodDays,
+      toTimestamp(plan.createdAt),
+      plan.version ?? 0,
+      serializeEntity({ ...plan, version: plan.version ?? 0 })
+    );
+  }
+
+  async getInstallmentPlan(id: string): Promise<InstallmentPlan | null> {
+    return this.one('installmentPlan', 'SELECT data FROM paylink_installment_plans WHERE id = ?', id);
+  }
+
+  async updateInstallmentPlan(plan: InstallmentPlan): Promise<void> {
+    const updated = { ...plan, updatedAt: new Date() };
+    const result = this.statement(
+      `UPDATE paylink_installment_plans
+       SET status = ?, next_due_date = ?, grace_period_days = ?, ${VERSION_SET}
+       WHERE id = ? AND ${VERSION_MATCH}`
+    ).run(
+      updated.status,
+      toTimestamp(updated.nextDueDate),
+      updated.gracePeriodDays,
+      serializeEntity(updated),
+      plan.id,
+      ...versionParams(plan)
+    );
+    this.checkUpdated(result, 'paylink_installment_plans', 'Installment plan', plan.id);
+  }
+
+  async getInstallmentPlanByAddress(payLinkId: string, buyerAddress: string): Promise<InstallmentPlan | null> {
+    return this.one(
+      'installmentPlan',
+      `SELECT data FROM paylink_installment_plans
+       WHERE pay_link_id = ? AND buyer_address = ?
+       ORDER BY created_at DESC, rowid DESC LIMIT 1`,
+      payLinkId,
+      normalizeAddress(buyerAddress)
+    );
+  }
+
+  async getInstallmentPlansByPayLink(payLinkId: string): Promise<InstallmentPlan[]> {
+    return this.many(
+      'installmentPlan',
+      'SELECT data FROM paylink_installment_plans WHERE pay_link_id = ? ORDER BY created_at, rowid',
+      payLinkId
+    );
+  }
+
+  async getInstallmentPlansByBuyer(buyerAddress: string): Promise<InstallmentPlan[]> {
+    return this.many(
+      'installmentPlan',
+      'SELECT data FROM paylink_installment_plans WHERE buyer_address = ? ORDER BY created_at, rowid',
+      normalizeAddress(buyerAddress)
+    );
+  }
+
+  async getOverdueInstallmentPlans(): Promise<InstallmentPlan[]> {
+    return this.many(
+      'installmentPlan',
+      `SELECT data FROM paylink_installment_plans
+       WHERE status = 'active' AND next_due_date + grace_period_days * ? < ?
+       ORDER BY next_due_date, rowid`,
+      DAY_MS,
+      Date.now()
+    );
+  }
+
+  async getInstallmentPlansDueBefore(date: Date): Promise<InstallmentPlan[]> {
+    return this.many(
+      'installmentPlan',
+      `SELECT data FROM paylink_installment_plans
+       WHERE status IN ('active', 'pending') AND next_due_date <= ?
+       ORDER BY next_due_date, rowid`,
+      toTimestamp(date)
+    );
+  }
+
+  async getAllInstallmentPlans(): Promise<InstallmentPlan[]> {
+    return this.many('installmentPlan', 'SELECT data FROM paylink_installment_plans ORDER BY created_at, rowid');
+  }
+
+  async listInstallmentPlans(options: ListInstallmentPlansOptions = {}): Promise<Page<InstallmentPlan>> {
+    const buyer = options.buyerAddress ? normalizeAddress(options.buyerAddress) : undefined;
+    return this.page(
+      'installmentPlan',
+      'paylink_installment_plans',
+      {
+        pay_link_id: options.payLinkId,
+        buyer_address: buyer,
+        status: options.status,
+      },
+      options
+    );
+  }
+
+  // Installment payment methods
+
+  async saveInstallmentPayment(payment: InstallmentPayment): Promise<void> {
+    this.statement(
+      `INSERT INTO paylink_installment_payments (id, installment_plan_id, buyer_address, created_at, version, data)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET version = excluded.version, data = excluded.data`
+    ).run(
+      payment.id,
+      payment.installmentPlanId,
+      normalizeAddress(payment.buyerAddress),
+      toTimestamp(payment.createdAt),
+      payment.version ?? 0,
+      serializeEntity({ ...payment, version: payment.version ?? 0 })
+    );
+  }
+
+  async getInstallmentPayment(id: string): Promise<InstallmentPayment | null> {
+    return this.one('installmentPayment', 'SELECT data FROM paylink_installment_payments WHERE id = ?', id);
+  }
+
+  async updateInstallmentPayment(payment: InstallmentPayment): Promise<void> {
+    const result = this.statement(
+      `UPDATE paylink_installment_payments SET ${VERSION_SET}
+       WHERE id = ? AND ${VERSION_MATCH}`
+    ).run(serializeEntity(payment), payment.id, ...versionParams(payment));
+    this.checkUpdated(result, 'paylink_installment_payments', 'Installment payment', payment.id);
+  }
+
+  async getInstallmentPaymentsByPlan(planId: string): Promise<InstallmentPayment[]> {
+    return this.many(
+      'installmentPayment',
+      'SELECT data FROM paylink_installment_payments WHERE installment_plan_id = ? ORDER BY created_at, rowid',
+      planId
+    );
+  }
+
+  async getInstallmentPaymentsByBuyer(buyerAddress: string): Promise<InstallmentPayment[]> {
+    return this.many(
+      'installmentPayment',
+      'SELECT data FROM paylink_installment_payments WHERE buyer_address = ? ORDER BY created_at, rowid',
+      normalizeAddress(buyerAddress)
+    );
+  }
+
+  async getAllInstallmentPayments(): Promise<InstallmentPayment[]> {
+    return this.many(
+      'installmentPayment',
+      'SELECT data FROM paylink_installment_payments ORDER BY created_at, rowid'
+    );
+  }
+
+  // Payment intent methods
+
+  async savePaymentIntent(intent: PaymentIntent): Promise<void> {
+    this.statement(
+      `INSERT INTO paylink_payment_intents (id, chain_id, reference, status, created_at, version, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         reference = excluded.reference, status = excluded.status, version = excluded.version, data = excluded.data`
+    ).run(
+      intent.id,
+      intent.chainId,
+      intent.reference ?? null,
+      intent.status,
+      toTimestamp(intent.createdAt),
+      intent.version ?? 0,
+      serializeEntity({ ...intent, version: intent.version ?? 0 })
+    );
+  }
+
+  async getPaymentIntent(id: string): Promise<PaymentIntent | null> {
+    return this.one('paymentIntent', 'SELECT data FROM paylink_payment_intents WHERE id = ?', id);
+  }
+
+  async getPaymentIntentByReference(reference: string): Promise<PaymentIntent | null> {
+    return this.one(
+      'paymentIntent',
+      'SELECT data FROM paylink_payment_intents WHERE reference = ? ORDER BY created_at, rowid LIMIT 1',
+      reference
+    );
+  }
+
+  async updatePaymentIntent(intent: PaymentIntent): Promise<void> {
+    const updated = { ...intent, updatedAt: new Date() };
+    const result = this.statement(
+      `UPDATE paylink_payment_intents SET reference = ?, status = ?, ${VERSION_SET}
+       WHERE id = ? AND ${VERSION_MATCH}`
+    ).run(
+      updated.reference ?? null,
+      updated.status,
+      serializeEntity(updated),
+      intent.id,
+      ...versionParams(intent)
+    );
+    this.checkUpdated(result, 'paylink_payment_intents', 'Payment intent', intent.id);
+  }
+
+  async getOpenPaymentIntents(chainId: number): Promise<PaymentIntent[]> {
+    return this.many(
+      'paymentIntent',
+      `SELECT data FROM paylink_payment_intents
+       WHERE status = 'open' AND chain_id = ? ORDER BY created_at, rowid`,
+      chainId
+    );
+  }
+
+  async getExpiredDepositIntents(chainId: number, limit: number): Promise<PaymentIntent[]> {
+    return this.many(
+      'paymentIntent',
+      `SELECT data FROM paylink_payment_intents
+       WHERE status = 'expired' AND chain_id = ? AND json_extract(data, '$.derivationIndex') IS NOT NULL
+       ORDER BY created_at, rowid LIMIT ?`,
+      chainId,
+      limit
+    );
+  }
+
+  async listPaymentIntents(options: ListPaymentIntentsOptions = {}): Promise<Page<PaymentIntent>> {
+    return this.page(
+      'paymentIntent',
+      'paylink_payment_intents',
+      { chain_id: options.chainId, status: options.status },
+      options
+    );
+  }
+
+  // Chain checkpoint methods
+
+  async getChainCheckpoint(chainId: number): Promise<ChainCheckpoint | null> {
+    return this.one('chainCheckpoint', 'SELECT data FROM paylink_chain_checkpoints WHERE chain_id = ?', chainId);
+  }
+
+  async saveChainCheckpoint(checkpoint: ChainCheckpoint): Promise<void> {
+    this.statement(
+      `INSERT INTO paylink_chain_checkpoints (chain_id, data) VALUES (?, ?)
+       ON CONFLICT (chain_id) DO UPDATE SET data = excluded.data`
+    ).run(checkpoint.chainId, serializeEntity(checkpoint));
+  }
+
+  async getChainCheckpoints(): Promise<ChainCheckpoint[]> {
+    return this.many('chainCheckpoint', 'SELECT data FROM paylink_chain_checkpoints ORDER BY chain_id');
+  }
+
+  // Deposit address methods
+
+  async nextDerivationIndex(chainId: number): Promise<number> {
+    const row = this.statement(
+      `INSERT INTO paylink_derivation_indexes (chain_id, next_index) VALUES (?, 1)
+       ON CONFLICT (chain_id) DO UPDATE SET next_index = next_index + 1
+       RETURNING next_index`
+    ).get(chainId) as { next_index: number | bigint };
+    return Number(row.next_index) - 1;
+  }
+
+  async getDerivationCounters(): Promise<DerivationCounter[]> {
+    const rows = this.statement(
+      'SELECT chain_id, next_index FROM paylink_derivation_indexes ORDER BY chain_id'
+    ).all() as Array<{ chain_id: number | bigint; next_index: number | bigint }>;
+    return rows.map(row => ({ chainId: Number(row.chain_id), nextIndex: Number(row.next_index) }));
+  }
+
+  async restoreDerivationCounter(counter: DerivationCounter): Promise<void> {
+    this.statement(
+      `INSERT INTO paylink_derivation_indexes (chain_id, next_index) VALUES (?, ?)
+       ON CONFLICT (chain_id) DO UPDATE SET next_index = max(next_index, excluded.next_index)`
+    ).run(counter.chainId, counter.nextIndex);
+  }
+
+  // Sign-in challenge methods
+
+  async saveAuthChallenge(challenge: AuthChallenge): Promise<void> {
+    this.statement('DELETE FROM paylink_auth_challenges WHERE expires_at <= ?').run(Date.now());
+    this.statement('INSERT INTO paylink_auth_challenges (nonce, expires_at, data) VALUES (?, ?, ?)').run(
+      challenge.nonce,
+      toTimestamp(challenge.expiresAt),
+      serializeEntity(challenge)
+    );
+  }
+
+  async consumeAuthChallenge(nonce: string): Promise<AuthChallenge | null> {
+    return this.one('authChallenge', 'DELETE FROM paylink_auth_challenges WHERE nonce = ? RETURNING data', nonce);
+  }
+
+  // Access token denylist methods
+
+  async saveAccessTokenRevocation(revocation: AccessTokenRevocation): Promise<void> {
+    this.statement('DELETE FROM paylink_access_token_revocations WHERE expires_at <= ?').run(Date.now());
+    this.statement(
+      `INSERT INTO paylink_access_token_revocations (id, expires_at, data) VALUES (?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET expires_at = excluded.expires_at, data = excluded.data`
+    ).run(revocation.id, toTimestamp(revocation.expiresAt), serializeEntity(revocation));
+  }
+
+  async getAccessTokenRevocation(id: string): Promise<AccessTokenRevocation | null> {
+    return this.one('accessTokenRevocation', 'SELECT data FROM paylink_access_token_revocations WHERE id = ?', id);
+  }
+
+  async getAccessTokenRevocations(): Promise<AccessTokenRevocation[]> {
+    return this.many(
+      'accessTokenRevocation',
+      'SELECT data FROM paylink_access_token_revocations WHERE expires_at > ? ORDER BY id',
+      Date.now()
+    );
+  }
+
+  /**
+   * Get a cached prepared statement
+   */
+  private statement(sql: string): SqliteStatement {
+    let stmt = this.statements.get(sql);
+    if (!stmt) {
+      stmt = this.db.prepare(sql);
+      this.statements.set(sql, stmt);
+    }
+    return stmt;
+  }
+
+  private exists(table: string, id: string): boolean {
+    return this.statement(`SELECT 1 FROM ${table} WHERE id = ?`).get(id) !== undefined;
+  }
+
+  /**
+   * Distinguish "not found" from a lost compare-and-swap after a versioned update
+   */
+  private checkUpdated(result: { changes: number | bigint }, table: string, entity: string, id: string): void {
+    if (Number(result.changes) > 0) return;
+    if (this.exists(table, id)) {
+      throw new ConcurrentUpdateError(entity, id);
+    }
+    throw new Error(`${entity} ${id} not found`);
+  }
+
+  private one<K extends EntityType>(type: K, sql: string, ...params: unknown[]): EntityMap[K] | null {
+    const row = this.statement(sql).get(...params) as { data: string } | undefined;
+    return row ? deserializeEntity(type, row.data) : null;
+  }
+
+  private many<K extends EntityType>(type: K, sql: string, ...params: unknown[]): EntityMap[K][] {
+    const rows = this.statement(sql).all(...params) as Array<{ data: string }>;
+    return rows.map(row => deserializeEntity(type, row.data));
+  }
+
+  /**
+   * Keyset-paginated listing ordered by (created_at, id)
+   * `filters` maps column names to required values; undefined values are ignored
+   */
+  private page<K extends EntityType>(
+    type: K,
+    table: string,
+    filters: Record<string, unknown>,
+    options: ListOptions
+  ): Page<EntityMap[K]> {
+    const where: string[] = [];
+    const params: unknown[] = [];
+
+    for (const [column, value] of Object.entries(filters)) {
+      if (value === undefined) continue;
+      where.push(`${column} = ?`);
+      params.push(value);
+    }
+    if (options.from) {
+      where.push('created_at >= ?');
+      params.push(toTimestamp(options.from));
+    }
+    if (options.to) {
+      where.push('created_at < ?');
+      params.push(toTimestamp(options.to));
+    }
+
+    const desc = options.sort !== 'asc';
+    if (options.cursor) {
+      const after = decodeCursor(options.cursor);
+      const op = desc ? '<' : '>';
+      where.push(`(created_at ${op} ? OR (created_at = ? AND id ${op} ?))`);
+      params.push(after.createdAt, after.createdAt, after.id);
+    }
+
+    const limit = normalizeLimit(options.limit);
+    const order = desc ? 'DESC' : 'ASC';
+    const rows = this.many(
+      type,
+      `SELECT data FROM ${table}${where.length ? ` WHERE ${where.join(' AND ')}` : ''}
+       ORDER BY created_at ${order}, id ${order} LIMIT ?`,
+      ...params,
+      limit + 1
+    );
+    return toPage(rows as Array<EntityMap[K] & { id: string; createdAt: Date }>, limit);
+  }
+}
+
+/**
+ * Create a SQLite storage instance
+ */
+export function createSqliteStorage(config: SqliteStorageConfig): SqliteStorage {
+  return new SqliteStorage(config);
+}
@@ -9,6 +9,7 @@ import type {
   CreateSubscriptionInput,
 } from './types.js';
 import { generateId, generateUUID } from './utils.js';
+import { updateWithRetry } from './storage/concurrency.js';
 
 /**
  * Calculate next billing date based on interval
@@ -168,92 +169,147 @@ export class SubscriptionManager {
     const config = payLink.subscription;
     const now = new Date();
 
-    // Calculate new period
-    const newPeriodStart = subscription.currentPeriodEnd;
-    const newPeriodEnd = calculateNextBillingDate(
-      newPeriodStart,
-      config.interval,
-      config.intervalCount
+    // Re-read and retry on concurrent renewals; a payment is only applied once
+    const updated = await updateWithRetry(
+      () => this.storage.getSubscription(subscription.id),
+      sub => {
+        if (sub.lastPaymentId === payment.id) return false;
+
+        // Calculate new period
+        const newPeriodStart = sub.currentPeriodEnd;
+        const newPeriodEnd = calculateNextBillingDate(
+          newPeriodStart,
+          config.interval,
+          config.intervalCount
+        );
+
+        // Update subscription
+        sub.currentPeriodStart = newPeriodStart;
+        sub.currentPeriodEnd = newPeriodEnd;
+        sub.nextPaymentDue = newPeriodEnd;
+        sub.cycleCount += 1;
+        sub.lastPaymentId = payment.id;
+        sub.status = 'active';
+        sub.updatedAt = now;
+
+        // Check max cycles
+        if (config.maxCycles && sub.cycleCount >= config.maxCycles) {
+          sub.status = 'expired';
+        }
+      },
+      sub => this.storage.updateSubscription(sub)
     );
 
-    // Update subscription
-    subscription.currentPeriodStart = newPeriodStart;
-    subscription.currentPeriodEnd = newPeriodEnd;
-    subscription.nextPaymentDue = newPeriodEnd;
-    subscription.cycleCount += 1;
-    subscription.lastPaymentId = payment.id;
-    subscription.status = 'active';
-    subscription.updatedAt = now;
-
-    // Check max cycles
-    if (config.maxCycles && subscription.cycleCount >= config.maxCycles) {
-      subscription.status = 'expired';
+    if (!updated) {
+      throw new Error('Subscription not found');
     }
 
-    await this.storage.updateSubscription(subscription);
-    return subscription;
+    return updated;
   }
 
   /**
-   * Cancel subscription
+   * Roll back the renewal paid by a payment whose transaction left the chain
+   * The period is due again and access is withheld until it is paid.
+   * Returns null when the payment did not renew a subscription.
    */
-  async cancelSubscription(
-    subscriptionId: string,
-    immediate: boolean = false
-  ): Promise<Subscription> {
-    const subscription = await this.storage.getSubscription(subscriptionId);
-    if (!subscription) {
-      throw new Error('Subscription not found');
+  async reversePayment(payment: Payment): Promise<Subscription | null> {
+    const subscriptions = await this.storage.getSubscriptionsByPayLink(payment.payLinkId);
+    const renewed = subscriptions.find(s => s.lastPaymentId === payment.id);
+
+    if (!renewed) {
+      return null;
     }
 
-    subscription.status = 'cancelled';
-    subscription.cancelledAt = new Date();
-    subscription.updatedAt = new Date();
+    let reversed = false;
+    const subscription = await updateWithRetry(
+      () => this.storage.getSubscription(renewed.id),
+      sub => {
+        reversed = sub.lastPaymentId === payment.id;
+        if (!reversed) return false;
+
+        // The unpaid period starts where the last paid one ended
+        sub.currentPeriodEnd = sub.currentPeriodStart;
+        sub.nextPaymentDue = sub.currentPeriodStart;
+        sub.cycleCount = Math.max(0, sub.cycleCount - 1);
+        sub.lastPaymentId = undefined;
+        sub.status = 'past_due';
+        sub.updatedAt = new Date();
+      },
+      sub => this.storage.updateSubscription(sub)
+    );
 
-    await this.storage.updateSubscription(subscription);
-    return subscription;
+    return reversed ? subscription : null;
   }
 
   /**
-   * Pause subscription
+   * Apply again a renewal rolled back by `reversePayment()` once its transaction is mined again
+   * The subscription is the one the payment renewed (`subscriptionId`), still past due and
+   * unpaid since the rollback. Payments recorded without `subscriptionId` fall back to the
+   * payer's subscription.
+   * Returns null when no subscription is waiting for the payment.
    */
-  async pauseSubscription(subscriptionId: string): Promise<Subscription> {
-    const subscription = await this.storage.getSubscription(subscriptionId);
-    if (!subscription) {
-      throw new Error('Subscription not found');
+  async restorePayment(payment: Payment, payLink: PayLink): Promise<Subscription | null> {
+    if (!payLink.subscription) {
+      return null;
     }
 
-    if (subscription.status !== 'active') {
-      throw new Error('Only active subscriptions can be paused');
+    const subscription = payment.subscriptionId
+      ? await this.storage.getSubscription(payment.subscriptionId)
+      : await this.storage.getSubscriptionByAddress(payLink.id, payment.fromAddress);
+    if (
+      !subscription ||
+      subscription.payLinkId !== payLink.id ||
+      subscription.status !== 'past_due' ||
+      subscription.lastPaymentId
+    ) {
+      return null;
     }
 
-    subscription.status = 'paused';
-    subscription.pausedAt = new Date();
-    subscription.updatedAt = new Date();
+    return this.processPayment(subscription, payment, payLink);
+  }
 
-    await this.storage.updateSubscription(subscription);
-    return subscription;
+  /**
+   * Cancel subscription
+   */
+  async cancelSubscription(
+    subscriptionId: string,
+    immediate: boolean = false
+  ): Promise<Subscription> {
+    return this.updateSubscription(subscriptionId, subscription => {
+      subscription.status = 'cancelled';
+      subscription.cancelledAt = new Date();
+      subscription.updatedAt = new Date();
+    });
   }
 
   /**
-   * Resume subscription
+   * Pause subscription
    */
-  async resumeSubscription(subscriptionId: string): Promise<Subscription> {
-    const subscription = await this.storage.getSubscription(subscriptionId);
-    if (!subscription) {
-      throw new Error('Subscription not found');
-    }
+  async pauseSubscription(subscriptionId: string): Promise<Subscription> {
+    return this.updateSubscription(subscriptionId, subscription => {
+      if (subscription.status !== 'active') {
+        throw new Error('Only active subscriptions can be paused');
+      }
 
-    if (subscription.status !== 'paused') {
-      throw new Error('Only paused subscriptions can be resumed');
-    }
+      subscription.status = 'paused';
+      subscription.pausedAt = new Date();
+      subscription.updatedAt = new Date();
+    });
+  }
 
-    subscription.status = 'active';
-    subscription.pausedAt = undefined;
-    subscription.updatedAt = new Date();
+  /**
+   * Resume subscription
+   */
+  async resumeSubscription(subscriptionId: string): Promise<Subscription> {
+    return this.updateSubscription(subscriptionId, subscription => {
+      if (subscription.status !== 'paused') {
+        throw new Error('Only paused subscriptions can be resumed');
+      }
 
-    await this.storage.updateSubscription(subscription);
-    return subscription;
+      subscription.status = 'active';
+      subscription.pausedAt = undefined;
+      subscription.updatedAt = new Date();
+    });
   }
 
   /**
@@ -294,6 +350,15 @@ export class SubscriptionManager {
       return { hasAccess: true };
     }
 
+    // Past grace period, or the last payment was reversed
+    if (subscription.status === 'past_due') {
+      return {
+        hasAccess: false,
+        reason: 'Payment is past due',
+        requiresPayment: true,
+      };
+    }
+
     // Check if payment is due
     if (isPaymentDue(subscription)) {
       const gracePeriodHours = payLink.subscription?.gracePeriodHours ?? 24;
@@ -321,15 +386,27 @@ export class SubscriptionManager {
    * Mark subscription as past due
    */
   async markPastDue(subscriptionId: string): Promise<Subscription> {
-    const subscription = await this.storage.getSubscription(subscriptionId);
+    return this.updateSubscription(subscriptionId, subscription => {
+      subscription.status = 'past_due';
+      subscription.updatedAt = new Date();
+    });
+  }
+
+  /**
+   * Apply a change to the latest stored subscription (compare-and-swap with retry)
+   */
+  private async updateSubscription(
+    subscriptionId: string,
+    mutate: (subscription: Subscription) => void
+  ): Promise<Subscription> {
+    const subscription = await updateWithRetry(
+      () => this.storage.getSubscription(subscriptionId),
+      mutate,
+      s => this.storage.updateSubscription(s)
+    );
     if (!subscription) {
       throw new Error('Subscription not found');
     }
-
-    subscription.status = 'past_due';
-    subscription.updatedAt = new Date();
-
-    await this.storage.updateSubscription(subscription);
     return subscription;
   }
 
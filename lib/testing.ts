@@ -0,0 +1,7 @@
+/**
+ * Paylink testing helpers
+ * Import from '@paylinkprotocol/paylink/testing' (requires vitest)
+ */
+
+export { runStorageConformanceSuite } from './storage/conformance.js';
+export type { StorageFactory, StorageConformanceOptions } from './storage/conformance.js';
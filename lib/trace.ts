@@ -0,0 +1,109 @@
+/**
+ * Internal value transfers from transaction traces
+ * Contract wallets (Safe multisigs, ERC-4337 accounts) and routers pay native
+ * currency through internal calls, which only show up in a trace of the transaction.
+ */
+
+/**
+ * Native value moved by one call
+ */
+export interface InternalTransfer {
+  /** Contract or account sending the value, lowercase */
+  from: string;
+  /** Receiving address, lowercase */
+  to: string;
+  /** Value in wei */
+  value: bigint;
+}
+
+/**
+ * Call frame of Geth's callTracer (`debug_traceTransaction`)
+ */
+export interface CallFrame {
+  /** CALL, CREATE, CREATE2, DELEGATECALL, STATICCALL, CALLCODE, SELFDESTRUCT */
+  type: string;
+  from: string;
+  to?: string;
+  /** Value in wei (hex) */
+  value?: string;
+  /** Set when the call reverted; its value transfers and those of its subcalls did not happen */
+  error?: string;
+  calls?: CallFrame[];
+}
+
+/**
+ * Entry of `trace_transaction` (Erigon, Nethermind, OpenEthereum)
+ */
+export interface ParityTrace {
+  /** 'call', 'create', 'suicide' or 'reward' */
+  type: string;
+  action: {
+    callType?: string;
+    from?: string;
+    to?: string;
+    value?: string;
+    /** Self-destructing contract */
+    address?: string;
+    refundAddress?: string;
+    balance?: string;
+  };
+  result?: { address?: string } | null;
+  /** Set when the call reverted, which also undoes its subtraces */
+  error?: string;
+  /** Position in the call tree: [] for the top-level call, [0, 1] for the second subcall of the first */
+  traceAddress: number[];
+}
+
+/** Calls that run code without moving value */
+const VALUELESS_CALLS = ['DELEGATECALL', 'STATICCALL', 'CALLCODE'];
+
+/**
+ * Value transfers of a callTracer frame and its subcalls, skipping reverted calls
+ */
+export function callFrameTransfers(frame: CallFrame): InternalTransfer[] {
+  if (frame.error) {
+    return [];
+  }
+
+  const transfers: InternalTransfer[] = [];
+  const value = BigInt(frame.value || '0x0');
+  if (value > 0n && frame.to && !VALUELESS_CALLS.includes(frame.type.toUpperCase())) {
+    transfers.push({ from: frame.from.toLowerCase(), to: frame.to.toLowerCase(), value });
+  }
+
+  for (const call of frame.calls ?? []) {
+    transfers.push(...callFrameTransfers(call));
+  }
+  return transfers;
+}
+
+/**
+ * Value transfers of `trace_transaction` entries, skipping reverted calls and everything below them
+ */
+export function parityTraceTransfers(traces: ParityTrace[]): InternalTransfer[] {
+  const reverted = traces.filter(trace => trace.error).map(trace => trace.traceAddress);
+  const isReverted = (trace: ParityTrace) => reverted.some(prefix =>
+    prefix.length <= trace.traceAddress.length && prefix.every((index, i) => trace.traceAddress[i] === index)
+  );
+
+  const transfers: InternalTransfer[] = [];
+  for (const trace of traces) {
+    if (isReverted(trace)) continue;
+
+    const { action } = trace;
+    let transfer: { from?: string; to?: string; value?: string } | undefined;
+    if (trace.type === 'call' && !VALUELESS_CALLS.includes((action.callType ?? 'call').toUpperCase())) {
+      transfer = action;
+    } else if (trace.type === 'create') {
+      transfer = { from: action.from, to: trace.result?.address, value: action.value };
+    } else if (trace.type === 'suicide') {
+      transfer = { from: action.address, to: action.refundAddress, value: action.balance };
+    }
+
+    const value = BigInt(transfer?.value || '0x0');
+    if (transfer?.from && transfer.to && value > 0n) {
+      transfers.push({ from: transfer.from.toLowerCase(), to: transfer.to.toLowerCase(), value });
+    }
+  }
+  return transfers;
+}
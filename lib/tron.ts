@@ -0,0 +1,47 @@
+/**
+ * TRON address helpers
+ * TRON addresses are 21 bytes: a 0x41 prefix and the 20-byte account id shared
+ * with EVM. The API returns them as hex, wallets show them as base58check (T...).
+ */
+
+import { decodeBase58Check, encodeBase58Check } from './base58.js';
+
+/** Prefix byte of TRON mainnet addresses */
+const ADDRESS_PREFIX = 0x41;
+
+/**
+ * Normalize a TRON address to lowercase hex with the 41 prefix
+ * Accepts base58check (T...), 41-prefixed hex and 0x-prefixed 20-byte hex.
+ */
+export function tronAddressToHex(address: string): string {
+  if (/^41[0-9a-fA-F]{40}$/.test(address)) {
+    return address.toLowerCase();
+  }
+  if (/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    return '41' + address.slice(2).toLowerCase();
+  }
+
+  const bytes = decodeBase58Check(address);
+  if (bytes.length !== 21 || bytes[0] !== ADDRESS_PREFIX) {
+    throw new Error(`Invalid TRON address: ${address}`);
+  }
+  return Buffer.from(bytes).toString('hex');
+}
+
+/**
+ * Base58check form (T...) of a TRON address given in any accepted form
+ */
+export function toTronAddress(address: string): string {
+  return encodeBase58Check(Buffer.from(tronAddressToHex(address), 'hex'));
+}
+
+/**
+ * Whether two TRON addresses are the same account; invalid addresses never match
+ */
+export function isSameTronAddress(a: string, b: string): boolean {
+  try {
+    return tronAddressToHex(a) === tronAddressToHex(b);
+  } catch {
+    return false;
+  }
+}
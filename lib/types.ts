@@ -1,3 +1,8 @@
+import type { KeyObject } from 'crypto';
+import type { PaymentQRData } from './qrcode.js';
+import type { RpcEndpointHealth } from './rpc.js';
+import type { SignInFields } from './wallet-auth.js';
+
 /**
  * Payment link status
  */
@@ -6,7 +11,7 @@ export type PayLinkStatus = 'active' | 'disabled' | 'expired';
 /**
  * Referral status
  */
-export type ReferralStatus = 'pending' | 'confirmed' | 'paid' | 'expired';
+export type ReferralStatus = 'pending' | 'confirmed' | 'paid' | 'expired' | 'reversed';
 
 /**
  * Installment plan status
@@ -16,12 +21,17 @@ export type InstallmentStatus = 'pending' | 'active' | 'suspended' | 'completed'
 /**
  * Installment payment status
  */
-export type InstallmentPaymentStatus = 'pending' | 'confirmed' | 'failed';
+export type InstallmentPaymentStatus = 'pending' | 'confirmed' | 'failed' | 'reversed';
 
 /**
  * Payment verification status
  */
-export type PaymentStatus = 'not_found' | 'pending' | 'confirmed' | 'failed' | 'underpaid';
+export type PaymentStatus = 'not_found' | 'pending' | 'confirmed' | 'failed' | 'underpaid' | 'rpc_error';
+
+/**
+ * Payment intent status
+ */
+export type PaymentIntentStatus = 'open' | 'completed' | 'expired' | 'recycled';
 
 /**
  * Subscription interval
@@ -34,9 +44,9 @@ export type SubscriptionInterval = 'daily' | 'weekly' | 'monthly' | 'yearly';
 export type SubscriptionStatus = 'active' | 'past_due' | 'cancelled' | 'paused' | 'expired';
 
 /**
- * Chain type
+ * Chain type: a built-in network, or one added through `PaylinkConfig.providers`
  */
-export type ChainType = 'evm' | 'solana';
+export type ChainType = 'evm' | 'solana' | 'bitcoin' | 'tron' | (string & {});
 
 /**
  * Supported chain configuration
@@ -44,11 +54,37 @@ export type ChainType = 'evm' | 'solana';
 export interface ChainConfig {
   chainId: number;
   name: string;
-  rpcUrl: string;
+  /** RPC endpoint (HTTP API base URL on Bitcoin and TRON), or 'mock' for the mock verifier; tried before `rpcUrls` */
+  rpcUrl?: string;
+  /** Further RPC endpoints, used in order when earlier ones fail */
+  rpcUrls?: string[];
+  /** Endpoints that must agree on the transaction before it is confirmed (default: 1; EVM and Solana only) */
+  rpcQuorum?: number;
   symbol: string;
   confirmations?: number;
-  /** Chain type (default: 'evm') */
+  /** Confirmations after which a payment is final and no longer re-checked (default: 12 on EVM, 32 on Solana, 6 on Bitcoin, 19 on TRON) */
+  finalityDepth?: number;
+  /** Chain type, selecting the payment provider (default: inferred from the chain ID, else 'evm') */
   type?: ChainType;
+  /** Tokens accepted on this chain, keyed by symbol (e.g. USDC): ERC-20 contracts on EVM, SPL mints on Solana, TRC-20 contracts on TRON */
+  tokens?: Record<string, TokenConfig>;
+  /**
+   * Extended public key (xpub) to derive a fresh deposit address per checkout (EVM only)
+   * Use the xpub of the receive branch, e.g. m/44'/60'/0'/0
+   */
+  xpub?: string;
+}
+
+/**
+ * Token contract registered on a chain
+ */
+export interface TokenConfig {
+  /** Token contract address (ERC-20) or mint address (SPL) */
+  address: string;
+  /** Token decimals (e.g. 6 for USDC, 18 for DAI) */
+  decimals: number;
+  /** EIP-712 domain of the token contract, which x402 clients sign transfer authorizations for (e.g. USD Coin / 2) */
+  eip712?: { name: string; version: string };
 }
 
 /**
@@ -61,6 +97,26 @@ export const SOLANA_CHAIN_IDS = {
   TESTNET: 103,
 } as const;
 
+/**
+ * Bitcoin chain IDs, after Bitcoin Core's default RPC ports
+ * 8332 = Mainnet, 18332 = Testnet, 38332 = Signet
+ */
+export const BITCOIN_CHAIN_IDS = {
+  MAINNET: 8332,
+  TESTNET: 18332,
+  SIGNET: 38332,
+} as const;
+
+/**
+ * TRON chain IDs, as reported by TRON's eth_chainId
+ * 728126428 = Mainnet, 2494104990 = Shasta, 3448148188 = Nile
+ */
+export const TRON_CHAIN_IDS = {
+  MAINNET: 728126428,
+  SHASTA: 2494104990,
+  NILE: 3448148188,
+} as const;
+
 /**
  * Price configuration (single currency - legacy)
  */
@@ -127,6 +183,10 @@ export interface PayLink {
   referral?: ReferralConfig;
   /** Installment payment configuration */
   installment?: InstallmentConfig;
+  /** How access is delivered (default: 'redirect') */
+  delivery?: DeliveryMode;
+  /** Optimistic concurrency version (managed by storage) */
+  version?: number;
 }
 
 /**
@@ -164,6 +224,8 @@ export interface Subscription {
   pausedAt?: Date;
   trialEndsAt?: Date;
   metadata?: Record<string, unknown>;
+  /** Optimistic concurrency version (managed by storage) */
+  version?: number;
 }
 
 /**
@@ -184,6 +246,131 @@ export interface Payment {
   confirmedAt?: Date;
   /** Referral code used for this payment */
   referralCode?: string;
+  /** Payment intent matched by a watcher (payments detected without a txHash) */
+  paymentIntentId?: string;
+  /** Subscription the payment renewed; the subscriber may differ from the paying wallet */
+  subscriptionId?: string;
+  /** Reached the chain's finality depth, or stayed reverted past the restore window; no longer re-checked */
+  finalizedAt?: Date;
+  /** Transaction left the chain (reorg, dropped fork) after confirmation; `confirmed` is false again */
+  revertedAt?: Date;
+}
+
+/**
+ * Open checkout awaiting an on-chain payment
+ * Created by `POST /:id/checkout`, and for the Solana Pay reference of a 402 response or
+ * QR code, so watchers can detect the payment without a txHash
+ */
+export interface PaymentIntent {
+  id: string;
+  payLinkId: string;
+  chainId: number;
+  tokenSymbol: string;
+  /** Expected amount */
+  amount: string;
+  /** Address the payment must reach */
+  recipient: string;
+  /** Solana Pay reference public key (base58) */
+  reference?: string;
+  /** Index of the deposit address derived from the chain's xpub (`recipient`) */
+  derivationIndex?: number;
+  status: PaymentIntentStatus;
+  /** Payment recorded when the intent completed */
+  paymentId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  /** The watcher stops looking for the payment after this time */
+  expiresAt: Date;
+  /** Optimistic concurrency version (managed by storage) */
+  version?: number;
+}
+
+/**
+ * Next xpub derivation index of a chain; indexes below it are allocated
+ */
+export interface DerivationCounter {
+  chainId: number;
+  nextIndex: number;
+}
+
+/**
+ * Progress of a block-scanning payment watcher on one chain
+ */
+export interface ChainCheckpoint {
+  chainId: number;
+  /** Last block fully scanned */
+  blockNumber: number;
+  updatedAt: Date;
+}
+
+/**
+ * Sign-in challenge issued to prove control of a payer address
+ */
+export interface AuthChallenge {
+  /** Single-use nonce embedded in the message */
+  nonce: string;
+  payLinkId: string;
+  chainId: number;
+  address: string;
+  /** Exact message the wallet signs */
+  message: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Upstream restrictions for proxy delivery
+ */
+export interface ProxyConfig {
+  /** Only proxy to these hostnames; listed hosts may resolve to private addresses (default: any public host) */
+  allowedHosts?: string[];
+  /** Upstream idle timeout in ms (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * Redirect signing configuration
+ * Redirects are signed once `secret` or `privateKey` is set; `privateKey` wins when both are.
+ */
+export interface RedirectSigningConfig {
+  /** HMAC-SHA256 secret shared with the target origin */
+  secret?: string;
+  /** Ed25519 private key (PEM or KeyObject); the target origin verifies with the public key */
+  privateKey?: string | KeyObject;
+  /** Seconds a signed redirect URL stays valid (default: 60) */
+  ttl?: number;
+}
+
+/**
+ * x402 configuration
+ * x402 payments are accepted once `facilitatorUrl` is set.
+ */
+export interface X402Config {
+  /** Facilitator verifying and settling x402 payment payloads (e.g. https://x402.org/facilitator) */
+  facilitatorUrl?: string;
+  /** x402 network names of further chain IDs, or overrides of the built-in ones */
+  networks?: Record<number, string>;
+  /** Facilitator request timeout in ms (default: 30000) */
+  timeout?: number;
+}
+
+/**
+ * How a paid link hands over its target
+ * - redirect: 302 to targetUrl
+ * - proxy: the server fetches targetUrl and streams it, never revealing the URL
+ */
+export type DeliveryMode = 'redirect' | 'proxy';
+
+/**
+ * Denylist entry revoking access tokens
+ * `id` is a token ID, or the payment, subscription or installment plan the tokens grant access from.
+ */
+export interface AccessTokenRevocation {
+  id: string;
+  /** Tokens issued up to this time are revoked */
+  revokedAt: Date;
+  /** No token it covers is valid after this; the entry may be dropped then */
+  expiresAt: Date;
 }
 
 /**
@@ -230,6 +417,8 @@ export interface Referral {
   updatedAt: Date;
   /** Custom metadata */
   metadata?: Record<string, unknown>;
+  /** Optimistic concurrency version (managed by storage) */
+  version?: number;
 }
 
 /**
@@ -268,6 +457,8 @@ export interface ReferralCommission {
   paidAt?: Date;
   /** Payout transaction hash */
   payoutTxHash?: string;
+  /** Optimistic concurrency version (managed by storage) */
+  version?: number;
 }
 
 /**
@@ -366,6 +557,8 @@ export interface InstallmentPlan {
   cancelledAt?: Date;
   /** Custom metadata */
   metadata?: Record<string, unknown>;
+  /** Optimistic concurrency version (managed by storage) */
+  version?: number;
 }
 
 /**
@@ -402,6 +595,8 @@ export interface InstallmentPayment {
   createdAt: Date;
   /** Confirmed timestamp */
   confirmedAt?: Date;
+  /** Optimistic concurrency version (managed by storage) */
+  version?: number;
 }
 
 /**
@@ -461,6 +656,8 @@ export interface CreatePayLinkInput {
   referral?: ReferralConfig;
   /** Installment payment configuration */
   installment?: InstallmentConfig;
+  /** How access is delivered (default: 'redirect'); 'proxy' needs an http(s) targetUrl */
+  delivery?: DeliveryMode;
 }
 
 /**
@@ -489,6 +686,8 @@ export interface Protocol402Response {
     amount: string;
     recipient: string;
     timeoutSeconds: number;
+    /** Solana Pay reference to include in the transaction (watched Solana chains, within the limits of `CheckoutConfig`) */
+    reference?: string;
   };
   /** Additional payment options (multi-currency) */
   paymentOptions?: Array<{
@@ -496,10 +695,15 @@ export interface Protocol402Response {
     tokenSymbol: string;
     amount: string;
     recipient: string;
+    reference?: string;
   }>;
   callbacks: {
     status: string;
     confirm: string;
+    /** Sign-in challenge for proving the payer address (multi-use and subscription links) */
+    challenge?: string;
+    /** Opens payment intents, detected without a txHash (all but subscription links) */
+    checkout?: string;
   };
   nonce: string;
   signature?: string;
@@ -517,6 +721,32 @@ export interface Protocol402Response {
   };
 }
 
+/**
+ * Payment option of a checkout, with the intent opened for it
+ */
+export interface CheckoutOption {
+  chainId: number;
+  tokenSymbol: string;
+  amount: string;
+  /** Address to pay: a derived deposit address on chains with an xpub */
+  recipient: string;
+  /** Solana Pay reference to include in the transaction (Solana chains) */
+  reference?: string;
+  /** Payment intent, absent on chains that are neither watched nor use an xpub */
+  intentId?: string;
+  /** ISO time after which the intent is no longer watched */
+  expiresAt?: string;
+}
+
+/**
+ * `POST /:id/checkout` response
+ */
+export interface CheckoutResponse {
+  payLinkId: string;
+  payment: CheckoutOption;
+  paymentOptions?: CheckoutOption[];
+}
+
 /**
  * 403 Reason codes
  */
@@ -534,6 +764,7 @@ export enum ReasonCode {
   SUBSCRIPTION_PAUSED = 'SUBSCRIPTION_PAUSED',
   SUBSCRIPTION_EXPIRED = 'SUBSCRIPTION_EXPIRED',
   SUBSCRIPTION_MAX_CYCLES_REACHED = 'SUBSCRIPTION_MAX_CYCLES_REACHED',
+  PAYER_NOT_VERIFIED = 'PAYER_NOT_VERIFIED',
 }
 
 /**
@@ -561,6 +792,7 @@ export interface WebhookConfigType {
     | 'payment.pending'
     | 'payment.failed'
     | 'payment.underpaid'
+    | 'payment.reverted'
     | 'link.created'
     | 'link.disabled'
     | 'subscription.created'
@@ -621,6 +853,87 @@ export interface PaylinkConfig {
   webhook?: WebhookConfigType;
   /** PAYLINK token configuration */
   paylinkToken?: PaylinkTokenConfigType;
+  /** Storage backend shared by all subsystems (default: in-memory) */
+  storage?: Storage;
+  /** Background payment detection */
+  watcher?: WatcherConfig;
+  /** Payment intents opened by `POST /:id/checkout`, 402 responses and QR codes */
+  checkout?: CheckoutConfig;
+  /** Re-checking of confirmed payments until they are final */
+  finality?: FinalityConfig;
+  /** Payment providers for further chain types; a provider replaces the built-in one of the same type */
+  providers?: PaymentProvider[];
+  /** Proof of payer identity for multi-use and subscription links */
+  payerAuth?: PayerAuthConfig;
+  /** Signed access tokens issued after payment */
+  accessTokens?: AccessTokenConfig;
+  /** Upstreams of links with proxy delivery */
+  proxy?: ProxyConfig;
+  /** Signatures on redirects to targets, verifiable by the target origin */
+  redirectSigning?: RedirectSigningConfig;
+  /** x402 payments, settled through a facilitator */
+  x402?: X402Config;
+}
+
+/**
+ * Payer identity configuration
+ */
+export interface PayerAuthConfig {
+  /** Only grant `?payer=` / `?subscriber=` access with a signed sign-in challenge (default: true) */
+  required?: boolean;
+  /** Seconds a challenge can be signed and used (default: 300) */
+  challengeTtl?: number;
+}
+
+/**
+ * Access token configuration
+ */
+export interface AccessTokenConfig {
+  /** Issue access tokens and grant access to their holders (default: true) */
+  enabled?: boolean;
+  /** HMAC key; defaults to `signatureSecret`, else a random key that lasts until restart */
+  secret?: string;
+  /** Lifetime in seconds of single-use, multi-use and completed installment tokens (default: 86400) */
+  ttl?: number;
+  /** Cookie holding the token, scoped to the link's path (default: 'paylink_access') */
+  cookieName?: string;
+}
+
+/**
+ * Background payment detection configuration
+ */
+export interface WatcherConfig {
+  /** Detect payments to open payment intents without a txHash (default: true) */
+  enabled?: boolean;
+  /** Polling interval in ms (default: 5000) */
+  interval?: number;
+}
+
+/**
+ * Checkout configuration
+ */
+export interface CheckoutConfig {
+  /** Checkouts (and sign-in challenges) a client IP may open per minute; 0 for no limit (default: 10) */
+  maxPerMinute?: number;
+  /**
+   * Unexpired Solana Pay references a chain may hold before 402 responses and QR codes
+   * stop embedding new ones (default: 1000, 0 for none); checkouts are not capped
+   */
+  maxOpenReferences?: number;
+}
+
+/**
+ * Finality tracking configuration
+ */
+export interface FinalityConfig {
+  /** Re-check confirmed payments until final and revert those that left the chain (default: true) */
+  enabled?: boolean;
+  /** Polling interval in ms (default: 30000) */
+  interval?: number;
+  /** Consecutive checks a transaction must be missing on before its payment is reverted (default: 3) */
+  revertAfterMisses?: number;
+  /** Time in ms reverted payments are re-checked and restored if mined again (default: 24 hours) */
+  restoreWindow?: number;
 }
 
 /**
@@ -633,17 +946,164 @@ export interface PaymentCheckResult {
   raw?: unknown;
 }
 
+/**
+ * Whether a transaction is still on the canonical chain, and how deep
+ */
+export interface TransactionDepth {
+  /** False once the transaction was reorganized out, dropped or reverted */
+  included: boolean;
+  /** Blocks (slots) built on top of the transaction's block */
+  confirmations: number;
+  /** The chain itself reports the transaction final (Solana `finalized` commitment) */
+  finalized?: boolean;
+}
+
+/**
+ * Verifies payments on one configured chain
+ */
+export interface PaymentVerifier {
+  verifyPayment(params: {
+    txHash: string;
+    recipient: string;
+    amount: string;
+    /** Expected token; native currency when omitted or equal to the chain symbol */
+    tokenSymbol?: string;
+  }): Promise<PaymentCheckResult>;
+  /** Whether a transaction is still on chain; throws when the chain cannot be reached */
+  getTransactionDepth(txHash: string): Promise<TransactionDepth>;
+  /** Health of the verifier's RPC endpoints */
+  getRpcHealth?(): RpcEndpointHealth[];
+  /** Whether a contract account accepts a signature of a sign-in message (EIP-1271); throws when the chain cannot be reached */
+  verifyContractSignature?(message: string, signature: string, address: string): Promise<boolean>;
+}
+
+/**
+ * Support for one type of network, selected by `ChainConfig.type`
+ * Built-in providers serve 'evm', 'solana', 'bitcoin' and 'tron'.
+ */
+export interface PaymentProvider {
+  /** Chain type served */
+  readonly type: ChainType;
+  /** Chain IDs of this type, used when `ChainConfig.type` is omitted */
+  readonly chainIds?: readonly number[];
+  /** Decimals of the native currency */
+  readonly nativeDecimals: number;
+  /** Default `ChainConfig.finalityDepth` */
+  readonly finalityDepth: number;
+  /** Verifier for a configured chain, including mock chains (`rpcUrl: 'mock'`) */
+  createVerifier(chain: ChainConfig): PaymentVerifier;
+  /** Wallet payment URI, encoded in QR codes */
+  generatePaymentURI(data: PaymentQRData): string;
+  /** Whether the address can receive payments */
+  isValidAddress(address: string): boolean;
+  /** Address as wallets show it (default: unchanged) */
+  formatAddress?(address: string): string;
+  /** Whether a string has the format of a transaction ID on this chain (default: not checked) */
+  isValidTxHash?(txHash: string): boolean;
+  /** Throw on chain settings the provider does not support; called at startup */
+  validateChain?(chain: ChainConfig): void;
+  /** Sign-in message a wallet signs to prove control of an address (EIP-4361, Sign In With Solana) */
+  createSignInMessage?(fields: SignInFields): string;
+  /** Whether `address` signed `message`; chains without it cannot prove payer identity */
+  verifySignature?(message: string, signature: string, address: string): boolean;
+}
+
+/**
+ * Common options for paged Storage listings
+ * Results are ordered by creation time, ties broken by id
+ */
+export interface ListOptions {
+  /** Opaque cursor from a previous page's `nextCursor` */
+  cursor?: string;
+  /** Page size (default: 50, max: 500) */
+  limit?: number;
+  /** Only include records created at or after this date */
+  from?: Date;
+  /** Only include records created before this date */
+  to?: Date;
+  /** Creation time order (default: 'desc', newest first) */
+  sort?: 'asc' | 'desc';
+}
+
+export interface ListPayLinksOptions extends ListOptions {
+  status?: PayLinkStatus;
+}
+
+export interface ListPaymentsOptions extends ListOptions {
+  payLinkId?: string;
+  chainId?: number;
+  confirmed?: boolean;
+}
+
+export interface ListSubscriptionsOptions extends ListOptions {
+  payLinkId?: string;
+  subscriberAddress?: string;
+  status?: SubscriptionStatus;
+}
+
+export interface ListReferralsOptions extends ListOptions {
+  payLinkId?: string;
+  referrerAddress?: string;
+  status?: Referral['status'];
+}
+
+export interface ListCommissionsOptions extends ListOptions {
+  referralId?: string;
+  referrerAddress?: string;
+  status?: ReferralStatus;
+}
+
+export interface ListInstallmentPlansOptions extends ListOptions {
+  payLinkId?: string;
+  buyerAddress?: string;
+  status?: InstallmentStatus;
+}
+
+export interface ListPaymentIntentsOptions extends ListOptions {
+  chainId?: number;
+  status?: PaymentIntentStatus;
+}
+
+/**
+ * One page of a Storage listing
+ */
+export interface Page<T> {
+  items: T[];
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
+}
+
 /**
  * Storage interface
+ *
+ * update* methods increment the entity's `version`. When the passed entity carries a
+ * `version`, the update only applies if it still matches the stored one and rejects
+ * with ConcurrentUpdateError otherwise (compare-and-swap).
  */
 export interface Storage {
+  /** Prepare the backend (connect, run migrations). Called once before the first request */
+  init?(): Promise<void>;
+  /** Release connections and other resources */
+  close?(): Promise<void>;
+
   getPayLink(id: string): Promise<PayLink | null>;
   savePayLink(payLink: PayLink): Promise<void>;
   updatePayLink(payLink: PayLink): Promise<void>;
+  /**
+   * Atomically increment `usedCount` unless it already reached `maxUses`
+   * Returns the updated link, or null when the limit is reached
+   */
+  incrementUsage(payLinkId: string, maxUses?: number): Promise<PayLink | null>;
   deletePayLink(id: string): Promise<void>;
   getAllPayLinks(): Promise<PayLink[]>;
+  listPayLinks(options?: ListPayLinksOptions): Promise<Page<PayLink>>;
   
   savePayment(payment: Payment): Promise<void>;
+  /**
+   * Atomically insert a payment unless its chain already has one with the same txHash
+   * Returns false, storing nothing, when the transaction is already recorded.
+   */
+  insertPayment(payment: Payment): Promise<boolean>;
   getPaymentByTxHash(txHash: string): Promise<Payment | null>;
   getConfirmedPayment(payLinkId: string): Promise<Payment | null>;
   /** Get confirmed payment for a specific payer address on a link */
@@ -651,6 +1111,9 @@ export interface Storage {
   /** Get all payments for a link */
   getPaymentsByLink(payLinkId: string): Promise<Payment[]>;
   getAllPayments(): Promise<Payment[]>;
+  /** Get confirmed and reverted payments on a chain that are not final yet, oldest first */
+  getUnfinalizedPayments(chainId: number): Promise<Payment[]>;
+  listPayments(options?: ListPaymentsOptions): Promise<Page<Payment>>;
 
   // Subscription methods
   saveSubscription(subscription: Subscription): Promise<void>;
@@ -660,6 +1123,7 @@ export interface Storage {
   getSubscriptionsByPayLink(payLinkId: string): Promise<Subscription[]>;
   getSubscriptionsDue(beforeDate: Date): Promise<Subscription[]>;
   getAllSubscriptions(): Promise<Subscription[]>;
+  listSubscriptions(options?: ListSubscriptionsOptions): Promise<Page<Subscription>>;
 
   // Referral methods
   saveReferral(referral: Referral): Promise<void>;
@@ -669,6 +1133,7 @@ export interface Storage {
   getReferralsByPayLink(payLinkId: string): Promise<Referral[]>;
   getReferralsByReferrer(referrerAddress: string): Promise<Referral[]>;
   getAllReferrals(): Promise<Referral[]>;
+  listReferrals(options?: ListReferralsOptions): Promise<Page<Referral>>;
 
   // Referral commission methods
   saveCommission(commission: ReferralCommission): Promise<void>;
@@ -678,6 +1143,7 @@ export interface Storage {
   getCommissionsByReferrer(referrerAddress: string): Promise<ReferralCommission[]>;
   getPendingCommissions(referrerAddress: string): Promise<ReferralCommission[]>;
   getAllCommissions(): Promise<ReferralCommission[]>;
+  listCommissions(options?: ListCommissionsOptions): Promise<Page<ReferralCommission>>;
 
   // Installment plan methods
   saveInstallmentPlan(plan: InstallmentPlan): Promise<void>;
@@ -689,6 +1155,7 @@ export interface Storage {
   getOverdueInstallmentPlans(): Promise<InstallmentPlan[]>;
   getInstallmentPlansDueBefore(date: Date): Promise<InstallmentPlan[]>;
   getAllInstallmentPlans(): Promise<InstallmentPlan[]>;
+  listInstallmentPlans(options?: ListInstallmentPlansOptions): Promise<Page<InstallmentPlan>>;
 
   // Installment payment methods
   saveInstallmentPayment(payment: InstallmentPayment): Promise<void>;
@@ -697,4 +1164,43 @@ export interface Storage {
   getInstallmentPaymentsByPlan(planId: string): Promise<InstallmentPayment[]>;
   getInstallmentPaymentsByBuyer(buyerAddress: string): Promise<InstallmentPayment[]>;
   getAllInstallmentPayments(): Promise<InstallmentPayment[]>;
+
+  // Payment intent methods
+  savePaymentIntent(intent: PaymentIntent): Promise<void>;
+  getPaymentIntent(id: string): Promise<PaymentIntent | null>;
+  getPaymentIntentByReference(reference: string): Promise<PaymentIntent | null>;
+  updatePaymentIntent(intent: PaymentIntent): Promise<void>;
+  /** Get open intents on a chain, oldest first */
+  getOpenPaymentIntents(chainId: number): Promise<PaymentIntent[]>;
+  /** Get up to `limit` expired intents on a chain that hold a derived deposit address, oldest first */
+  getExpiredDepositIntents(chainId: number, limit: number): Promise<PaymentIntent[]>;
+  listPaymentIntents(options?: ListPaymentIntentsOptions): Promise<Page<PaymentIntent>>;
+
+  // Chain checkpoint methods
+  getChainCheckpoint(chainId: number): Promise<ChainCheckpoint | null>;
+  /** Insert or replace the checkpoint of a chain */
+  saveChainCheckpoint(checkpoint: ChainCheckpoint): Promise<void>;
+  /** Get the checkpoints of every chain */
+  getChainCheckpoints(): Promise<ChainCheckpoint[]>;
+
+  // Deposit address methods
+  /** Atomically allocate the next xpub derivation index of a chain (0, 1, 2, ...) */
+  nextDerivationIndex(chainId: number): Promise<number>;
+  /** Get the derivation counter of every chain that allocated an index */
+  getDerivationCounters(): Promise<DerivationCounter[]>;
+  /** Raise a chain's counter to at least `nextIndex`; never lowers it, so no index is handed out twice */
+  restoreDerivationCounter(counter: DerivationCounter): Promise<void>;
+
+  // Sign-in challenge methods
+  /** Store a challenge; may drop expired ones */
+  saveAuthChallenge(challenge: AuthChallenge): Promise<void>;
+  /** Atomically remove and return a challenge, so each nonce is accepted at most once */
+  consumeAuthChallenge(nonce: string): Promise<AuthChallenge | null>;
+
+  // Access token denylist methods
+  /** Insert or replace a revocation; may drop expired ones */
+  saveAccessTokenRevocation(revocation: AccessTokenRevocation): Promise<void>;
+  getAccessTokenRevocation(id: string): Promise<AccessTokenRevocation | null>;
+  /** Get every revocation that has not expired */
+  getAccessTokenRevocations(): Promise<AccessTokenRevocation[]>;
 }
@@ -51,14 +51,20 @@ export function isLimitReached(used?: number, max?: number): boolean {
 }
 
 /**
- * Compare amounts
+ * Value of a cookie in a `Cookie` request header
  */
-export function compareAmounts(a: string, b: string): number {
-  const numA = parseFloat(a);
-  const numB = parseFloat(b);
-  if (numA < numB) return -1;
-  if (numA > numB) return 1;
-  return 0;
+export function getCookie(header: string | undefined, name: string): string | undefined {
+  for (const pair of header?.split(';') ?? []) {
+    const index = pair.indexOf('=');
+    if (index > 0 && pair.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(pair.slice(index + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
 }
 
 /**
@@ -78,4 +84,5 @@ export const REASON_MESSAGES: Record<string, string> = {
   SUBSCRIPTION_PAUSED: 'This subscription is paused.',
   SUBSCRIPTION_EXPIRED: 'This subscription has expired.',
   SUBSCRIPTION_MAX_CYCLES_REACHED: 'Subscription has reached maximum billing cycles.',
+  PAYER_NOT_VERIFIED: 'Sign the challenge with the paying wallet to prove the payer address.',
 };
@@ -0,0 +1,148 @@
+/**
+ * Wallet sign-in
+ * Sign-In with Ethereum (EIP-4361) and Sign In With Solana messages, and local
+ * verification of the wallet signatures over them, so a buyer can prove control
+ * of the address that paid without any outside service.
+ */
+
+import { createPublicKey, verify } from 'crypto';
+import { decodeBase58 } from './base58.js';
+import { publicKeyToAddress } from './hd.js';
+import { keccak256 } from './keccak.js';
+import { bytesToBigInt, recoverPublicKey } from './secp256k1.js';
+
+/**
+ * Fields of a sign-in message
+ */
+export interface SignInFields {
+  /** Host asking for the signature (e.g. 'pay.example.com') */
+  domain: string;
+  /** Address signing in */
+  address: string;
+  /** Human-readable purpose shown by the wallet */
+  statement?: string;
+  /** URL the sign-in is for */
+  uri: string;
+  /** Chain the address belongs to */
+  chainId: number;
+  /** Single-use value issued by the server */
+  nonce: string;
+  issuedAt: Date;
+  expirationTime: Date;
+  /** URLs the signer gets access to */
+  resources?: string[];
+}
+
+/**
+ * Format an EIP-4361 style message
+ * Sign In With Solana uses the same layout with `account` 'Solana' and a cluster name as chain ID.
+ */
+export function formatSignInMessage(account: string, chainId: string | number, fields: SignInFields): string {
+  const lines = [`${fields.domain} wants you to sign in with your ${account} account:`, fields.address, ''];
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  }
+  lines.push(
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Chain ID: ${chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt.toISOString()}`,
+    `Expiration Time: ${fields.expirationTime.toISOString()}`
+  );
+  if (fields.resources?.length) {
+    lines.push('Resources:', ...fields.resources.map(resource => `- ${resource}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * EIP-191 digest of a message signed with `personal_sign`
+ */
+export function hashPersonalMessage(message: string): Uint8Array {
+  const bytes = new TextEncoder().encode(message);
+  const prefix = new TextEncoder().encode(`\x19Ethereum Signed Message:\n${bytes.length}`);
+  const data = new Uint8Array(prefix.length + bytes.length);
+  data.set(prefix);
+  data.set(bytes, prefix.length);
+  return keccak256(data);
+}
+
+/**
+ * Address that signed a message with `personal_sign`, EIP-55 checksummed
+ * Throws on malformed signatures.
+ */
+export function recoverPersonalSignAddress(message: string, signature: string): string {
+  const hex = signature.replace(/^0x/, '');
+  if (!/^[0-9a-fA-F]{130}$/.test(hex)) {
+    throw new Error('Invalid signature: expected 65 bytes of hex');
+  }
+  const bytes = Buffer.from(hex, 'hex');
+  // Wallets use v = 27/28; some hardware wallets report 0/1
+  const v = bytes[64] >= 27 ? bytes[64] - 27 : bytes[64];
+  const publicKey = recoverPublicKey(
+    hashPersonalMessage(message),
+    bytesToBigInt(bytes.subarray(0, 32)),
+    bytesToBigInt(bytes.subarray(32, 64)),
+    v
+  );
+  return publicKeyToAddress(publicKey);
+}
+
+/**
+ * Whether an EVM address signed a message with `personal_sign`
+ * Only externally owned accounts: contract wallet (EIP-1271) signatures need an RPC
+ * call, see `ChainVerifier.verifyContractSignature()`.
+ */
+export function verifyPersonalSignature(message: string, signature: string, address: string): boolean {
+  try {
+    return recoverPersonalSignAddress(message, signature).toLowerCase() === address.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/** EIP-1271 `isValidSignature(bytes32,bytes)` selector, also the value a contract returns to accept */
+export const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+
+/**
+ * Calldata asking a contract wallet (EIP-1271) whether it accepts a signature of a `personal_sign` message
+ * Throws on signatures that are not hex.
+ */
+export function encodeIsValidSignatureCall(message: string, signature: string): string {
+  const hex = signature.replace(/^0x/, '');
+  if (!/^(?:[0-9a-fA-F]{2})+$/.test(hex)) {
+    throw new Error('Invalid signature: expected hex');
+  }
+  const word = (value: number) => value.toString(16).padStart(64, '0');
+  return EIP1271_MAGIC_VALUE +
+    Buffer.from(hashPersonalMessage(message)).toString('hex') +
+    word(64) +
+    word(hex.length / 2) +
+    hex.padEnd(Math.ceil(hex.length / 64) * 64, '0');
+}
+
+/** DER prefix of an Ed25519 SubjectPublicKeyInfo; the 32-byte key follows */
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+/**
+ * Whether a Solana address (base58 Ed25519 public key) signed a message
+ * `signature` is the 64-byte signature in base58, as returned by `signMessage` and encoded by the client.
+ */
+export function verifySolanaSignature(message: string, signature: string, address: string): boolean {
+  try {
+    const publicKey = decodeBase58(address);
+    const signatureBytes = decodeBase58(signature);
+    if (publicKey.length !== 32 || signatureBytes.length !== 64) {
+      return false;
+    }
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(null, new TextEncoder().encode(message), key, signatureBytes);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Shared helpers for background payment watchers
+ * Watchers match on-chain transfers to open payment intents and hand them to a
+ * PaymentHandler, which records the payment.
+ */
+
+import type { PaymentCheckResult, PaymentIntent, Storage } from './types.js';
+import { updateWithRetry } from './storage/concurrency.js';
+
+/** Default polling interval in ms */
+export const DEFAULT_WATCH_INTERVAL = 5000;
+
+/** Default time an intent is still watched after it expires, in ms */
+export const DEFAULT_INTENT_GRACE_PERIOD = 60000;
+
+/**
+ * Called once per confirmed transaction matched to an open intent
+ */
+export type PaymentHandler = (intent: PaymentIntent, txHash: string, result: PaymentCheckResult) => Promise<void>;
+
+/**
+ * Check whether an intent is past its expiry plus the grace period
+ */
+export function isIntentStale(intent: PaymentIntent, gracePeriod: number, now: number = Date.now()): boolean {
+  return now > intent.expiresAt.getTime() + gracePeriod;
+}
+
+/**
+ * Mark an open intent as expired (no-op if it completed meanwhile)
+ */
+export async function expirePaymentIntent(storage: Storage, intent: PaymentIntent): Promise<void> {
+  await updateWithRetry(
+    () => storage.getPaymentIntent(intent.id),
+    current => {
+      if (current.status !== 'open') return false;
+      current.status = 'expired';
+      current.updatedAt = new Date();
+    },
+    current => storage.updatePaymentIntent(current)
+  );
+}
@@ -27,6 +27,7 @@ export type WebhookEvent =
   | 'payment.pending'
   | 'payment.failed'
   | 'payment.underpaid'
+  | 'payment.reverted'
   | 'link.created'
   | 'link.disabled'
   | 'link.expired'
@@ -44,6 +45,7 @@ export type WebhookEvent =
   | 'commission.pending'
   | 'commission.confirmed'
   | 'commission.paid'
+  | 'commission.reversed'
   | 'installment.plan_created'
   | 'installment.payment_received'
   | 'installment.payment_confirmed'
@@ -83,6 +85,7 @@ export interface WebhookPaymentData {
     confirmed: boolean;
     createdAt: string;
     confirmedAt?: string;
+    revertedAt?: string;
   };
   payLink: {
     id: string;
@@ -303,6 +306,7 @@ export class WebhookManager {
         'payment.pending',
         'payment.failed',
         'payment.underpaid',
+        'payment.reverted',
         'link.created',
         'link.disabled',
         'subscription.created',
@@ -319,6 +323,7 @@ export class WebhookManager {
         'commission.pending',
         'commission.confirmed',
         'commission.paid',
+        'commission.reversed',
         'installment.plan_created',
         'installment.payment_received',
         'installment.payment_confirmed',
@@ -370,6 +375,7 @@ export class WebhookManager {
           confirmed: payment.confirmed,
           createdAt: payment.createdAt.toISOString(),
           confirmedAt: payment.confirmedAt?.toISOString(),
+          revertedAt: payment.revertedAt?.toISOString(),
         },
         payLink: {
           id: payLink.id,
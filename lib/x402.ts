@@ -0,0 +1,188 @@
+/**
+ * x402 compatibility
+ * The x402 convention for HTTP 402, spoken beside 402-paylink-v1: payment
+ * requirements in a response header (and body, when asked for), a signed payment
+ * payload in a request header, verified and settled on chain by an x402
+ * facilitator, and the settlement returned in a response header.
+ */
+
+/** x402 protocol version of the payloads exchanged */
+export const X402_VERSION = 1;
+
+/**
+ * Header names
+ * Both request headers carry the same base64-encoded payload; `X-PAYMENT` is the
+ * original name, `PAYMENT-SIGNATURE` the newer one.
+ */
+export const X402_HEADERS = {
+  /** Response: base64 JSON `X402PaymentRequired` on 402 responses */
+  REQUIRED: 'PAYMENT-REQUIRED',
+  /** Request: base64 JSON `X402PaymentPayload` */
+  PAYMENT: 'X-PAYMENT',
+  PAYMENT_SIGNATURE: 'PAYMENT-SIGNATURE',
+  /** Response: base64 JSON `X402SettleResponse` once paid */
+  RESPONSE: 'X-PAYMENT-RESPONSE',
+} as const;
+
+/**
+ * x402 network names of chain IDs
+ * Chains not listed here (or in `X402Config.networks`) are not offered over x402.
+ */
+export const X402_NETWORKS: Record<number, string> = {
+  8453: 'base',
+  84532: 'base-sepolia',
+  43114: 'avalanche',
+  43113: 'avalanche-fuji',
+  137: 'polygon',
+  80002: 'polygon-amoy',
+  1329: 'sei',
+  1328: 'sei-testnet',
+  4689: 'iotex',
+  101: 'solana',
+  102: 'solana-devnet',
+};
+
+/**
+ * One way to pay for a resource
+ */
+export interface X402PaymentRequirements {
+  /** Payment scheme; 'exact' transfers `maxAmountRequired` of `asset` to `payTo` */
+  scheme: 'exact';
+  network: string;
+  /** Amount in the asset's smallest unit */
+  maxAmountRequired: string;
+  /** URL of the paid resource */
+  resource: string;
+  description: string;
+  mimeType: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  /** Token contract (EVM) or mint (Solana) */
+  asset: string;
+  /** Scheme-specific data, e.g. the token's EIP-712 domain `name` and `version` */
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * x402 402 body, also sent base64-encoded in the `PAYMENT-REQUIRED` header
+ */
+export interface X402PaymentRequired {
+  x402Version: number;
+  error?: string;
+  accepts: X402PaymentRequirements[];
+}
+
+/**
+ * Signed payment sent by the client; `payload` is scheme-specific
+ * (an EIP-3009 authorization and signature on EVM, a signed transaction on Solana).
+ */
+export interface X402PaymentPayload {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Facilitator answer to `/verify`
+ */
+export interface X402VerifyResponse {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: string;
+}
+
+/**
+ * Facilitator answer to `/settle`, passed to the client in `X-PAYMENT-RESPONSE`
+ */
+export interface X402SettleResponse {
+  success: boolean;
+  errorReason?: string;
+  /** Transaction hash of the settled payment */
+  transaction: string;
+  network: string;
+  payer?: string;
+}
+
+/**
+ * Encode a value for an x402 header (base64 JSON)
+ */
+export function encodeX402Header(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64');
+}
+
+/**
+ * Decode an x402 payment header; throws on malformed input
+ */
+export function decodeX402Payment(header: string): X402PaymentPayload {
+  const payment = JSON.parse(Buffer.from(header, 'base64').toString('utf8')) as X402PaymentPayload;
+  if (
+    typeof payment !== 'object' || payment === null ||
+    typeof payment.scheme !== 'string' ||
+    typeof payment.network !== 'string' ||
+    typeof payment.payload !== 'object' || payment.payload === null
+  ) {
+    throw new Error('Invalid x402 payment payload');
+  }
+  return payment;
+}
+
+/** Default facilitator request timeout in ms */
+export const DEFAULT_FACILITATOR_TIMEOUT = 30000;
+
+/**
+ * Client of an x402 facilitator, which checks payment payloads and submits them on chain
+ * Transport failures throw; rejected payments are reported in the response.
+ */
+export class X402Facilitator {
+  private url: string;
+  private timeout: number;
+
+  constructor(url: string, timeout = DEFAULT_FACILITATOR_TIMEOUT) {
+    this.url = url.replace(/\/+$/, '');
+    this.timeout = timeout;
+  }
+
+  /**
+   * Check that a payload pays the requirements without settling it
+   */
+  verify(payment: X402PaymentPayload, requirements: X402PaymentRequirements): Promise<X402VerifyResponse> {
+    return this.post('verify', payment, requirements);
+  }
+
+  /**
+   * Submit a payload on chain and wait for the transaction
+   */
+  settle(payment: X402PaymentPayload, requirements: X402PaymentRequirements): Promise<X402SettleResponse> {
+    return this.post('settle', payment, requirements);
+  }
+
+  private async post<T>(path: string, payment: X402PaymentPayload, requirements: X402PaymentRequirements): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.url}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          x402Version: payment.x402Version ?? X402_VERSION,
+          paymentPayload: payment,
+          paymentRequirements: requirements,
+        }),
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Facilitator ${path}: HTTP ${response.status}`);
+      }
+      return (await response.json()) as T;
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') {
+        throw new Error(`Facilitator ${path}: timed out after ${this.timeout}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  MemoryStorage,
+  MockPaymentProvider,
+  createServer,
+  signAccessToken,
+  verifyAccessToken,
+  type AccessTokenClaims,
+  type PaylinkConfig,
+  type PaylinkServer,
+} from '../lib/index.js';
+
+const SECRET = 'access-secret';
+const BUYER = '0x' + 'a'.repeat(40);
+
+function claims(overrides: Partial<AccessTokenClaims> = {}): AccessTokenClaims {
+  const now = Math.floor(Date.now() / 1000);
+  return { jti: 'jti1', sub: BUYER, link: 'abc', scope: 'single-use', grant: 'pay1', iat: now, exp: now + 60, ...overrides };
+}
+
+describe('Access tokens', () => {
+  it('should verify tokens signed with the same secret until they expire', () => {
+    const token = signAccessToken(claims(), SECRET);
+
+    expect(verifyAccessToken(token, SECRET)).toEqual(claims());
+    expect(verifyAccessToken(token, 'other-secret')).toBeNull();
+    expect(verifyAccessToken(token, SECRET, new Date(Date.now() + 61_000))).toBeNull();
+    expect(verifyAccessToken(signAccessToken(claims({ exp: 1 }), SECRET), SECRET)).toBeNull();
+  });
+
+  it('should warn when tokens are signed with a random per-process secret', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const chains = [{ chainId: 4242, name: 'Mocknet', symbol: 'MCK', rpcUrl: 'http://mocknet.test', type: 'mocknet' }];
+    const providers = [new MockPaymentProvider({ type: 'mocknet' })];
+    try {
+      createServer({ chains, providers, accessTokens: { secret: SECRET } });
+      createServer({ chains, providers, accessTokens: { enabled: false } });
+      expect(warn).not.toHaveBeenCalled();
+
+      createServer({ chains, providers });
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Set accessTokens.secret'));
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should reject tampered claims and other algorithms', () => {
+    const [header, , signature] = signAccessToken(claims(), SECRET).split('.');
+    const forged = Buffer.from(JSON.stringify(claims({ link: 'xyz' }))).toString('base64url');
+    const none = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+
+    expect(verifyAccessToken(`${header}.${forged}.${signature}`, SECRET)).toBeNull();
+    expect(verifyAccessToken(`${none}.${forged}.`, SECRET)).toBeNull();
+    expect(verifyAccessToken('not-a-token', SECRET)).toBeNull();
+  });
+});
+
+describe('Access token delivery', () => {
+  let provider: MockPaymentProvider;
+  let server: PaylinkServer;
+  let listener: Server;
+  let base: string;
+
+  async function start(config: Partial<PaylinkConfig> = {}) {
+    provider = new MockPaymentProvider({ type: 'mocknet', simulateDelay: 0 });
+    server = createServer({
+      chains: [{ chainId: 4242, name: 'Mocknet', symbol: 'MCK', rpcUrl: 'http://mocknet.test', type: 'mocknet' }],
+      providers: [provider],
+      storage: new MemoryStorage(),
+      apiKey: 'secret',
+      watcher: { enabled: false },
+      accessTokens: { secret: SECRET },
+      ...config,
+    });
+    listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+  }
+
+  const createLink = (input: Record<string, unknown> = {}) => server.createPayLink({
+    targetUrl: 'https://example.com/content',
+    price: { amount: '1', tokenSymbol: 'MCK', chainId: 4242 },
+    recipientAddress: 'mock-wallet-1',
+    ...input,
+  });
+
+  const post = (path: string, body: unknown, headers: Record<string, string> = {}) => fetch(`${base}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+  const get = (path: string, headers: Record<string, string> = {}) =>
+    fetch(`${base}${path}`, { redirect: 'manual', headers });
+
+  beforeEach(async () => {
+    await start();
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+  });
+
+  it('should issue a token and link-scoped cookie when a single-use payment confirms', async () => {
+    const link = await createLink({ maxUses: 2 });
+    const other = await createLink();
+
+    const confirmed = await post(`/pay/${link.id}/confirm`, { txHash: '0xpaid' });
+    const { accessToken, accessTokenExpiresAt } = await confirmed.json();
+    expect(verifyAccessToken(accessToken, SECRET)).toMatchObject({
+      sub: BUYER,
+      link: link.id,
+      scope: 'single-use',
+    });
+    expect(new Date(accessTokenExpiresAt).getTime()).toBeGreaterThan(Date.now() + 86_000_000);
+
+    const cookie = confirmed.headers.get('set-cookie')!;
+    expect(cookie).toContain(`paylink_access=${accessToken}`);
+    expect(cookie).toContain(`Path=/pay/${link.id}`);
+    expect(cookie).toContain('HttpOnly');
+
+    // Replaying the confirmation does not hand out another token
+    expect(await (await post(`/pay/${link.id}/confirm`, { txHash: '0xpaid' })).json()).not.toHaveProperty('accessToken');
+
+    const granted = await get(`/pay/${link.id}`, { Cookie: `paylink_access=${accessToken}` });
+    expect(granted.status).toBe(302);
+    expect((await get(`/pay/${link.id}`, { Authorization: `Bearer ${accessToken}` })).status).toBe(302);
+    // Token access still counts against maxUses
+    expect((await get(`/pay/${link.id}`, { Authorization: `Bearer ${accessToken}` })).status).toBe(403);
+
+    expect((await get(`/pay/${other.id}`, { Authorization: `Bearer ${accessToken}` })).status).toBe(402);
+  });
+
+  it('should grant multi-use access from the cookie set on a proven visit until revoked', async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+    await start({ payerAuth: { required: false } });
+    const link = await createLink({ multiUse: true });
+    await post(`/pay/${link.id}/confirm`, { txHash: '0xpaid' });
+
+    const visit = await get(`/pay/${link.id}?payer=${BUYER}`);
+    expect(visit.status).toBe(302);
+    const cookie = visit.headers.get('set-cookie')!.split(';')[0];
+
+    expect((await get(`/pay/${link.id}`, { Cookie: `theme=dark; ${cookie}` })).status).toBe(302);
+    expect((await get(`/pay/${link.id}`)).status).toBe(402);
+
+    const token = decodeURIComponent(cookie.slice(cookie.indexOf('=') + 1));
+    expect((await post('/api/access-tokens/revoke', { token })).status).toBe(401);
+    const revoked = await post('/api/access-tokens/revoke', { token }, { 'X-API-Key': 'secret' });
+    expect(await revoked.json()).toMatchObject({ success: true, revoked: { link: link.id, sub: BUYER } });
+    expect((await get(`/pay/${link.id}`, { Cookie: cookie })).status).toBe(402);
+
+    expect((await post('/api/access-tokens/revoke', { token: 'junk' }, { 'X-API-Key': 'secret' })).status).toBe(400);
+  });
+
+  it('should accept tokens issued in the same second as a revocation, after it', async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+    const storage = new MemoryStorage();
+    await start({ payerAuth: { required: false }, storage });
+    const link = await createLink({ multiUse: true });
+    await post(`/pay/${link.id}/confirm`, { txHash: '0xpaid' });
+    const payment = await storage.getConfirmedPaymentByAddress(link.id, BUYER);
+    const visit = async () => (await get(`/pay/${link.id}?payer=${BUYER}`)).headers.get('set-cookie')!.split(';')[0];
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2026-01-01T00:00:00.100Z'));
+      const before = await visit();
+      vi.setSystemTime(new Date('2026-01-01T00:00:00.400Z'));
+      await storage.saveAccessTokenRevocation({
+        id: payment!.id,
+        revokedAt: new Date(),
+        expiresAt: new Date(Date.now() + 86_400_000),
+      });
+      vi.setSystemTime(new Date('2026-01-01T00:00:00.700Z'));
+      const after = await visit();
+
+      expect((await get(`/pay/${link.id}`, { Cookie: before })).status).toBe(402);
+      expect((await get(`/pay/${link.id}`, { Cookie: after })).status).toBe(302);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should require payer proof before issuing multi-use tokens on confirmation', async () => {
+    const link = await createLink({ multiUse: true });
+
+    const confirmed = await (await post(`/pay/${link.id}/confirm`, { txHash: '0xpaid' })).json();
+    expect(confirmed).toMatchObject({ status: 'confirmed' });
+    expect(confirmed).not.toHaveProperty('accessToken');
+  });
+
+  it('should revoke subscription tokens when the subscription is cancelled', async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+    await start({ payerAuth: { required: false } });
+    const link = await createLink({ subscription: { interval: 'monthly' } });
+
+    const subscribed = await post(`/pay/${link.id}/subscribe`, { subscriberAddress: BUYER, txHash: '0xsub' });
+    const { accessToken, subscription } = await subscribed.json();
+    expect(verifyAccessToken(accessToken, SECRET)).toMatchObject({
+      scope: 'subscription',
+      grant: subscription.id,
+    });
+    expect((await get(`/pay/${link.id}`, { Authorization: `Bearer ${accessToken}` })).status).toBe(302);
+
+    await server.cancelSubscription(subscription.id);
+    expect((await get(`/pay/${link.id}`, { Authorization: `Bearer ${accessToken}` })).status).toBe(402);
+  });
+
+  it('should revoke tokens of a payment that left the chain', async () => {
+    const link = await createLink();
+    const { accessToken } = await (await post(`/pay/${link.id}/confirm`, { txHash: '0xpaid' })).json();
+
+    provider.markFailed('0xpaid');
+    // Reverted once missing on three consecutive checks
+    for (let i = 0; i < 3; i++) await server.checkFinality();
+
+    expect((await get(`/pay/${link.id}`, { Authorization: `Bearer ${accessToken}` })).status).toBe(402);
+  });
+
+  it('should not issue tokens when turned off', async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+    await start({ accessTokens: { enabled: false } });
+    const link = await createLink({ maxUses: 5 });
+
+    const confirmed = await post(`/pay/${link.id}/confirm`, { txHash: '0xpaid' });
+    expect(await confirmed.json()).not.toHaveProperty('accessToken');
+    expect(confirmed.headers.get('set-cookie')).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { createServer, MemoryStorage, PaylinkServer } from '../lib/index.js';
+import type { Payment } from '../lib/index.js';
+
+const API_KEY = 'test-key';
+
+function payment(id: string, minutesAgo: number, overrides: Partial<Payment> = {}): Payment {
+  return {
+    id,
+    payLinkId: 'link1',
+    chainId: 1,
+    txHash: `0x${id}`,
+    fromAddress: '0xBuyer',
+    amount: '0.01',
+    confirmed: true,
+    createdAt: new Date(Date.now() - minutesAgo * 60_000),
+    ...overrides,
+  };
+}
+
+describe('Admin API pagination', () => {
+  let storage: MemoryStorage;
+  let server: PaylinkServer;
+  let listener: Server;
+  let baseUrl: string;
+
+  const get = async (path: string) => {
+    const response = await fetch(`${baseUrl}${path}`, { headers: { 'X-API-Key': API_KEY } });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    server = createServer({
+      chains: [{ chainId: 1, name: 'Mock', symbol: 'ETH', rpcUrl: 'mock' }],
+      apiKey: API_KEY,
+      storage,
+    });
+    listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+    await storage.savePayment(payment('p1', 50));
+    await storage.savePayment(payment('p2', 40, { confirmed: false }));
+    await storage.savePayment(payment('p3', 30, { chainId: 137 }));
+    await storage.savePayment(payment('p4', 20, { payLinkId: 'link2' }));
+    await storage.savePayment(payment('p5', 10));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+  });
+
+  it('should page payments newest first with nextCursor', async () => {
+    const first = await get('/api/payments?limit=2');
+    expect(first.status).toBe(200);
+    expect(first.body.payments.map((p: Payment) => p.id)).toEqual(['p5', 'p4']);
+    expect(first.body.count).toBe(2);
+    expect(typeof first.body.nextCursor).toBe('string');
+
+    const second = await get(`/api/payments?limit=2&cursor=${first.body.nextCursor}`);
+    expect(second.body.payments.map((p: Payment) => p.id)).toEqual(['p3', 'p2']);
+
+    const last = await get(`/api/payments?limit=2&cursor=${second.body.nextCursor}`);
+    expect(last.body.payments.map((p: Payment) => p.id)).toEqual(['p1']);
+    expect(last.body.nextCursor).toBeNull();
+  });
+
+  it('should filter payments by status, chain, link and since', async () => {
+    const pending = await get('/api/payments?status=pending');
+    expect(pending.body.payments.map((p: Payment) => p.id)).toEqual(['p2']);
+
+    const polygon = await get('/api/payments?chainId=137');
+    expect(polygon.body.payments.map((p: Payment) => p.id)).toEqual(['p3']);
+
+    const link2 = await get('/api/payments?payLinkId=link2');
+    expect(link2.body.payments.map((p: Payment) => p.id)).toEqual(['p4']);
+
+    const since = new Date(Date.now() - 25 * 60_000).toISOString();
+    const recent = await get(`/api/payments?since=${encodeURIComponent(since)}&sort=asc`);
+    expect(recent.body.payments.map((p: Payment) => p.id)).toEqual(['p4', 'p5']);
+  });
+
+  it('should filter links by status', async () => {
+    const link = await server.createPayLink({
+      targetUrl: 'https://example.com',
+      price: { amount: '0.01', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0xRecipient',
+    });
+    await server.createPayLink({
+      targetUrl: 'https://example.com/other',
+      price: { amount: '0.01', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0xRecipient',
+    });
+    await server.disablePayLink(link.id);
+
+    const disabled = await get('/api/links?status=disabled');
+    expect(disabled.body.links.map((l: { id: string }) => l.id)).toEqual([link.id]);
+    expect(disabled.body.nextCursor).toBeNull();
+  });
+
+  it.each([
+    ['limit=0', 'Invalid limit'],
+    ['limit=abc', 'Invalid limit'],
+    ['cursor=bogus', 'Invalid cursor'],
+    ['since=yesterday', 'Invalid since'],
+    ['sort=up', 'Invalid sort'],
+    ['status=failed', 'Invalid status'],
+  ])('should reject %s', async (query, error) => {
+    const response = await get(`/api/payments?${query}`);
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe(error);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseUnits,
+  formatUnits,
+  compareAmounts,
+  addAmounts,
+  subtractAmounts,
+  percentOf,
+  splitAmount,
+  percentageOf,
+  isValidAmount,
+  calculateCommission,
+  calculateInstallmentAmounts,
+  generatePaymentURI,
+} from '../lib/index.js';
+
+describe('Amounts', () => {
+  it('should parse and format without losing precision', () => {
+    expect(parseUnits('1.5', 6)).toBe(1_500_000n);
+    expect(parseUnits('123456789.123456789123456789')).toBe(123456789123456789123456789n);
+    expect(parseUnits('0.1234567', 6)).toBe(123456n);
+    expect(formatUnits(123456789123456789123456789n)).toBe('123456789.123456789123456789');
+    expect(formatUnits(-1500n, 3)).toBe('-1.5');
+  });
+
+  it('should compare amounts exactly', () => {
+    // Both sides round to the same float
+    expect(compareAmounts('1.000000000000000001', '1')).toBe(1);
+    expect(compareAmounts('9007199254740993', '9007199254740992')).toBe(1);
+    expect(compareAmounts('0.10', '.1')).toBe(0);
+    expect(compareAmounts('2', '10')).toBe(-1);
+  });
+
+  it('should add and subtract exactly', () => {
+    expect(addAmounts('0.1', '0.2')).toBe('0.3');
+    expect(addAmounts('1', '0.000000000000000001')).toBe('1.000000000000000001');
+    expect(addAmounts()).toBe('0');
+    expect(subtractAmounts('0.3', '0.1')).toBe('0.2');
+    expect(subtractAmounts('1', '1.5')).toBe('-0.5');
+  });
+
+  it('should take percentages rounded down to the token decimals', () => {
+    expect(percentOf('10', 12.5, 6)).toBe('1.25');
+    expect(percentOf('1', 33.33, 6)).toBe('0.3333');
+    expect(percentOf('0.000001', 50, 6)).toBe('0');
+    expect(() => percentOf('1', -1)).toThrow('Invalid percent');
+  });
+
+  it('should split amounts into shares that sum to the total', () => {
+    const shares = splitAmount('1', 3, 6);
+    expect(shares).toEqual(['0.333333', '0.333333', '0.333334']);
+    expect(addAmounts(...shares)).toBe('1');
+  });
+
+  it('should compute whole percentages', () => {
+    expect(percentageOf('0.25', '1')).toBe(25);
+    expect(percentageOf('1', '3')).toBe(33);
+    expect(percentageOf('1', '0')).toBe(0);
+  });
+
+  it('should validate amounts', () => {
+    expect(isValidAmount('0.01')).toBe(true);
+    expect(isValidAmount('5')).toBe(true);
+    expect(isValidAmount('-1')).toBe(false);
+    expect(isValidAmount('1e18')).toBe(false);
+    expect(isValidAmount('.')).toBe(false);
+    expect(() => compareAmounts('abc', '1')).toThrow('Invalid amount: abc');
+  });
+});
+
+describe('Amount consumers', () => {
+  it('should compute commissions at token precision', () => {
+    expect(calculateCommission('100', 10, 6)).toBe('10');
+    expect(calculateCommission('1.000000000000000001', 100)).toBe('1.000000000000000001');
+  });
+
+  it('should split installments exactly', () => {
+    const amounts = calculateInstallmentAmounts('100', 3, 25, 6);
+    expect(amounts).toEqual(['25', '37.5', '37.5']);
+
+    const uneven = calculateInstallmentAmounts('1', 4, 10, 6);
+    expect(uneven).toEqual(['0.1', '0.3', '0.3', '0.3']);
+    expect(addAmounts(...calculateInstallmentAmounts('10', 7, 0, 6))).toBe('10');
+    expect(() => calculateInstallmentAmounts('0', 3)).toThrow('Invalid total amount');
+  });
+
+  it('should build EIP-681 URIs with exact wei values', () => {
+    const uri = generatePaymentURI({ payLinkId: 'abc', recipient: '0xRecipient', amount: '1.000000000000000001', tokenSymbol: 'ETH', chainId: 1 });
+    expect(uri).toBe('ethereum:0xRecipient@1?value=1000000000000000001');
+  });
+});
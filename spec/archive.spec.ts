@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MemoryStorage, SqliteStorage, exportData, importData, ARCHIVE_VERSION } from '../lib/index.js';
+import type { Storage } from '../lib/index.js';
+import { loadSqlite } from './helpers.js';
+
+const sqlite = loadSqlite();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function seed(storage: Storage): Promise<void> {
+  const created = new Date('2024-11-01T10:00:00.000Z');
+
+  await storage.savePayLink({
+    id: 'link1',
+    targetUrl: 'https://example.com',
+    price: { amount: '1', tokenSymbol: 'ETH', chainId: 1 },
+    recipientAddress: '0xRecipient',
+    status: 'active',
+    createdAt: created,
+    updatedAt: created,
+    expiresAt: new Date(created.getTime() + 30 * DAY_MS),
+    subscription: { interval: 'monthly', intervalCount: 1 },
+  });
+  await storage.savePayment({
+    id: 'pay1',
+    payLinkId: 'link1',
+    chainId: 1,
+    txHash: '0xtx1',
+    fromAddress: '0xBuyer',
+    amount: '1',
+    confirmed: true,
+    createdAt: created,
+    confirmedAt: created,
+  });
+  await storage.saveSubscription({
+    id: 'sub1',
+    payLinkId: 'link1',
+    subscriberAddress: '0xBuyer',
+    status: 'active',
+    currentPeriodStart: created,
+    currentPeriodEnd: new Date(created.getTime() + 30 * DAY_MS),
+    nextPaymentDue: new Date(created.getTime() + 30 * DAY_MS),
+    cycleCount: 1,
+    createdAt: created,
+    updatedAt: created,
+  });
+  await storage.saveReferral({
+    id: 'ref1',
+    code: 'ABC123',
+    referrerAddress: '0xReferrer',
+    payLinkId: 'link1',
+    totalReferrals: 1,
+    confirmedReferrals: 1,
+    totalEarned: '0.1',
+    pendingAmount: '0.1',
+    paidAmount: '0',
+    status: 'active',
+    createdAt: created,
+    updatedAt: created,
+  });
+  await storage.saveCommission({
+    id: 'comm1',
+    referralId: 'ref1',
+    paymentId: 'pay1',
+    payLinkId: 'link1',
+    referrerAddress: '0xReferrer',
+    referredAddress: '0xBuyer',
+    paymentAmount: '1',
+    commissionAmount: '0.1',
+    commissionPercent: 10,
+    tokenSymbol: 'ETH',
+    chainId: 1,
+    status: 'confirmed',
+    createdAt: created,
+    confirmedAt: created,
+  });
+  await storage.saveInstallmentPlan({
+    id: 'plan1',
+    payLinkId: 'link1',
+    buyerAddress: '0xBuyer',
+    status: 'active',
+    totalAmount: '1',
+    paidAmount: '0.25',
+    totalInstallments: 4,
+    completedInstallments: 1,
+    installmentAmounts: ['0.25', '0.25', '0.25', '0.25'],
+    intervalDays: 30,
+    gracePeriodDays: 3,
+    nextDueDate: new Date(created.getTime() + 30 * DAY_MS),
+    nextInstallmentNumber: 2,
+    createdAt: created,
+    updatedAt: created,
+    activatedAt: created,
+  });
+  await storage.saveInstallmentPayment({
+    id: 'ip1',
+    installmentPlanId: 'plan1',
+    paymentId: 'pay1',
+    payLinkId: 'link1',
+    buyerAddress: '0xBuyer',
+    installmentNumber: 1,
+    amount: '0.25',
+    expectedAmount: '0.25',
+    txHash: '0xtx1',
+    chainId: 1,
+    tokenSymbol: 'ETH',
+    status: 'confirmed',
+    dueDate: created,
+    createdAt: created,
+    confirmedAt: created,
+  });
+  await storage.savePaymentIntent({
+    id: 'intent1',
+    payLinkId: 'link1',
+    chainId: 1,
+    tokenSymbol: 'ETH',
+    amount: '1',
+    recipient: '0xDeposit',
+    derivationIndex: 0,
+    status: 'open',
+    createdAt: created,
+    updatedAt: created,
+    expiresAt: new Date(created.getTime() + DAY_MS),
+  });
+  await storage.nextDerivationIndex(1);
+  await storage.saveChainCheckpoint({ chainId: 1, blockNumber: 1000, updatedAt: created });
+  await storage.saveAccessTokenRevocation({
+    id: 'pay1',
+    revokedAt: created,
+    expiresAt: new Date(Date.now() + DAY_MS),
+  });
+}
+
+async function collect(storage: Storage): Promise<string> {
+  let archive = '';
+  for await (const line of exportData(storage)) {
+    archive += line;
+  }
+  return archive;
+}
+
+describe('Storage archives', () => {
+  let source: MemoryStorage;
+
+  beforeEach(async () => {
+    source = new MemoryStorage();
+    await seed(source);
+  });
+
+  it('should write a versioned NDJSON archive', async () => {
+    const lines = (await collect(source)).trim().split('\n').map(line => JSON.parse(line));
+
+    expect(lines[0]).toMatchObject({ type: 'header', format: 'paylink-archive', version: ARCHIVE_VERSION });
+    expect(lines.slice(1, -1).map(line => line.type)).toEqual([
+      'payLink',
+      'payment',
+      'subscription',
+      'referral',
+      'commission',
+      'installmentPlan',
+      'installmentPayment',
+      'paymentIntent',
+      'derivationCounter',
+      'chainCheckpoint',
+      'accessTokenRevocation',
+    ]);
+    expect(lines[lines.length - 1]).toMatchObject({ type: 'footer', counts: { payLink: 1, installmentPayment: 1 } });
+  });
+
+  it('should round-trip every entity with dates intact', async () => {
+    const target = new MemoryStorage();
+    const result = await importData(target, await collect(source));
+
+    expect(result.counts).toEqual({
+      payLink: 1,
+      payment: 1,
+      subscription: 1,
+      referral: 1,
+      commission: 1,
+      installmentPlan: 1,
+      installmentPayment: 1,
+      paymentIntent: 1,
+      derivationCounter: 1,
+      chainCheckpoint: 1,
+      accessTokenRevocation: 1,
+    });
+
+    const link = await target.getPayLink('link1');
+    expect(link).toEqual(await source.getPayLink('link1'));
+    expect(link?.expiresAt).toBeInstanceOf(Date);
+    expect(await target.getSubscription('sub1')).toEqual(await source.getSubscription('sub1'));
+    expect(await target.getInstallmentPlan('plan1')).toEqual(await source.getInstallmentPlan('plan1'));
+    expect(await target.getInstallmentPayment('ip1')).toEqual(await source.getInstallmentPayment('ip1'));
+    expect(await target.getCommission('comm1')).toEqual(await source.getCommission('comm1'));
+    expect(await target.getPaymentIntent('intent1')).toEqual(await source.getPaymentIntent('intent1'));
+    expect(await target.nextDerivationIndex(1)).toBe(1);
+    expect(await target.getChainCheckpoint(1)).toEqual(await source.getChainCheckpoint(1));
+    expect(await target.getAccessTokenRevocation('pay1')).toEqual(await source.getAccessTokenRevocation('pay1'));
+  });
+
+  it('should never lower a derivation counter on import', async () => {
+    const target = new MemoryStorage();
+    await target.restoreDerivationCounter({ chainId: 1, nextIndex: 7 });
+
+    await importData(target, await collect(source));
+
+    expect(await target.getDerivationCounters()).toEqual([{ chainId: 1, nextIndex: 7 }]);
+  });
+
+  it('should import version 1 archives', async () => {
+    const archive = (await collect(source))
+      .split('\n')
+      .filter(line => !/"type":"(paymentIntent|derivationCounter|chainCheckpoint|accessTokenRevocation)"/.test(line))
+      .join('\n')
+      .replace(`"version":${ARCHIVE_VERSION},`, '"version":1,')
+      .replace(/,"paymentIntent":1.*"accessTokenRevocation":1/, '');
+
+    const result = await importData(new MemoryStorage(), archive);
+
+    expect(result.version).toBe(1);
+    expect(result.counts).toMatchObject({ payLink: 1, paymentIntent: 0, accessTokenRevocation: 0 });
+  });
+
+  it('should be idempotent', async () => {
+    const archive = await collect(source);
+    const target = new MemoryStorage();
+
+    await importData(target, archive);
+    await importData(target, archive);
+
+    expect(await target.getAllPayments()).toHaveLength(1);
+    expect(await target.getReferralsByReferrer('0xreferrer')).toHaveLength(1);
+    expect(await collect(target)).toEqual(expect.stringContaining('"counts":{"payLink":1,"payment":1'));
+  });
+
+  it('should read byte chunks split mid-line', async () => {
+    const bytes = new TextEncoder().encode(await collect(source));
+    const chunks = [bytes.slice(0, 7), bytes.slice(7, 300), bytes.slice(300)];
+
+    const result = await importData(new MemoryStorage(), chunks);
+
+    expect(result.counts.payment).toBe(1);
+  });
+
+  it('should reject archives without a header', async () => {
+    await expect(importData(new MemoryStorage(), '{"type":"payLink","data":{}}\n')).rejects.toThrow(
+      'missing header'
+    );
+  });
+
+  it('should reject unsupported versions', async () => {
+    const archive = (await collect(source)).replace(`"version":${ARCHIVE_VERSION},`, '"version":99,');
+
+    await expect(importData(new MemoryStorage(), archive)).rejects.toThrow('Unsupported archive version 99');
+  });
+
+  it('should reject truncated archives', async () => {
+    const lines = (await collect(source)).trim().split('\n');
+
+    await expect(importData(new MemoryStorage(), lines.slice(0, -1).join('\n'))).rejects.toThrow('truncated');
+    await expect(
+      importData(new MemoryStorage(), [...lines.slice(0, 2), ...lines.slice(3)].join('\n'))
+    ).rejects.toThrow('incomplete');
+  });
+
+  it.skipIf(!sqlite)('should move data between storage backends', async () => {
+    const target = new SqliteStorage({ database: new sqlite!.DatabaseSync(':memory:') });
+    await target.init();
+
+    await importData(target, exportData(source));
+
+    expect(await target.getPayLink('link1')).toEqual(await source.getPayLink('link1'));
+    expect(await target.getReferralByCode('abc123')).toEqual(await source.getReferral('ref1'));
+    await target.close();
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer as createHttpServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  BITCOIN_CHAIN_IDS,
+  BitcoinVerifier,
+  MemoryStorage,
+  createServer,
+  generatePaymentURI,
+} from '../lib/index.js';
+
+const RECIPIENT = 'bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh';
+const CHANGE = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+const PAYER = '1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2';
+const TXID = 'a1075db55d416d3ca199f55b6084e2115b9345e16c5cf302fc80e9d5fbf5d48d';
+
+/** Minimal Esplora API: transactions by txid and the tip height */
+class FakeEsplora {
+  tip = 800000;
+  txs = new Map<string, { outputs: Array<[string, number]>; height?: number }>();
+  down = false;
+  server!: Server;
+  url = '';
+
+  async start(): Promise<void> {
+    this.server = createHttpServer((req, res) => {
+      if (this.down) {
+        res.writeHead(502).end('Bad Gateway');
+        return;
+      }
+      const body = this.route(req.url ?? '');
+      if (body === undefined) {
+        res.writeHead(404).end('Transaction not found');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    });
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private route(path: string): unknown {
+    if (path === '/api/blocks/tip/height') return this.tip;
+
+    const match = path.match(/^\/api\/tx\/([0-9a-f]+)(\/status)?$/);
+    const tx = match && this.txs.get(match[1]);
+    if (!tx) return undefined;
+
+    const status = tx.height === undefined
+      ? { confirmed: false }
+      : { confirmed: true, block_height: tx.height, block_hash: '00'.repeat(32) };
+    if (match[2]) return status;
+
+    return {
+      txid: match[1],
+      vin: [{ prevout: { scriptpubkey_address: PAYER, value: 10_000_000 }, is_coinbase: false }],
+      vout: tx.outputs.map(([address, value]) => ({ scriptpubkey_address: address, value })),
+      status,
+    };
+  }
+}
+
+function verify(verifier: BitcoinVerifier, amount = '0.001') {
+  return verifier.verifyPayment({ txHash: TXID, recipient: RECIPIENT, amount, tokenSymbol: 'BTC' });
+}
+
+describe('BitcoinVerifier', () => {
+  let esplora: FakeEsplora;
+
+  beforeEach(async () => {
+    esplora = new FakeEsplora();
+    await esplora.start();
+  });
+
+  afterEach(async () => {
+    await esplora.stop();
+  });
+
+  it('should sum the outputs paying the recipient in exact satoshis', async () => {
+    esplora.txs.set(TXID, {
+      outputs: [[RECIPIENT, 60_000], [CHANGE, 9_800_000], [RECIPIENT, 40_001]],
+      height: esplora.tip,
+    });
+
+    expect(await verify(new BitcoinVerifier({ apiUrl: esplora.url }))).toMatchObject({
+      status: 'confirmed',
+      actualAmount: '0.00100001',
+      fromAddress: PAYER,
+    });
+  });
+
+  it('should match bech32 recipients case-insensitively', async () => {
+    esplora.txs.set(TXID, { outputs: [[RECIPIENT, 100_000]], height: esplora.tip });
+    const verifier = new BitcoinVerifier({ apiUrl: esplora.url });
+
+    const result = await verifier.verifyPayment({ txHash: TXID, recipient: RECIPIENT.toUpperCase(), amount: '0.001' });
+
+    expect(result.status).toBe('confirmed');
+  });
+
+  it('should report underpaid, unrelated and unknown transactions', async () => {
+    const verifier = new BitcoinVerifier({ apiUrl: esplora.url });
+
+    expect(await verify(verifier)).toEqual({ status: 'not_found' });
+
+    esplora.txs.set(TXID, { outputs: [[RECIPIENT, 99_999]], height: esplora.tip });
+    expect(await verify(verifier)).toMatchObject({ status: 'underpaid', actualAmount: '0.00099999' });
+
+    esplora.txs.set(TXID, { outputs: [[CHANGE, 100_000]], height: esplora.tip });
+    expect(await verify(verifier)).toEqual({ status: 'not_found' });
+
+    expect(await verifier.verifyPayment({ txHash: TXID, recipient: RECIPIENT, amount: '1', tokenSymbol: 'USDC' }))
+      .toEqual({ status: 'not_found' });
+  });
+
+  it('should stay pending until mined with enough confirmations', async () => {
+    const verifier = new BitcoinVerifier({ apiUrl: esplora.url, confirmations: 3 });
+    esplora.txs.set(TXID, { outputs: [[RECIPIENT, 100_000]] });
+
+    expect(await verify(verifier)).toEqual({ status: 'pending' });
+
+    // The including block counts as the first confirmation
+    esplora.txs.set(TXID, { outputs: [[RECIPIENT, 100_000]], height: esplora.tip - 1 });
+    expect(await verify(verifier)).toEqual({ status: 'pending' });
+
+    esplora.tip++;
+    expect((await verify(verifier)).status).toBe('confirmed');
+  });
+
+  it('should fail over between APIs and report an outage as rpc_error', async () => {
+    const backup = new FakeEsplora();
+    await backup.start();
+    try {
+      backup.txs.set(TXID, { outputs: [[RECIPIENT, 100_000]], height: backup.tip });
+      esplora.down = true;
+
+      const verifier = new BitcoinVerifier({ apiUrl: esplora.url, apiUrls: [backup.url] });
+      expect((await verify(verifier)).status).toBe('confirmed');
+
+      backup.down = true;
+      expect(await verify(verifier)).toEqual({ status: 'rpc_error' });
+      await expect(verifier.getTransactionDepth(TXID)).rejects.toThrow('failed on every Esplora API');
+    } finally {
+      await backup.stop();
+    }
+  });
+
+  it('should treat a transaction back in the mempool as no longer included', async () => {
+    const verifier = new BitcoinVerifier({ apiUrl: esplora.url });
+    esplora.txs.set(TXID, { outputs: [[RECIPIENT, 100_000]], height: esplora.tip - 5 });
+
+    expect(await verifier.getTransactionDepth(TXID)).toEqual({ included: true, confirmations: 6 });
+
+    esplora.txs.set(TXID, { outputs: [[RECIPIENT, 100_000]] });
+    expect(await verifier.getTransactionDepth(TXID)).toEqual({ included: false, confirmations: 0 });
+  });
+});
+
+describe('Bitcoin payment links', () => {
+  it('should build BIP-21 URIs', () => {
+    const uri = generatePaymentURI({
+      chainId: BITCOIN_CHAIN_IDS.MAINNET,
+      recipient: RECIPIENT,
+      amount: '0.00100001',
+      tokenSymbol: 'BTC',
+      payLinkId: 'abc',
+      confirmUrl: 'http://localhost/pay/abc/confirm',
+    });
+
+    expect(uri).toBe(`bitcoin:${RECIPIENT}?amount=0.00100001&label=Paylink%20Payment&message=Payment%20for%20abc`);
+    expect(generatePaymentURI({
+      chainId: 9000,
+      chainType: 'bitcoin',
+      recipient: RECIPIENT,
+      amount: '1',
+      tokenSymbol: 'BTC',
+      payLinkId: 'abc',
+      confirmUrl: '',
+    })).toMatch(/^bitcoin:/);
+  });
+
+  it('should confirm a BTC payment through /confirm', async () => {
+    const esplora = new FakeEsplora();
+    await esplora.start();
+    esplora.txs.set(TXID, { outputs: [[RECIPIENT, 100_000]], height: esplora.tip });
+    const server = createServer({
+      chains: [{ chainId: BITCOIN_CHAIN_IDS.MAINNET, name: 'Bitcoin', symbol: 'BTC', rpcUrl: esplora.url }],
+      storage: new MemoryStorage(),
+    });
+    const listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    const base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+    try {
+      const link = await server.createPayLink({
+        targetUrl: 'https://example.com/content',
+        price: { amount: '0.001', tokenSymbol: 'BTC', chainId: BITCOIN_CHAIN_IDS.MAINNET },
+        recipientAddress: RECIPIENT,
+      });
+
+      const confirm = await fetch(`${base}/pay/${link.id}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash: TXID }),
+      });
+      expect(await confirm.json()).toMatchObject({ status: 'confirmed', tokenSymbol: 'BTC' });
+      expect((await fetch(`${base}/pay/${link.id}`, { redirect: 'manual' })).status).toBe(302);
+
+      const qr = await (await fetch(`${base}/pay/${link.id}/qr?format=json`)).json();
+      expect(qr.paymentUri).toMatch(new RegExp(`^bitcoin:${RECIPIENT}\\?amount=0.001&`));
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+      await server.close();
+      await esplora.stop();
+    }
+  });
+
+  it('should reject an RPC quorum on Bitcoin chains', () => {
+    expect(() => createServer({
+      chains: [{ chainId: 8332, name: 'Bitcoin', symbol: 'BTC', rpcUrls: ['http://a.test', 'http://b.test'], rpcQuorum: 2 }],
+      storage: new MemoryStorage(),
+    })).toThrow('rpcQuorum is not supported on Bitcoin chains');
+  });
+});
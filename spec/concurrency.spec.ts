@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import {
+  createServer,
+  MemoryStorage,
+  PaylinkServer,
+  ReferralManager,
+  InstallmentManager,
+  ConcurrentUpdateError,
+  updateWithRetry,
+} from '../lib/index.js';
+import { paymentFixture } from './helpers.js';
+
+describe('updateWithRetry', () => {
+  it('should retry when the save reports a concurrent update', async () => {
+    let loads = 0;
+    let saves = 0;
+
+    const result = await updateWithRetry(
+      async () => ({ id: 'a', count: loads++, version: loads }),
+      entity => {
+        entity.count += 10;
+      },
+      async () => {
+        if (++saves === 1) throw new ConcurrentUpdateError('Entity', 'a');
+      }
+    );
+
+    expect(loads).toBe(2);
+    expect(saves).toBe(2);
+    expect(result).toMatchObject({ count: 11, version: 3 });
+  });
+
+  it('should give up after the configured number of attempts', async () => {
+    const attempt = updateWithRetry(
+      async () => ({ id: 'a', version: 0 }),
+      () => {},
+      async () => {
+        throw new ConcurrentUpdateError('Entity', 'a');
+      },
+      3
+    );
+
+    await expect(attempt).rejects.toBeInstanceOf(ConcurrentUpdateError);
+  });
+
+  it('should skip the save when mutate returns false', async () => {
+    let saves = 0;
+
+    const result = await updateWithRetry(
+      async () => ({ id: 'a', version: 4 }),
+      () => false,
+      async () => {
+        saves++;
+      }
+    );
+
+    expect(saves).toBe(0);
+    expect(result).toEqual({ id: 'a', version: 4 });
+  });
+
+  it('should not retry other errors', async () => {
+    let loads = 0;
+
+    const attempt = updateWithRetry(
+      async () => ({ id: 'a', version: loads++ }),
+      () => {
+        throw new Error('Invalid state');
+      },
+      async () => {}
+    );
+
+    await expect(attempt).rejects.toThrow('Invalid state');
+    expect(loads).toBe(1);
+  });
+});
+
+describe('Concurrent manager updates', () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+  });
+
+  it('should credit a referral once when a commission is confirmed concurrently', async () => {
+    const server = createServer({
+      chains: [{ chainId: 1, name: 'Mock', symbol: 'ETH', rpcUrl: 'mock' }],
+      storage,
+    });
+    const link = await server.createPayLink({
+      targetUrl: 'https://example.com',
+      price: { amount: '100', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0xRecipient',
+      referral: { enabled: true, commissionPercent: 10 },
+    });
+    const manager = new ReferralManager(storage);
+    const referral = await manager.createReferral({ referrerAddress: '0xReferrer', payLinkId: link.id });
+    const payment = paymentFixture({ payLinkId: link.id, amount: '100', confirmed: false, confirmedAt: undefined });
+    await manager.processReferralPayment(payment, link, referral.code);
+
+    await Promise.all([
+      manager.confirmCommission(payment.id),
+      manager.confirmCommission(payment.id),
+      manager.confirmCommission(payment.id),
+    ]);
+
+    const updated = await storage.getReferral(referral.id);
+    expect(updated?.confirmedReferrals).toBe(1);
+    expect(parseFloat(updated!.totalEarned)).toBe(10);
+  });
+
+  it('should apply concurrent referral payments without losing updates', async () => {
+    const server = createServer({
+      chains: [{ chainId: 1, name: 'Mock', symbol: 'ETH', rpcUrl: 'mock' }],
+      storage,
+    });
+    const link = await server.createPayLink({
+      targetUrl: 'https://example.com',
+      price: { amount: '100', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0xRecipient',
+      referral: { enabled: true, commissionPercent: 10 },
+    });
+    const manager = new ReferralManager(storage);
+    const referral = await manager.createReferral({ referrerAddress: '0xReferrer', payLinkId: link.id });
+
+    await Promise.all(
+      [1, 2, 3].map(i => manager.processReferralPayment(
+        paymentFixture({ id: `pay${i}`, txHash: `0xtx${i}`, payLinkId: link.id, amount: '100' }),
+        link,
+        referral.code
+      ))
+    );
+
+    const updated = await storage.getReferral(referral.id);
+    expect(updated?.totalReferrals).toBe(3);
+    expect(updated?.confirmedReferrals).toBe(3);
+  });
+
+  it('should count an installment once when it is confirmed concurrently', async () => {
+    const server = createServer({
+      chains: [{ chainId: 1, name: 'Mock', symbol: 'ETH', rpcUrl: 'mock' }],
+      storage,
+    });
+    const link = await server.createPayLink({
+      targetUrl: 'https://example.com',
+      price: { amount: '100', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0xRecipient',
+    });
+    await storage.savePayLink({ ...link, installment: { enabled: true, totalInstallments: 4 } });
+    const manager = new InstallmentManager(storage);
+    const plan = await manager.createPlan({ payLinkId: link.id, buyerAddress: '0xBuyer' });
+    const installment = await manager.processPayment(plan.id, paymentFixture({ payLinkId: link.id, amount: '25' }));
+
+    await Promise.all([
+      manager.confirmPayment(installment.id),
+      manager.confirmPayment(installment.id),
+    ]);
+
+    const updated = await storage.getInstallmentPlan(plan.id);
+    expect(updated?.completedInstallments).toBe(1);
+    expect(updated?.nextInstallmentNumber).toBe(2);
+    expect(updated?.status).toBe('active');
+  });
+});
+
+describe('Concurrent paylink access', () => {
+  let server: PaylinkServer;
+  let listener: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = createServer({
+      chains: [{ chainId: 1, name: 'Mock', symbol: 'ETH', rpcUrl: 'mock' }],
+    });
+    listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+  });
+
+  it('should not exceed maxUses under concurrent requests', async () => {
+    const link = await server.createPayLink({
+      targetUrl: 'https://example.com',
+      price: { amount: '0.01', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0xRecipient',
+      maxUses: 2,
+    });
+    await server.getStorage().savePayment(paymentFixture({ payLinkId: link.id }));
+
+    const responses = await Promise.all(
+      [1, 2, 3, 4, 5].map(() => fetch(`${baseUrl}/pay/${link.id}`, { redirect: 'manual' }))
+    );
+    const statuses = responses.map(r => r.status).sort();
+
+    expect(statuses).toEqual([302, 302, 403, 403, 403]);
+    expect((await server.getPayLink(link.id))?.usedCount).toBe(2);
+  });
+
+  it('should record a transaction for one link under concurrent confirms', async () => {
+    const create = () => server.createPayLink({
+      targetUrl: 'https://example.com',
+      price: { amount: '0.01', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0xRecipient',
+    });
+    const [a, b] = [await create(), await create()];
+
+    const responses = await Promise.all([a, b, a].map(link => fetch(`${baseUrl}/pay/${link.id}/confirm`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txHash: '0xshared' }),
+    })));
+
+    // Whichever link wins, the other is refused and the winner's repeat is idempotent
+    expect(responses.map(r => r.status)).toContain(409);
+    const payments = await server.getStorage().getAllPayments();
+    expect(payments).toHaveLength(1);
+    const winner = payments[0].payLinkId === a.id ? 0 : 1;
+    expect(responses[winner].status).toBe(200);
+    expect(responses[1 - winner].status).toBe(409);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ChainVerifier, TRANSFER_TOPIC, decodeTransfers, formatUnits } from '../lib/index.js';
+
+const USDC = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
+const DAI = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+const BUYER = '0x2222222222222222222222222222222222222222';
+
+function topic(address: string): string {
+  return '0x' + address.slice(2).toLowerCase().padStart(64, '0');
+}
+
+function transferLog(token: string, to: string, value: bigint) {
+  return {
+    address: token,
+    topics: [TRANSFER_TOPIC, topic(BUYER), topic(to)],
+    data: '0x' + value.toString(16).padStart(64, '0'),
+  };
+}
+
+/** Stub fetch with a JSON-RPC node serving one transaction */
+function mockRpc(tx: Record<string, unknown>, logs: unknown[] = []) {
+  const results: Record<string, unknown> = {
+    eth_getTransactionByHash: { blockNumber: '0x10', from: BUYER, value: '0x0', ...tx },
+    eth_getTransactionReceipt: { status: '0x1', logs },
+    eth_blockNumber: '0x20',
+  };
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: { body: string }) => {
+    const { id, method } = JSON.parse(init.body);
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: results[method] }));
+  }));
+}
+
+describe('ERC-20 verification', () => {
+  let verifier: ChainVerifier;
+
+  beforeEach(() => {
+    verifier = new ChainVerifier({
+      chainId: 1,
+      name: 'Ethereum',
+      symbol: 'ETH',
+      rpcUrl: 'http://rpc.test',
+      tokens: {
+        USDC: { address: USDC, decimals: 6 },
+        DAI: { address: DAI, decimals: 18 },
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should confirm a token payment using the token decimals', async () => {
+    mockRpc({ to: USDC }, [transferLog(USDC, RECIPIENT, 10_000_000n)]);
+
+    const result = await verifier.verifyPayment({ txHash: '0xabc', recipient: RECIPIENT, amount: '10', tokenSymbol: 'usdc' });
+
+    expect(result).toMatchObject({ status: 'confirmed', actualAmount: '10', fromAddress: BUYER.toLowerCase() });
+  });
+
+  it('should report underpaid token payments', async () => {
+    mockRpc({ to: USDC }, [transferLog(USDC, RECIPIENT, 9_500_000n)]);
+
+    const result = await verifier.verifyPayment({ txHash: '0xabc', recipient: RECIPIENT, amount: '10', tokenSymbol: 'USDC' });
+
+    expect(result).toMatchObject({ status: 'underpaid', actualAmount: '9.5' });
+  });
+
+  it('should ignore transfers of a different token', async () => {
+    mockRpc({ to: DAI }, [transferLog(DAI, RECIPIENT, 10n ** 19n)]);
+
+    const result = await verifier.verifyPayment({ txHash: '0xabc', recipient: RECIPIENT, amount: '10', tokenSymbol: 'USDC' });
+
+    expect(result.status).toBe('not_found');
+  });
+
+  it('should ignore token transfers to another address', async () => {
+    mockRpc({ to: USDC }, [transferLog(USDC, BUYER, 10_000_000n)]);
+
+    const result = await verifier.verifyPayment({ txHash: '0xabc', recipient: RECIPIENT, amount: '10', tokenSymbol: 'USDC' });
+
+    expect(result.status).toBe('not_found');
+  });
+
+  it('should reject tokens missing from the registry', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockRpc({ to: USDC }, [transferLog(USDC, RECIPIENT, 10_000_000n)]);
+
+    const result = await verifier.verifyPayment({ txHash: '0xabc', recipient: RECIPIENT, amount: '10', tokenSymbol: 'USDT' });
+
+    expect(result.status).toBe('not_found');
+    warn.mockRestore();
+  });
+
+  it('should keep verifying native payments from tx.value', async () => {
+    mockRpc({ to: RECIPIENT, value: '0x16345785d8a0000' });
+
+    const native = await verifier.verifyPayment({ txHash: '0xabc', recipient: RECIPIENT, amount: '0.1', tokenSymbol: 'ETH' });
+    const untyped = await verifier.verifyPayment({ txHash: '0xabc', recipient: RECIPIENT, amount: '0.1' });
+
+    expect(native).toMatchObject({ status: 'confirmed', actualAmount: '0.1' });
+    expect(untyped.status).toBe('confirmed');
+  });
+});
+
+describe('ERC-20 helpers', () => {
+  it('should format raw amounts without losing precision', () => {
+    expect(formatUnits(1_500_000n, 6)).toBe('1.5');
+    expect(formatUnits(1n, 18)).toBe('0.000000000000000001');
+    expect(formatUnits(123456789012345678901234567n, 18)).toBe('123456789.012345678901234567');
+    expect(formatUnits(0n, 6)).toBe('0');
+  });
+
+  it('should decode only Transfer events with indexed from/to', () => {
+    const erc20 = transferLog(USDC, RECIPIENT, 42n);
+    const erc721 = { ...erc20, topics: [...erc20.topics, topic('0x01')], data: '0x' };
+    const other = { ...erc20, topics: ['0x' + '0'.repeat(64), ...erc20.topics.slice(1)] };
+
+    expect(decodeTransfers([erc20, erc721, other])).toEqual([
+      { token: USDC.toLowerCase(), from: BUYER.toLowerCase(), to: RECIPIENT.toLowerCase(), value: 42n },
+    ]);
+  });
+});
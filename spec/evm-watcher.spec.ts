@@ -0,0 +1,426 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'net';
+import {
+  ChainVerifier,
+  EVMPaymentWatcher,
+  MemoryStorage,
+  TRANSFER_TOPIC,
+  addressToTopic,
+  createServer,
+} from '../lib/index.js';
+import type { ChainConfig } from '../lib/index.js';
+import { intentFixture } from './helpers.js';
+
+const RPC_URL = 'http://rpc.test';
+const HOOK_URL = 'http://hooks.test/paylink';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+const BUYER = '0x2222222222222222222222222222222222222222';
+const FIRST_TX = '0x' + '01'.repeat(32);
+const SECOND_TX = '0x' + '02'.repeat(32);
+
+/** m/44'/60'/0'/0 of the Hardhat test mnemonic and its first two addresses */
+const HARDHAT_XPUB = 'xpub6DyUKdwoLWmUJ4Tn9Bbsdtx7B5Ws18mEN19e5HT52ikE53FiUheSQXrZUNPovqfyKmw4579A1Mm3GXXKM39N64uooBfJ4tNAzFsEbodRTx4';
+const HARDHAT_ADDRESSES = ['0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266', '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'];
+const DEPOSIT = HARDHAT_ADDRESSES[0].toLowerCase();
+/** Intent fields of a checkout given the first derived deposit address */
+const DEPOSIT_INTENT = { recipient: DEPOSIT, derivationIndex: 0 };
+
+const CHAIN: ChainConfig = {
+  chainId: 1,
+  name: 'Ethereum',
+  symbol: 'ETH',
+  rpcUrl: RPC_URL,
+  tokens: { USDC: { address: USDC, decimals: 6 } },
+};
+
+interface FakeTx {
+  hash: string;
+  to: string;
+  value?: bigint;
+  /** USDC transferred to `tokenTo` */
+  tokenValue?: bigint;
+  tokenTo?: string;
+}
+
+/** Minimal JSON-RPC node: blocks of transactions and the logs they emit */
+class FakeChain {
+  head = 100;
+  blocks = new Map<number, FakeTx[]>();
+  calls: string[] = [];
+
+  add(block: number, tx: FakeTx): void {
+    this.blocks.set(block, [...(this.blocks.get(block) ?? []), tx]);
+  }
+
+  handle(method: string, params: any[]): unknown {
+    this.calls.push(method);
+    switch (method) {
+      case 'eth_blockNumber':
+        return hex(this.head);
+      case 'eth_getBlockByNumber':
+        return { transactions: (this.blocks.get(parseInt(params[0], 16)) ?? []).map(tx => this.tx(tx)) };
+      case 'eth_getLogs': {
+        const { fromBlock, toBlock, address, topics } = params[0];
+        const logs = [];
+        for (let block = parseInt(fromBlock, 16); block <= parseInt(toBlock, 16); block++) {
+          for (const tx of this.blocks.get(block) ?? []) {
+            const log = this.log(tx, block);
+            if (log && address.includes(log.address) && topics[2].includes(log.topics[2])) logs.push(log);
+          }
+        }
+        return logs;
+      }
+      case 'eth_getTransactionByHash':
+        return this.find(params[0]) && this.tx(this.find(params[0])!.tx, this.find(params[0])!.block);
+      case 'eth_getTransactionReceipt': {
+        const found = this.find(params[0]);
+        const log = found && this.log(found.tx, found.block);
+        return found && { status: '0x1', logs: log ? [log] : [] };
+      }
+    }
+    return null;
+  }
+
+  private find(hash: string): { tx: FakeTx; block: number } | undefined {
+    for (const [block, txs] of this.blocks) {
+      const tx = txs.find(t => t.hash === hash);
+      if (tx) return { tx, block };
+    }
+    return undefined;
+  }
+
+  private tx(tx: FakeTx, block?: number) {
+    return { hash: tx.hash, from: BUYER, to: tx.to, value: hex(tx.value ?? 0n), blockNumber: block && hex(block) };
+  }
+
+  private log(tx: FakeTx, block: number) {
+    if (!tx.tokenValue || !tx.tokenTo) return null;
+    return {
+      address: USDC,
+      topics: [TRANSFER_TOPIC, addressToTopic(BUYER), addressToTopic(tx.tokenTo)],
+      data: '0x' + tx.tokenValue.toString(16).padStart(64, '0'),
+      transactionHash: tx.hash,
+      blockNumber: hex(block),
+    };
+  }
+}
+
+function hex(value: number | bigint): string {
+  return '0x' + value.toString(16);
+}
+
+describe('EVMPaymentWatcher', () => {
+  let node: FakeChain;
+  let webhooks: Array<{ event: string }>;
+
+  beforeEach(() => {
+    node = new FakeChain();
+    webhooks = [];
+    const realFetch = globalThis.fetch;
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      if (url === HOOK_URL) {
+        webhooks.push(JSON.parse(String(init?.body)));
+        return new Response('ok');
+      }
+      if (url !== RPC_URL) return realFetch(url, init);
+      const { id, method, params } = JSON.parse(String(init?.body));
+      return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: node.handle(method, params) ?? null }));
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function createWatcher(storage: MemoryStorage, onPayment = vi.fn(async () => {}), maxBlocks?: number) {
+    const watcher = new EVMPaymentWatcher({ storage, chain: CHAIN, verifier: new ChainVerifier(CHAIN), onPayment, maxBlocks });
+    return { watcher, onPayment };
+  }
+
+  it('should start at the current head and advance without scanning when nothing is open', async () => {
+    const storage = new MemoryStorage();
+    const { watcher } = createWatcher(storage);
+
+    await watcher.poll();
+    node.head = 150;
+    await watcher.poll();
+
+    expect((await storage.getChainCheckpoint(1))?.blockNumber).toBe(149);
+    expect(node.calls).not.toContain('eth_getBlockByNumber');
+    expect(node.calls).not.toContain('eth_getLogs');
+  });
+
+  it('should match a native transfer to the open intent for its deposit address', async () => {
+    const storage = new MemoryStorage();
+    await storage.saveChainCheckpoint({ chainId: 1, blockNumber: 99, updatedAt: new Date() });
+    await storage.savePaymentIntent(intentFixture({ ...DEPOSIT_INTENT, id: 'only', amount: '0.2' }));
+    node.add(100, { hash: '0xpay', to: DEPOSIT, value: 2n * 10n ** 17n });
+    node.add(100, { hash: '0xother', to: BUYER, value: 10n ** 18n });
+    node.head = 101;
+    const { watcher, onPayment } = createWatcher(storage);
+
+    await watcher.poll();
+
+    expect(onPayment).toHaveBeenCalledTimes(1);
+    expect(onPayment).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'only' }),
+      '0xpay',
+      expect.objectContaining({ status: 'confirmed', actualAmount: '0.2' })
+    );
+    expect((await storage.getChainCheckpoint(1))?.blockNumber).toBe(100);
+  });
+
+  it('should leave transfers to a fixed recipient to /confirm', async () => {
+    const storage = new MemoryStorage();
+    await storage.saveChainCheckpoint({ chainId: 1, blockNumber: 99, updatedAt: new Date() });
+    await storage.savePaymentIntent(intentFixture({ id: 'only', amount: '0.2' }));
+    node.add(100, { hash: '0xpay', to: RECIPIENT, value: 2n * 10n ** 17n });
+    node.head = 101;
+    const { watcher, onPayment } = createWatcher(storage);
+
+    await watcher.poll();
+
+    expect(onPayment).not.toHaveBeenCalled();
+    expect(node.calls).not.toContain('eth_getBlockByNumber');
+    expect((await storage.getChainCheckpoint(1))?.blockNumber).toBe(100);
+  });
+
+  it('should leave transfers to a deposit address shared by several open intents to /confirm', async () => {
+    const storage = new MemoryStorage();
+    await storage.saveChainCheckpoint({ chainId: 1, blockNumber: 99, updatedAt: new Date() });
+    await storage.savePaymentIntent(intentFixture({ ...DEPOSIT_INTENT, id: 'mine', payLinkId: 'link1', amount: '0.2' }));
+    await storage.savePaymentIntent(intentFixture({ ...DEPOSIT_INTENT, id: 'theirs', payLinkId: 'link2', amount: '0.2' }));
+    node.add(100, { hash: '0xpay', to: DEPOSIT, value: 2n * 10n ** 17n });
+    node.head = 101;
+    const { watcher, onPayment } = createWatcher(storage);
+
+    await watcher.poll();
+
+    expect(onPayment).not.toHaveBeenCalled();
+    expect(node.calls).not.toContain('eth_getTransactionByHash');
+    expect((await storage.getChainCheckpoint(1))?.blockNumber).toBe(100);
+  });
+
+  it('should leave blocks without enough confirmations for the next poll', async () => {
+    const storage = new MemoryStorage();
+    await storage.saveChainCheckpoint({ chainId: 1, blockNumber: 99, updatedAt: new Date() });
+    await storage.savePaymentIntent(intentFixture(DEPOSIT_INTENT));
+    node.add(100, { hash: '0xpay', to: DEPOSIT, value: 10n ** 17n });
+    const { watcher, onPayment } = createWatcher(storage);
+
+    await watcher.poll();
+    expect(onPayment).not.toHaveBeenCalled();
+
+    node.head = 101;
+    await watcher.poll();
+    expect(onPayment).toHaveBeenCalledTimes(1);
+  });
+
+  it('should scan at most maxBlocks per poll while intents are open', async () => {
+    const storage = new MemoryStorage();
+    await storage.saveChainCheckpoint({ chainId: 1, blockNumber: 50, updatedAt: new Date() });
+    await storage.savePaymentIntent(intentFixture({ ...DEPOSIT_INTENT, tokenSymbol: 'USDC', amount: '10' }));
+    const { watcher } = createWatcher(storage, undefined, 20);
+
+    await watcher.poll();
+
+    expect((await storage.getChainCheckpoint(1))?.blockNumber).toBe(70);
+  });
+
+  it('should record token payments through the confirm pipeline, once', async () => {
+    const storage = new MemoryStorage();
+    const server = createServer({ chains: [{ ...CHAIN, xpub: HARDHAT_XPUB }], storage, webhook: { url: HOOK_URL, secret: 'hook-secret' } });
+    const listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    const base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+    try {
+      const link = await server.createPayLink({
+        targetUrl: 'https://example.com/content',
+        price: { amount: '10', tokenSymbol: 'USDC', chainId: 1 },
+        recipientAddress: RECIPIENT,
+      });
+
+      await server.detectPayments();
+      expect((await fetch(`${base}/pay/${link.id}/checkout`, { method: 'POST' })).status).toBe(201);
+      const [intent] = await storage.getOpenPaymentIntents(1);
+      expect(intent).toMatchObject({ payLinkId: link.id, tokenSymbol: 'USDC', amount: '10', recipient: HARDHAT_ADDRESSES[0] });
+      expect(intent.reference).toBeUndefined();
+
+      node.add(100, { hash: '0xusdc', to: USDC, tokenValue: 10_000_000n, tokenTo: DEPOSIT });
+      node.head = 102;
+      await server.detectPayments();
+      await server.detectPayments();
+
+      const payment = await storage.getPaymentByTxHash('0xusdc');
+      expect(payment).toMatchObject({ confirmed: true, amount: '10', tokenSymbol: 'USDC', paymentIntentId: intent.id });
+      expect((await storage.getPaymentIntent(intent.id))?.status).toBe('completed');
+      expect((await storage.listPayments({ payLinkId: link.id })).items).toHaveLength(1);
+      await vi.waitFor(() =>
+        expect(webhooks.filter(hook => hook.event === 'payment.confirmed')).toHaveLength(1)
+      );
+
+      expect((await fetch(`${base}/pay/${link.id}`, { redirect: 'manual' })).status).toBe(302);
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+      await server.close();
+    }
+  });
+
+  it('should open no intent for checkouts paying a fixed recipient', async () => {
+    const storage = new MemoryStorage();
+    const server = createServer({ chains: [CHAIN], storage });
+    const listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    const base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+    try {
+      const link = await server.createPayLink({
+        targetUrl: 'https://example.com/content',
+        price: { amount: '0.1', tokenSymbol: 'ETH', chainId: 1 },
+        recipientAddress: RECIPIENT,
+      });
+
+      const res = await fetch(`${base}/pay/${link.id}/checkout`, { method: 'POST' });
+      expect(res.status).toBe(201);
+      const { payment } = await res.json();
+      expect(payment.recipient).toBe(RECIPIENT);
+      expect(payment.intentId).toBeUndefined();
+      expect(await storage.getOpenPaymentIntents(1)).toHaveLength(0);
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+      await server.close();
+    }
+  });
+
+  it('should not confirm a transaction already recorded for another link', async () => {
+    const storage = new MemoryStorage();
+    const server = createServer({ chains: [CHAIN], storage, watcher: { enabled: false } });
+    const listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    const base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+    try {
+      const link = () => server.createPayLink({
+        targetUrl: 'https://example.com/content',
+        price: { amount: '0.1', tokenSymbol: 'ETH', chainId: 1 },
+        recipientAddress: RECIPIENT,
+      });
+      const [theirs, mine] = [await link(), await link()];
+      await storage.savePayment({
+        id: 'pay1',
+        payLinkId: theirs.id,
+        chainId: 1,
+        txHash: FIRST_TX,
+        fromAddress: BUYER,
+        amount: '0.1',
+        confirmed: true,
+        createdAt: new Date(),
+      });
+
+      const res = await fetch(`${base}/pay/${mine.id}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash: FIRST_TX }),
+      });
+      expect(res.status).toBe(409);
+      expect(await res.json()).toMatchObject({ status: 'failed' });
+      expect(await storage.getConfirmedPayment(mine.id)).toBeNull();
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+      await server.close();
+    }
+  });
+
+  it('should hand out a derived deposit address per checkout when the chain has an xpub', async () => {
+    const storage = new MemoryStorage();
+    const server = createServer({ chains: [{ ...CHAIN, xpub: HARDHAT_XPUB }], storage, checkout: { maxPerMinute: 2 } });
+    const listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    const base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+    try {
+      const link = await server.createPayLink({
+        targetUrl: 'https://example.com/content',
+        price: { amount: '10', tokenSymbol: 'USDC', chainId: 1 },
+        recipientAddress: RECIPIENT,
+      });
+
+      await server.detectPayments();
+      // 402 responses show the link's own address and derive nothing
+      expect((await (await fetch(`${base}/pay/${link.id}`)).json()).payment.recipient).toBe(RECIPIENT);
+      expect(await storage.getOpenPaymentIntents(1)).toEqual([]);
+
+      const checkout = () => fetch(`${base}/pay/${link.id}/checkout`, { method: 'POST' });
+      const first = await (await checkout()).json();
+      const second = await (await checkout()).json();
+      expect(first.payment.recipient).toBe(HARDHAT_ADDRESSES[0]);
+      expect(second.payment.recipient).toBe(HARDHAT_ADDRESSES[1]);
+      // Checkouts are rate-limited per client
+      expect((await checkout()).status).toBe(429);
+
+      const intents = await storage.getOpenPaymentIntents(1);
+      expect(intents.map(intent => intent.derivationIndex).sort()).toEqual([0, 1]);
+
+      // Detected by the watcher, credited to the checkout that got the address
+      node.add(100, { hash: SECOND_TX, to: USDC, tokenValue: 10_000_000n, tokenTo: HARDHAT_ADDRESSES[1].toLowerCase() });
+      node.head = 102;
+      await server.detectPayments();
+      const secondIntent = intents.find(intent => intent.derivationIndex === 1)!;
+      expect(await storage.getPaymentByTxHash(SECOND_TX)).toMatchObject({ paymentIntentId: secondIntent.id });
+
+      // Submitted through /confirm with the deposit address it was paid to
+      node.add(101, { hash: FIRST_TX, to: USDC, tokenValue: 10_000_000n, tokenTo: HARDHAT_ADDRESSES[0].toLowerCase() });
+      const confirm = (recipient: string, txHash = FIRST_TX) => fetch(`${base}/pay/${link.id}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash, recipient }),
+      });
+
+      const unknown = await confirm('0x3333333333333333333333333333333333333333');
+      expect(unknown.status).toBe(400);
+      expect(await unknown.json()).toMatchObject({ message: 'Unknown deposit address' });
+
+      expect(await (await confirm(HARDHAT_ADDRESSES[0])).json()).toMatchObject({ status: 'confirmed' });
+      const firstIntent = intents.find(intent => intent.derivationIndex === 0)!;
+      expect(await storage.getPaymentByTxHash(FIRST_TX)).toMatchObject({ paymentIntentId: firstIntent.id });
+      expect((await storage.getPaymentIntent(firstIntent.id))?.status).toBe('completed');
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+      await server.close();
+    }
+  });
+
+  it('should hand the deposit address of an expired checkout to the next one', async () => {
+    const storage = new MemoryStorage();
+    const server = createServer({ chains: [{ ...CHAIN, xpub: HARDHAT_XPUB }], storage, watcher: { enabled: false } });
+    const listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    const base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+    try {
+      const link = await server.createPayLink({
+        targetUrl: 'https://example.com/content',
+        price: { amount: '10', tokenSymbol: 'USDC', chainId: 1 },
+        recipientAddress: RECIPIENT,
+      });
+      const checkout = async () => (await (await fetch(`${base}/pay/${link.id}/checkout`, { method: 'POST' })).json()).payment;
+
+      const abandoned = await checkout();
+      const intent = (await storage.getPaymentIntent(abandoned.intentId))!;
+      await storage.updatePaymentIntent({ ...intent, status: 'expired' });
+
+      const next = await checkout();
+      expect(next.recipient).toBe(HARDHAT_ADDRESSES[0]);
+      expect(await storage.getPaymentIntent(next.intentId)).toMatchObject({ derivationIndex: 0, status: 'open' });
+      expect((await storage.getPaymentIntent(abandoned.intentId))?.status).toBe('recycled');
+
+      // Recycled addresses are handed out once; then derivation continues
+      expect((await checkout()).recipient).toBe(HARDHAT_ADDRESSES[1]);
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,395 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'net';
+import {
+  ChainVerifier,
+  FinalityTracker,
+  InstallmentManager,
+  MemoryStorage,
+  SolanaVerifier,
+  SubscriptionManager,
+  createServer,
+} from '../lib/index.js';
+import type { DepthVerifier, PayLink, Payment, TransactionDepth } from '../lib/index.js';
+import { paymentFixture } from './helpers.js';
+
+const RPC_URL = 'http://rpc.test';
+const HOOK_URL = 'http://hooks.test/paylink';
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+const BUYER = '0x2222222222222222222222222222222222222222';
+const REFERRER = '0x3333333333333333333333333333333333333333';
+const PAY_TX = '0x' + 'ab'.repeat(32);
+
+function linkFixture(overrides: Partial<PayLink> = {}): PayLink {
+  return {
+    id: 'link1',
+    targetUrl: 'https://example.com/content',
+    price: { amount: '0.1', tokenSymbol: 'ETH', chainId: 1 },
+    recipientAddress: RECIPIENT,
+    status: 'active',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+/** Depth verifier answering from a map of tx hash to depth; unknown hashes are missing */
+function depthVerifier(depths: Record<string, TransactionDepth>): DepthVerifier {
+  return {
+    getTransactionDepth: async txHash => depths[txHash] ?? { included: false, confirmations: 0 },
+  };
+}
+
+describe('FinalityTracker', () => {
+  it('should finalize deep payments, keep shallow ones and revert payments missing on consecutive checks', async () => {
+    const storage = new MemoryStorage();
+    await storage.savePayment(paymentFixture({ id: 'deep', txHash: '0xdeep' }));
+    await storage.savePayment(paymentFixture({ id: 'shallow', txHash: '0xshallow', createdAt: new Date(Date.now() + 1000) }));
+    await storage.savePayment(paymentFixture({ id: 'gone', txHash: '0xgone', createdAt: new Date(Date.now() + 2000) }));
+    const onRevert = vi.fn(async (payment: Payment) => {
+      // Handlers run before the reversal is saved, so a failing one is retried
+      expect((await storage.getPaymentByTxHash(payment.txHash))?.confirmed).toBe(true);
+    });
+
+    const tracker = new FinalityTracker({
+      storage,
+      chainId: 1,
+      depth: 12,
+      onRevert,
+      verifier: depthVerifier({
+        '0xdeep': { included: true, confirmations: 12 },
+        '0xshallow': { included: true, confirmations: 3 },
+      }),
+    });
+    await tracker.poll();
+    await tracker.poll();
+
+    expect((await storage.getPaymentByTxHash('0xdeep'))?.finalizedAt).toBeInstanceOf(Date);
+    expect((await storage.getPaymentByTxHash('0xgone'))?.confirmed).toBe(true);
+    expect(onRevert).not.toHaveBeenCalled();
+
+    await tracker.poll();
+
+    expect((await storage.getPaymentByTxHash('0xgone'))).toMatchObject({ confirmed: false, revertedAt: expect.any(Date) });
+    expect(onRevert).toHaveBeenCalledTimes(1);
+    expect(onRevert).toHaveBeenCalledWith(expect.objectContaining({ id: 'gone', confirmed: false }));
+    // Reverted payments stay in the re-check set
+    expect((await storage.getUnfinalizedPayments(1)).map(p => p.id)).toEqual(['shallow', 'gone']);
+  });
+
+  it('should only count consecutive misses', async () => {
+    const storage = new MemoryStorage();
+    await storage.savePayment(paymentFixture());
+    const depths: Record<string, TransactionDepth> = {};
+    const onRevert = vi.fn();
+    const tracker = new FinalityTracker({ storage, chainId: 1, depth: 12, onRevert, verifier: depthVerifier(depths) });
+
+    await tracker.poll();
+    await tracker.poll();
+    depths['0xtx1'] = { included: true, confirmations: 1 };
+    await tracker.poll();
+    delete depths['0xtx1'];
+    await tracker.poll();
+    await tracker.poll();
+
+    expect(onRevert).not.toHaveBeenCalled();
+    expect((await storage.getPaymentByTxHash('0xtx1'))?.confirmed).toBe(true);
+  });
+
+  it('should restore reverted payments whose transaction is mined again', async () => {
+    const storage = new MemoryStorage();
+    await storage.savePayment(paymentFixture({ confirmed: false, revertedAt: new Date() }));
+    await storage.savePayment(paymentFixture({
+      id: 'pay2',
+      txHash: '0xtx2',
+      confirmed: false,
+      revertedAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+    }));
+    const depths: Record<string, TransactionDepth> = {};
+    const onRestore = vi.fn(async (payment: Payment) => {
+      expect((await storage.getPaymentByTxHash(payment.txHash))?.confirmed).toBe(false);
+    });
+    const tracker = new FinalityTracker({
+      storage,
+      chainId: 1,
+      depth: 12,
+      onRevert: vi.fn(),
+      onRestore,
+      restoreWindow: 60 * 60 * 1000,
+      verifier: depthVerifier(depths),
+    });
+
+    await tracker.poll();
+
+    // Missing past the restore window: stays reverted and is no longer checked
+    expect(await storage.getPaymentByTxHash('0xtx2')).toMatchObject({ confirmed: false, finalizedAt: expect.any(Date) });
+    expect((await storage.getUnfinalizedPayments(1)).map(p => p.id)).toEqual(['pay1']);
+
+    depths['0xtx1'] = { included: true, confirmations: 2 };
+    await tracker.poll();
+
+    expect(onRestore).toHaveBeenCalledWith(expect.objectContaining({ id: 'pay1', confirmed: true, revertedAt: undefined }));
+    const restored = await storage.getPaymentByTxHash('0xtx1');
+    expect(restored).toMatchObject({ confirmed: true });
+    expect(restored?.revertedAt).toBeUndefined();
+    expect(restored?.finalizedAt).toBeUndefined();
+  });
+
+  it('should finalize payments the chain reports final before the depth is reached', async () => {
+    const storage = new MemoryStorage();
+    await storage.savePayment(paymentFixture({ chainId: 101 }));
+    const tracker = new FinalityTracker({
+      storage,
+      chainId: 101,
+      depth: 32,
+      onRevert: vi.fn(),
+      verifier: depthVerifier({ '0xtx1': { included: true, confirmations: 0, finalized: true } }),
+    });
+
+    await tracker.poll();
+
+    expect(await storage.getUnfinalizedPayments(101)).toEqual([]);
+  });
+
+  it('should leave payments untouched when the RPC fails and check the others', async () => {
+    const storage = new MemoryStorage();
+    await storage.savePayment(paymentFixture());
+    await storage.savePayment(paymentFixture({ id: 'pay2', txHash: '0xtx2', createdAt: new Date(Date.now() + 1000) }));
+    const onRevert = vi.fn();
+    const tracker = new FinalityTracker({
+      storage,
+      chainId: 1,
+      depth: 12,
+      onRevert,
+      verifier: {
+        getTransactionDepth: async txHash => {
+          if (txHash === '0xtx1') throw new Error('rpc down');
+          return { included: true, confirmations: 12 };
+        },
+      },
+    });
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await tracker.poll();
+
+    expect(errors).toHaveBeenCalledWith(expect.stringContaining('pay1'), expect.objectContaining({ message: 'rpc down' }));
+    errors.mockRestore();
+    expect(onRevert).not.toHaveBeenCalled();
+    expect((await storage.getUnfinalizedPayments(1)).map(p => p.id)).toEqual(['pay1']);
+    expect((await storage.getPaymentByTxHash('0xtx2'))?.finalizedAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('Payment reversal', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should revoke access, claw back the commission and notify when a reorg drops the payment', async () => {
+    // One native transfer in block 100; a reorg removes it from the chain
+    let head = 105;
+    let mined = true;
+    const webhooks: Array<{ event: string }> = [];
+    const realFetch = globalThis.fetch;
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      if (url === HOOK_URL) {
+        webhooks.push(JSON.parse(String(init?.body)));
+        return new Response('ok');
+      }
+      if (url !== RPC_URL) return realFetch(url, init);
+      const { id, method } = JSON.parse(String(init?.body));
+      const results: Record<string, unknown> = {
+        eth_blockNumber: '0x' + head.toString(16),
+        eth_getTransactionByHash: mined
+          ? { hash: PAY_TX, from: BUYER, to: RECIPIENT, value: '0x' + (10n ** 17n).toString(16), blockNumber: '0x64' }
+          : null,
+        eth_getTransactionReceipt: mined ? { status: '0x1', blockNumber: '0x64', logs: [] } : null,
+      };
+      return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: results[method] ?? null }));
+    }));
+
+    const storage = new MemoryStorage();
+    const server = createServer({
+      chains: [{ chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrl: RPC_URL }],
+      storage,
+      webhook: { url: HOOK_URL },
+    });
+    const listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    const base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+    try {
+      const link = await server.createPayLink({
+        targetUrl: 'https://example.com/content',
+        price: { amount: '0.1', tokenSymbol: 'ETH', chainId: 1 },
+        recipientAddress: RECIPIENT,
+        referral: { enabled: true, commissionPercent: 10 },
+      });
+      const referral = await server.getReferralManager().createReferral({ payLinkId: link.id, referrerAddress: REFERRER });
+
+      const confirm = await fetch(`${base}/pay/${link.id}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash: PAY_TX, referralCode: referral.code }),
+      });
+      expect(await confirm.json()).toMatchObject({ status: 'confirmed' });
+      expect((await storage.getReferral(referral.id))?.pendingAmount).toBe('0.01');
+
+      // Still shallow: re-checked, not final
+      await server.checkFinality();
+      expect(await storage.getUnfinalizedPayments(1)).toHaveLength(1);
+      expect((await fetch(`${base}/pay/${link.id}`, { redirect: 'manual' })).status).toBe(302);
+
+      mined = false;
+      await server.checkFinality();
+      await server.checkFinality();
+      expect((await storage.getPaymentByTxHash(PAY_TX))?.confirmed).toBe(true);
+      await server.checkFinality();
+
+      expect(await storage.getPaymentByTxHash(PAY_TX)).toMatchObject({ confirmed: false, revertedAt: expect.any(Date) });
+      expect((await fetch(`${base}/pay/${link.id}`, { redirect: 'manual' })).status).toBe(402);
+
+      const [commission] = await storage.getCommissionsByReferral(referral.id);
+      expect(commission.status).toBe('reversed');
+      expect(await storage.getReferral(referral.id)).toMatchObject({
+        pendingAmount: '0',
+        totalEarned: '0',
+        confirmedReferrals: 0,
+      });
+
+      await vi.waitFor(() => {
+        expect(webhooks.filter(hook => hook.event === 'payment.reverted')).toHaveLength(1);
+        expect(webhooks.filter(hook => hook.event === 'commission.reversed')).toHaveLength(1);
+      });
+
+      // Mined again after the reorg: the payment and its commission are restored
+      mined = true;
+      head = 120;
+      await server.checkFinality();
+
+      expect(await storage.getPaymentByTxHash(PAY_TX)).toMatchObject({ confirmed: true, finalizedAt: expect.any(Date) });
+      expect((await storage.getPaymentByTxHash(PAY_TX))?.revertedAt).toBeUndefined();
+      expect((await storage.getCommissionsByReferral(referral.id))[0].status).toBe('confirmed');
+      expect(await storage.getReferral(referral.id)).toMatchObject({ pendingAmount: '0.01', confirmedReferrals: 1 });
+      expect((await fetch(`${base}/pay/${link.id}`, { redirect: 'manual' })).status).toBe(302);
+      await vi.waitFor(() => {
+        expect(webhooks.filter(hook => hook.event === 'payment.confirmed')).toHaveLength(2);
+      });
+
+      const again = await fetch(`${base}/pay/${link.id}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash: PAY_TX }),
+      });
+      expect(await again.json()).toMatchObject({ status: 'confirmed', message: 'Already confirmed' });
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+      await server.close();
+    }
+  });
+
+  it('should take back installment credit', async () => {
+    const storage = new MemoryStorage();
+    await storage.savePayLink(linkFixture({ price: { amount: '100', tokenSymbol: 'USDC', chainId: 1 }, installment: { enabled: true } }));
+    const manager = new InstallmentManager(storage);
+    const plan = await manager.createPlan({ payLinkId: 'link1', buyerAddress: BUYER });
+    const payment = paymentFixture({ amount: '25', tokenSymbol: 'USDC' });
+    const installment = await manager.processPayment(plan.id, payment);
+    await manager.confirmPayment(installment.id);
+    expect(await manager.hasActiveAccess('link1', BUYER)).toBe(true);
+
+    const reverted = await manager.reversePayment(payment.id);
+
+    expect(reverted).toMatchObject({ status: 'pending', paidAmount: '0', completedInstallments: 0, nextInstallmentNumber: 1 });
+    expect((await storage.getInstallmentPayment(installment.id))?.status).toBe('reversed');
+    expect(await manager.hasActiveAccess('link1', BUYER)).toBe(false);
+    expect(await manager.reversePayment(payment.id)).toBeNull();
+
+    const restored = await manager.restorePayment(payment.id);
+
+    expect(restored).toMatchObject({ status: 'active', paidAmount: '25', completedInstallments: 1, nextInstallmentNumber: 2 });
+    expect((await storage.getInstallmentPayment(installment.id))?.status).toBe('confirmed');
+    expect(await manager.restorePayment(payment.id)).toBeNull();
+  });
+
+  it('should roll back a subscription renewal', async () => {
+    const storage = new MemoryStorage();
+    const link = linkFixture({ subscription: { interval: 'monthly' } });
+    await storage.savePayLink(link);
+    const manager = new SubscriptionManager(storage);
+    const subscription = await manager.createSubscription(link, { payLinkId: link.id, subscriberAddress: BUYER });
+    const paidUntil = subscription.currentPeriodEnd;
+    const renewed = await manager.processPayment(subscription, paymentFixture(), link);
+    expect((await manager.checkAccess(renewed, link)).hasAccess).toBe(true);
+
+    const reverted = await manager.reversePayment(paymentFixture());
+
+    expect(reverted).toMatchObject({ status: 'past_due', cycleCount: 0, lastPaymentId: undefined });
+    expect(reverted?.nextPaymentDue).toEqual(paidUntil);
+    expect((await manager.checkAccess(reverted!, link)).hasAccess).toBe(false);
+
+    const restored = await manager.restorePayment(paymentFixture(), link);
+
+    expect(restored).toMatchObject({ status: 'active', cycleCount: 1, lastPaymentId: 'pay1' });
+    expect((await manager.checkAccess(restored!, link)).hasAccess).toBe(true);
+    expect(await manager.restorePayment(paymentFixture(), link)).toBeNull();
+  });
+
+  it('should restore a renewal paid from another wallet than the subscriber', async () => {
+    const storage = new MemoryStorage();
+    const link = linkFixture({ subscription: { interval: 'monthly' } });
+    await storage.savePayLink(link);
+    const manager = new SubscriptionManager(storage);
+    const subscriber = '0x3333333333333333333333333333333333333333';
+    const subscription = await manager.createSubscription(link, { payLinkId: link.id, subscriberAddress: subscriber });
+    const payment = paymentFixture({ subscriptionId: subscription.id });
+    expect(payment.fromAddress).not.toBe(subscriber);
+    await manager.processPayment(subscription, payment, link);
+
+    expect(await manager.reversePayment(payment)).toMatchObject({ status: 'past_due', lastPaymentId: undefined });
+    const restored = await manager.restorePayment(payment, link);
+
+    expect(restored).toMatchObject({ id: subscription.id, status: 'active', cycleCount: 1, lastPaymentId: payment.id });
+    expect((await manager.checkAccess(restored!, link)).hasAccess).toBe(true);
+  });
+
+  it('should report dropped Solana transactions as missing and RPC failures as errors', async () => {
+    let status: unknown = null;
+    let fail = false;
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init?: RequestInit) => {
+      const { id, params } = JSON.parse(String(init?.body));
+      expect(params[1]).toEqual({ searchTransactionHistory: true });
+      const body = fail
+        ? { jsonrpc: '2.0', id, error: { code: -32005, message: 'Node is behind' } }
+        : { jsonrpc: '2.0', id, result: { value: [status] } };
+      return new Response(JSON.stringify(body));
+    }));
+    const verifier = new SolanaVerifier({ rpcUrl: RPC_URL });
+
+    expect(await verifier.getTransactionDepth('sig')).toEqual({ included: false, confirmations: 0 });
+
+    status = { slot: 1, confirmations: 5, err: null, confirmationStatus: 'confirmed' };
+    expect(await verifier.getTransactionDepth('sig')).toEqual({ included: true, confirmations: 5, finalized: false });
+
+    fail = true;
+    await expect(verifier.getTransactionDepth('sig')).rejects.toThrow('Node is behind');
+  });
+
+  it('should only report EVM transactions missing once the node no longer has them mined', async () => {
+    let tx: unknown = { hash: PAY_TX, blockNumber: '0x64' };
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init?: RequestInit) => {
+      const { id, method } = JSON.parse(String(init?.body));
+      const result = method === 'eth_getTransactionByHash' ? tx : null;
+      return new Response(JSON.stringify({ jsonrpc: '2.0', id, result }));
+    }));
+    const verifier = new ChainVerifier({ chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrl: RPC_URL });
+
+    // No receipt yet for a mined transaction: the node lags
+    await expect(verifier.getTransactionDepth(PAY_TX)).rejects.toThrow('mined but has no receipt');
+
+    tx = { hash: PAY_TX, blockNumber: null };
+    expect(await verifier.getTransactionDepth(PAY_TX)).toEqual({ included: false, confirmations: 0 });
+
+    tx = null;
+    expect(await verifier.getTransactionDepth(PAY_TX)).toEqual({ included: false, confirmations: 0 });
+  });
+});
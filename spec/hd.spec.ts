@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HARDENED_OFFSET,
+  MemoryStorage,
+  createServer,
+  deriveChildPublicKey,
+  deriveEvmAddress,
+  keccak256,
+  parseExtendedPublicKey,
+  toChecksumAddress,
+} from '../lib/index.js';
+
+/** BIP-32 test vector 1 */
+const VECTOR_M_0H = 'xpub68Gmy5EdvgibQVfPdqkBBCHxA5htiqg55crXYuXoQRKfDBFA1WEjWgP6LHhwBZeNK1VTsfTFUHCdrfp1bgwQ9xv5ski8PX9rL2dZXvgGDnw';
+const VECTOR_M_0H_1 = 'xpub6ASuArnXKPbfEwhqN6e3mwBcDTgzisQN1wXN9BJcM47sSikHjJf3UFHKkNAWbWMiGj7Wf5uMash7SyYq527Hqck2AxYysAA7xmALppuCkwQ';
+
+/** m/44'/60'/0'/0 of the well-known Hardhat/Anvil test mnemonic */
+const HARDHAT_XPUB = 'xpub6DyUKdwoLWmUJ4Tn9Bbsdtx7B5Ws18mEN19e5HT52ikE53FiUheSQXrZUNPovqfyKmw4579A1Mm3GXXKM39N64uooBfJ4tNAzFsEbodRTx4';
+
+function hex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+describe('keccak256', () => {
+  it('should match known digests', () => {
+    expect(hex(keccak256(new Uint8Array()))).toBe('c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    expect(hex(keccak256(new TextEncoder().encode('abc')))).toBe('4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+  });
+});
+
+describe('HD derivation', () => {
+  it('should derive non-hardened children like BIP-32 test vector 1', () => {
+    const parent = parseExtendedPublicKey(VECTOR_M_0H);
+    const expected = parseExtendedPublicKey(VECTOR_M_0H_1);
+
+    const child = deriveChildPublicKey(parent, 1);
+
+    expect(child.depth).toBe(2);
+    expect(hex(child.publicKey)).toBe(hex(expected.publicKey));
+    expect(hex(child.chainCode)).toBe(hex(expected.chainCode));
+  });
+
+  it('should derive the usual wallet addresses from an account xpub', () => {
+    expect(deriveEvmAddress(HARDHAT_XPUB, 0)).toBe('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266');
+    expect(deriveEvmAddress(HARDHAT_XPUB, 1)).toBe('0x70997970C51812dc3A010C7d01b50e0d17dc79C8');
+  });
+
+  it('should reject hardened indexes and corrupted keys', () => {
+    const parent = parseExtendedPublicKey(HARDHAT_XPUB);
+    expect(() => deriveChildPublicKey(parent, HARDENED_OFFSET)).toThrow('hardened');
+    expect(() => parseExtendedPublicKey(HARDHAT_XPUB.slice(0, -1) + '5')).toThrow('checksum');
+  });
+
+  it('should checksum addresses per EIP-55', () => {
+    expect(toChecksumAddress('0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed'))
+      .toBe('0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed');
+  });
+});
+
+describe('xpub chain configuration', () => {
+  it('should reject an xpub on Solana chains', () => {
+    expect(() => createServer({
+      chains: [{ chainId: 101, name: 'Solana', symbol: 'SOL', rpcUrl: 'mock', xpub: HARDHAT_XPUB }],
+      storage: new MemoryStorage(),
+    })).toThrow('only supported on EVM chains');
+  });
+
+  it('should reject an invalid xpub', () => {
+    expect(() => createServer({
+      chains: [{ chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrl: 'mock', xpub: 'xpub-invalid' }],
+      storage: new MemoryStorage(),
+    })).toThrow('Chain 1: invalid xpub');
+  });
+});
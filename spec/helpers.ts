@@ -0,0 +1,110 @@
+import { createRequire } from 'module';
+import { createServer as createHttpServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { Payment, PaymentIntent } from '../lib/index.js';
+
+/**
+ * The node:sqlite module, or null on runtimes without it (it ships with Node 22.5+)
+ */
+export function loadSqlite(): { DatabaseSync: new (path: string) => any } | null {
+  try {
+    return createRequire(import.meta.url)('node:sqlite');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Confirmed ETH payment of link1 on chain 1; tests override what they depend on
+ */
+export function paymentFixture(overrides: Partial<Payment> = {}): Payment {
+  return {
+    id: 'pay1',
+    payLinkId: 'link1',
+    chainId: 1,
+    txHash: '0xtx1',
+    fromAddress: '0x2222222222222222222222222222222222222222',
+    amount: '0.1',
+    tokenSymbol: 'ETH',
+    confirmed: true,
+    createdAt: new Date(),
+    confirmedAt: new Date(),
+    ...overrides,
+  };
+}
+
+/**
+ * Open intent of link1 for 0.1 ETH to a fixed address on chain 1, expiring in a minute
+ */
+export function intentFixture(overrides: Partial<PaymentIntent> = {}): PaymentIntent {
+  const now = Date.now();
+  return {
+    id: 'intent1',
+    payLinkId: 'link1',
+    chainId: 1,
+    tokenSymbol: 'ETH',
+    amount: '0.1',
+    recipient: '0x1111111111111111111111111111111111111111',
+    status: 'open',
+    createdAt: new Date(now),
+    updatedAt: new Date(now),
+    expiresAt: new Date(now + 60_000),
+    ...overrides,
+  };
+}
+
+/**
+ * Local JSON-RPC node answering from a method table
+ * `down` makes it fail with HTTP 503; an Error result answers a JSON-RPC error with the
+ * error's `code` (default -32000).
+ */
+export interface StubNode {
+  url: string;
+  calls: string[];
+  down: boolean;
+  results: Record<string, unknown>;
+}
+
+const nodes: Server[] = [];
+
+/**
+ * Start a stub node; methods missing from `results` answer null, or -32601 like
+ * nodes without the API when `strict` is set. Stop nodes with `stopNodes()`.
+ */
+export async function startNode(results: Record<string, unknown> = {}, options: { strict?: boolean } = {}): Promise<StubNode> {
+  const node: StubNode = { url: '', calls: [], down: false, results };
+  const server = createHttpServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const { id, method } = JSON.parse(body);
+      node.calls.push(method);
+      if (node.down) {
+        res.writeHead(503).end('unavailable');
+        return;
+      }
+      const result = node.results[method];
+      let response: Record<string, unknown>;
+      if (result instanceof Error) {
+        const code = (result as Error & { code?: number }).code ?? -32000;
+        response = { jsonrpc: '2.0', id, error: { code, message: result.message } };
+      } else if (options.strict && !(method in node.results)) {
+        response = { jsonrpc: '2.0', id, error: { code: -32601, message: `the method ${method} does not exist/is not available` } };
+      } else {
+        response = { jsonrpc: '2.0', id, result: result ?? null };
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(response));
+    });
+  });
+  nodes.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  node.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return node;
+}
+
+/**
+ * Close every node started so far
+ */
+export async function stopNodes(): Promise<void> {
+  await Promise.all(nodes.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import pg from 'pg';
+import { createPostgresStorage, PostgresStorage, POSTGRES_MIGRATIONS, Subscription, InstallmentPlan } from '../lib/index.js';
+
+// Runs against a local database, e.g.
+// PAYLINK_TEST_POSTGRES_URL=postgres://postgres@localhost:5432/paylink_test npm test
+const connectionString = process.env.PAYLINK_TEST_POSTGRES_URL;
+
+const TABLES = [
+  'paylink_links',
+  'paylink_payments',
+  'paylink_subscriptions',
+  'paylink_referrals',
+  'paylink_commissions',
+  'paylink_installment_plans',
+  'paylink_installment_payments',
+  'paylink_payment_intents',
+  'paylink_chain_checkpoints',
+  'paylink_derivation_indexes',
+  'paylink_auth_challenges',
+  'paylink_access_token_revocations',
+];
+
+describe.skipIf(!connectionString)('PostgresStorage', () => {
+  let pool: pg.Pool;
+  let storage: PostgresStorage;
+
+  const createTestSubscription = (overrides: Partial<Subscription> = {}): Subscription => ({
+    id: 'sub123',
+    payLinkId: 'link123',
+    subscriberAddress: '0xSubscriber',
+    status: 'active',
+    currentPeriodStart: new Date(),
+    currentPeriodEnd: new Date(Date.now() + 86400000),
+    nextPaymentDue: new Date(Date.now() - 1000),
+    cycleCount: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const createTestPlan = (overrides: Partial<InstallmentPlan> = {}): InstallmentPlan => ({
+    id: 'plan123',
+    payLinkId: 'link123',
+    buyerAddress: '0xBuyer',
+    status: 'active',
+    totalAmount: '1',
+    paidAmount: '0.25',
+    totalInstallments: 4,
+    completedInstallments: 1,
+    installmentAmounts: ['0.25', '0.25', '0.25', '0.25'],
+    intervalDays: 30,
+    gracePeriodDays: 3,
+    nextDueDate: new Date(),
+    nextInstallmentNumber: 2,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    pool = new pg.Pool({ connectionString, max: 4 });
+    storage = createPostgresStorage({ pool });
+    await storage.migrate();
+  });
+
+  beforeEach(async () => {
+    await pool.query(`TRUNCATE ${TABLES.join(', ')}`);
+  });
+
+  afterAll(async () => {
+    await pool?.end();
+  });
+
+  describe('migrations', () => {
+    it('should apply all migrations once, even concurrently', async () => {
+      const latest = POSTGRES_MIGRATIONS[POSTGRES_MIGRATIONS.length - 1].version;
+
+      const versions = await Promise.all([storage.migrate(), storage.migrate()]);
+
+      expect(versions).toEqual([latest, latest]);
+      expect(await storage.getSchemaVersion()).toBe(latest);
+    });
+  });
+
+  describe('PayLink operations', () => {
+    it('should round-trip a pay link with dates', async () => {
+      const expiresAt = new Date(Date.now() + 3600000);
+      await storage.savePayLink({
+        id: 'test123',
+        targetUrl: 'https://example.com',
+        price: { amount: '0.001', tokenSymbol: 'ETH', chainId: 1 },
+        recipientAddress: '0x1234',
+        status: 'active',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        expiresAt,
+      });
+
+      const retrieved = await storage.getPayLink('test123');
+
+      expect(retrieved?.price.amount).toBe('0.001');
+      expect(retrieved?.expiresAt?.getTime()).toBe(expiresAt.getTime());
+    });
+  });
+
+  describe('Subscription queries', () => {
+    it('should find due subscriptions and follow status updates', async () => {
+      const subscription = createTestSubscription();
+      await storage.saveSubscription(subscription);
+
+      expect(await storage.getSubscriptionsDue(new Date())).toHaveLength(1);
+      expect(await storage.getSubscriptionByAddress('link123', '0xsubscriber')).not.toBeNull();
+
+      await storage.updateSubscription({ ...subscription, status: 'cancelled' });
+      expect(await storage.getSubscriptionsDue(new Date())).toHaveLength(0);
+    });
+  });
+
+  describe('Installment plan queries', () => {
+    it('should find overdue plans past their grace period', async () => {
+      const tenDaysAgo = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+      await storage.saveInstallmentPlan(createTestPlan({ id: 'overdue', nextDueDate: tenDaysAgo }));
+      await storage.saveInstallmentPlan(createTestPlan({ id: 'current' }));
+
+      const overdue = await storage.getOverdueInstallmentPlans();
+
+      expect(overdue.map(p => p.id)).toEqual(['overdue']);
+    });
+
+    it('should throw when updating a missing plan', async () => {
+      await expect(storage.updateInstallmentPlan(createTestPlan({ id: 'missing' }))).rejects.toThrow('not found');
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  BitcoinPaymentProvider,
+  EVMPaymentProvider,
+  MemoryStorage,
+  MockPaymentProvider,
+  ProviderRegistry,
+  SolanaPaymentProvider,
+  TronPaymentProvider,
+  createServer,
+  type ChainConfig,
+  type PaylinkServer,
+} from '../lib/index.js';
+
+const chain = (config: Partial<ChainConfig>): ChainConfig => ({ chainId: 1, name: 'Chain', symbol: 'X', rpcUrl: 'mock', ...config });
+
+describe('ProviderRegistry', () => {
+  it('should resolve chains by type, then by chain ID, else EVM', () => {
+    const registry = new ProviderRegistry();
+
+    expect(registry.resolve(chain({ chainId: 101, type: 'evm' })).type).toBe('evm');
+    expect(registry.resolve(chain({ chainId: 102 })).type).toBe('solana');
+    expect(registry.resolve(chain({ chainId: 18332 })).type).toBe('bitcoin');
+    expect(registry.resolve(chain({ chainId: 728126428 })).type).toBe('tron');
+    expect(registry.resolve(chain({ chainId: 137 })).type).toBe('evm');
+    expect(() => registry.resolve(chain({ chainId: 9, type: 'cosmos' }))).toThrow("Chain 9: no payment provider for type 'cosmos'");
+  });
+
+  it('should let registered providers add types and replace built-in ones', () => {
+    const custom = new MockPaymentProvider({ type: 'bitcoin' });
+    const registry = new ProviderRegistry([new MockPaymentProvider({ type: 'mocknet' }), custom]);
+
+    expect(registry.types()).toEqual(['evm', 'solana', 'tron', 'mocknet', 'bitcoin']);
+    expect(registry.get('mocknet')).toBeInstanceOf(MockPaymentProvider);
+    expect(registry.resolve(chain({ type: 'bitcoin' }))).toBe(custom);
+  });
+});
+
+describe('Built-in providers', () => {
+  it('should validate addresses of their networks', () => {
+    expect(new EVMPaymentProvider().isValidAddress('0x1111111111111111111111111111111111111111')).toBe(true);
+    expect(new EVMPaymentProvider().isValidAddress('0x1234')).toBe(false);
+    expect(new SolanaPaymentProvider().isValidAddress('So11111111111111111111111111111111111111112')).toBe(true);
+    expect(new SolanaPaymentProvider().isValidAddress('0x1111111111111111111111111111111111111111')).toBe(false);
+    expect(new BitcoinPaymentProvider().isValidAddress('bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh')).toBe(true);
+    expect(new BitcoinPaymentProvider().isValidAddress('1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2')).toBe(true);
+    expect(new BitcoinPaymentProvider().isValidAddress('bc1qXy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh')).toBe(false);
+    expect(new TronPaymentProvider().isValidAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t')).toBe(true);
+    expect(new TronPaymentProvider().isValidAddress('TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6u')).toBe(false);
+  });
+
+  it('should build their wallet URIs regardless of the chain ID', () => {
+    const data = { chainId: 9000, recipient: 'addr', amount: '1', tokenSymbol: 'X', payLinkId: 'abc', confirmUrl: '' };
+
+    expect(new SolanaPaymentProvider().generatePaymentURI(data)).toMatch(/^solana:addr\?amount=1&/);
+    expect(new BitcoinPaymentProvider().generatePaymentURI(data)).toMatch(/^bitcoin:addr\?amount=1&/);
+    expect(new EVMPaymentProvider().generatePaymentURI({ ...data, chainId: 101 })).toBe('ethereum:addr@101?value=1000000000000000000');
+  });
+});
+
+describe('Custom providers', () => {
+  const RECIPIENT = 'mock-wallet-1';
+  let provider: MockPaymentProvider;
+  let server: PaylinkServer;
+  let listener: Server;
+  let base: string;
+
+  beforeEach(async () => {
+    provider = new MockPaymentProvider({ type: 'mocknet', simulateDelay: 0 });
+    server = createServer({
+      chains: [
+        { chainId: 4242, name: 'Mocknet', symbol: 'MCK', rpcUrl: 'http://mocknet.test', type: 'mocknet' },
+        { chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrl: 'mock' },
+      ],
+      providers: [provider],
+      storage: new MemoryStorage(),
+      apiKey: 'secret',
+    });
+    listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+  });
+
+  const confirm = (id: string, txHash: string) => fetch(`${base}/pay/${id}/confirm`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ txHash }),
+  });
+
+  it('should verify payments and build QR codes through the registered provider', async () => {
+    const link = await server.createPayLink({
+      targetUrl: 'https://example.com/content',
+      price: { amount: '2.5', tokenSymbol: 'MCK', chainId: 4242 },
+      recipientAddress: RECIPIENT,
+    });
+
+    provider.markFailed('0xbad');
+    expect(await (await confirm(link.id, '0xbad')).json()).toMatchObject({ status: 'failed' });
+    expect(await (await confirm(link.id, '0xgood')).json()).toMatchObject({ status: 'confirmed', tokenSymbol: 'MCK' });
+
+    const qr = await (await fetch(`${base}/pay/${link.id}/qr?format=json`)).json();
+    expect(qr.paymentUri).toBe(`mocknet:${RECIPIENT}?amount=2.5`);
+  });
+
+  it('should reject recipient addresses the chain provider does not accept', async () => {
+    const create = (body: Record<string, unknown>) => fetch(`${base}/api/links`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-API-Key': 'secret' },
+      body: JSON.stringify({ targetUrl: 'https://example.com', amount: '1', ...body }),
+    });
+
+    const invalid = await create({ chainId: 1, recipientAddress: '0x1234' });
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).error).toBe('Invalid recipient address for chain 1: 0x1234');
+
+    const option = await create({
+      chainId: 4242,
+      tokenSymbol: 'MCK',
+      recipientAddress: RECIPIENT,
+      paymentOptions: [{ chainId: 1, tokenSymbol: 'ETH', amount: '0.1' }],
+    });
+    expect(option.status).toBe(400);
+
+    expect((await create({ chainId: 4242, tokenSymbol: 'MCK', recipientAddress: RECIPIENT })).status).toBe(201);
+  });
+
+  it('should fail at startup for chain types without a provider', () => {
+    expect(() => createServer({
+      chains: [{ chainId: 4242, name: 'Mocknet', symbol: 'MCK', rpcUrl: 'mock', type: 'mocknet' }],
+      storage: new MemoryStorage(),
+    })).toThrow("Chain 4242: no payment provider for type 'mocknet'");
+  });
+});
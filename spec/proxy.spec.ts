@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer as createHttpServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  MemoryStorage,
+  createServer,
+  isPublicAddress,
+  type PaylinkConfig,
+  type PaylinkServer,
+} from '../lib/index.js';
+
+const CONTENT = 'paid content, 0123456789';
+
+describe('isPublicAddress', () => {
+  it('should reject loopback, private, link-local and mapped private addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', 'localhost']) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111']) {
+      expect(isPublicAddress(address), address).toBe(true);
+    }
+  });
+});
+
+describe('Proxy delivery', () => {
+  let upstream: Server;
+  let upstreamUrl: string;
+  let upstreamRequests: IncomingHttpHeaders[];
+  let server: PaylinkServer;
+  let storage: MemoryStorage;
+  let listener: Server;
+  let base: string;
+
+  async function start(config: Partial<PaylinkConfig> = {}) {
+    storage = new MemoryStorage();
+    server = createServer({
+      chains: [{ chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrl: 'mock' }],
+      storage,
+      watcher: { enabled: false },
+      proxy: { allowedHosts: ['127.0.0.1'] },
+      ...config,
+    });
+    listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+  }
+
+  async function stop() {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+  }
+
+  /** Proxied single-use link, paid */
+  async function paidLink(path = '/file') {
+    const link = await server.createPayLink({
+      targetUrl: `${upstreamUrl}${path}`,
+      price: { amount: '0.1', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0x1111111111111111111111111111111111111111',
+      delivery: 'proxy',
+    });
+    await storage.savePayment({
+      id: `pay-${link.id}`,
+      payLinkId: link.id,
+      chainId: 1,
+      txHash: `0x${link.id}`,
+      fromAddress: '0x2222222222222222222222222222222222222222',
+      amount: '0.1',
+      confirmed: true,
+      createdAt: new Date(),
+    });
+    return link;
+  }
+
+  const get = (path: string, headers: Record<string, string> = {}) =>
+    fetch(`${base}${path}`, { redirect: 'manual', headers });
+
+  beforeEach(async () => {
+    upstreamRequests = [];
+    upstream = createHttpServer((req, res) => {
+      upstreamRequests.push(req.headers);
+      if (req.url === '/moved') {
+        res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data' }).end();
+        return;
+      }
+      const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? '');
+      const headers = { 'Content-Type': 'application/pdf', 'Accept-Ranges': 'bytes', 'Set-Cookie': 'upstream=secret', 'X-Internal': '1' };
+      if (range) {
+        const [start, end] = [Number(range[1]), Number(range[2])];
+        res.writeHead(206, { ...headers, 'Content-Range': `bytes ${start}-${end}/${CONTENT.length}` });
+        res.end(CONTENT.slice(start, end + 1));
+        return;
+      }
+      res.writeHead(200, headers).end(CONTENT);
+    });
+    upstream.listen(0, '127.0.0.1');
+    await new Promise(resolve => upstream.once('listening', resolve));
+    upstreamUrl = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+    await start();
+  });
+
+  afterEach(async () => {
+    await stop();
+    await new Promise(resolve => upstream.close(resolve));
+  });
+
+  it('should stream the target without revealing it or passing credentials either way', async () => {
+    const link = await paidLink();
+
+    const res = await get(`/pay/${link.id}`, { Authorization: 'Bearer buyer-token', Cookie: 'session=buyer' });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe(CONTENT);
+    expect(res.headers.get('content-type')).toBe('application/pdf');
+    expect(res.headers.get('cache-control')).toBe('private, no-cache');
+    expect(res.headers.get('location')).toBeNull();
+    // Only the viewing's session cookie, never the upstream's
+    expect(res.headers.get('set-cookie')).toMatch(/^paylink_access=/);
+    expect(res.headers.get('set-cookie')).not.toContain('upstream=');
+    expect(res.headers.get('x-internal')).toBeNull();
+
+    expect(upstreamRequests).toHaveLength(1);
+    expect(upstreamRequests[0]).not.toHaveProperty('authorization');
+    expect(upstreamRequests[0]).not.toHaveProperty('cookie');
+  });
+
+  it('should pass range requests through and check access on every fetch', async () => {
+    const link = await paidLink();
+
+    const partial = await get(`/pay/${link.id}`, { Range: 'bytes=5-11' });
+    expect(partial.status).toBe(206);
+    expect(partial.headers.get('content-range')).toBe(`bytes 5-11/${CONTENT.length}`);
+    expect(await partial.text()).toBe('content');
+
+    await server.disablePayLink(link.id);
+    expect((await get(`/pay/${link.id}`, { Range: 'bytes=12-15' })).status).toBe(403);
+    expect(upstreamRequests).toHaveLength(1);
+  });
+
+  it('should count one use per viewing, not per range request', async () => {
+    const link = await paidLink();
+    await storage.updatePayLink({ ...link, maxUses: 2 });
+
+    const first = await get(`/pay/${link.id}`, { Range: 'bytes=0-3' });
+    expect(first.status).toBe(206);
+    const cookie = first.headers.get('set-cookie')!.split(';')[0];
+    for (const range of ['bytes=5-11', 'bytes=12-15', 'bytes=16-23']) {
+      expect((await get(`/pay/${link.id}`, { Range: range, Cookie: cookie })).status).toBe(206);
+    }
+    expect((await storage.getPayLink(link.id))?.usedCount).toBe(1);
+
+    // A second viewing takes the last use; the first one can still seek
+    expect((await get(`/pay/${link.id}`)).status).toBe(200);
+    expect((await get(`/pay/${link.id}`)).status).toBe(403);
+    expect((await get(`/pay/${link.id}`, { Range: 'bytes=5-11', Cookie: cookie })).status).toBe(206);
+    expect((await storage.getPayLink(link.id))?.usedCount).toBe(2);
+  });
+
+  it('should not fetch the target of unpaid links', async () => {
+    const link = await server.createPayLink({
+      targetUrl: `${upstreamUrl}/file`,
+      price: { amount: '0.1', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0x1111111111111111111111111111111111111111',
+      delivery: 'proxy',
+    });
+
+    expect((await get(`/pay/${link.id}`)).status).toBe(402);
+    expect(upstreamRequests).toHaveLength(0);
+  });
+
+  it('should not follow or reveal upstream redirects', async () => {
+    const link = await paidLink('/moved');
+
+    const res = await get(`/pay/${link.id}`);
+    expect(res.status).toBe(502);
+    expect(res.headers.get('location')).toBeNull();
+    expect(JSON.stringify(await res.json())).not.toContain('169.254');
+  });
+
+  it('should refuse private upstreams unless their host is allowed', async () => {
+    await stop();
+    await start({ proxy: {} });
+
+    for (const target of [upstreamUrl, upstreamUrl.replace('127.0.0.1', 'localhost')]) {
+      const link = await server.createPayLink({
+        targetUrl: `${target}/file`,
+        price: { amount: '0.1', tokenSymbol: 'ETH', chainId: 1 },
+        recipientAddress: '0x1111111111111111111111111111111111111111',
+        delivery: 'proxy',
+      });
+      await storage.savePayment({
+        id: `pay-${link.id}`,
+        payLinkId: link.id,
+        chainId: 1,
+        txHash: `0x${link.id}`,
+        fromAddress: '0x2222222222222222222222222222222222222222',
+        amount: '0.1',
+        confirmed: true,
+        createdAt: new Date(),
+      });
+
+      const res = await get(`/pay/${link.id}`);
+      expect(res.status).toBe(502);
+      expect(await res.json()).toEqual({ error: 'Upstream not allowed' });
+    }
+    expect(upstreamRequests).toHaveLength(0);
+  });
+
+  it('should only accept http(s) targets for proxy delivery', async () => {
+    await expect(server.createPayLink({
+      targetUrl: 'file:///etc/passwd',
+      price: { amount: '0.1', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0x1111111111111111111111111111111111111111',
+      delivery: 'proxy',
+    })).rejects.toThrow('Proxy delivery needs an http(s) targetUrl');
+  });
+});
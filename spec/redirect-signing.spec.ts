@@ -0,0 +1,119 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  MemoryStorage,
+  createServer,
+  requirePaylinkRedirect,
+  signPaylinkRedirect,
+  verifyPaylinkRedirect,
+} from '../lib/index.js';
+
+const SECRET = 'shared-redirect-secret';
+const PAYER = '0x2222222222222222222222222222222222222222';
+
+const redirect = (expiresIn = 60_000) => ({ linkId: 'abc123', payer: PAYER, expiresAt: new Date(Date.now() + expiresIn) });
+
+describe('Signed redirects', () => {
+  it('should sign targets with HMAC and verify what they vouch for', () => {
+    const url = signPaylinkRedirect('https://example.com/course?lesson=1&pl_link=forged#intro', redirect(), SECRET);
+    const parsed = new URL(url);
+
+    expect(parsed.searchParams.get('lesson')).toBe('1');
+    expect(parsed.searchParams.getAll('pl_link')).toEqual(['abc123']);
+    expect(parsed.hash).toBe('#intro');
+    expect(verifyPaylinkRedirect(url, SECRET)).toMatchObject({ linkId: 'abc123', payer: PAYER });
+    // The path and query alone verify, as seen behind proxies rewriting the host
+    expect(verifyPaylinkRedirect(parsed.pathname + parsed.search, SECRET)).not.toBeNull();
+  });
+
+  it('should reject tampered, expired, unsigned and wrongly keyed URLs', () => {
+    const url = signPaylinkRedirect('https://example.com/course?lesson=1', redirect(), SECRET);
+
+    expect(verifyPaylinkRedirect(url.replace('lesson=1', 'lesson=2'), SECRET)).toBeNull();
+    expect(verifyPaylinkRedirect(url.replace('/course', '/admin'), SECRET)).toBeNull();
+    expect(verifyPaylinkRedirect(url.replace('pl_link=abc123', 'pl_link=other'), SECRET)).toBeNull();
+    expect(verifyPaylinkRedirect(url, 'other-secret')).toBeNull();
+    expect(verifyPaylinkRedirect(url, SECRET, new Date(Date.now() + 61_000))).toBeNull();
+    expect(verifyPaylinkRedirect(signPaylinkRedirect('https://example.com/', redirect(-1000), SECRET), SECRET)).toBeNull();
+    expect(verifyPaylinkRedirect('https://example.com/course?lesson=1', SECRET)).toBeNull();
+  });
+
+  it('should sign with an Ed25519 private key and verify with the public key', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const pem = privateKey.export({ format: 'pem', type: 'pkcs8' }).toString();
+    const url = signPaylinkRedirect('https://example.com/file.zip', redirect(), pem);
+
+    expect(verifyPaylinkRedirect(url, publicKey)).toMatchObject({ linkId: 'abc123' });
+    expect(verifyPaylinkRedirect(url, publicKey.export({ format: 'pem', type: 'spki' }).toString())).not.toBeNull();
+    expect(verifyPaylinkRedirect(url, generateKeyPairSync('ed25519').publicKey)).toBeNull();
+    expect(verifyPaylinkRedirect(url, SECRET)).toBeNull();
+  });
+});
+
+describe('Signed redirect delivery', () => {
+  const listeners: Server[] = [];
+
+  async function listen(app: express.Express): Promise<string> {
+    const listener = app.listen(0);
+    listeners.push(listener);
+    await new Promise(resolve => listener.once('listening', resolve));
+    return `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+  }
+
+  afterEach(async () => {
+    await Promise.all(listeners.splice(0).map(listener => new Promise(resolve => listener.close(resolve))));
+  });
+
+  it('should let the target site admit only visitors redirected by a paid link', async () => {
+    const target = express();
+    target.get('/content', requirePaylinkRedirect(SECRET), (req, res) => {
+      res.json({ payer: res.locals.paylinkRedirect.payer });
+    });
+    target.get('/other', requirePaylinkRedirect(SECRET, { linkIds: ['another'] }), (req, res) => {
+      res.send('ok');
+    });
+    const targetBase = await listen(target);
+
+    const storage = new MemoryStorage();
+    const server = createServer({
+      chains: [{ chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrl: 'mock' }],
+      storage,
+      watcher: { enabled: false },
+      redirectSigning: { secret: SECRET },
+    });
+    const base = await listen(server.getApp());
+
+    try {
+      const link = await server.createPayLink({
+        targetUrl: `${targetBase}/content`,
+        price: { amount: '0.1', tokenSymbol: 'ETH', chainId: 1 },
+        recipientAddress: '0x1111111111111111111111111111111111111111',
+      });
+      await storage.savePayment({
+        id: 'pay1',
+        payLinkId: link.id,
+        chainId: 1,
+        txHash: '0xpaid',
+        fromAddress: PAYER,
+        amount: '0.1',
+        confirmed: true,
+        createdAt: new Date(),
+      });
+
+      const location = (await fetch(`${base}/pay/${link.id}`, { redirect: 'manual' })).headers.get('location')!;
+      expect(new URL(location).searchParams.get('pl_link')).toBe(link.id);
+
+      const admitted = await fetch(location);
+      expect(admitted.status).toBe(200);
+      expect(await admitted.json()).toEqual({ payer: PAYER });
+
+      expect((await fetch(`${targetBase}/content`)).status).toBe(403);
+      expect((await fetch(location.replace('/content', '/other'))).status).toBe(403);
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import {
+  ChainVerifier,
+  MemoryStorage,
+  RpcClient,
+  RpcError,
+  RpcRequestError,
+  SolanaVerifier,
+  createServer,
+  rpcEndpoints,
+} from '../lib/index.js';
+import { startNode, stopNodes } from './helpers.js';
+
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+const BUYER = '0x2222222222222222222222222222222222222222';
+const OTHER = '0x3333333333333333333333333333333333333333';
+
+/** A native transfer of 0.1 ETH in block 100, seen at head 106 */
+function evmPayment(to = RECIPIENT): Record<string, unknown> {
+  return {
+    eth_blockNumber: '0x6a',
+    eth_getTransactionByHash: {
+      hash: '0xpay', from: BUYER, to, value: '0x' + (10n ** 17n).toString(16), blockNumber: '0x64',
+    },
+    eth_getTransactionReceipt: { status: '0x1', blockNumber: '0x64', logs: [] },
+  };
+}
+
+function verify(verifier: ChainVerifier) {
+  return verifier.verifyPayment({ txHash: '0xpay', recipient: RECIPIENT, amount: '0.1', tokenSymbol: 'ETH' });
+}
+
+function chain(urls: string[], rpcQuorum?: number): ChainVerifier {
+  return new ChainVerifier({ chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrls: urls, rpcQuorum });
+}
+
+afterEach(stopNodes);
+
+describe('RpcClient', () => {
+  it('should fail over to the next endpoint and try the failing one last until it recovers', async () => {
+    const primary = await startNode({ eth_chainId: '0x1' });
+    const backup = await startNode({ eth_chainId: '0x1' });
+    primary.down = true;
+    const client = new RpcClient({ urls: [primary.url, backup.url], cooldown: 60000 });
+
+    expect(await client.request('eth_chainId', [])).toBe('0x1');
+    expect(client.getHealth()).toMatchObject([
+      { url: primary.url, healthy: false, failures: 1, lastError: 'HTTP 503' },
+      { url: backup.url, healthy: true, failures: 0 },
+    ]);
+
+    // Benched: the backup is asked first
+    await client.request('eth_chainId', []);
+    expect(primary.calls).toHaveLength(1);
+    expect(backup.calls).toHaveLength(2);
+  });
+
+  it('should try benched endpoints again once the cooldown is over', async () => {
+    const primary = await startNode({ eth_chainId: '0x1' });
+    const backup = await startNode({ eth_chainId: '0x1' });
+    primary.down = true;
+    const client = new RpcClient({ urls: [primary.url, backup.url], cooldown: 0 });
+
+    await client.request('eth_chainId', []);
+    primary.down = false;
+    await client.request('eth_chainId', []);
+
+    expect(primary.calls).toHaveLength(2);
+    expect(client.getHealth()[0]).toMatchObject({ healthy: true, failures: 0 });
+  });
+
+  it('should throw an RpcError listing every endpoint failure', async () => {
+    const down = await startNode();
+    const broken = await startNode({ eth_chainId: new Error('header not found') });
+    down.down = true;
+    const client = new RpcClient({ urls: [down.url, broken.url] });
+
+    const error = await client.request('eth_chainId', []).catch(e => e);
+
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error.causes).toHaveLength(2);
+    expect(error.message).toContain('HTTP 503');
+    expect(error.message).toContain('header not found');
+    // Endpoint paths may hold API keys; only hosts are reported
+    expect(error.message).toContain(new URL(down.url).host);
+  });
+
+  it('should not bench endpoints that reject the request itself', async () => {
+    const primary = await startNode({ eth_getTransactionByHash: Object.assign(new Error('invalid argument 0: hex string has length 4'), { code: -32602 }) });
+    const backup = await startNode({ eth_getTransactionByHash: Object.assign(new Error('invalid argument 0: hex string has length 4'), { code: -32602 }) });
+    const client = new RpcClient({ urls: [primary.url, backup.url] });
+
+    const error = await client.request('eth_getTransactionByHash', ['0xbad']).catch(e => e);
+
+    expect(error).toBeInstanceOf(RpcRequestError);
+    expect(error.code).toBe(-32602);
+    expect(client.getHealth().map(endpoint => endpoint.healthy)).toEqual([true, true]);
+    expect(await verify(chain([primary.url, backup.url]))).toEqual({ status: 'rpc_error' });
+  });
+
+  it('should return the answer a quorum of endpoints agrees on', async () => {
+    const honest = await startNode({ eth_getBalance: '0x1' });
+    const lying = await startNode({ eth_getBalance: '0x2' });
+    const second = await startNode({ eth_getBalance: '0x1' });
+    const client = new RpcClient({ urls: [lying.url, honest.url, second.url], quorum: 2 });
+
+    expect(await client.requestAgreed('eth_getBalance', [])).toBe('0x1');
+  });
+
+  it('should reject when endpoints do not reach the quorum', async () => {
+    const a = await startNode({ eth_getBalance: '0x1' });
+    const b = await startNode({ eth_getBalance: '0x2' });
+    const client = new RpcClient({ urls: [a.url, b.url], quorum: 2 });
+
+    await expect(client.requestAgreed('eth_getBalance', [])).rejects.toThrow('RPC endpoints disagree');
+
+    b.down = true;
+    await expect(client.requestAgreed('eth_getBalance', [])).rejects.toThrow('too few RPC endpoints answered');
+  });
+
+  it('should validate endpoints and quorum', () => {
+    expect(() => new RpcClient({ urls: [] })).toThrow('At least one RPC URL');
+    expect(() => new RpcClient({ urls: ['http://a.test'], quorum: 2 })).toThrow('RPC quorum');
+    expect(rpcEndpoints({ rpcUrl: 'http://a.test', rpcUrls: ['http://b.test', 'http://a.test'] }))
+      .toEqual(['http://a.test', 'http://b.test']);
+  });
+});
+
+describe('ChainVerifier RPC failover', () => {
+  it('should confirm through a backup endpoint when the primary is down', async () => {
+    const primary = await startNode(evmPayment());
+    const backup = await startNode(evmPayment());
+    primary.down = true;
+
+    expect(await verify(chain([primary.url, backup.url]))).toMatchObject({ status: 'confirmed', actualAmount: '0.1' });
+  });
+
+  it('should report rpc_error instead of not_found when every endpoint fails', async () => {
+    const a = await startNode(evmPayment());
+    const b = await startNode({ ...evmPayment(), eth_getTransactionByHash: new Error('rate limited') });
+    a.down = true;
+
+    expect(await verify(chain([a.url, b.url]))).toEqual({ status: 'rpc_error' });
+  });
+
+  it('should report rpc_error when every endpoint answers a JSON-RPC error', async () => {
+    const limited = await startNode({
+      ...evmPayment(),
+      eth_getTransactionByHash: Object.assign(new Error('rate limit exceeded'), { code: -32005 }),
+    });
+    const lagging = await startNode({
+      ...evmPayment(),
+      eth_getTransactionByHash: Object.assign(new Error('header not found'), { code: -32000 }),
+    });
+
+    expect(await verify(chain([limited.url]))).toEqual({ status: 'rpc_error' });
+    expect(await verify(chain([limited.url, lagging.url]))).toEqual({ status: 'rpc_error' });
+  });
+
+  it('should not let a single lying endpoint confirm a payment under a quorum', async () => {
+    const honest = await startNode(evmPayment(OTHER));
+    const lying = await startNode(evmPayment(RECIPIENT));
+
+    expect(await verify(chain([lying.url, honest.url], 2))).toEqual({ status: 'rpc_error' });
+
+    const second = await startNode(evmPayment(OTHER));
+    expect(await verify(chain([lying.url, honest.url, second.url], 2))).toEqual({ status: 'not_found' });
+  });
+
+  it('should count confirmations from the lowest head of the quorum', async () => {
+    const ahead = await startNode(evmPayment());
+    const behind = await startNode({ ...evmPayment(), eth_blockNumber: '0x64' });
+
+    expect(await verify(chain([ahead.url, behind.url], 2))).toEqual({ status: 'pending' });
+  });
+});
+
+describe('SolanaVerifier RPC failover', () => {
+  it('should report rpc_error when the cluster cannot be reached', async () => {
+    const node = await startNode();
+    node.down = true;
+    const verifier = new SolanaVerifier({ rpcUrl: node.url });
+
+    expect(await verifier.verifyPayment({ txHash: 'sig', recipient: 'wallet', amount: '1' }))
+      .toEqual({ status: 'rpc_error' });
+  });
+
+  it('should keep a payment while endpoints disagree on whether it is still on chain', async () => {
+    const status = { slot: 1, confirmations: 5, err: null, confirmationStatus: 'confirmed' };
+    const a = await startNode({ getSignatureStatuses: { value: [status] } });
+    const b = await startNode({ getSignatureStatuses: { value: [null] } });
+    const verifier = new SolanaVerifier({ rpcUrls: [a.url, b.url], quorum: 2 });
+
+    await expect(verifier.getTransactionDepth('sig')).rejects.toThrow('disagree');
+
+    b.results.getSignatureStatuses = { value: [{ ...status, confirmations: 2, confirmationStatus: 'processed' }] };
+    expect(await verifier.getTransactionDepth('sig')).toEqual({ included: true, confirmations: 2, finalized: false });
+  });
+});
+
+describe('Server RPC configuration', () => {
+  it('should answer 503 with rpc_error when the chain cannot be reached', async () => {
+    const node = await startNode();
+    node.down = true;
+    const server = createServer({
+      chains: [{ chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrls: [node.url] }],
+      storage: new MemoryStorage(),
+    });
+    const listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+
+    try {
+      const link = await server.createPayLink({
+        targetUrl: 'https://example.com/content',
+        price: { amount: '0.1', tokenSymbol: 'ETH', chainId: 1 },
+        recipientAddress: RECIPIENT,
+      });
+      const confirm = (txHash: string) => fetch(`http://127.0.0.1:${(listener.address() as AddressInfo).port}/pay/${link.id}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash }),
+      });
+
+      const malformed = await confirm('0xpay');
+      expect(malformed.status).toBe(400);
+      expect(await malformed.json()).toMatchObject({ message: 'Invalid txHash' });
+      expect(node.calls).toHaveLength(0);
+
+      const response = await confirm('0x' + 'ab'.repeat(32));
+      expect(response.status).toBe(503);
+      expect(await response.json()).toMatchObject({ status: 'rpc_error' });
+      expect(server.getRpcHealth(1)).toMatchObject([{ url: node.url, healthy: false, lastError: 'HTTP 503' }]);
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+      await server.close();
+    }
+  });
+
+  it('should reject chains without endpoints or with an unreachable quorum', () => {
+    expect(() => createServer({
+      chains: [{ chainId: 1, name: 'Ethereum', symbol: 'ETH' }],
+      storage: new MemoryStorage(),
+    })).toThrow('Chain 1: rpcUrl or rpcUrls is required');
+    expect(() => createServer({
+      chains: [{ chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrls: ['http://a.test'], rpcQuorum: 2 }],
+      storage: new MemoryStorage(),
+    })).toThrow('Chain 1: rpcQuorum must be between 1 and 1');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { createServer, MemoryStorage, PaylinkServer } from '../lib/index.js';
+
+class TrackingStorage extends MemoryStorage {
+  initCalls = 0;
+  closeCalls = 0;
+  initialized = false;
+
+  async init(): Promise<void> {
+    this.initCalls++;
+    await new Promise(resolve => setTimeout(resolve, 10));
+    this.initialized = true;
+  }
+
+  async close(): Promise<void> {
+    this.closeCalls++;
+  }
+}
+
+describe('PaylinkServer storage injection', () => {
+  let storage: TrackingStorage;
+  let server: PaylinkServer;
+  let listener: Server | undefined;
+
+  beforeEach(() => {
+    storage = new TrackingStorage();
+    server = createServer({
+      chains: [{ chainId: 1, name: 'Mock', symbol: 'ETH', rpcUrl: 'mock' }],
+      storage,
+    });
+  });
+
+  afterEach(async () => {
+    if (listener) {
+      await new Promise(resolve => listener!.close(resolve));
+      listener = undefined;
+    }
+    await server.close();
+  });
+
+  it('should use the configured storage for the server and all managers', async () => {
+    const link = await server.createPayLink({
+      targetUrl: 'https://example.com',
+      price: { amount: '0.01', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0xRecipient',
+      referral: { enabled: true, commissionPercent: 10 },
+    });
+
+    expect(server.getStorage()).toBe(storage);
+    expect(await storage.getPayLink(link.id)).not.toBeNull();
+
+    const referral = await server.getReferralManager().createReferral({
+      referrerAddress: '0xReferrer',
+      payLinkId: link.id,
+    });
+    expect(await storage.getReferral(referral.id)).not.toBeNull();
+  });
+
+  it('should initialize storage once before the first request', async () => {
+    listener = server.getApp().listen(0);
+    await new Promise(resolve => listener!.once('listening', resolve));
+    const { port } = listener.address() as AddressInfo;
+
+    const responses = await Promise.all([
+      fetch(`http://127.0.0.1:${port}/pay/missing`),
+      fetch(`http://127.0.0.1:${port}/pay/missing`),
+    ]);
+
+    expect(responses.map(r => r.status)).toEqual([404, 404]);
+    expect(storage.initialized).toBe(true);
+    expect(storage.initCalls).toBe(1);
+  });
+
+  it('should retry initialization after a failure', async () => {
+    let failures = 1;
+    storage.init = async () => {
+      storage.initCalls++;
+      if (failures-- > 0) {
+        throw new Error('connection refused');
+      }
+      storage.initialized = true;
+    };
+
+    await expect(server.init()).rejects.toThrow('connection refused');
+    await server.init();
+
+    expect(storage.initCalls).toBe(2);
+    expect(storage.initialized).toBe(true);
+  });
+
+  it('should reject setStorage after initialization', async () => {
+    await server.init();
+
+    expect(() => server.setStorage(new MemoryStorage())).toThrow('initialized');
+  });
+
+  it('should rebuild managers when storage is replaced before init', async () => {
+    const replacement = new MemoryStorage();
+    server.setStorage(replacement);
+
+    const link = await server.createPayLink({
+      targetUrl: 'https://example.com',
+      price: { amount: '0.01', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0xRecipient',
+      referral: { enabled: true, commissionPercent: 10 },
+    });
+    const referral = await server.getReferralManager().createReferral({
+      referrerAddress: '0xReferrer',
+      payLinkId: link.id,
+    });
+
+    expect(await replacement.getReferral(referral.id)).not.toBeNull();
+    expect(await storage.getReferral(referral.id)).toBeNull();
+  });
+
+  it('should close storage on close()', async () => {
+    await server.init();
+    await server.close();
+
+    expect(storage.closeCalls).toBe(1);
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'net';
+import {
+  encodeBase58,
+  generateReference,
+  generatePaymentURI,
+  SolanaPayWatcher,
+  MemoryStorage,
+  createServer,
+} from '../lib/index.js';
+import type { ReferenceVerifier } from '../lib/index.js';
+import { intentFixture } from './helpers.js';
+
+const RECIPIENT = 'Recip1ent111111111111111111111111111111111';
+const BUYER = 'Buyer11111111111111111111111111111111111111';
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+/** Intent fields of a Solana checkout */
+const SOLANA_INTENT = { chainId: 101, tokenSymbol: 'SOL', amount: '0.5', recipient: RECIPIENT, reference: 'Ref1111' };
+
+describe('Solana Pay references', () => {
+  it('should encode base58 like Solana public keys', () => {
+    expect(encodeBase58(new Uint8Array([0, 0, 1]))).toBe('112');
+    expect(encodeBase58(new TextEncoder().encode('Hello World'))).toBe('JxF12TrwUP45BMd');
+    expect(encodeBase58(new Uint8Array(32))).toBe('1'.repeat(32));
+  });
+
+  it('should generate unique 32-byte references', () => {
+    const reference = generateReference();
+    expect(reference).toMatch(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/);
+    expect(generateReference()).not.toBe(reference);
+  });
+
+  it('should embed the reference and SPL mint in the Solana Pay URI', () => {
+    const uri = generatePaymentURI({
+      chainId: 101,
+      recipient: RECIPIENT,
+      amount: '25',
+      tokenSymbol: 'USDC',
+      payLinkId: 'abc',
+      confirmUrl: 'https://example.com/pay/abc/confirm',
+      reference: 'Ref1111',
+      splToken: USDC_MINT,
+    });
+
+    const params = new URL(uri).searchParams;
+    expect(uri.startsWith(`solana:${RECIPIENT}?`)).toBe(true);
+    expect(params.get('amount')).toBe('25');
+    expect(params.get('spl-token')).toBe(USDC_MINT);
+    expect(params.get('reference')).toBe('Ref1111');
+  });
+});
+
+describe('SolanaPayWatcher', () => {
+  function stubVerifier(signatures: Record<string, Array<{ signature: string; err: unknown }>>): ReferenceVerifier {
+    return {
+      getSignaturesForAddress: vi.fn(async (address: string) => signatures[address] ?? []),
+      verifyPayment: vi.fn(async ({ amount }) => ({ status: 'confirmed' as const, actualAmount: amount, fromAddress: BUYER })),
+    };
+  }
+
+  it('should report the first successful transaction for each open intent', async () => {
+    const storage = new MemoryStorage();
+    await storage.savePaymentIntent(intentFixture(SOLANA_INTENT));
+    await storage.savePaymentIntent(intentFixture({ ...SOLANA_INTENT, id: 'intent2', reference: 'Ref2222' }));
+    const verifier = stubVerifier({ Ref1111: [{ signature: 'failed', err: { InstructionError: [0, 'Custom'] } }, { signature: 'sig1', err: null }] });
+    const onPayment = vi.fn(async () => {});
+
+    await new SolanaPayWatcher({ storage, verifiers: new Map([[101, verifier]]), onPayment }).poll();
+
+    expect(verifier.verifyPayment).toHaveBeenCalledTimes(1);
+    expect(verifier.verifyPayment).toHaveBeenCalledWith({ txHash: 'sig1', recipient: RECIPIENT, amount: '0.5', tokenSymbol: 'SOL' });
+    expect(onPayment).toHaveBeenCalledTimes(1);
+    expect(onPayment).toHaveBeenCalledWith(expect.objectContaining({ id: 'intent1' }), 'sig1', expect.objectContaining({ status: 'confirmed' }));
+  });
+
+  it('should expire intents after the grace period', async () => {
+    const storage = new MemoryStorage();
+    await storage.savePaymentIntent(intentFixture({ ...SOLANA_INTENT, expiresAt: new Date(Date.now() - 120_000) }));
+    const verifier = stubVerifier({ Ref1111: [{ signature: 'sig1', err: null }] });
+    const onPayment = vi.fn(async () => {});
+
+    await new SolanaPayWatcher({ storage, verifiers: new Map([[101, verifier]]), onPayment, gracePeriod: 60_000 }).poll();
+
+    expect((await storage.getPaymentIntent('intent1'))?.status).toBe('expired');
+    expect(onPayment).not.toHaveBeenCalled();
+  });
+});
+
+describe('Detecting payments without a txHash', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should record a payment to the reference of the 402 response once and grant access', async () => {
+    // Solana RPC calls are answered locally; everything else (the HTTP server) uses real fetch
+    // Only the reference of the 402 response is paid
+    const realFetch = globalThis.fetch;
+    const polled: string[] = [];
+    let paidReference: string | undefined;
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      if (url !== 'http://rpc.test') return realFetch(url, init);
+      const { id, method, params } = JSON.parse(String(init?.body));
+      if (method === 'getSignaturesForAddress') polled.push(params[0]);
+      const results: Record<string, unknown> = {
+        getSignaturesForAddress: params?.[0] === paidReference ? [{ signature: 'sig-by-reference', err: null }] : [],
+        getTransaction: {
+          slot: 1,
+          blockTime: null,
+          meta: { err: null, fee: 5000, preBalances: [1_000_000_000, 0], postBalances: [499_995_000, 500_000_000], status: { Ok: null } },
+          transaction: { message: { accountKeys: [BUYER, RECIPIENT], instructions: [] }, signatures: ['sig-by-reference'] },
+        },
+        getSignatureStatuses: { value: [{ slot: 1, confirmations: null, err: null, confirmationStatus: 'finalized' }] },
+      };
+      return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: results[method] }));
+    }));
+
+    const storage = new MemoryStorage();
+    const server = createServer({
+      chains: [{ chainId: 101, name: 'Solana', symbol: 'SOL', rpcUrl: 'http://rpc.test', type: 'solana' }],
+      storage,
+    });
+    const listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    const base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+    try {
+      const link = await server.createPayLink({
+        targetUrl: 'https://example.com/content',
+        price: { amount: '0.5', tokenSymbol: 'SOL', chainId: 101 },
+        recipientAddress: RECIPIENT,
+      });
+
+      // Every 402 response and QR code embeds a fresh reference
+      const challenge = await fetch(`${base}/pay/${link.id}`, { redirect: 'manual' });
+      expect(challenge.status).toBe(402);
+      const body = await challenge.json();
+      paidReference = body.payment.reference;
+      expect(paidReference).toBeTruthy();
+      expect(body.callbacks.checkout).toMatch(new RegExp(`/pay/${link.id}/checkout$`));
+      expect(await storage.getPaymentIntentByReference(paidReference!)).toMatchObject({ payLinkId: link.id, status: 'open' });
+
+      const scanned = await fetch(`${base}/pay/${link.id}/qr`);
+      expect(scanned.headers.get('cache-control')).toBe('no-store');
+      const scannedQr = await (await fetch(`${base}/pay/${link.id}/qr?format=json`)).json();
+      expect(scannedQr.paymentUri).toContain(`reference=${scannedQr.payment.reference}`);
+      expect(scannedQr.payment.reference).not.toBe(paidReference);
+
+      const checkout = await fetch(`${base}/pay/${link.id}/checkout`, { method: 'POST' });
+      expect(checkout.status).toBe(201);
+      const { payment } = await checkout.json();
+      expect(payment.reference).toBeTruthy();
+      expect((await storage.getPaymentIntentByReference(payment.reference))).toMatchObject({ id: payment.intentId, status: 'open' });
+
+      const qr = await (await fetch(`${base}/pay/${link.id}/qr?format=json&intent=${payment.intentId}`)).json();
+      expect(qr.payment.reference).toBe(payment.reference);
+      expect((await fetch(`${base}/pay/${link.id}/qr?intent=unknown`)).status).toBe(404);
+
+      await server.detectPayments();
+      await server.detectPayments();
+
+      const recorded = await storage.getPaymentByTxHash('sig-by-reference');
+      const intent = await storage.getPaymentIntentByReference(paidReference!);
+      expect(recorded).toMatchObject({ confirmed: true, amount: '0.5', fromAddress: BUYER, paymentIntentId: intent?.id });
+      expect(intent).toMatchObject({ status: 'completed', paymentId: recorded?.id });
+      expect((await storage.listPayments({ payLinkId: link.id })).items).toHaveLength(1);
+      expect(polled.filter(reference => reference === paidReference)).toHaveLength(1);
+
+      const access = await fetch(`${base}/pay/${link.id}`, { redirect: 'manual' });
+      expect(access.status).toBe(302);
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+      await server.close();
+    }
+  });
+
+  it('should stop embedding references in 402 responses past the client and chain limits', async () => {
+    const open = async (checkout: { maxPerMinute?: number; maxOpenReferences?: number }) => {
+      const storage = new MemoryStorage();
+      const server = createServer({
+        chains: [{ chainId: 101, name: 'Solana', symbol: 'SOL', rpcUrl: 'http://rpc.test', type: 'solana' }],
+        storage,
+        checkout,
+      });
+      const listener = server.getApp().listen(0);
+      await new Promise(resolve => listener.once('listening', resolve));
+      const base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+      try {
+        const link = await server.createPayLink({
+          targetUrl: 'https://example.com/content',
+          price: { amount: '0.5', tokenSymbol: 'SOL', chainId: 101 },
+          recipientAddress: RECIPIENT,
+        });
+        const references: Array<string | undefined> = [];
+        for (let i = 0; i < 3; i++) {
+          const res = await fetch(`${base}/pay/${link.id}`, { redirect: 'manual' });
+          expect(res.status).toBe(402);
+          references.push((await res.json()).payment.reference);
+        }
+        return { references, intents: await storage.getOpenPaymentIntents(101) };
+      } finally {
+        await new Promise(resolve => listener.close(resolve));
+        await server.close();
+      }
+    };
+
+    const perClient = await open({ maxPerMinute: 2 });
+    expect(perClient.references.map(Boolean)).toEqual([true, true, false]);
+    expect(perClient.intents).toHaveLength(2);
+
+    const perChain = await open({ maxPerMinute: 0, maxOpenReferences: 1 });
+    expect(perChain.references.map(Boolean)).toEqual([true, false, false]);
+    expect(perChain.intents).toHaveLength(1);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SolanaVerifier, solanaTransfers, type SolanaTransferSource, type TokenBalance } from '../lib/index.js';
+
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const RECIPIENT = 'Recip1ent111111111111111111111111111111111';
+const BUYER = 'Buyer11111111111111111111111111111111111111';
+const RELAYER = 'Re1ayer1111111111111111111111111111111111111';
+const BUYER_USDC = 'BuyerUsdc1111111111111111111111111111111111';
+const RECIPIENT_USDC = 'RecipUsdc1111111111111111111111111111111111';
+const ROUTER = 'Router1111111111111111111111111111111111111';
+
+const key = (pubkey: string, source = 'transaction') => ({ pubkey, signer: pubkey === RELAYER, writable: true, source });
+const system = (source: string, destination: string, lamports: number) => ({
+  program: 'system',
+  programId: '11111111111111111111111111111111',
+  parsed: { type: 'transfer', info: { source, destination, lamports } },
+});
+
+function balance(accountIndex: number, owner: string, amount: bigint): TokenBalance {
+  return { accountIndex, mint: USDC_MINT, owner, uiTokenAmount: { amount: amount.toString(), decimals: 6 } };
+}
+
+/** Stub fetch with a Solana RPC node serving one finalized transaction */
+function mockRpc(transaction: Record<string, unknown>) {
+  const results: Record<string, unknown> = {
+    getTransaction: { slot: 1, blockTime: null, ...transaction },
+    getSignatureStatuses: { value: [{ slot: 1, confirmations: null, err: null, confirmationStatus: 'finalized' }] },
+  };
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: { body: string }) => {
+    const { id, method, params } = JSON.parse(init.body);
+    if (method === 'getTransaction') expect(params[1].encoding).toBe('jsonParsed');
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: results[method] }));
+  }));
+}
+
+function verify(amount: string, tokenSymbol = 'SOL', recipient = RECIPIENT) {
+  const verifier = new SolanaVerifier({ rpcUrl: 'http://rpc.test', tokens: { USDC: { address: USDC_MINT, decimals: 6 } } });
+  return verifier.verifyPayment({ txHash: 'sig', recipient, amount, tokenSymbol });
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Solana transfer parsing', () => {
+  it('should attribute relayed SOL transfers to their source, not the fee payer', async () => {
+    mockRpc({
+      meta: {
+        err: null,
+        fee: 5000,
+        // The relayer also funds a new account, debiting more than the buyer
+        preBalances: [5_000_000_000, 3_000_000_000, 0, 0],
+        postBalances: [1_999_995_000, 1_500_000_000, 1_500_000_000, 3_000_000_000],
+        // The router forwards part of the payment through a CPI
+        innerInstructions: [{ index: 0, instructions: [system(BUYER, RECIPIENT, 500_000_000)] }],
+      },
+      transaction: {
+        message: {
+          accountKeys: [key(RELAYER), key(BUYER), key(RECIPIENT, 'lookupTable'), key(ROUTER)],
+          instructions: [system(BUYER, RECIPIENT, 1_000_000_000), { programId: ROUTER, accounts: [BUYER], data: '3Bxs' }],
+        },
+        signatures: ['sig'],
+      },
+    });
+
+    expect(await verify('1.5')).toMatchObject({ status: 'confirmed', actualAmount: '1.5', fromAddress: BUYER });
+  });
+
+  it('should read token transfers to owners of accounts loaded from lookup tables', async () => {
+    mockRpc({
+      meta: {
+        err: null,
+        fee: 5000,
+        preBalances: [1_000_000_000, 0, 2_039_280, 2_039_280],
+        postBalances: [999_995_000, 0, 2_039_280, 2_039_280],
+        preTokenBalances: [balance(2, BUYER, 50_000_000n), balance(3, RECIPIENT, 0n)],
+        postTokenBalances: [balance(2, BUYER, 25_000_000n), balance(3, RECIPIENT, 25_000_000n)],
+      },
+      transaction: {
+        message: {
+          accountKeys: [key(RELAYER), key(BUYER), key(BUYER_USDC), key(RECIPIENT_USDC, 'lookupTable')],
+          instructions: [{
+            program: 'spl-token',
+            programId: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+            parsed: {
+              type: 'transferChecked',
+              info: {
+                source: BUYER_USDC,
+                destination: RECIPIENT_USDC,
+                authority: BUYER,
+                mint: USDC_MINT,
+                tokenAmount: { amount: '25000000', decimals: 6 },
+              },
+            },
+          }],
+        },
+        signatures: ['sig'],
+      },
+    });
+
+    expect(await verify('25', 'USDC')).toMatchObject({ status: 'confirmed', actualAmount: '25', fromAddress: BUYER });
+  });
+
+  it('should fall back to balances including loaded addresses, matching case-sensitively', async () => {
+    const transaction = {
+      meta: {
+        err: null,
+        fee: 5000,
+        preBalances: [5_000_000_000, 0],
+        postBalances: [3_999_995_000, 1_000_000_000],
+        loadedAddresses: { writable: [RECIPIENT], readonly: [] },
+      },
+      transaction: { message: { accountKeys: [BUYER], instructions: [] }, signatures: ['sig'] },
+    };
+
+    mockRpc(transaction);
+    expect(await verify('1')).toMatchObject({ status: 'confirmed', fromAddress: BUYER });
+
+    mockRpc(transaction);
+    expect(await verify('1', 'SOL', RECIPIENT.toLowerCase())).toEqual({ status: 'not_found' });
+  });
+});
+
+describe('solanaTransfers', () => {
+  it('should fall back to the authority for source accounts without token balances', () => {
+    const tx: SolanaTransferSource = {
+      meta: { postTokenBalances: [balance(2, RECIPIENT, 7n)] },
+      transaction: {
+        message: {
+          accountKeys: [RELAYER, BUYER_USDC, RECIPIENT_USDC],
+          instructions: [
+            {
+              program: 'spl-token',
+              parsed: { type: 'transfer', info: { source: BUYER_USDC, destination: RECIPIENT_USDC, authority: BUYER, amount: '7' } },
+            },
+            { program: 'system', parsed: { type: 'transfer', info: { source: RELAYER, destination: BUYER, lamports: 0 } } },
+            { programIdIndex: 0, accounts: [1, 2], data: '3Bxs' },
+          ],
+        },
+      },
+    };
+
+    expect(solanaTransfers(tx)).toEqual([{ mint: USDC_MINT, from: BUYER, to: RECIPIENT, value: 7n }]);
+  });
+});
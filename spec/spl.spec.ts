@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { AddressInfo } from 'net';
+import { SolanaVerifier, findSplTransfer, PAYLINK_TOKEN, createServer, MemoryStorage } from '../lib/index.js';
+import type { TokenBalance } from '../lib/index.js';
+
+const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const OTHER_MINT = 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY2N4mnNCA6Z4pQ1';
+const RECIPIENT = 'Recip1ent111111111111111111111111111111111';
+const BUYER = 'Buyer11111111111111111111111111111111111111';
+
+function balance(accountIndex: number, mint: string, owner: string, amount: bigint, decimals = 6): TokenBalance {
+  return { accountIndex, mint, owner, uiTokenAmount: { amount: amount.toString(), decimals } };
+}
+
+/** Token balances for `amount` of `mint` moving from BUYER to RECIPIENT */
+function tokenMeta(mint: string, amount: bigint) {
+  return {
+    preTokenBalances: [balance(1, mint, BUYER, 50_000_000n), balance(2, mint, RECIPIENT, 1_000_000n)],
+    postTokenBalances: [balance(1, mint, BUYER, 50_000_000n - amount), balance(2, mint, RECIPIENT, 1_000_000n + amount)],
+  };
+}
+
+/** Stub fetch with a Solana RPC node serving one finalized transaction */
+function mockRpc(meta: Record<string, unknown>, accountKeys: string[] = [BUYER, RECIPIENT]) {
+  const results: Record<string, unknown> = {
+    getTransaction: {
+      slot: 1,
+      blockTime: null,
+      meta: { err: null, fee: 5000, preBalances: [0, 0], postBalances: [0, 0], status: { Ok: null }, ...meta },
+      transaction: { message: { accountKeys, instructions: [] }, signatures: ['sig'] },
+    },
+    getSignatureStatuses: { value: [{ slot: 1, confirmations: null, err: null, confirmationStatus: 'finalized' }] },
+  };
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: { body: string }) => {
+    const { id, method } = JSON.parse(init.body);
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, result: results[method] }));
+  }));
+}
+
+describe('SPL token verification', () => {
+  let verifier: SolanaVerifier;
+
+  beforeEach(() => {
+    verifier = new SolanaVerifier({
+      rpcUrl: 'http://rpc.test',
+      tokens: {
+        USDC: { address: USDC_MINT, decimals: 6 },
+        PAYLINK: { address: PAYLINK_TOKEN.MINT, decimals: PAYLINK_TOKEN.DECIMALS },
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should confirm an SPL payment from token balance changes', async () => {
+    mockRpc(tokenMeta(USDC_MINT, 25_500_000n));
+
+    const result = await verifier.verifyPayment({ txHash: 'sig', recipient: RECIPIENT, amount: '25.5', tokenSymbol: 'USDC' });
+
+    expect(result).toMatchObject({ status: 'confirmed', actualAmount: '25.5', fromAddress: BUYER });
+  });
+
+  it('should report underpaid SPL payments', async () => {
+    mockRpc(tokenMeta(PAYLINK_TOKEN.MINT, 900_000n));
+
+    const result = await verifier.verifyPayment({ txHash: 'sig', recipient: RECIPIENT, amount: '1', tokenSymbol: 'paylink' });
+
+    expect(result).toMatchObject({ status: 'underpaid', actualAmount: '0.9' });
+  });
+
+  it('should ignore balance changes of another mint', async () => {
+    mockRpc(tokenMeta(OTHER_MINT, 25_500_000n));
+
+    const result = await verifier.verifyPayment({ txHash: 'sig', recipient: RECIPIENT, amount: '25.5', tokenSymbol: 'USDC' });
+
+    expect(result.status).toBe('not_found');
+  });
+
+  it('should reject tokens missing from the mint registry without calling the RPC', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockRpc(tokenMeta(USDC_MINT, 25_500_000n));
+
+    const result = await verifier.verifyPayment({ txHash: 'sig', recipient: RECIPIENT, amount: '25.5', tokenSymbol: 'USDT' });
+
+    expect(result.status).toBe('not_found');
+    expect(fetch).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should keep verifying native SOL from lamport balances', async () => {
+    mockRpc({ preBalances: [5_000_000_000, 0], postBalances: [3_499_995_000, 1_500_000_000] });
+
+    const result = await verifier.verifyPayment({ txHash: 'sig', recipient: RECIPIENT, amount: '1.5', tokenSymbol: 'SOL' });
+
+    expect(result).toMatchObject({ status: 'confirmed', actualAmount: '1.5', fromAddress: BUYER });
+  });
+});
+
+describe('findSplTransfer', () => {
+  it('should sum balances across the owner\'s token accounts', () => {
+    const meta = {
+      preTokenBalances: [balance(1, USDC_MINT, BUYER, 10_000_000n)],
+      postTokenBalances: [
+        balance(1, USDC_MINT, BUYER, 0n),
+        balance(2, USDC_MINT, RECIPIENT, 4_000_000n),
+        balance(3, USDC_MINT, RECIPIENT, 6_000_000n),
+      ],
+    };
+
+    expect(findSplTransfer(meta, USDC_MINT, RECIPIENT)).toEqual({
+      mint: USDC_MINT,
+      from: BUYER,
+      to: RECIPIENT,
+      value: 10_000_000n,
+      decimals: 6,
+    });
+  });
+
+  it('should return null when the owner did not receive the mint', () => {
+    expect(findSplTransfer(tokenMeta(USDC_MINT, 1n), USDC_MINT, BUYER)).toBeNull();
+    expect(findSplTransfer(null, USDC_MINT, RECIPIENT)).toBeNull();
+  });
+});
+
+describe('Confirming SPL payment options', () => {
+  it('should pick the option matching chainId and tokenSymbol', async () => {
+    const storage = new MemoryStorage();
+    const server = createServer({
+      chains: [{ chainId: 101, name: 'Solana', symbol: 'SOL', rpcUrl: 'mock', type: 'solana' }],
+      storage,
+    });
+    const listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+
+    try {
+      const link = await server.createPayLink({
+        targetUrl: 'https://example.com',
+        price: { amount: '0.1', tokenSymbol: 'SOL', chainId: 101 },
+        recipientAddress: RECIPIENT,
+        paymentOptions: [{ amount: '25', tokenSymbol: 'USDC', chainId: 101 }],
+      });
+
+      const response = await fetch(`http://127.0.0.1:${(listener.address() as AddressInfo).port}/pay/${link.id}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash: 'sig', chainId: 101, tokenSymbol: 'usdc' }),
+      });
+
+      expect(response.status).toBe(200);
+      expect((await storage.getPaymentByTxHash('sig'))?.amount).toBe('25');
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+      await server.close();
+    }
+  });
+});
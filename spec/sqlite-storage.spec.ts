@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createSqliteStorage, SqliteStorage, SQLITE_MIGRATIONS, PayLink, Payment, InstallmentPlan } from '../lib/index.js';
+import { loadSqlite } from './helpers.js';
+
+const sqlite = loadSqlite();
+
+describe.skipIf(!sqlite)('SqliteStorage', () => {
+  let storage: SqliteStorage;
+
+  const createTestPayLink = (id = 'test123'): PayLink => ({
+    id,
+    targetUrl: 'https://example.com',
+    price: { amount: '0.001', tokenSymbol: 'ETH', chainId: 1 },
+    recipientAddress: '0x1234',
+    status: 'active',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    expiresAt: new Date(Date.now() + 3600000),
+  });
+
+  const createTestPayment = (overrides: Partial<Payment> = {}): Payment => ({
+    id: 'pay123',
+    payLinkId: 'link123',
+    chainId: 1,
+    txHash: '0xabc123',
+    fromAddress: '0xSender',
+    amount: '0.001',
+    confirmed: true,
+    createdAt: new Date(),
+    confirmedAt: new Date(),
+    ...overrides,
+  });
+
+  const createTestPlan = (overrides: Partial<InstallmentPlan> = {}): InstallmentPlan => ({
+    id: 'plan123',
+    payLinkId: 'link123',
+    buyerAddress: '0xBuyer',
+    status: 'active',
+    totalAmount: '1',
+    paidAmount: '0.25',
+    totalInstallments: 4,
+    completedInstallments: 1,
+    installmentAmounts: ['0.25', '0.25', '0.25', '0.25'],
+    intervalDays: 30,
+    gracePeriodDays: 3,
+    nextDueDate: new Date(),
+    nextInstallmentNumber: 2,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    storage = createSqliteStorage({ database: new sqlite!.DatabaseSync(':memory:') });
+    await storage.migrate();
+  });
+
+  describe('migrations', () => {
+    it('should apply all migrations', async () => {
+      const latest = SQLITE_MIGRATIONS[SQLITE_MIGRATIONS.length - 1].version;
+      expect(await storage.getSchemaVersion()).toBe(latest);
+    });
+
+    it('should be idempotent', async () => {
+      const version = await storage.getSchemaVersion();
+      expect(await storage.migrate()).toBe(version);
+    });
+
+    it('should keep the first payment of a transaction recorded twice before migration 11', async () => {
+      const database = new sqlite!.DatabaseSync(':memory:');
+      storage = createSqliteStorage({ database });
+      await storage.migrate();
+      database.exec('DROP INDEX paylink_payments_chain_tx');
+      database.exec('DELETE FROM paylink_schema_migrations WHERE version = 11');
+      await storage.savePayment(createTestPayment({ id: 'first', createdAt: new Date(1000) }));
+      await storage.savePayment(createTestPayment({ id: 'second', payLinkId: 'other', createdAt: new Date(2000) }));
+
+      await storage.migrate();
+
+      expect((await storage.getPaymentByTxHash('0xabc123'))?.id).toBe('first');
+      expect(await storage.getAllPayments()).toHaveLength(2);
+      expect(await storage.insertPayment(createTestPayment({ id: 'third' }))).toBe(false);
+    });
+  });
+
+  describe('PayLink operations', () => {
+    it('should save and retrieve a pay link with dates', async () => {
+      const payLink = createTestPayLink();
+      await storage.savePayLink(payLink);
+
+      const retrieved = await storage.getPayLink('test123');
+
+      expect(retrieved?.targetUrl).toBe('https://example.com');
+      expect(retrieved?.createdAt).toBeInstanceOf(Date);
+      expect(retrieved?.expiresAt?.getTime()).toBe(payLink.expiresAt?.getTime());
+    });
+
+    it('should throw when updating non-existent pay link', async () => {
+      await expect(storage.updatePayLink(createTestPayLink('missing'))).rejects.toThrow('not found');
+    });
+
+    it('should update and delete a pay link', async () => {
+      const payLink = createTestPayLink();
+      await storage.savePayLink(payLink);
+
+      await storage.updatePayLink({ ...payLink, status: 'disabled' });
+      expect((await storage.getPayLink('test123'))?.status).toBe('disabled');
+
+      await storage.deletePayLink('test123');
+      expect(await storage.getPayLink('test123')).toBeNull();
+    });
+  });
+
+  describe('Payment operations', () => {
+    it('should find payments by tx hash and address', async () => {
+      await storage.savePayment(createTestPayment());
+
+      expect((await storage.getPaymentByTxHash('0xabc123'))?.id).toBe('pay123');
+      expect(await storage.getConfirmedPayment('link123')).not.toBeNull();
+      expect(await storage.getConfirmedPaymentByAddress('link123', '0xsender')).not.toBeNull();
+    });
+
+    it('should not return unconfirmed payments as confirmed', async () => {
+      await storage.savePayment(createTestPayment({ confirmed: false }));
+
+      expect(await storage.getConfirmedPayment('link123')).toBeNull();
+      expect(await storage.getPaymentsByLink('link123')).toHaveLength(1);
+    });
+  });
+
+  describe('Installment plan queries', () => {
+    it('should find overdue plans past their grace period', async () => {
+      const tenDaysAgo = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+      await storage.saveInstallmentPlan(createTestPlan({ id: 'overdue', nextDueDate: tenDaysAgo }));
+      await storage.saveInstallmentPlan(createTestPlan({ id: 'current' }));
+
+      const overdue = await storage.getOverdueInstallmentPlans();
+
+      expect(overdue.map(p => p.id)).toEqual(['overdue']);
+    });
+
+    it('should track status changes for due-date queries', async () => {
+      const plan = createTestPlan();
+      await storage.saveInstallmentPlan(plan);
+      expect(await storage.getInstallmentPlansDueBefore(new Date(Date.now() + 1000))).toHaveLength(1);
+
+      await storage.updateInstallmentPlan({ ...plan, status: 'cancelled' });
+      expect(await storage.getInstallmentPlansDueBefore(new Date(Date.now() + 1000))).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, beforeAll, afterAll } from 'vitest';
+import pg from 'pg';
+import { MemoryStorage, SqliteStorage, PostgresStorage } from '../lib/index.js';
+import { runStorageConformanceSuite } from '../lib/testing.js';
+import { loadSqlite } from './helpers.js';
+
+const sqlite = loadSqlite();
+const postgresUrl = process.env.PAYLINK_TEST_POSTGRES_URL;
+
+runStorageConformanceSuite(() => new MemoryStorage(), { name: 'MemoryStorage conformance' });
+
+describe.skipIf(!sqlite)('SqliteStorage', () => {
+  runStorageConformanceSuite(
+    () => new SqliteStorage({ database: new sqlite!.DatabaseSync(':memory:') }),
+    {
+      name: 'SqliteStorage conformance',
+      cleanup: storage => storage.close?.(),
+    }
+  );
+});
+
+describe.skipIf(!postgresUrl)('PostgresStorage', () => {
+  let pool: pg.Pool;
+
+  beforeAll(() => {
+    pool = new pg.Pool({ connectionString: postgresUrl });
+  });
+
+  afterAll(async () => {
+    await pool.end();
+  });
+
+  runStorageConformanceSuite(
+    async () => {
+      const storage = new PostgresStorage({ pool });
+      await storage.migrate();
+      await pool.query(
+        `TRUNCATE paylink_links, paylink_payments, paylink_subscriptions, paylink_referrals,
+         paylink_commissions, paylink_installment_plans, paylink_installment_payments, paylink_payment_intents,
+         paylink_chain_checkpoints, paylink_derivation_indexes, paylink_auth_challenges,
+         paylink_access_token_revocations`
+      );
+      return storage;
+    },
+    { name: 'PostgresStorage conformance' }
+  );
+});
@@ -23,7 +23,7 @@ describe('MemoryStorage', () => {
       const payLink = createTestPayLink();
       await storage.savePayLink(payLink);
 
-      const retrieved = await storage.getPayLinkById('test123');
+      const retrieved = await storage.getPayLink('test123');
       
       expect(retrieved).not.toBeNull();
       expect(retrieved?.id).toBe('test123');
@@ -31,7 +31,7 @@ describe('MemoryStorage', () => {
     });
 
     it('should return null for non-existent pay link', async () => {
-      const result = await storage.getPayLinkById('nonexistent');
+      const result = await storage.getPayLink('nonexistent');
       expect(result).toBeNull();
     });
 
@@ -42,7 +42,7 @@ describe('MemoryStorage', () => {
       payLink.status = 'disabled';
       await storage.updatePayLink(payLink);
 
-      const retrieved = await storage.getPayLinkById('test123');
+      const retrieved = await storage.getPayLink('test123');
       expect(retrieved?.status).toBe('disabled');
     });
 
@@ -59,7 +59,7 @@ describe('MemoryStorage', () => {
       
       await storage.deletePayLink('test123');
       
-      const result = await storage.getPayLinkById('test123');
+      const result = await storage.getPayLink('test123');
       expect(result).toBeNull();
     });
   });
@@ -81,7 +81,7 @@ describe('MemoryStorage', () => {
       const payment = createTestPayment();
       await storage.savePayment(payment);
 
-      const found = await storage.findPaymentByTxHash('0xabc123');
+      const found = await storage.getPaymentByTxHash('0xabc123');
       
       expect(found).not.toBeNull();
       expect(found?.id).toBe('pay123');
@@ -91,7 +91,7 @@ describe('MemoryStorage', () => {
       const payment = createTestPayment();
       await storage.savePayment(payment);
 
-      const found = await storage.findConfirmedPaymentByPayLinkId('link123');
+      const found = await storage.getConfirmedPayment('link123');
       
       expect(found).not.toBeNull();
       expect(found?.confirmed).toBe(true);
@@ -102,13 +102,13 @@ describe('MemoryStorage', () => {
       payment.confirmed = false;
       await storage.savePayment(payment);
 
-      const found = await storage.findConfirmedPaymentByPayLinkId('link123');
+      const found = await storage.getConfirmedPayment('link123');
       expect(found).toBeNull();
     });
 
     it('should return null for non-existent payment', async () => {
-      const byTxHash = await storage.findPaymentByTxHash('nonexistent');
-      const byPayLinkId = await storage.findConfirmedPaymentByPayLinkId('nonexistent');
+      const byTxHash = await storage.getPaymentByTxHash('nonexistent');
+      const byPayLinkId = await storage.getConfirmedPayment('nonexistent');
       
       expect(byTxHash).toBeNull();
       expect(byPayLinkId).toBeNull();
@@ -129,8 +129,8 @@ describe('MemoryStorage', () => {
 
       storage.clear();
 
-      expect(storage.getAllPayLinks()).toHaveLength(0);
-      expect(storage.getAllPayments()).toHaveLength(0);
+      expect(await storage.getAllPayLinks()).toHaveLength(0);
+      expect(await storage.getAllPayments()).toHaveLength(0);
     });
 
     it('should get all pay links', async () => {
@@ -154,7 +154,7 @@ describe('MemoryStorage', () => {
         updatedAt: new Date(),
       });
 
-      const allLinks = storage.getAllPayLinks();
+      const allLinks = await storage.getAllPayLinks();
       expect(allLinks).toHaveLength(2);
     });
   });
@@ -0,0 +1,166 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { ChainVerifier, callFrameTransfers, parityTraceTransfers, type CallFrame } from '../lib/index.js';
+import { startNode as startStubNode, stopNodes, type StubNode } from './helpers.js';
+
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+const SAFE = '0x5afe000000000000000000000000000000000000';
+const OWNER = '0x2222222222222222222222222222222222222222';
+const SINGLETON = '0x3333333333333333333333333333333333333333';
+const OTHER = '0x4444444444444444444444444444444444444444';
+const ROUTER = '0x5555555555555555555555555555555555555555';
+const ETH = 10n ** 18n;
+
+const hex = (value: bigint) => '0x' + value.toString(16);
+
+/** Stub node; methods missing from `results` answer -32601 like nodes without the API */
+const startNode = (results: Record<string, unknown>) => startStubNode(results, { strict: true });
+
+/** An owner executing a Safe transaction in block 100, seen at head 106 */
+function safeExecution(): Record<string, unknown> {
+  return {
+    eth_blockNumber: '0x6a',
+    eth_getTransactionByHash: { hash: '0xpay', from: OWNER, to: SAFE, value: '0x0', blockNumber: '0x64' },
+    eth_getTransactionReceipt: { status: '0x1', blockNumber: '0x64', logs: [] },
+  };
+}
+
+/** callTracer tree of a Safe paying `value` to the recipient through its singleton */
+function safeCallFrame(value: bigint): CallFrame {
+  return {
+    type: 'CALL',
+    from: OWNER,
+    to: SAFE,
+    value: '0x0',
+    calls: [{
+      type: 'DELEGATECALL',
+      from: SAFE,
+      to: SINGLETON,
+      value: hex(value),
+      calls: [{ type: 'CALL', from: SAFE, to: RECIPIENT, value: hex(value) }],
+    }],
+  };
+}
+
+function verify(node: StubNode, amount = '0.5') {
+  const verifier = new ChainVerifier({ chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrl: node.url });
+  return verifier.verifyPayment({ txHash: '0xpay', recipient: RECIPIENT, amount, tokenSymbol: 'ETH' });
+}
+
+afterEach(stopNodes);
+
+describe('Internal transfers', () => {
+  it('should confirm a Safe payment from its callTracer trace and attribute it to the Safe', async () => {
+    const node = await startNode({ ...safeExecution(), debug_traceTransaction: safeCallFrame(ETH / 2n) });
+
+    expect(await verify(node)).toMatchObject({ status: 'confirmed', actualAmount: '0.5', fromAddress: SAFE });
+  });
+
+  it('should fall back to trace_transaction on nodes without the debug API', async () => {
+    const node = await startNode({
+      ...safeExecution(),
+      trace_transaction: [
+        { type: 'call', action: { callType: 'call', from: OWNER, to: SAFE, value: '0x0' }, traceAddress: [] },
+        { type: 'call', action: { callType: 'call', from: SAFE, to: RECIPIENT, value: hex(ETH / 4n) }, traceAddress: [0] },
+        // Reverted along with its parent: never paid
+        { type: 'call', action: { callType: 'call', from: SAFE, to: OTHER, value: '0x0' }, error: 'Reverted', traceAddress: [1] },
+        { type: 'call', action: { callType: 'call', from: OTHER, to: RECIPIENT, value: hex(ETH) }, traceAddress: [1, 0] },
+      ],
+    });
+
+    expect(await verify(node)).toMatchObject({ status: 'underpaid', actualAmount: '0.25', fromAddress: SAFE });
+  });
+
+  it('should attribute router-mediated payments to the wallet whose funds the router forwarded', async () => {
+    // An account sending value through a router
+    const viaRouter = await startNode({
+      eth_blockNumber: '0x6a',
+      eth_getTransactionByHash: { hash: '0xpay', from: OWNER, to: ROUTER, value: hex(ETH), blockNumber: '0x64' },
+      eth_getTransactionReceipt: { status: '0x1', blockNumber: '0x64', logs: [] },
+      debug_traceTransaction: {
+        type: 'CALL',
+        from: OWNER,
+        to: ROUTER,
+        value: hex(ETH),
+        calls: [{ type: 'CALL', from: ROUTER, to: RECIPIENT, value: hex(ETH) }],
+      },
+    });
+    expect(await verify(viaRouter, '1')).toMatchObject({ status: 'confirmed', fromAddress: OWNER });
+
+    // A Safe paying through a router
+    const safeViaRouter = await startNode({
+      ...safeExecution(),
+      debug_traceTransaction: {
+        type: 'CALL',
+        from: OWNER,
+        to: SAFE,
+        value: '0x0',
+        calls: [{ type: 'CALL', from: SAFE, to: ROUTER, value: hex(ETH), calls: [
+          { type: 'CALL', from: ROUTER, to: RECIPIENT, value: hex(ETH) },
+        ] }],
+      },
+    });
+    expect(await verify(safeViaRouter, '1')).toMatchObject({ status: 'confirmed', fromAddress: SAFE });
+  });
+
+  it('should report not_found without benching endpoints that lack trace APIs', async () => {
+    const node = await startNode(safeExecution());
+    const verifier = new ChainVerifier({ chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrl: node.url });
+    const params = { txHash: '0xpay', recipient: RECIPIENT, amount: '0.5' };
+
+    expect(await verifier.verifyPayment(params)).toEqual({ status: 'not_found' });
+    expect(verifier.getRpcHealth()).toMatchObject([{ healthy: true, failures: 0 }]);
+
+    // Both trace methods are skipped once known to be missing
+    await verifier.verifyPayment(params);
+    expect(node.calls.filter(method => method.includes('trace'))).toEqual(['debug_traceTransaction', 'trace_transaction']);
+  });
+
+  it('should not look for internal transfers of token payments', async () => {
+    const node = await startNode({ ...safeExecution(), debug_traceTransaction: safeCallFrame(ETH) });
+    const verifier = new ChainVerifier({
+      chainId: 1,
+      name: 'Ethereum',
+      symbol: 'ETH',
+      rpcUrl: node.url,
+      tokens: { USDC: { address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', decimals: 6 } },
+    });
+
+    expect(await verifier.verifyPayment({ txHash: '0xpay', recipient: RECIPIENT, amount: '1', tokenSymbol: 'USDC' }))
+      .toEqual({ status: 'not_found' });
+    expect(node.calls).not.toContain('debug_traceTransaction');
+  });
+});
+
+describe('Trace decoding', () => {
+  it('should skip reverted frames, value-less calls and zero values', () => {
+    const frame: CallFrame = {
+      type: 'CALL',
+      from: OWNER,
+      to: SAFE,
+      value: hex(ETH),
+      calls: [
+        { type: 'STATICCALL', from: SAFE, to: OTHER, value: hex(ETH) },
+        { type: 'CALL', from: SAFE, to: OTHER, value: hex(ETH), error: 'execution reverted', calls: [
+          { type: 'CALL', from: OTHER, to: RECIPIENT, value: hex(ETH) },
+        ] },
+        { type: 'SELFDESTRUCT', from: SAFE, to: RECIPIENT.toUpperCase().replace('0X', '0x'), value: '0x1' },
+      ],
+    };
+
+    expect(callFrameTransfers(frame)).toEqual([
+      { from: OWNER, to: SAFE, value: ETH },
+      { from: SAFE, to: RECIPIENT, value: 1n },
+    ]);
+  });
+
+  it('should read created contracts and self-destructs from trace_transaction', () => {
+    expect(parityTraceTransfers([
+      { type: 'create', action: { from: OWNER, value: '0x5' }, result: { address: OTHER }, traceAddress: [] },
+      { type: 'suicide', action: { address: OTHER, refundAddress: RECIPIENT, balance: '0x5' }, traceAddress: [0] },
+      { type: 'call', action: { callType: 'delegatecall', from: OTHER, to: SINGLETON, value: '0x5' }, traceAddress: [1] },
+    ])).toEqual([
+      { from: OWNER, to: OTHER, value: 5n },
+      { from: OTHER, to: RECIPIENT, value: 5n },
+    ]);
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer as createHttpServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  MemoryStorage,
+  TRON_CHAIN_IDS,
+  TronVerifier,
+  createServer,
+  generatePaymentURI,
+  isSameTronAddress,
+  toTronAddress,
+  tronAddressToHex,
+} from '../lib/index.js';
+
+const USDT = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+const USDT_HEX = '41a614f803b6fd780986a42c78ec9c7f77e6ded13c';
+const RECIPIENT_HEX = '41' + '11'.repeat(20);
+const PAYER_HEX = '41' + '22'.repeat(20);
+const RECIPIENT = toTronAddress(RECIPIENT_HEX);
+const TXID = 'ab'.repeat(32);
+const TRANSFER_TOPIC = 'ddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+type FakeTransaction = {
+  contractRet?: string;
+  blockNumber?: number;
+  result?: string;
+  /** Native transfer in sun */
+  sun?: number;
+  /** TRC-20 Transfer events: [contract hex, to hex, value] */
+  transfers?: Array<[string, string, bigint]>;
+};
+
+/** Minimal TRON HTTP API: transactions, their info and the head block */
+class FakeTronApi {
+  head = 1000;
+  txs = new Map<string, FakeTransaction>();
+  down = false;
+  server!: Server;
+  url = '';
+
+  async start(): Promise<void> {
+    this.server = createHttpServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        if (this.down) {
+          res.writeHead(502).end('Bad Gateway');
+          return;
+        }
+        const { value } = JSON.parse(body || '{}');
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+          .end(JSON.stringify(this.route(req.url ?? '', value)));
+      });
+    });
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private route(path: string, txid: string): unknown {
+    if (path === '/wallet/getnowblock') {
+      return { block_header: { raw_data: { number: this.head } } };
+    }
+
+    const tx = this.txs.get(txid);
+    if (!tx) return {};
+
+    if (path === '/wallet/gettransactionbyid') {
+      const contract = tx.transfers
+        ? { type: 'TriggerSmartContract', parameter: { value: { owner_address: PAYER_HEX, contract_address: USDT_HEX } } }
+        : { type: 'TransferContract', parameter: { value: { owner_address: PAYER_HEX, to_address: RECIPIENT_HEX, amount: tx.sun } } };
+      return { txID: txid, ret: [{ contractRet: tx.contractRet ?? 'SUCCESS' }], raw_data: { contract: [contract] } };
+    }
+
+    if (tx.blockNumber === undefined) return {};
+    return {
+      id: txid,
+      blockNumber: tx.blockNumber,
+      result: tx.result,
+      receipt: { result: tx.result === 'FAILED' ? 'REVERT' : 'SUCCESS' },
+      log: (tx.transfers ?? []).map(([contract, to, value]) => ({
+        address: contract.slice(2),
+        topics: [TRANSFER_TOPIC, PAYER_HEX.slice(2).padStart(64, '0'), to.slice(2).padStart(64, '0')],
+        data: value.toString(16).padStart(64, '0'),
+      })),
+    };
+  }
+}
+
+function verifier(api: FakeTronApi, options: { confirmations?: number; apiUrls?: string[] } = {}): TronVerifier {
+  return new TronVerifier({ apiUrl: api.url, tokens: { USDT: { address: USDT, decimals: 6 } }, ...options });
+}
+
+describe('TronVerifier', () => {
+  let api: FakeTronApi;
+
+  beforeEach(async () => {
+    api = new FakeTronApi();
+    await api.start();
+  });
+
+  afterEach(async () => {
+    await api.stop();
+  });
+
+  it('should confirm a TRX transfer to a hex or base58 recipient', async () => {
+    api.txs.set(TXID, { sun: 1_500_000, blockNumber: api.head - 1 });
+
+    const result = await verifier(api).verifyPayment({ txHash: TXID, recipient: RECIPIENT, amount: '1.5', tokenSymbol: 'TRX' });
+    expect(result).toMatchObject({ status: 'confirmed', actualAmount: '1.5', fromAddress: toTronAddress(PAYER_HEX) });
+
+    expect((await verifier(api).verifyPayment({ txHash: TXID, recipient: RECIPIENT_HEX, amount: '1.5' })).status)
+      .toBe('confirmed');
+  });
+
+  it('should sum USDT Transfer events to the recipient and ignore other contracts', async () => {
+    api.txs.set(TXID, {
+      blockNumber: api.head - 1,
+      transfers: [
+        [USDT_HEX, RECIPIENT_HEX, 20_000_000n],
+        ['41' + '33'.repeat(20), RECIPIENT_HEX, 900_000_000n],
+        [USDT_HEX, RECIPIENT_HEX, 5_000_000n],
+      ],
+    });
+
+    expect(await verifier(api).verifyPayment({ txHash: TXID, recipient: RECIPIENT, amount: '25', tokenSymbol: 'usdt' }))
+      .toMatchObject({ status: 'confirmed', actualAmount: '25', fromAddress: toTronAddress(PAYER_HEX) });
+    expect((await verifier(api).verifyPayment({ txHash: TXID, recipient: RECIPIENT, amount: '25.000001', tokenSymbol: 'USDT' })))
+      .toMatchObject({ status: 'underpaid', actualAmount: '25' });
+  });
+
+  it('should report failed, unknown and unconfigured-token payments', async () => {
+    const tron = verifier(api);
+    const verify = (tokenSymbol = 'USDT') => tron.verifyPayment({ txHash: TXID, recipient: RECIPIENT, amount: '1', tokenSymbol });
+
+    expect(await verify()).toEqual({ status: 'not_found' });
+
+    // Out of energy: included in a block, but the contract call failed
+    api.txs.set(TXID, { blockNumber: api.head - 1, result: 'FAILED', transfers: [] });
+    expect(await verify()).toEqual({ status: 'failed' });
+
+    api.txs.set(TXID, { contractRet: 'REVERT', transfers: [] });
+    expect(await verify()).toEqual({ status: 'failed' });
+
+    api.txs.set(TXID, { blockNumber: api.head - 1, transfers: [[USDT_HEX, RECIPIENT_HEX, 1_000_000n]] });
+    expect(await verify('USDC')).toEqual({ status: 'not_found' });
+  });
+
+  it('should stay pending until the block is deep enough', async () => {
+    const tron = verifier(api, { confirmations: 3 });
+    const verify = () => tron.verifyPayment({ txHash: TXID, recipient: RECIPIENT, amount: '1' });
+
+    api.txs.set(TXID, { sun: 1_000_000 });
+    expect(await verify()).toEqual({ status: 'pending' });
+
+    api.txs.set(TXID, { sun: 1_000_000, blockNumber: api.head - 2 });
+    expect(await verify()).toEqual({ status: 'pending' });
+
+    api.head++;
+    expect((await verify()).status).toBe('confirmed');
+    expect(await tron.getTransactionDepth(TXID)).toEqual({ included: true, confirmations: 3 });
+  });
+
+  it('should fail over between APIs and report an outage as rpc_error', async () => {
+    const backup = new FakeTronApi();
+    await backup.start();
+    try {
+      backup.txs.set(TXID, { sun: 1_000_000, blockNumber: backup.head - 1 });
+      api.down = true;
+
+      const tron = verifier(api, { apiUrls: [backup.url] });
+      const verify = () => tron.verifyPayment({ txHash: TXID, recipient: RECIPIENT, amount: '1' });
+      expect((await verify()).status).toBe('confirmed');
+
+      backup.down = true;
+      expect(await verify()).toEqual({ status: 'rpc_error' });
+      await expect(tron.getTransactionDepth(TXID)).rejects.toThrow('failed on every TRON API');
+    } finally {
+      await backup.stop();
+    }
+  });
+});
+
+describe('TRON addresses', () => {
+  it('should convert between base58check and hex', () => {
+    expect(toTronAddress('41' + '00'.repeat(20))).toBe('T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb');
+    expect(tronAddressToHex(USDT)).toBe(USDT_HEX);
+    expect(tronAddressToHex('0x' + USDT_HEX.slice(2).toUpperCase())).toBe(USDT_HEX);
+    expect(isSameTronAddress(USDT, USDT_HEX)).toBe(true);
+    expect(isSameTronAddress(USDT, 'not-an-address')).toBe(false);
+    expect(() => tronAddressToHex(USDT.slice(0, -1) + 'u')).toThrow();
+  });
+});
+
+describe('TRON payment links', () => {
+  it('should build tron: URIs with the TRC-20 contract', () => {
+    expect(generatePaymentURI({
+      chainId: TRON_CHAIN_IDS.MAINNET,
+      recipient: RECIPIENT,
+      amount: '25',
+      tokenSymbol: 'USDT',
+      tokenContract: USDT,
+      payLinkId: 'abc',
+      confirmUrl: '',
+    })).toBe(`tron:${RECIPIENT}?amount=25&token=${USDT}`);
+  });
+
+  it('should show TRON recipients in base58 and confirm USDT through /confirm', async () => {
+    const api = new FakeTronApi();
+    await api.start();
+    api.txs.set(TXID, { blockNumber: api.head - 1, transfers: [[USDT_HEX, RECIPIENT_HEX, 25_000_000n]] });
+    const server = createServer({
+      chains: [{
+        chainId: TRON_CHAIN_IDS.MAINNET,
+        name: 'TRON',
+        symbol: 'TRX',
+        rpcUrl: api.url,
+        tokens: { USDT: { address: USDT, decimals: 6 } },
+      }],
+      storage: new MemoryStorage(),
+    });
+    const listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    const base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+    try {
+      const link = await server.createPayLink({
+        targetUrl: 'https://example.com/content',
+        price: { amount: '100', tokenSymbol: 'TRX', chainId: TRON_CHAIN_IDS.MAINNET },
+        recipientAddress: RECIPIENT_HEX,
+        paymentOptions: [{ amount: '25', tokenSymbol: 'USDT', chainId: TRON_CHAIN_IDS.MAINNET }],
+      });
+
+      const challenge = await (await fetch(`${base}/pay/${link.id}`)).json();
+      expect(challenge.payment.recipient).toBe(RECIPIENT);
+      expect(challenge.paymentOptions[0].recipient).toBe(RECIPIENT);
+
+      const confirm = await fetch(`${base}/pay/${link.id}/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ txHash: TXID, chainId: TRON_CHAIN_IDS.MAINNET, tokenSymbol: 'USDT' }),
+      });
+      expect(await confirm.json()).toMatchObject({ status: 'confirmed', tokenSymbol: 'USDT' });
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+      await server.close();
+      await api.stop();
+    }
+  });
+});
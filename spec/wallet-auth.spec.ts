@@ -0,0 +1,351 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createECDH, generateKeyPairSync, randomBytes, sign, type KeyObject } from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  ChainVerifier,
+  EIP1271_MAGIC_VALUE,
+  MemoryStorage,
+  createServer,
+  encodeBase58,
+  encodeIsValidSignatureCall,
+  formatSignInMessage,
+  hashPersonalMessage,
+  publicKeyToAddress,
+  recoverPersonalSignAddress,
+  verifyPersonalSignature,
+  verifySolanaSignature,
+  type PaylinkConfig,
+  type PaylinkServer,
+} from '../lib/index.js';
+import { startNode, stopNodes } from './helpers.js';
+
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+const toBigInt = (bytes: Uint8Array) => BigInt('0x' + Buffer.from(bytes).toString('hex'));
+const toHex = (value: bigint) => value.toString(16).padStart(64, '0');
+
+function powMod(base: bigint, exponent: bigint, m: bigint): bigint {
+  let result = 1n;
+  for (let b = base % m, e = exponent; e > 0n; e >>= 1n, b = (b * b) % m) {
+    if (e & 1n) result = (result * b) % m;
+  }
+  return result;
+}
+
+/** EVM wallet signing with `personal_sign`; ECDH computes the curve multiplications */
+function evmWallet() {
+  const ecdh = createECDH('secp256k1');
+  ecdh.generateKeys();
+  const d = toBigInt(ecdh.getPrivateKey());
+
+  return {
+    address: publicKeyToAddress(ecdh.getPublicKey(null, 'compressed')),
+    signMessage(message: string): string {
+      const nonce = createECDH('secp256k1');
+      nonce.setPrivateKey(randomBytes(32));
+      const R = nonce.getPublicKey();
+      const r = toBigInt(R.subarray(1, 33)) % N;
+      const k = toBigInt(nonce.getPrivateKey());
+      let s = (powMod(k, N - 2n, N) * (toBigInt(hashPersonalMessage(message)) + r * d)) % N;
+      let recovery = R[64] & 1;
+      // Wallets produce low-s signatures
+      if (s > N / 2n) {
+        s = N - s;
+        recovery ^= 1;
+      }
+      return '0x' + toHex(r) + toHex(s) + (27 + recovery).toString(16);
+    },
+  };
+}
+
+/** Solana wallet signing with `signMessage`, signatures base58-encoded */
+function solanaWallet() {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const raw = Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url');
+  return {
+    address: encodeBase58(raw),
+    signMessage: (message: string) => encodeBase58(sign(null, Buffer.from(message), privateKey as KeyObject)),
+  };
+}
+
+describe('Wallet signatures', () => {
+  it('should recover the address of personal_sign signatures', () => {
+    const wallet = evmWallet();
+    const signature = wallet.signMessage('hello');
+
+    expect(recoverPersonalSignAddress('hello', signature)).toBe(wallet.address);
+    expect(verifyPersonalSignature('hello', signature, wallet.address.toLowerCase())).toBe(true);
+    expect(verifyPersonalSignature('hello!', signature, wallet.address)).toBe(false);
+    expect(verifyPersonalSignature('hello', signature, evmWallet().address)).toBe(false);
+    expect(verifyPersonalSignature('hello', '0x1234', wallet.address)).toBe(false);
+  });
+
+  it('should accept recovery ids of 0 and 1', () => {
+    const wallet = evmWallet();
+    const signature = wallet.signMessage('hello');
+    const v = parseInt(signature.slice(-2), 16) - 27;
+
+    expect(recoverPersonalSignAddress('hello', signature.slice(0, -2) + '0' + v)).toBe(wallet.address);
+  });
+
+  it('should verify Solana message signatures', () => {
+    const wallet = solanaWallet();
+    const signature = wallet.signMessage('hello');
+
+    expect(verifySolanaSignature('hello', signature, wallet.address)).toBe(true);
+    expect(verifySolanaSignature('hello!', signature, wallet.address)).toBe(false);
+    expect(verifySolanaSignature('hello', signature, solanaWallet().address)).toBe(false);
+    expect(verifySolanaSignature('hello', 'not-base58', wallet.address)).toBe(false);
+  });
+
+  it('should format EIP-4361 messages', () => {
+    expect(formatSignInMessage('Ethereum', 1, {
+      domain: 'pay.example.com',
+      address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      statement: 'Sign in.',
+      uri: 'https://pay.example.com/pay/abc',
+      chainId: 1,
+      nonce: 'n0nce',
+      issuedAt: new Date('2025-01-01T00:00:00Z'),
+      expirationTime: new Date('2025-01-01T00:05:00Z'),
+    })).toBe([
+      'pay.example.com wants you to sign in with your Ethereum account:',
+      '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+      '',
+      'Sign in.',
+      '',
+      'URI: https://pay.example.com/pay/abc',
+      'Version: 1',
+      'Chain ID: 1',
+      'Nonce: n0nce',
+      'Issued At: 2025-01-01T00:00:00.000Z',
+      'Expiration Time: 2025-01-01T00:05:00.000Z',
+    ].join('\n'));
+  });
+});
+
+describe('Payer proof', () => {
+  let storage: MemoryStorage;
+  let server: PaylinkServer;
+  let listener: Server;
+  let base: string;
+
+  async function start(config: Partial<PaylinkConfig> = {}) {
+    storage = new MemoryStorage();
+    server = createServer({
+      chains: [
+        { chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrl: 'mock' },
+        { chainId: 101, name: 'Solana', symbol: 'SOL', rpcUrl: 'mock', type: 'solana' },
+      ],
+      storage,
+      watcher: { enabled: false },
+      ...config,
+    });
+    listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+  }
+
+  /** Multi-use link on Ethereum already paid by `payer` */
+  async function paidLink(payer: string) {
+    const link = await server.createPayLink({
+      targetUrl: 'https://example.com/content',
+      price: { amount: '0.1', tokenSymbol: 'ETH', chainId: 1 },
+      recipientAddress: '0x1111111111111111111111111111111111111111',
+      multiUse: true,
+    });
+    await storage.savePayment({
+      id: 'pay1',
+      payLinkId: link.id,
+      chainId: 1,
+      txHash: '0xpaid',
+      fromAddress: payer,
+      amount: '0.1',
+      confirmed: true,
+      createdAt: new Date(),
+    });
+    return link;
+  }
+
+  const get = (path: string) => fetch(`${base}${path}`, { redirect: 'manual' });
+
+  async function challenge(linkId: string, address: string, chainId?: number) {
+    const query = new URLSearchParams({ address, ...(chainId ? { chainId: String(chainId) } : {}) });
+    return (await get(`/pay/${linkId}/challenge?${query}`)).json();
+  }
+
+  beforeEach(async () => {
+    await start();
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+  });
+
+  it('should grant multi-use access only with a signed challenge, once per nonce', async () => {
+    const wallet = evmWallet();
+    const link = await paidLink(wallet.address);
+
+    const unproven = await get(`/pay/${link.id}?payer=${wallet.address}`);
+    expect(unproven.status).toBe(403);
+    expect(await unproven.json()).toMatchObject({
+      reasonCode: 'PAYER_NOT_VERIFIED',
+      details: { challenge: expect.stringContaining(`/pay/${link.id}/challenge?address=${wallet.address}`) },
+    });
+
+    const { nonce, message } = await challenge(link.id, wallet.address);
+    expect(message).toContain(`wants you to sign in with your Ethereum account:\n${wallet.address}\n`);
+    expect(message).toContain(`Nonce: ${nonce}`);
+
+    const access = `/pay/${link.id}?payer=${wallet.address}&nonce=${nonce}&signature=${wallet.signMessage(message)}`;
+    const granted = await get(access);
+    expect(granted.status).toBe(302);
+    expect(granted.headers.get('location')).toBe('https://example.com/content');
+
+    // Replaying the same signed challenge fails
+    expect((await get(access)).status).toBe(403);
+  });
+
+  it('should reject challenges signed by another wallet or issued for another address', async () => {
+    const wallet = evmWallet();
+    const thief = evmWallet();
+    const link = await paidLink(wallet.address);
+
+    const victim = await challenge(link.id, wallet.address);
+    const forged = await get(`/pay/${link.id}?payer=${wallet.address}&nonce=${victim.nonce}&signature=${thief.signMessage(victim.message)}`);
+    expect(forged.status).toBe(403);
+
+    const own = await challenge(link.id, thief.address);
+    const swapped = await get(`/pay/${link.id}?payer=${wallet.address}&nonce=${own.nonce}&signature=${thief.signMessage(own.message)}`);
+    expect(swapped.status).toBe(403);
+  });
+
+  it('should prove Solana subscribers with Sign In With Solana', async () => {
+    const wallet = solanaWallet();
+    const link = await server.createPayLink({
+      targetUrl: 'https://example.com/members',
+      price: { amount: '1', tokenSymbol: 'SOL', chainId: 101 },
+      recipientAddress: 'So11111111111111111111111111111111111111112',
+      subscription: { interval: 'monthly' },
+    });
+    await server.createSubscription(link.id, wallet.address);
+
+    const { nonce, message } = await challenge(link.id, wallet.address);
+    expect(message).toContain('Chain ID: mainnet');
+
+    const granted = await get(`/pay/${link.id}?subscriber=${wallet.address}&nonce=${nonce}&signature=${wallet.signMessage(message)}`);
+    expect(granted.status).toBe(302);
+    expect((await get(`/pay/${link.id}?subscriber=${wallet.address}`)).status).toBe(403);
+  });
+
+  it('should only issue challenges for chains the link is payable on', async () => {
+    const link = await paidLink('0x2222222222222222222222222222222222222222');
+
+    expect((await get(`/pay/${link.id}/challenge?address=0x2222222222222222222222222222222222222222&chainId=101`)).status).toBe(400);
+    expect((await get(`/pay/${link.id}/challenge?address=0x1234`)).status).toBe(400);
+    expect((await get(`/pay/${link.id}/challenge`)).status).toBe(400);
+  });
+
+  it('should rate-limit challenges per client like checkouts', async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+    await start({ checkout: { maxPerMinute: 2 } });
+    const link = await paidLink('0x2222222222222222222222222222222222222222');
+    const issue = () => get(`/pay/${link.id}/challenge?address=0x2222222222222222222222222222222222222222`);
+
+    expect((await issue()).status).toBe(200);
+    expect((await issue()).status).toBe(200);
+    const limited = await issue();
+    expect(limited.status).toBe(429);
+    expect(await limited.json()).toEqual({ error: 'Too many challenges, try again later' });
+  });
+
+  it('should keep address-only access when payer proof is turned off', async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+    await start({ payerAuth: { required: false } });
+    const link = await paidLink('0x2222222222222222222222222222222222222222');
+
+    expect((await get(`/pay/${link.id}?payer=0x2222222222222222222222222222222222222222`)).status).toBe(302);
+  });
+});
+
+describe('Contract wallet signatures', () => {
+  const SAFE = '0x5afe000000000000000000000000000000000000';
+  const ACCEPTED = EIP1271_MAGIC_VALUE + '0'.repeat(56);
+
+  afterEach(stopNodes);
+
+  it('should encode isValidSignature calls over the personal_sign digest', () => {
+    const data = encodeIsValidSignatureCall('hello', '0x' + 'ab'.repeat(65));
+
+    expect(data.slice(0, 10)).toBe(EIP1271_MAGIC_VALUE);
+    expect(data.slice(10, 74)).toBe(Buffer.from(hashPersonalMessage('hello')).toString('hex'));
+    expect(BigInt('0x' + data.slice(74, 138))).toBe(64n);
+    expect(BigInt('0x' + data.slice(138, 202))).toBe(65n);
+    // 65 bytes padded to three words
+    expect(data.length - 202).toBe(192);
+    expect(() => encodeIsValidSignatureCall('hello', 'not hex')).toThrow('Invalid signature');
+  });
+
+  it('should ask contract wallets and reject addresses without code or contracts that refuse', async () => {
+    const verifier = (results: Record<string, unknown>) => startNode(results)
+      .then(node => new ChainVerifier({ chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrl: node.url }));
+
+    const safe = await verifier({ eth_getCode: '0x6080', eth_call: ACCEPTED });
+    expect(await safe.verifyContractSignature('hello', '0xabcd', SAFE)).toBe(true);
+
+    const eoa = await verifier({ eth_getCode: '0x', eth_call: ACCEPTED });
+    expect(await eoa.verifyContractSignature('hello', '0xabcd', SAFE)).toBe(false);
+
+    const refusing = await verifier({ eth_getCode: '0x6080', eth_call: '0xffffffff' + '0'.repeat(56) });
+    expect(await refusing.verifyContractSignature('hello', '0xabcd', SAFE)).toBe(false);
+
+    const reverting = await verifier({ eth_getCode: '0x6080', eth_call: Object.assign(new Error('execution reverted'), { code: 3 }) });
+    expect(await reverting.verifyContractSignature('hello', '0xabcd', SAFE)).toBe(false);
+    expect(reverting.getRpcHealth()).toMatchObject([{ healthy: true }]);
+  });
+
+  it('should prove contract wallet payers through EIP-1271', async () => {
+    const node = await startNode({ eth_getCode: '0x6080', eth_call: ACCEPTED });
+    const storage = new MemoryStorage();
+    const server = createServer({
+      chains: [{ chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrl: node.url }],
+      storage,
+      watcher: { enabled: false },
+    });
+    const listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    const base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+
+    try {
+      const link = await server.createPayLink({
+        targetUrl: 'https://example.com/content',
+        price: { amount: '0.1', tokenSymbol: 'ETH', chainId: 1 },
+        recipientAddress: '0x1111111111111111111111111111111111111111',
+        multiUse: true,
+      });
+      await storage.savePayment({
+        id: 'pay1',
+        payLinkId: link.id,
+        chainId: 1,
+        txHash: '0xpaid',
+        fromAddress: SAFE,
+        amount: '0.1',
+        confirmed: true,
+        createdAt: new Date(),
+      });
+
+      const { nonce } = await (await fetch(`${base}/pay/${link.id}/challenge?address=${SAFE}`)).json();
+      const res = await fetch(`${base}/pay/${link.id}?payer=${SAFE}&nonce=${nonce}&signature=0x${'ab'.repeat(130)}`, { redirect: 'manual' });
+
+      expect(res.status).toBe(302);
+      expect(node.calls).toEqual(['eth_getCode', 'eth_call']);
+    } finally {
+      await new Promise(resolve => listener.close(resolve));
+      await server.close();
+    }
+  });
+});
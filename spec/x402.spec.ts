@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  MemoryStorage,
+  createServer,
+  encodeX402Header,
+  type PaylinkConfig,
+  type PaylinkServer,
+  type X402PaymentPayload,
+  type X402PaymentRequired,
+} from '../lib/index.js';
+
+const FACILITATOR_URL = 'https://facilitator.test';
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+const PAYER = '0x2222222222222222222222222222222222222222';
+
+const decode = <T>(header: string | null): T => JSON.parse(Buffer.from(header!, 'base64').toString('utf8'));
+
+const payment = (network = 'base-sepolia'): X402PaymentPayload => ({
+  x402Version: 1,
+  scheme: 'exact',
+  network,
+  payload: { signature: '0xsigned', authorization: { from: PAYER, to: RECIPIENT, value: '1500000' } },
+});
+
+describe('x402', () => {
+  let server: PaylinkServer;
+  let storage: MemoryStorage;
+  let listener: Server;
+  let base: string;
+  let facilitatorCalls: Array<{ path: string; body: any }>;
+  let verification: Record<string, unknown>;
+  let facilitatorUp: boolean;
+
+  async function start(config: Partial<PaylinkConfig> = {}) {
+    storage = new MemoryStorage();
+    server = createServer({
+      chains: [
+        { chainId: 1, name: 'Ethereum', symbol: 'ETH', rpcUrl: 'mock' },
+        {
+          chainId: 84532,
+          name: 'Base Sepolia',
+          symbol: 'ETH',
+          rpcUrl: 'mock',
+          tokens: { USDC: { address: USDC, decimals: 6, eip712: { name: 'USDC', version: '2' } } },
+        },
+      ],
+      storage,
+      watcher: { enabled: false },
+      x402: { facilitatorUrl: FACILITATOR_URL },
+      ...config,
+    });
+    listener = server.getApp().listen(0);
+    await new Promise(resolve => listener.once('listening', resolve));
+    base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+  }
+
+  const createLink = (multiUse = false) => server.createPayLink({
+    targetUrl: 'https://example.com/report.pdf',
+    description: 'Report',
+    price: { amount: '1.5', tokenSymbol: 'USDC', chainId: 84532 },
+    paymentOptions: [
+      { amount: '0.001', tokenSymbol: 'ETH', chainId: 84532 },
+      { amount: '0.001', tokenSymbol: 'ETH', chainId: 1 },
+    ],
+    recipientAddress: RECIPIENT,
+    multiUse,
+  });
+
+  const get = (path: string, headers: Record<string, string> = {}) =>
+    fetch(`${base}${path}`, { redirect: 'manual', headers });
+
+  beforeEach(async () => {
+    facilitatorCalls = [];
+    verification = { isValid: true, payer: PAYER };
+    facilitatorUp = true;
+    const realFetch = globalThis.fetch;
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      if (!url.startsWith(FACILITATOR_URL)) return realFetch(url, init);
+      if (!facilitatorUp) throw new TypeError('fetch failed');
+      const path = url.slice(FACILITATOR_URL.length);
+      facilitatorCalls.push({ path, body: JSON.parse(String(init?.body)) });
+      if (path === '/verify') {
+        return new Response(JSON.stringify(verification));
+      }
+      return new Response(JSON.stringify({ success: true, transaction: '0xsettled', network: 'base-sepolia', payer: PAYER }));
+    }));
+    await start();
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+    vi.unstubAllGlobals();
+  });
+
+  it('should advertise token payment options as x402 requirements on 402 responses', async () => {
+    const link = await createLink();
+
+    const res = await get(`/pay/${link.id}`);
+    expect(res.status).toBe(402);
+    expect((await res.json()).protocol).toBe('402-paylink-v1');
+
+    const required = decode<X402PaymentRequired>(res.headers.get('payment-required'));
+    expect(required.x402Version).toBe(1);
+    // Native ETH options are not offered over x402
+    expect(required.accepts).toEqual([{
+      scheme: 'exact',
+      network: 'base-sepolia',
+      maxAmountRequired: '1500000',
+      resource: `http://localhost:3000/pay/${link.id}`,
+      description: 'Report',
+      mimeType: '',
+      payTo: RECIPIENT,
+      maxTimeoutSeconds: 900,
+      asset: USDC,
+      extra: { name: 'USDC', version: '2' },
+    }]);
+
+    const negotiated = await get(`/pay/${link.id}`, { 'X-Paylink-Protocol': 'x402' });
+    expect(negotiated.status).toBe(402);
+    expect(negotiated.headers.get('x-paylink-protocol')).toBe('x402');
+    expect(await negotiated.json()).toEqual({ ...required, error: 'Payment required' });
+  });
+
+  it('should settle an x402 payment, record it and deliver the target', async () => {
+    const link = await createLink();
+
+    const res = await get(`/pay/${link.id}`, { 'X-PAYMENT': encodeX402Header(payment()) });
+    expect(res.status).toBe(302);
+    expect(res.headers.get('location')).toBe('https://example.com/report.pdf');
+    expect(decode(res.headers.get('x-payment-response'))).toEqual({
+      success: true,
+      transaction: '0xsettled',
+      network: 'base-sepolia',
+      payer: PAYER,
+    });
+    expect(res.headers.get('set-cookie')).toContain('paylink_access=');
+
+    expect(facilitatorCalls.map(call => call.path)).toEqual(['/verify', '/settle']);
+    expect(facilitatorCalls[1].body).toMatchObject({
+      x402Version: 1,
+      paymentPayload: payment(),
+      paymentRequirements: { network: 'base-sepolia', maxAmountRequired: '1500000', payTo: RECIPIENT },
+    });
+
+    expect(await storage.getPaymentByTxHash('0xsettled')).toMatchObject({
+      payLinkId: link.id,
+      chainId: 84532,
+      fromAddress: PAYER,
+      amount: '1.5',
+      tokenSymbol: 'USDC',
+      confirmed: true,
+    });
+    expect((await storage.getPayLink(link.id))!.usedCount).toBe(1);
+  });
+
+  it('should grant multi-use access to the x402 payer without a sign-in proof', async () => {
+    const link = await createLink(true);
+
+    const res = await get(`/pay/${link.id}`, { 'PAYMENT-SIGNATURE': encodeX402Header(payment()) });
+    expect(res.status).toBe(302);
+    expect(await storage.getConfirmedPaymentByAddress(link.id, PAYER)).not.toBeNull();
+
+    const cookie = res.headers.get('set-cookie')!.split(';')[0];
+    expect((await get(`/pay/${link.id}`, { Cookie: cookie })).status).toBe(302);
+    expect(facilitatorCalls).toHaveLength(2);
+  });
+
+  it('should answer rejected payments with an x402 402 and record nothing', async () => {
+    const link = await createLink();
+    verification = { isValid: false, invalidReason: 'insufficient_funds' };
+
+    const rejected = await get(`/pay/${link.id}`, { 'X-PAYMENT': encodeX402Header(payment()) });
+    expect(rejected.status).toBe(402);
+    expect(await rejected.json()).toMatchObject({ x402Version: 1, error: 'insufficient_funds' });
+    expect(facilitatorCalls.map(call => call.path)).toEqual(['/verify']);
+
+    const malformed = await get(`/pay/${link.id}`, { 'X-PAYMENT': 'not base64 json' });
+    expect(await malformed.json()).toMatchObject({ error: 'Invalid payment header' });
+
+    const wrongNetwork = await get(`/pay/${link.id}`, { 'X-PAYMENT': encodeX402Header(payment('base')) });
+    expect(await wrongNetwork.json()).toMatchObject({ error: 'Unsupported payment scheme or network' });
+
+    expect(facilitatorCalls).toHaveLength(1);
+    expect(await storage.getConfirmedPayment(link.id)).toBeNull();
+  });
+
+  it('should ask for a retry when the facilitator is unreachable', async () => {
+    const link = await createLink();
+    facilitatorUp = false;
+
+    const res = await get(`/pay/${link.id}`, { 'X-PAYMENT': encodeX402Header(payment()) });
+    expect(res.status).toBe(503);
+    expect(await storage.getConfirmedPayment(link.id)).toBeNull();
+  });
+
+  it('should not speak x402 without a facilitator', async () => {
+    await new Promise(resolve => listener.close(resolve));
+    await server.close();
+    await start({ x402: {} });
+    const link = await createLink();
+
+    const res = await get(`/pay/${link.id}`, { 'X-Paylink-Protocol': 'x402' });
+    expect(res.status).toBe(402);
+    expect(res.headers.get('payment-required')).toBeNull();
+    expect((await res.json()).protocol).toBe('402-paylink-v1');
+  });
+});